@@ -1,43 +1,296 @@
-import React, { useState, useCallback } from 'react';
-import { summarizeLinkedInProfile } from './services/geminiService';
-import { LinkedInIcon, SparklesIcon } from './components/Icons';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { buildAnalysisPrompt, summarizeLinkedInProfile } from './services/geminiService';
+import { loadLLMSettings, saveLLMSettings, PROVIDER_LABELS, type LLMSettings } from './services/llm/llmProvider';
+import { createProvider } from './services/llm/createProvider';
+import { withRedaction } from './services/llm/redactingProvider';
+import { createPastedProfile, describeProfileSource, formatProfileDocument } from './services/profileDocument';
+import { loadOutputLanguage, saveOutputLanguage, OUTPUT_LANGUAGES } from './services/outputLanguage';
+import { loadRedactionSettings, profileOwnerName, saveRedactionSettings, type RedactionSettings } from './services/piiRedaction';
+import { fromHistoryEntry, type ComparisonCandidate } from './services/candidateComparison';
+import { activePromptTemplates, loadPromptTemplates, savePromptTemplates, setActiveTemplate, type PromptTemplateSettings } from './services/promptTemplates';
+import { buildClaimSource, claimKey, removeAnalysisClaim, verifyAnalysis } from './services/claimVerification';
+import { createHistoryEntry, defaultHistoryTitle, listHistory, updateHistoryEntry } from './services/historyStore';
+import type { CoverLetterDraft, GitHubProfile, HistoryEntry, LinkedInRewrite, OutputLanguage, PersonalInfo, ProfileAnalysis, ProfileDocument, ResumeTailoring, UnsupportedClaim } from './types';
+import { CogIcon, DocumentTextIcon, HistoryIcon, LinkedInIcon, SparklesIcon } from './components/Icons';
 import { SummaryDisplay } from './components/SummaryDisplay';
-import { LoadingSpinner } from './components/LoadingSpinner';
+import { LoadingSpinner, StreamingIndicator } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
 import { ResumeCreator } from './components/ResumeCreator';
+import { SettingsPanel } from './components/SettingsPanel';
+import { FileDropZone } from './components/FileDropZone';
+import { GitHubConnect } from './components/GitHubConnect';
+import { JobTailor } from './components/JobTailor';
+import { CoverLetterCreator } from './components/CoverLetterCreator';
+import { LinkedInOptimizer } from './components/LinkedInOptimizer';
+import { HistorySidebar } from './components/HistorySidebar';
+import { RedactionPreview } from './components/RedactionPreview';
+import { BatchAnalyzer } from './components/BatchAnalyzer';
+import { CandidateComparison } from './components/CandidateComparison';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { PromptComparison } from './components/PromptComparison';
 
 const App: React.FC = () => {
   const [profileText, setProfileText] = useState<string>('');
-  const [summary, setSummary] = useState<string | null>(null);
+  // Set when a LinkedIn PDF or data export was imported; takes precedence over the pasted text
+  const [importedProfile, setImportedProfile] = useState<ProfileDocument | null>(null);
+  const [githubProfile, setGitHubProfile] = useState<GitHubProfile | null>(null);
+  const [analysis, setAnalysis] = useState<ProfileAnalysis | null>(null);
+  const [isPartial, setIsPartial] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [view, setView] = useState<'form' | 'summary' | 'resume'>('form');
+  const [errorCause, setErrorCause] = useState<unknown>(null);
+  const [view, setView] = useState<'form' | 'summary' | 'tailor' | 'resume' | 'cover-letter' | 'linkedin' | 'batch' | 'compare' | 'prompts' | 'prompt-compare'>('form');
+  // Set from the job tailoring view; the next resume is generated against this posting
+  const [tailoring, setTailoring] = useState<ResumeTailoring | null>(null);
+  const [resume, setResume] = useState<string | null>(null);
+  const [personalInfo, setPersonalInfo] = useState<PersonalInfo | null>(null);
+  const [coverLetter, setCoverLetter] = useState<CoverLetterDraft | null>(null);
+  const [linkedInRewrite, setLinkedInRewrite] = useState<LinkedInRewrite | null>(null);
+  const [acceptedClaims, setAcceptedClaims] = useState<string[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // The history entry the current analysis was saved as
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(loadOutputLanguage);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(loadRedactionSettings);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateSettings>(loadPromptTemplates);
+  // Results of the last batch run that were sent to the comparison; batch results are not saved to the history
+  const [batchCandidates, setBatchCandidates] = useState<ComparisonCandidate[]>([]);
+  const [comparisonSelection, setComparisonSelection] = useState<string[]>([]);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const currentProfile = useMemo(() => importedProfile ?? createPastedProfile(profileText), [importedProfile, profileText]);
+
+  // Every request goes through redaction, so the resume, letters and rewrites never see the user's contact details either
+  const redaction = useMemo<RedactionSettings>(() => ({
+    ...redactionSettings,
+    knownNames: [profileOwnerName(currentProfile), personalInfo?.name ?? ''].filter(Boolean),
+  }), [redactionSettings, currentProfile, personalInfo]);
+
+  const baseProvider = useMemo(() => createProvider(llmSettings), [llmSettings]);
+  const provider = useMemo(() => withRedaction(baseProvider, redaction), [baseProvider, redaction]);
+  const activeTemplates = useMemo(() => activePromptTemplates(promptTemplates), [promptTemplates]);
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      const entries = await listHistory();
+      setHistory(entries);
+      setCurrentEntryId(prev => (prev && entries.some(entry => entry.id === prev) ? prev : null));
+    } catch (e) {
+      console.error('Could not load history:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  const handleSettingsChange = (settings: LLMSettings) => {
+    setLLMSettings(settings);
+    saveLLMSettings(settings);
+  };
+
+  const handleOutputLanguageChange = (language: OutputLanguage) => {
+    setOutputLanguage(language);
+    saveOutputLanguage(language);
+  };
+
+  const handleRedactionChange = (settings: RedactionSettings) => {
+    setRedactionSettings(settings);
+    saveRedactionSettings(settings);
+  };
+
+  const handlePromptTemplatesChange = (settings: PromptTemplateSettings) => {
+    setPromptTemplates(settings);
+    savePromptTemplates(settings);
+  };
 
   const handleAnalyze = useCallback(async () => {
-    if (!profileText.trim()) {
-      setError('Please paste your LinkedIn profile text.');
+    if (!importedProfile && !profileText.trim()) {
+      setError('Please paste your LinkedIn profile text or drop your LinkedIn PDF or data export.');
+      setErrorCause(null);
       return;
     }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let latest: ProfileAnalysis | null = null;
     setIsLoading(true);
-    setSummary(null);
+    setAnalysis(null);
+    setIsPartial(false);
+    setResume(null);
+    setPersonalInfo(null);
+    setCoverLetter(null);
+    setLinkedInRewrite(null);
+    setAcceptedClaims([]);
+    setCurrentEntryId(null);
     setError(null);
+    setErrorCause(null);
     setView('form');
     try {
-      const result = await summarizeLinkedInProfile(profileText);
-      setSummary(result);
+      const profile = importedProfile ?? createPastedProfile(profileText);
+      const result = await summarizeLinkedInProfile(profile, provider, {
+        signal: controller.signal,
+        github: githubProfile ?? undefined,
+        language: outputLanguage,
+        promptTemplate: activeTemplates.analysis,
+        onPartial: (partial) => {
+          latest = partial;
+          setAnalysis(partial);
+        },
+      });
+      setAnalysis(result);
       setView('summary');
+      // A storage failure should not cost the user the analysis they just received
+      createHistoryEntry({
+        title: defaultHistoryTitle({ profile, analysis: result }),
+        profile,
+        github: githubProfile,
+        analysis: result,
+        resume: null,
+        personalInfo: null,
+        tailoring,
+        coverLetter: null,
+        linkedInRewrite: null,
+        acceptedClaims: [],
+      })
+        .then(entry => {
+          setCurrentEntryId(entry.id);
+          return refreshHistory();
+        })
+        .catch(e => console.error('Could not save analysis to history:', e));
     } catch (e) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user cancelled
+        if (latest) {
+          setIsPartial(true);
+          setView('summary');
+        }
+        return;
+      }
       const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
       setError(`Failed to generate summary. ${errorMessage}`);
+      setErrorCause(e);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
-  }, [profileText]);
+  }, [profileText, importedProfile, githubProfile, outputLanguage, provider, activeTemplates, tailoring, refreshHistory]);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
   
+  const handleResumeChange = useCallback((result: string, info: PersonalInfo) => {
+    setResume(result);
+    setPersonalInfo(info);
+    if (!currentEntryId) return;
+    updateHistoryEntry(currentEntryId, { resume: result, personalInfo: info, tailoring })
+      .then(refreshHistory)
+      .catch(e => console.error('Could not save resume to history:', e));
+  }, [currentEntryId, tailoring, refreshHistory]);
+
+  const handleCoverLetterChange = useCallback((draft: CoverLetterDraft, info: PersonalInfo) => {
+    setCoverLetter(draft);
+    setPersonalInfo(info);
+    if (!currentEntryId) return;
+    updateHistoryEntry(currentEntryId, { coverLetter: draft, personalInfo: info })
+      .then(refreshHistory)
+      .catch(e => console.error('Could not save cover letter to history:', e));
+  }, [currentEntryId, refreshHistory]);
+
+  const handleLinkedInRewrite = useCallback((rewrite: LinkedInRewrite) => {
+    setLinkedInRewrite(rewrite);
+    if (!currentEntryId) return;
+    updateHistoryEntry(currentEntryId, { linkedInRewrite: rewrite })
+      .then(refreshHistory)
+      .catch(e => console.error('Could not save LinkedIn rewrite to history:', e));
+  }, [currentEntryId, refreshHistory]);
+
+  // The profile and GitHub data the analysis was generated from; every generated fact is checked against it
+  const claimSource = useMemo(
+    () => buildClaimSource(currentProfile, githubProfile),
+    [currentProfile, githubProfile]
+  );
+  const analysisClaims = useMemo(
+    () => (analysis && !isLoading && !isPartial ? verifyAnalysis(analysis, claimSource, acceptedClaims) : []),
+    [analysis, isLoading, isPartial, claimSource, acceptedClaims]
+  );
+
+  const handleAcceptClaim = useCallback((claim: UnsupportedClaim) => {
+    const next = [...acceptedClaims, claimKey(claim)];
+    setAcceptedClaims(next);
+    if (!currentEntryId) return;
+    updateHistoryEntry(currentEntryId, { acceptedClaims: next })
+      .then(refreshHistory)
+      .catch(e => console.error('Could not save accepted claims to history:', e));
+  }, [acceptedClaims, currentEntryId, refreshHistory]);
+
+  const handleRemoveAnalysisClaim = useCallback((claim: UnsupportedClaim) => {
+    if (!analysis) return;
+    const next = removeAnalysisClaim(analysis, claim);
+    setAnalysis(next);
+    if (!currentEntryId) return;
+    updateHistoryEntry(currentEntryId, { analysis: next })
+      .then(refreshHistory)
+      .catch(e => console.error('Could not save analysis to history:', e));
+  }, [analysis, currentEntryId, refreshHistory]);
+
+  const handleOpenEntry = (entry: HistoryEntry) => {
+    if (entry.profile.source === 'paste') {
+      setProfileText(entry.profile.rawText ?? '');
+      setImportedProfile(null);
+    } else {
+      setImportedProfile(entry.profile);
+    }
+    setGitHubProfile(entry.github);
+    setAnalysis(entry.analysis);
+    setResume(entry.resume);
+    setPersonalInfo(entry.personalInfo);
+    setTailoring(entry.tailoring);
+    // Entries saved before cover letters existed have no such field
+    setCoverLetter(entry.coverLetter ?? null);
+    setLinkedInRewrite(entry.linkedInRewrite ?? null);
+    setAcceptedClaims(entry.acceptedClaims ?? []);
+    setCurrentEntryId(entry.id);
+    setIsPartial(false);
+    setError(null);
+    setErrorCause(null);
+    setView('summary');
+    setShowHistory(false);
+  };
+
+  const comparisonCandidates = useMemo(() => [...batchCandidates, ...history.map(fromHistoryEntry)], [batchCandidates, history]);
+
+  const handleCompareHistory = () => {
+    setComparisonSelection(currentEntryId ? [currentEntryId] : []);
+    setView('compare');
+    setShowHistory(false);
+  };
+
+  const handleCompareBatch = (candidates: ComparisonCandidate[]) => {
+    setBatchCandidates(candidates);
+    setComparisonSelection(candidates.map(candidate => candidate.id));
+    setView('compare');
+  };
+
   const handleReset = () => {
     setProfileText('');
-    setSummary(null);
+    setImportedProfile(null);
+    setGitHubProfile(null);
+    setAnalysis(null);
+    setIsPartial(false);
+    setTailoring(null);
+    setResume(null);
+    setPersonalInfo(null);
+    setCoverLetter(null);
+    setLinkedInRewrite(null);
+    setAcceptedClaims([]);
+    setCurrentEntryId(null);
     setError(null);
+    setErrorCause(null);
     setView('form');
   }
 
@@ -54,61 +307,274 @@ const App: React.FC = () => {
           <p className="text-gray-400 text-lg">
             Let Gemini AI craft a professional summary & resume from your LinkedIn profile.
           </p>
+          <div className="mt-3 flex justify-center gap-4">
+            <button
+              onClick={() => setShowHistory(prev => !prev)}
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-purple-300 transition-colors"
+            >
+              <HistoryIcon className="h-4 w-4" />
+              <span>History ({history.length})</span>
+            </button>
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-purple-300 transition-colors"
+            >
+              <CogIcon className="h-4 w-4" />
+              <span>{PROVIDER_LABELS[llmSettings.provider]} &middot; {llmSettings.model}</span>
+            </button>
+            <button
+              onClick={() => setView('prompts')}
+              disabled={isLoading}
+              className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-purple-300 disabled:text-gray-700 transition-colors"
+            >
+              <DocumentTextIcon className="h-4 w-4" />
+              <span>Prompts</span>
+            </button>
+          </div>
         </header>
 
+        {showHistory && (
+          <HistorySidebar
+            entries={history}
+            activeId={currentEntryId}
+            onOpen={handleOpenEntry}
+            onCompare={handleCompareHistory}
+            onChanged={refreshHistory}
+            onClose={() => setShowHistory(false)}
+            disabled={isLoading}
+          />
+        )}
+
         <main className="space-y-8">
+          {showSettings && (
+            <SettingsPanel
+              settings={llmSettings}
+              onChange={handleSettingsChange}
+              onClose={() => setShowSettings(false)}
+            />
+          )}
+
           {view === 'form' && (
              <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-gray-700">
                 <div className="flex flex-col gap-4">
-                   <textarea
-                    value={profileText}
-                    onChange={(e) => setProfileText(e.target.value)}
-                    placeholder="Paste your LinkedIn profile text here...&#10;(Tip: Go to your profile > More > Save to PDF, then copy the text)"
-                    className="flex-grow bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none transition duration-200 min-h-[200px]"
+                  {importedProfile ? (
+                    <div className="bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 space-y-2">
+                      <div className="flex justify-between items-start gap-4">
+                        <div>
+                          <p className="text-lg text-white font-semibold">{importedProfile.name || 'Imported profile'}</p>
+                          <p className="text-sm text-gray-400">
+                            {describeProfileSource(importedProfile)}{importedProfile.fileName && ` (${importedProfile.fileName})`}: {importedProfile.positions.length} positions, {importedProfile.education.length} education entries, {importedProfile.skills.length} skills
+                          </p>
+                        </div>
+                        <button onClick={() => setImportedProfile(null)} disabled={isLoading} className="text-sm text-purple-400 hover:text-purple-300">
+                          Remove
+                        </button>
+                      </div>
+                      <details className="text-sm text-gray-400">
+                        <summary className="cursor-pointer hover:text-gray-300">Show extracted text</summary>
+                        <pre className="mt-2 whitespace-pre-wrap font-sans text-gray-300 max-h-64 overflow-y-auto">{formatProfileDocument(importedProfile)}</pre>
+                      </details>
+                    </div>
+                  ) : (
+                    <>
+                      <textarea
+                        value={profileText}
+                        onChange={(e) => setProfileText(e.target.value)}
+                        placeholder="Paste your LinkedIn profile text here...&#10;(Tip: dropping the PDF from your profile > More > Save to PDF below keeps its structure intact)"
+                        className="flex-grow bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none transition duration-200 min-h-[200px]"
+                        disabled={isLoading}
+                      />
+                      <FileDropZone onImport={setImportedProfile} disabled={isLoading} />
+                    </>
+                  )}
+                  <GitHubConnect profile={githubProfile} onChange={setGitHubProfile} disabled={isLoading} />
+                  <label className="flex items-center justify-between gap-3 text-sm text-gray-400">
+                    <span>Write the analysis, resume and letters in</span>
+                    <select
+                      value={outputLanguage}
+                      onChange={(e) => handleOutputLanguageChange(e.target.value as OutputLanguage)}
+                      disabled={isLoading}
+                      className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                    >
+                      {(Object.keys(OUTPUT_LANGUAGES) as OutputLanguage[]).map(language => (
+                        <option key={language} value={language}>{OUTPUT_LANGUAGES[language].label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <RedactionPreview
+                    prompt={importedProfile || profileText.trim() ? buildAnalysisPrompt(currentProfile, outputLanguage, githubProfile ?? undefined, activeTemplates.analysis) : ''}
+                    settings={redaction}
+                    onChange={handleRedactionChange}
                     disabled={isLoading}
                   />
                   <button
                     onClick={handleAnalyze}
-                    disabled={isLoading || !profileText.trim()}
+                    disabled={isLoading || (!importedProfile && !profileText.trim())}
                     className="flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-all duration-200 transform hover:scale-105 shadow-md"
                   >
                     <SparklesIcon className="h-5 w-5" />
                     <span>{isLoading ? 'Analyzing...' : 'Analyze Profile'}</span>
                   </button>
+                  <button onClick={() => setView('batch')} disabled={isLoading} className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-600">
+                    Analyzing a whole candidate slate? Use batch mode
+                  </button>
                 </div>
               </div>
           )}
           
           <div className="min-h-[300px]">
-            {isLoading && <LoadingSpinner />}
-            {error && <ErrorMessage message={error} />}
+            {isLoading && !analysis && <LoadingSpinner onCancel={handleCancel} />}
+            {isLoading && analysis && <StreamingIndicator onCancel={handleCancel} />}
+            {error && <ErrorMessage message={error} error={errorCause} onRetry={errorCause ? handleAnalyze : undefined} />}
 
-            {view === 'summary' && summary && (
+            {(view === 'summary' || isLoading) && analysis && (
               <div className="animate-fade-in-up">
                  <SummaryDisplay 
-                   summary={summary}
+                   analysis={analysis}
+                   isStreaming={isLoading}
+                   isPartial={isPartial}
                    onCraftResume={() => setView('resume')}
+                   onTailor={() => setView('tailor')}
+                   onCoverLetter={() => setView('cover-letter')}
+                   onRewriteLinkedIn={() => setView('linkedin')}
+                   claims={analysisClaims}
+                   claimActions={{ source: claimSource, onAccept: handleAcceptClaim, onRemove: handleRemoveAnalysisClaim }}
                   />
               </div>
             )}
             
-            {view === 'resume' && summary && (
+            {view === 'tailor' && analysis && (
+              <div className="animate-fade-in-up">
+                 <JobTailor
+                    analysis={analysis}
+                    provider={provider}
+                    initialJobDescription={tailoring?.jobDescription}
+                    onTailorResume={(result) => {
+                      setTailoring(result);
+                      setView('resume');
+                    }}
+                    onBack={() => setView('summary')}
+                  />
+              </div>
+            )}
+
+            {/* Not keyed on the history entry: saving it finishes after the analysis and would remount the views below, losing
+                their work. Opening an entry or analyzing again switches to another view, so they always start from its drafts. */}
+            {view === 'resume' && analysis && (
               <div className="animate-fade-in-up">
                  <ResumeCreator
-                    analysisText={summary}
+                    analysis={analysis}
+                    profile={currentProfile}
+                    provider={provider}
+                    github={githubProfile}
+                    tailoring={tailoring}
+                    language={outputLanguage}
+                    promptTemplate={activeTemplates.resume}
+                    claimSource={claimSource}
+                    acceptedClaims={acceptedClaims}
+                    onAcceptClaim={handleAcceptClaim}
+                    onClearTailoring={() => setTailoring(null)}
+                    initialResume={resume}
+                    initialPersonalInfo={personalInfo}
+                    onResumeChange={handleResumeChange}
+                    onBack={() => setView('summary')}
+                  />
+              </div>
+            )}
+
+            {view === 'cover-letter' && analysis && (
+              <div className="animate-fade-in-up">
+                 <CoverLetterCreator
+                    analysis={analysis}
+                    profile={currentProfile}
+                    provider={provider}
+                    github={githubProfile}
+                    tailoring={tailoring}
+                    language={outputLanguage}
+                    initialDraft={coverLetter}
+                    initialPersonalInfo={personalInfo}
+                    onDraftChange={handleCoverLetterChange}
                     onBack={() => setView('summary')}
                   />
               </div>
             )}
 
-             {view === 'form' && !isLoading && !error && !summary && (
+            {view === 'linkedin' && analysis && (
+              <div className="animate-fade-in-up">
+                 <LinkedInOptimizer
+                    profile={currentProfile}
+                    analysis={analysis}
+                    provider={provider}
+                    language={outputLanguage}
+                    initialRewrite={linkedInRewrite}
+                    onRewrite={handleLinkedInRewrite}
+                    onBack={() => setView('summary')}
+                  />
+              </div>
+            )}
+
+            {view === 'batch' && (
+              <div className="animate-fade-in-up">
+                 <BatchAnalyzer
+                    provider={baseProvider}
+                    redaction={redactionSettings}
+                    language={outputLanguage}
+                    promptTemplates={activeTemplates}
+                    onCompare={handleCompareBatch}
+                    onBack={() => setView(analysis ? 'summary' : 'form')}
+                  />
+              </div>
+            )}
+
+            {view === 'compare' && (
+              <div className="animate-fade-in-up">
+                 <CandidateComparison
+                    key={comparisonSelection.join(',')}
+                    candidates={comparisonCandidates}
+                    initialSelection={comparisonSelection}
+                    provider={provider}
+                    onBack={() => setView(analysis ? 'summary' : 'form')}
+                  />
+              </div>
+            )}
+
+            {view === 'prompts' && (
+              <div className="animate-fade-in-up">
+                 <PromptTemplateEditor
+                    settings={promptTemplates}
+                    onChange={handlePromptTemplatesChange}
+                    onCompare={importedProfile || profileText.trim() ? () => setView('prompt-compare') : undefined}
+                    onBack={() => setView(analysis ? 'summary' : 'form')}
+                  />
+              </div>
+            )}
+
+            {view === 'prompt-compare' && (
+              <div className="animate-fade-in-up">
+                 <PromptComparison
+                    profile={currentProfile}
+                    analysis={analysis}
+                    personalInfo={personalInfo}
+                    github={githubProfile}
+                    language={outputLanguage}
+                    llmSettings={llmSettings}
+                    redaction={redaction}
+                    templates={promptTemplates}
+                    onUseTemplate={(kind, id) => handlePromptTemplatesChange(setActiveTemplate(promptTemplates, kind, id))}
+                    onUseModel={handleSettingsChange}
+                    onBack={() => setView('prompts')}
+                  />
+              </div>
+            )}
+
+             {view === 'form' && !isLoading && !error && !analysis && (
                 <div className="text-center text-gray-500 pt-16">
                     <p>Your professional analysis will appear here.</p>
                 </div>
             )}
           </div>
           
-          {view !== 'form' && !isLoading && (
+          {(view === 'summary' || view === 'tailor' || view === 'resume' || view === 'cover-letter' || view === 'linkedin') && !isLoading && (
             <div className="text-center">
               <button onClick={handleReset} className="text-purple-400 hover:text-purple-300 transition-colors">
                 Start Over
@@ -119,7 +585,7 @@ const App: React.FC = () => {
         </main>
       </div>
        <footer className="text-center mt-auto pt-8 text-gray-600 text-sm">
-        <p>Powered by Gemini API. Analyzes the text you provide.</p>
+        <p>Powered by {PROVIDER_LABELS[llmSettings.provider]}. Analyzes the text you provide.</p>
       </footer>
     </div>
   );
@@ -0,0 +1,304 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { createResumeFromAnalysis, summarizeLinkedInProfile } from '../services/geminiService';
+import type { LLMProvider } from '../services/llm/llmProvider';
+import { withRedaction } from '../services/llm/redactingProvider';
+import { profileOwnerName, type RedactionSettings } from '../services/piiRedaction';
+import { ACCEPTED_PROFILE_FILES, importProfileFile } from '../services/profileImport';
+import {
+  candidateContact,
+  candidateName,
+  createBatchItem,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  runWithConcurrency,
+  splitPastedProfiles,
+  toBatchCsv,
+  toBatchZip,
+  topSkills,
+  type BatchItem,
+  type BatchStatus,
+} from '../services/batchAnalysis';
+import type { ExportFormat } from '../services/download';
+import type { ComparisonCandidate } from '../services/candidateComparison';
+import type { PromptTemplateKind } from '../services/promptTemplates';
+import type { OutputLanguage } from '../types';
+import { ExportMenu } from './ExportMenu';
+import { SparklesIcon, UploadIcon } from './Icons';
+
+interface BatchAnalyzerProps {
+  // The provider without redaction; each profile gets its own redaction so its owner's name is known
+  provider: LLMProvider;
+  redaction: RedactionSettings;
+  language?: OutputLanguage;
+  // The analysis and resume prompts in use, see promptTemplates
+  promptTemplates?: Record<PromptTemplateKind, string>;
+  onCompare: (candidates: ComparisonCandidate[]) => void;
+  onBack: () => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-700 text-gray-300' },
+  running: { label: 'Analyzing', className: 'bg-purple-900/60 text-purple-200 animate-pulse' },
+  done: { label: 'Done', className: 'bg-green-900/50 text-green-300' },
+  failed: { label: 'Failed', className: 'bg-red-900/50 text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-yellow-900/40 text-yellow-200' },
+};
+
+// Items that still need a run: never started, stopped by the user, or failed
+const isPending = (item: BatchItem): boolean => item.status !== 'done' && item.status !== 'running';
+
+export const BatchAnalyzer: React.FC<BatchAnalyzerProps> = ({ provider, redaction, language, promptTemplates, onCompare, onBack }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [pastedText, setPastedText] = useState<string>('');
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_CONCURRENCY);
+  const [withResumes, setWithResumes] = useState<boolean>(false);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const handleAddPasted = () => {
+    const profiles = splitPastedProfiles(pastedText);
+    setItems(prev => {
+      const pastedCount = prev.filter(item => item.profile.source === 'paste').length;
+      return [...prev, ...profiles.map((profile, i) => createBatchItem(profile, `Pasted profile ${pastedCount + i + 1}`))];
+    });
+    setPastedText('');
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsReading(true);
+    setImportErrors([]);
+    const added: BatchItem[] = [];
+    const errors: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        added.push(createBatchItem(await importProfileFile(file), file.name));
+      } catch (e) {
+        errors.push(`${file.name}: ${e instanceof Error ? e.message : 'The file could not be read.'}`);
+      }
+    }
+    setItems(prev => [...prev, ...added]);
+    setImportErrors(errors);
+    setIsReading(false);
+  };
+
+  const handleRun = useCallback(async () => {
+    const pending = items.filter(isPending);
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setItems(prev => prev.map(item => (isPending(item) ? { ...item, status: 'queued', error: null } : item)));
+    try {
+      await runWithConcurrency(pending, concurrency, async (item: BatchItem) => {
+        updateItem(item.id, { status: 'running' });
+        try {
+          const itemProvider = withRedaction(provider, { ...redaction, knownNames: [profileOwnerName(item.profile)].filter(Boolean) });
+          const analysis = await summarizeLinkedInProfile(item.profile, itemProvider, { signal: controller.signal, language, promptTemplate: promptTemplates?.analysis });
+          updateItem(item.id, { analysis });
+          const resume = withResumes
+            ? await createResumeFromAnalysis(analysis, candidateContact(item.profile), itemProvider, { signal: controller.signal, language, promptTemplate: promptTemplates?.resume })
+            : null;
+          updateItem(item.id, { status: 'done', resume });
+        } catch (e) {
+          if (controller.signal.aborted) {
+            updateItem(item.id, { status: 'cancelled' });
+            return;
+          }
+          console.error(`Could not analyze ${item.label}:`, e);
+          updateItem(item.id, { status: 'failed', error: e instanceof Error ? e.message : 'An unknown error occurred.' });
+        }
+      }, controller.signal);
+    } finally {
+      // Anything the queue never reached counts as cancelled
+      if (controller.signal.aborted) {
+        setItems(prev => prev.map(item => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+      }
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [items, concurrency, provider, redaction, language, promptTemplates, withResumes]);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const pendingCount = items.filter(isPending).length;
+  const finishedCount = items.filter(item => item.status !== 'queued' && item.status !== 'running').length;
+
+  const date = new Date().toISOString().slice(0, 10);
+  const exportFormats: ExportFormat[] = [
+    {
+      id: 'zip',
+      label: 'ZIP',
+      hint: 'A folder per candidate with the analysis (Markdown and JSON) and the resume, plus the CSV summary',
+      fileName: `candidates-${date}.zip`,
+      build: () => toBatchZip(items),
+    },
+    {
+      id: 'csv',
+      label: 'CSV summary',
+      hint: 'Name, top skills, suggested roles and years of experience, one row per candidate',
+      fileName: `candidates-${date}.csv`,
+      build: () => new Blob([toBatchCsv(items)], { type: 'text/csv;charset=utf-8' }),
+    },
+  ];
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold text-purple-300">Batch Analysis</h2>
+        <button onClick={onBack} disabled={isRunning} className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-600">&larr; Back</button>
+      </div>
+
+      <div className="space-y-3">
+        <textarea
+          value={pastedText}
+          onChange={(e) => setPastedText(e.target.value)}
+          placeholder="Paste one or more profiles here, separated by a line containing only ---"
+          className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none min-h-[140px]"
+          disabled={isRunning}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleAddPasted}
+            disabled={isRunning || !pastedText.trim()}
+            className="bg-gray-700 text-white text-sm font-semibold px-4 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add pasted profiles
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning || isReading}
+            className="inline-flex items-center gap-2 bg-gray-700 text-white text-sm font-semibold px-4 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <UploadIcon className="h-4 w-4" />
+            <span>{isReading ? 'Reading files...' : 'Add PDFs or data exports'}</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_PROFILE_FILES}
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {importErrors.length > 0 && (
+          <ul className="text-sm text-red-300 space-y-1">
+            {importErrors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-400">
+            <span>
+              {items.length === 1 ? '1 profile' : `${items.length} profiles`} &middot; {doneCount} done{failedCount > 0 && `, ${failedCount} failed`}
+            </span>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2">
+                <span>At once</span>
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  disabled={isRunning}
+                  className="bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                >
+                  {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={withResumes} onChange={(e) => setWithResumes(e.target.checked)} disabled={isRunning} className="accent-purple-500" />
+                <span>Also write resumes</span>
+              </label>
+            </div>
+          </div>
+
+          {isRunning && (
+            <div className="h-2 bg-gray-700 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={items.length} aria-valuenow={finishedCount}>
+              <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${(finishedCount / items.length) * 100}%` }} />
+            </div>
+          )}
+
+          <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg">
+            {items.map(item => (
+              <li key={item.id} className="px-4 py-3 flex items-start gap-3">
+                <div className="flex-grow min-w-0">
+                  <p className="text-gray-200 font-semibold truncate">{candidateName(item)}</p>
+                  <p className="text-xs text-gray-500 truncate">{item.label}</p>
+                  {item.analysis && (
+                    <p className="mt-1 text-sm text-gray-400 truncate">
+                      {[topSkills(item.analysis, 3).join(', '), item.analysis.suggestedRoles[0]?.title].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  {item.error && <p className="mt-1 text-sm text-red-300">{item.error}</p>}
+                </div>
+                <span className={`text-xs font-semibold px-2 py-1 rounded-full flex-shrink-0 ${STATUS_STYLES[item.status].className}`}>
+                  {STATUS_STYLES[item.status].label}
+                </span>
+                <button
+                  onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))}
+                  disabled={isRunning}
+                  className="text-sm text-gray-500 hover:text-red-300 disabled:opacity-40 flex-shrink-0"
+                  title="Remove from the batch"
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {isRunning ? (
+              <button onClick={handleCancel} className="bg-gray-700 text-white font-semibold px-6 py-3 rounded-lg hover:bg-gray-600 transition-colors">
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={pendingCount === 0}
+                className="flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-colors shadow-md"
+              >
+                <SparklesIcon className="h-5 w-5" />
+                <span>{doneCount > 0 && pendingCount > 0 ? `Analyze remaining ${pendingCount}` : `Analyze ${pendingCount === 1 ? '1 profile' : `${pendingCount} profiles`}`}</span>
+              </button>
+            )}
+            {!isRunning && (
+              <button onClick={() => setItems([])} className="text-sm text-purple-400 hover:text-purple-300">
+                Clear all
+              </button>
+            )}
+          </div>
+
+          {doneCount > 0 && !isRunning && (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <ExportMenu formats={exportFormats} />
+              {doneCount >= 2 && (
+                <button
+                  onClick={() => onCompare(items.filter(item => item.analysis).map(item => ({ id: item.id, name: candidateName(item), analysis: item.analysis! })))}
+                  className="text-sm font-semibold text-purple-400 hover:text-purple-300"
+                >
+                  Compare these candidates &rarr;
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
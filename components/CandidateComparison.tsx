@@ -0,0 +1,361 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import type { EvidenceLevel, JobDescriptionAnalysis } from '../types';
+import type { LLMProvider } from '../services/llm/llmProvider';
+import { analyzeJobDescription } from '../services/geminiService';
+import {
+  compareCandidates,
+  comparisonToCsv,
+  SENIORITY_LABELS,
+  type CandidateComparison as Comparison,
+  type ComparisonCandidate,
+  type SkillEvidence,
+} from '../services/candidateComparison';
+import { toMonthIndex } from '../services/careerTimeline';
+import type { ExportFormat } from '../services/download';
+import { ExportMenu } from './ExportMenu';
+import { CareerTimelineChart } from './CareerCharts';
+import { printReport, renderPrintableReport } from './PrintableReport';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+import { PrinterIcon, TargetIcon } from './Icons';
+
+interface CandidateComparisonProps {
+  // Every analysis that can be compared; the user picks two or more
+  candidates: ComparisonCandidate[];
+  initialSelection?: string[];
+  provider: LLMProvider;
+  onBack: () => void;
+}
+
+const VISIBLE_SKILLS = 30;
+
+const EVIDENCE_MARKS: Record<SkillEvidence, { mark: string; title: string }> = {
+  demonstrated: { mark: '●', title: 'Used in a role' },
+  listed: { mark: '○', title: 'Listed as a skill' },
+};
+
+const LEVEL_MARKS: Record<EvidenceLevel, { mark: string; className: string }> = {
+  strong: { mark: '✓', className: 'text-green-400' },
+  weak: { mark: '~', className: 'text-yellow-400' },
+  missing: { mark: '✗', className: 'text-red-400' },
+};
+
+const scoreColor = (score: number): string =>
+  score >= 75 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+const formatYears = (years: number | null): string => (years === null ? 'Unknown' : `${years} years`);
+
+// Every candidate's roles on one shared time axis
+const CareerTimelines: React.FC<{ comparison: Comparison }> = ({ comparison }) => {
+  const spans = comparison.candidates.flatMap(profile => profile.spans);
+  if (spans.length === 0) return <p className="text-sm text-gray-500">None of the roles have readable dates.</p>;
+  const range = { start: Math.min(...spans.map(span => span.start)), end: Math.max(toMonthIndex(new Date()) + 1, ...spans.map(span => span.end)) };
+  return (
+    <div className="space-y-4">
+      {comparison.candidates.map(profile => (
+        <div key={profile.candidate.id} className="keep">
+          <h3 className="text-sm text-gray-300 font-semibold">{profile.candidate.name}</h3>
+          <CareerTimelineChart spans={profile.spans} range={range} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ReportTable: React.FC<{ head: React.ReactNode[]; rows: React.ReactNode[][] }> = ({ head, rows }) => (
+  <table>
+    <thead><tr>{head.map((cell, i) => <th key={i}>{cell}</th>)}</tr></thead>
+    <tbody>{rows.map((row, i) => <tr key={i}>{row.map((cell, j) => <td key={j}>{cell}</td>)}</tr>)}</tbody>
+  </table>
+);
+
+// Plain tables for the print window, without the app's dark theme
+const ComparisonReport: React.FC<{ comparison: Comparison }> = ({ comparison: { candidates, skills, job } }) => {
+  const names = candidates.map(profile => profile.candidate.name);
+  return (
+    <div>
+      <h1>Candidate Comparison{job?.jobTitle && `: ${job.jobTitle}`}{job?.company && ` at ${job.company}`}</h1>
+      <p className="muted">{new Date().toLocaleDateString(undefined, { dateStyle: 'long' })}. Years and seniority are estimates from the role dates and titles.</p>
+      <h2>Ranking</h2>
+      <ReportTable
+        head={['#', 'Candidate', ...(job ? ['Match'] : []), 'Experience', 'Seniority']}
+        rows={candidates.map((profile, i) => [
+          i + 1,
+          profile.candidate.name,
+          ...(job ? [`${profile.match?.score ?? 0}%`] : []),
+          formatYears(profile.years),
+          SENIORITY_LABELS[profile.seniority],
+        ])}
+      />
+      {job && (
+        <>
+          <h2>Requirements</h2>
+          <ReportTable
+            head={['Requirement', ...names]}
+            rows={job.requirements.map((requirement, i) => [
+              `${requirement.requirement} (${requirement.importance})`,
+              ...candidates.map(profile => {
+                const level = profile.match?.matches[i]?.level;
+                return level ? LEVEL_MARKS[level].mark : '';
+              }),
+            ])}
+          />
+        </>
+      )}
+      <h2>Skills</h2>
+      <p className="muted">● used in a role, ○ listed as a skill</p>
+      <ReportTable
+        head={['Skill', ...names]}
+        rows={skills.map(row => [row.skill, ...row.cells.map(cell => (cell ? EVIDENCE_MARKS[cell].mark : ''))])}
+      />
+      <h2>Careers</h2>
+      <CareerTimelines comparison={{ candidates, skills, job }} />
+    </div>
+  );
+};
+
+const renderPrintableComparison = (comparison: Comparison): Promise<string> =>
+  renderPrintableReport('Candidate Comparison', <ComparisonReport comparison={comparison} />);
+
+export const CandidateComparison: React.FC<CandidateComparisonProps> = ({ candidates, initialSelection = [], provider, onBack }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialSelection);
+  const [jobDescription, setJobDescription] = useState<string>('');
+  const [job, setJob] = useState<JobDescriptionAnalysis | null>(null);
+  const [showAllSkills, setShowAllSkills] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCause, setErrorCause] = useState<unknown>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const selected = useMemo(() => candidates.filter(candidate => selectedIds.includes(candidate.id)), [candidates, selectedIds]);
+  const comparison = useMemo(() => (selected.length >= 2 ? compareCandidates(selected, job) : null), [selected, job]);
+
+  const toggleCandidate = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]));
+  };
+
+  const handleRank = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setErrorCause(null);
+    try {
+      setJob(await analyzeJobDescription(jobDescription, provider, { signal: controller.signal }));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setError(`Failed to analyze the job description. ${errorMessage}`);
+      setErrorCause(e);
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  }, [jobDescription, provider]);
+
+  const handlePrint = () => {
+    if (!comparison) return;
+    // Opened here, within the click, so popup blockers allow it; printReport fills it once the report is rendered
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printReport(printWindow, renderPrintableComparison(comparison)).catch((e) => {
+      console.error('Could not print the comparison:', e);
+      setError('Could not prepare the comparison for printing. Check your connection and try again.');
+      setErrorCause(null);
+    });
+  };
+
+  const exportFormats: ExportFormat[] = comparison ? [{
+    id: 'csv',
+    label: 'CSV',
+    hint: 'Ranking, skill matrix and requirement matrix in one spreadsheet',
+    fileName: `candidate-comparison-${new Date().toISOString().slice(0, 10)}.csv`,
+    build: () => new Blob([comparisonToCsv(comparison)], { type: 'text/csv;charset=utf-8' }),
+  }] : [];
+
+  const visibleSkills = comparison ? (showAllSkills ? comparison.skills : comparison.skills.slice(0, VISIBLE_SKILLS)) : [];
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-8">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold text-purple-300">Compare Candidates</h2>
+        <button onClick={onBack} className="text-sm text-purple-400 hover:text-purple-300">&larr; Back</button>
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold text-gray-200">Candidates</h3>
+        {candidates.length < 2 ? (
+          <p className="text-sm text-gray-500">Analyze at least two profiles, one at a time or in batch mode, to compare them.</p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {candidates.map(candidate => (
+              <li key={candidate.id}>
+                <label className="flex items-start gap-2 bg-gray-900/60 border border-gray-700 rounded-lg px-3 py-2 cursor-pointer hover:border-purple-600">
+                  <input type="checkbox" checked={selectedIds.includes(candidate.id)} onChange={() => toggleCandidate(candidate.id)} className="mt-1 accent-purple-500" />
+                  <span className="min-w-0">
+                    <span className="block text-gray-200 truncate">{candidate.name}</span>
+                    <span className="block text-xs text-gray-500 truncate">{candidate.analysis.experience[0] ? `${candidate.analysis.experience[0].title} at ${candidate.analysis.experience[0].company}` : 'No roles'}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-lg font-semibold text-gray-200">Rank against a job <span className="text-sm font-normal text-gray-500">(optional)</span></h3>
+        <textarea
+          value={jobDescription}
+          onChange={(e) => setJobDescription(e.target.value)}
+          placeholder="Paste the job description here..."
+          disabled={isLoading}
+          className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none min-h-[100px]"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleRank}
+            disabled={isLoading || !jobDescription.trim()}
+            className="flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-colors"
+          >
+            <TargetIcon className="h-5 w-5" />
+            <span>{job ? 'Re-rank' : 'Rank Candidates'}</span>
+          </button>
+          {job && (
+            <button onClick={() => setJob(null)} className="text-sm text-purple-400 hover:text-purple-300">
+              Clear job{job.jobTitle && ` (${job.jobTitle})`}
+            </button>
+          )}
+        </div>
+        {isLoading && <LoadingSpinner onCancel={() => abortControllerRef.current?.abort()} />}
+        {error && <ErrorMessage message={error} error={errorCause} onRetry={errorCause ? handleRank : undefined} />}
+      </section>
+
+      {comparison && (
+        <div className="space-y-8 animate-fade-in-up">
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold text-gray-200">Ranking</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs uppercase tracking-wide text-gray-500 border-b border-gray-700">
+                  <tr>
+                    <th className="py-2 pr-3">#</th>
+                    <th className="py-2 pr-3">Candidate</th>
+                    {job && <th className="py-2 pr-3">Match</th>}
+                    <th className="py-2 pr-3">Experience</th>
+                    <th className="py-2 pr-3">Seniority (estimate)</th>
+                    <th className="py-2">Roles</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700/60">
+                  {comparison.candidates.map((profile, i) => (
+                    <tr key={profile.candidate.id} className="text-gray-300">
+                      <td className="py-2 pr-3 text-gray-500">{i + 1}</td>
+                      <td className="py-2 pr-3 font-semibold text-gray-200">{profile.candidate.name}</td>
+                      {job && <td className={`py-2 pr-3 font-bold ${scoreColor(profile.match?.score ?? 0)}`}>{profile.match?.score ?? 0}%</td>}
+                      <td className="py-2 pr-3">{formatYears(profile.years)}</td>
+                      <td className="py-2 pr-3" title={profile.seniorityBasis}>{SENIORITY_LABELS[profile.seniority]}</td>
+                      <td className="py-2">{profile.candidate.analysis.experience.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500">
+              Years count overlapping roles once. Seniority is estimated from the years and the latest job title; hover it to see the basis.
+              {job && ' The match score weights required items twice as much as preferred ones.'}
+            </p>
+          </section>
+
+          {job && (
+            <section className="space-y-3">
+              <h3 className="text-lg font-semibold text-gray-200">Requirements</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-gray-500 border-b border-gray-700">
+                    <tr>
+                      <th className="py-2 pr-3 font-normal uppercase tracking-wide">Requirement</th>
+                      {comparison.candidates.map(profile => <th key={profile.candidate.id} className="py-2 px-2 text-center font-semibold text-gray-300">{profile.candidate.name}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700/60">
+                    {job.requirements.map((requirement, i) => (
+                      <tr key={i} className="text-gray-300">
+                        <td className="py-1.5 pr-3">
+                          {requirement.requirement}
+                          <span className="ml-2 text-xs uppercase tracking-wide text-gray-500">{requirement.importance}</span>
+                        </td>
+                        {comparison.candidates.map(profile => {
+                          const match = profile.match?.matches[i];
+                          return (
+                            <td key={profile.candidate.id} className={`py-1.5 px-2 text-center font-bold ${match ? LEVEL_MARKS[match.level].className : ''}`} title={match?.evidence.join(' · ')}>
+                              {match && LEVEL_MARKS[match.level].mark}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <div className="flex flex-wrap justify-between items-baseline gap-2">
+              <h3 className="text-lg font-semibold text-gray-200">Skill Matrix</h3>
+              <span className="text-xs text-gray-500">● used in a role &middot; ○ listed as a skill</span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-gray-500 border-b border-gray-700">
+                  <tr>
+                    <th className="py-2 pr-3 font-normal uppercase tracking-wide">Skill</th>
+                    {comparison.candidates.map(profile => <th key={profile.candidate.id} className="py-2 px-2 text-center font-semibold text-gray-300">{profile.candidate.name}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700/60">
+                  {visibleSkills.map(row => (
+                    <tr key={`${row.kind}:${row.skill}`} className="text-gray-300">
+                      <td className="py-1.5 pr-3">
+                        {row.skill}
+                        {row.kind === 'competency' && <span className="ml-2 text-xs uppercase tracking-wide text-gray-500">competency</span>}
+                      </td>
+                      {row.cells.map((cell, i) => (
+                        <td key={i} className="py-1.5 px-2 text-center text-purple-300" title={cell ? EVIDENCE_MARKS[cell].title : undefined}>
+                          {cell && EVIDENCE_MARKS[cell].mark}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {comparison.skills.length > VISIBLE_SKILLS && (
+              <button onClick={() => setShowAllSkills(prev => !prev)} className="text-sm text-purple-400 hover:text-purple-300">
+                {showAllSkills ? 'Show fewer' : `Show all ${comparison.skills.length} skills`}
+              </button>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold text-gray-200">Career Timelines</h3>
+            <CareerTimelines comparison={comparison} />
+          </section>
+
+          <div className="flex flex-wrap items-center gap-4 pt-4 border-t border-gray-700">
+            <ExportMenu formats={exportFormats} />
+            <button onClick={handlePrint} className="flex items-center gap-2 bg-gray-600 text-white text-sm font-semibold px-3 py-1.5 rounded-lg hover:bg-gray-700 transition-colors">
+              <PrinterIcon className="h-4 w-4" />
+              <span>Print report</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!comparison && candidates.length >= 2 && (
+        <p className="text-center text-gray-500">Select at least two candidates to compare them.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import type { ProfileAnalysis } from '../types';
+import {
+  careerGaps,
+  careerOverlaps,
+  careerSpans,
+  formatMonthIndex,
+  skillUsage,
+  toMonthIndex,
+  yearsOfExperience,
+  type CareerSpan,
+  type MonthRange,
+  type SkillUsage,
+} from '../services/careerTimeline';
+import { printReport, renderPrintableReport } from './PrintableReport';
+import { PrinterIcon } from './Icons';
+
+// The charts draw text in currentColor, so they read on the dark app and on white paper alike
+const CHART_WIDTH = 720;
+const LABEL_WIDTH = 220;
+const ROW_HEIGHT = 24;
+const AXIS_HEIGHT = 22;
+const BAR_COLOR = '#8b5cf6';
+const ONGOING_COLOR = '#c084fc';
+const GAP_COLOR = '#ef4444';
+const OVERLAP_COLOR = '#f59e0b';
+
+const truncate = (text: string, length: number): string => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const formatMonths = (months: number): string => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [years > 0 && `${years} yr${years === 1 ? '' : 's'}`, rest > 0 && `${rest} mo`].filter(Boolean).join(' ');
+};
+
+// Year ticks at a step that keeps the labels apart
+const yearTicks = (first: number, last: number): number[] => {
+  const firstYear = Math.ceil(first / 12);
+  const lastYear = Math.floor(last / 12);
+  const span = lastYear - firstYear;
+  const step = span <= 12 ? 1 : span <= 24 ? 2 : 5;
+  const ticks: number[] = [];
+  for (let year = firstYear; year <= lastYear; year += 1) {
+    if (year % step === 0) ticks.push(year);
+  }
+  return ticks;
+};
+
+interface CareerTimelineChartProps {
+  spans: CareerSpan[];
+  // Shared axis when several timelines are shown together
+  range?: MonthRange;
+  now?: Date;
+}
+
+// Gantt chart of the roles, oldest first, with gaps and overlaps shaded behind the bars
+export const CareerTimelineChart: React.FC<CareerTimelineChartProps> = ({ spans, range, now = new Date() }) => {
+  if (spans.length === 0) return <p className="text-sm text-gray-500">None of the roles have readable dates.</p>;
+  const first = range?.start ?? Math.min(...spans.map(span => span.start));
+  const last = range?.end ?? Math.max(toMonthIndex(now) + 1, ...spans.map(span => span.end));
+  const plotWidth = CHART_WIDTH - LABEL_WIDTH - 8;
+  const x = (month: number) => LABEL_WIDTH + ((month - first) / Math.max(1, last - first)) * plotWidth;
+  const plotHeight = spans.length * ROW_HEIGHT;
+  const gaps = careerGaps(spans);
+  const overlaps = careerOverlaps(spans);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${plotHeight + AXIS_HEIGHT}`} width="100%" role="img" aria-label="Employment timeline" className="text-gray-300" style={{ fontFamily: 'inherit' }}>
+      {yearTicks(first, last).map(year => (
+        <g key={year}>
+          <line x1={x(year * 12)} x2={x(year * 12)} y1={0} y2={plotHeight} stroke="currentColor" strokeOpacity={0.15} />
+          <text x={x(year * 12)} y={plotHeight + 15} fontSize={10} textAnchor="middle" fill="currentColor" fillOpacity={0.7}>{year}</text>
+        </g>
+      ))}
+      {overlaps.map((overlap, i) => (
+        <rect key={`o${i}`} x={x(overlap.start)} y={0} width={x(overlap.end) - x(overlap.start)} height={plotHeight} fill={OVERLAP_COLOR} fillOpacity={0.18}>
+          <title>{`Overlap: ${formatMonths(overlap.end - overlap.start)} (${formatMonthIndex(overlap.start)} – ${formatMonthIndex(overlap.end - 1)})`}</title>
+        </rect>
+      ))}
+      {gaps.map((gap, i) => (
+        <rect key={`g${i}`} x={x(gap.start)} y={0} width={x(gap.end) - x(gap.start)} height={plotHeight} fill={GAP_COLOR} fillOpacity={0.18}>
+          <title>{`Gap: ${formatMonths(gap.end - gap.start)} (${formatMonthIndex(gap.start)} – ${formatMonthIndex(gap.end - 1)})`}</title>
+        </rect>
+      ))}
+      {spans.map((span, i) => {
+        const y = i * ROW_HEIGHT;
+        return (
+          <g key={i}>
+            <text x={0} y={y + 16} fontSize={11} fill="currentColor">{truncate(`${span.title}${span.company ? ` · ${span.company}` : ''}`, 38)}</text>
+            <rect x={x(span.start)} y={y + 5} width={Math.max(2, x(span.end) - x(span.start))} height={ROW_HEIGHT - 10} rx={3} fill={span.ongoing ? ONGOING_COLOR : BAR_COLOR}>
+              <title>{`${span.title} at ${span.company}: ${formatMonthIndex(span.start)} – ${span.ongoing ? 'Present' : formatMonthIndex(span.end - 1)} (${formatMonths(span.end - span.start)})`}</title>
+            </rect>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const TimelineLegend: React.FC<{ gaps: number; overlaps: number }> = ({ gaps, overlaps }) => (
+  <p className="text-xs text-gray-500 muted">
+    <span style={{ color: BAR_COLOR }}>■</span> past role &nbsp; <span style={{ color: ONGOING_COLOR }}>■</span> current role &nbsp;
+    <span style={{ color: GAP_COLOR }}>■</span> {gaps === 1 ? '1 gap' : `${gaps} gaps`} of 3+ months &nbsp;
+    <span style={{ color: OVERLAP_COLOR }}>■</span> {overlaps === 1 ? '1 overlap' : `${overlaps} overlaps`}
+  </p>
+);
+
+// Recency shades: used now, within 2 years, within 5 years, earlier or undated
+const recencyColor = (usage: SkillUsage, now: Date): string => {
+  if (usage.current) return '#8b5cf6';
+  if (usage.lastUsed === null) return '#9ca3af';
+  const yearsAgo = (toMonthIndex(now) + 1 - usage.lastUsed) / 12;
+  return yearsAgo <= 2 ? '#a78bfa' : yearsAgo <= 5 ? '#c4b5fd' : '#9ca3af';
+};
+
+const describeUsage = (usage: SkillUsage): string =>
+  [
+    `${usage.roles} role${usage.roles === 1 ? '' : 's'}`,
+    usage.years !== null && `${usage.years} yrs`,
+    usage.current ? 'current' : usage.lastUsed !== null && `last used ${Math.floor((usage.lastUsed - 1) / 12)}`,
+  ].filter(Boolean).join(' · ');
+
+// Bars per skill, grouped by category: length is the number of roles that used it, shade is how recently
+export const SkillUsageChart: React.FC<{ usage: SkillUsage[]; now?: Date }> = ({ usage, now = new Date() }) => {
+  const used = usage.filter(item => item.roles > 0);
+  if (used.length === 0) return <p className="text-sm text-gray-500">No role lists the technologies it used.</p>;
+  const maxRoles = Math.max(...used.map(item => item.roles));
+  const plotWidth = CHART_WIDTH - LABEL_WIDTH - 170;
+  let y = 0;
+  const rows: React.ReactNode[] = [];
+  used.forEach((item, i) => {
+    if (i === 0 || used[i - 1].category !== item.category) {
+      y += i === 0 ? 14 : 24;
+      rows.push(<text key={`c${i}`} x={0} y={y} fontSize={11} fontWeight="bold" fill="currentColor">{truncate(item.category, 40)}</text>);
+      y += 6;
+    }
+    const width = Math.max(4, (item.roles / maxRoles) * plotWidth);
+    rows.push(
+      <g key={i}>
+        <text x={12} y={y + 14} fontSize={11} fill="currentColor">{truncate(item.skill, 32)}</text>
+        <rect x={LABEL_WIDTH} y={y + 4} width={width} height={ROW_HEIGHT - 10} rx={3} fill={recencyColor(item, now)}>
+          <title>{`${item.skill}: ${describeUsage(item)}`}</title>
+        </rect>
+        <text x={LABEL_WIDTH + width + 6} y={y + 14} fontSize={10} fill="currentColor" fillOpacity={0.7}>{describeUsage(item)}</text>
+      </g>
+    );
+    y += ROW_HEIGHT - 4;
+  });
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${y + 6}`} width="100%" role="img" aria-label="Skill usage by category" className="text-gray-300">
+      {rows}
+    </svg>
+  );
+};
+
+const SkillLegend: React.FC = () => (
+  <p className="text-xs text-gray-500 muted">
+    Bar length: roles that used the skill. Shade: <span style={{ color: '#8b5cf6' }}>■</span> current <span style={{ color: '#a78bfa' }}>■</span> within 2 years{' '}
+    <span style={{ color: '#c4b5fd' }}>■</span> within 5 years <span style={{ color: '#9ca3af' }}>■</span> earlier
+  </p>
+);
+
+export const SkillYearsTable: React.FC<{ usage: SkillUsage[] }> = ({ usage }) => {
+  const sorted = [...usage].sort((a, b) => (b.years ?? -1) - (a.years ?? -1) || b.roles - a.roles || a.skill.localeCompare(b.skill));
+  return (
+    <table className="w-full text-sm text-left">
+      <thead className="text-xs uppercase tracking-wide text-gray-500 border-b border-gray-700">
+        <tr>
+          <th className="py-2 pr-3">Skill</th>
+          <th className="py-2 pr-3">Category</th>
+          <th className="py-2 pr-3 text-right">Roles</th>
+          <th className="py-2 pr-3 text-right">Years</th>
+          <th className="py-2">Last used</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-700/60">
+        {sorted.map(item => (
+          <tr key={item.skill} className="text-gray-300">
+            <td className="py-1.5 pr-3">{item.skill}</td>
+            <td className="py-1.5 pr-3 text-gray-500">{item.category}</td>
+            <td className="py-1.5 pr-3 text-right tabular-nums">{item.roles}</td>
+            <td className="py-1.5 pr-3 text-right tabular-nums">{item.years ?? '–'}</td>
+            <td className="py-1.5">{item.current ? 'Current' : item.lastUsed !== null ? formatMonthIndex(item.lastUsed - 1) : item.roles > 0 ? 'Undated' : 'Listed only'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// The three views for one analysis; also what the printed report contains
+const CareerInsights: React.FC<{ analysis: ProfileAnalysis; now: Date }> = ({ analysis, now }) => {
+  const spans = careerSpans(analysis, now);
+  const usage = skillUsage(analysis, now);
+  const years = yearsOfExperience(analysis, now);
+  return (
+    <>
+      <div className="keep space-y-2">
+        <h4 className="text-lg font-semibold text-gray-200">Employment Timeline{years !== null && <span className="text-sm font-normal text-gray-500"> &middot; {years} years in total</span>}</h4>
+        <CareerTimelineChart spans={spans} now={now} />
+        {spans.length > 0 && <TimelineLegend gaps={careerGaps(spans).length} overlaps={careerOverlaps(spans).length} />}
+      </div>
+      <div className="keep space-y-2">
+        <h4 className="text-lg font-semibold text-gray-200">Skills by Category</h4>
+        <SkillUsageChart usage={usage} now={now} />
+        <SkillLegend />
+      </div>
+      {usage.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-lg font-semibold text-gray-200">Years per Skill</h4>
+          <SkillYearsTable usage={usage} />
+          <p className="text-xs text-gray-500 muted">Years count the roles that list the skill among their technologies, with overlaps counted once.</p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export const renderPrintableCareerReport = (analysis: ProfileAnalysis, title: string): Promise<string> =>
+  renderPrintableReport(title, (
+    <div>
+      <h1>{title}</h1>
+      <CareerInsights analysis={analysis} now={new Date()} />
+    </div>
+  ));
+
+export const CareerInsightsPanel: React.FC<{ analysis: ProfileAnalysis }> = ({ analysis }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [printError, setPrintError] = useState<string | null>(null);
+  const now = useMemo(() => new Date(), []);
+
+  const handlePrint = () => {
+    // Opened here, within the click, so popup blockers allow it; printReport fills it once the report is rendered
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    setPrintError(null);
+    printReport(printWindow, renderPrintableCareerReport(analysis, 'Career & Skills')).catch((e) => {
+      console.error('Could not print the career report:', e);
+      setPrintError('Could not prepare the report for printing. Check your connection and try again.');
+    });
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3 mt-6">
+        <h3 className="text-2xl font-semibold text-purple-300">Career &amp; Skills Visuals</h3>
+        <div className="flex items-center gap-4">
+          {expanded && (
+            <button onClick={handlePrint} className="flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300">
+              <PrinterIcon className="h-4 w-4" />
+              <span>Print</span>
+            </button>
+          )}
+          <button onClick={() => setExpanded(prev => !prev)} className="text-sm text-purple-400 hover:text-purple-300">
+            {expanded ? 'Hide' : 'Show'}
+          </button>
+        </div>
+      </div>
+      {printError && <p className="text-sm text-red-400" role="alert">{printError}</p>}
+      {expanded && (
+        <div className="space-y-6 bg-gray-900/40 border border-gray-700 rounded-xl p-4">
+          <CareerInsights analysis={analysis} now={now} />
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import type { ClaimKind, SourceSpan, UnsupportedClaim } from '../types';
+
+// What the user can do with a flagged claim; shared by the analysis and the resume views
+export interface ClaimActions {
+  // The source text the claims were checked against; spans point into it
+  source: string;
+  onAccept: (claim: UnsupportedClaim) => void;
+  onRemove: (claim: UnsupportedClaim) => void;
+}
+
+const CLAIM_KIND_LABELS: Record<ClaimKind, string> = {
+  statement: 'Statement',
+  metric: 'Metric',
+  date: 'Date',
+  employer: 'Employer',
+  skill: 'Skill',
+};
+
+const EXCERPT_CONTEXT = 200;
+
+// The source around a span, with the span itself highlighted
+const SourceExcerpt: React.FC<{ source: string; span: SourceSpan }> = ({ source, span }) => {
+  const start = Math.max(0, span.start - EXCERPT_CONTEXT);
+  const end = Math.min(source.length, span.end + EXCERPT_CONTEXT);
+  return (
+    <blockquote className="mt-2 border-l-2 border-gray-600 pl-3 text-xs text-gray-400 whitespace-pre-wrap">
+      {start > 0 && '...'}{source.slice(start, span.start)}
+      <mark className="bg-purple-500/30 text-gray-100 rounded-sm">{source.slice(span.start, span.end)}</mark>
+      {source.slice(span.end, end)}{end < source.length && '...'}
+    </blockquote>
+  );
+};
+
+const ClaimRow: React.FC<{ claim: UnsupportedClaim; showText?: boolean } & ClaimActions> = ({ claim, showText = false, source, onAccept, onRemove }) => {
+  const [showSource, setShowSource] = useState<boolean>(false);
+  return (
+    <li className="py-2">
+      <p className="text-sm text-gray-300">
+        <span className="text-xs font-semibold uppercase tracking-wide text-yellow-400 mr-2">{CLAIM_KIND_LABELS[claim.kind]}</span>
+        {showText && <span className="text-gray-200">"{claim.text}" </span>}
+        <span className="text-gray-400">{claim.reason}</span>
+      </p>
+      <div className="mt-1 flex flex-wrap gap-3 text-xs font-semibold">
+        {claim.span && (
+          <button type="button" onClick={() => setShowSource(prev => !prev)} className="text-purple-400 hover:text-purple-300">
+            {showSource ? 'Hide source' : 'Closest source passage'}
+          </button>
+        )}
+        <button type="button" onClick={() => onAccept(claim)} title="It is true: stop flagging it" className="text-green-400 hover:text-green-300">Accept</button>
+        <button type="button" onClick={() => onRemove(claim)} title="Delete it from the text" className="text-red-400 hover:text-red-300">Remove</button>
+      </div>
+      {showSource && claim.span && <SourceExcerpt source={source} span={claim.span} />}
+    </li>
+  );
+};
+
+// Generated text with unsupported claims: highlighted, and click to review them
+export const FlaggedText: React.FC<{ claims: UnsupportedClaim[]; children: React.ReactNode } & ClaimActions> = ({ claims, children, ...actions }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  if (claims.length === 0) return <>{children}</>;
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        title="Not found in your profile. Click to review."
+        className="text-left bg-yellow-500/15 border-b border-dashed border-yellow-500/70 rounded-sm hover:bg-yellow-500/25 transition-colors"
+      >
+        {children}
+      </button>
+      {open && (
+        <div className="my-2 bg-gray-900/80 border border-yellow-700/60 rounded-lg px-3">
+          <ul className="divide-y divide-gray-700">
+            {claims.map((claim, i) => <ClaimRow key={i} claim={claim} showText={claim.kind !== 'statement'} {...actions} />)}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+// Banner with every unsupported claim in a document, for views where the text itself is not interactive
+export const ClaimList: React.FC<{ claims: UnsupportedClaim[]; documentName: string } & ClaimActions> = ({ claims, documentName, ...actions }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  if (claims.length === 0) return null;
+  return (
+    <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-100 px-4 py-3 rounded-xl text-sm" role="status">
+      <div className="flex justify-between items-center gap-4">
+        <span>
+          {claims.length === 1 ? '1 claim' : `${claims.length} claims`} in this {documentName} could not be matched to your profile. They are highlighted below.
+        </span>
+        <button type="button" onClick={() => setExpanded(prev => !prev)} className="text-yellow-300 hover:text-yellow-100 flex-shrink-0 font-semibold">
+          {expanded ? 'Hide' : 'Review'}
+        </button>
+      </div>
+      {expanded && (
+        <ul className="mt-2 divide-y divide-yellow-800/60">
+          {claims.map((claim, i) => <ClaimRow key={`${claim.path.join('.')}:${claim.kind}:${claim.text}:${i}`} claim={claim} showText {...actions} />)}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,324 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { createCoverLetter, regenerateCoverLetterParagraph } from '../services/geminiService';
+import type { LLMProvider } from '../services/llm/llmProvider';
+import {
+  COVER_LETTER_LENGTH_LABELS, COVER_LETTER_TONE_LABELS, coverLetterExportFormats, defaultCoverLetterTarget,
+  isBodyParagraph, parseCoverLetter, serializeCoverLetter, toCoverLetterContent,
+} from '../services/coverLetter';
+import { loadResumeTheme } from '../services/resumeTemplates';
+import { loadPersonalInfo, validatePersonalInfo } from '../services/personalInfo';
+import type { CoverLetterDraft, CoverLetterLength, CoverLetterTarget, CoverLetterTone, GitHubProfile, OutputLanguage, PersonalInfo, ProfileAnalysis, ProfileDocument, ResumeTailoring } from '../types';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import { LoadingSpinner, StreamingIndicator } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+import { ExportMenu } from './ExportMenu';
+import { CoverLetterPage, ResumeTemplateStyles, renderPrintableCoverLetter } from './ResumeTemplate';
+import { printReport } from './PrintableReport';
+import { PersonalInfoForm } from './PersonalInfoForm';
+import { SparklesIcon, ClipboardIcon, PrinterIcon } from './Icons';
+
+interface CoverLetterCreatorProps {
+  analysis: ProfileAnalysis;
+  // The profile the analysis was made from, to fill in the contact details
+  profile?: ProfileDocument | null;
+  provider: LLMProvider;
+  github?: GitHubProfile | null;
+  // Pre-fills the company, role and job description
+  tailoring?: ResumeTailoring | null;
+  language?: OutputLanguage;
+  initialDraft?: CoverLetterDraft | null;
+  initialPersonalInfo?: PersonalInfo | null;
+  // Called (debounced) whenever the letter changes, so it can be persisted
+  onDraftChange?: (draft: CoverLetterDraft, personalInfo: PersonalInfo) => void;
+  onBack: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none';
+
+export const CoverLetterCreator: React.FC<CoverLetterCreatorProps> = ({
+  analysis, profile, provider, github, tailoring, language, initialDraft = null, initialPersonalInfo = null, onDraftChange, onBack,
+}) => {
+  const [personalInfo, setPersonalInfo] = useState<PersonalInfo>(() => initialPersonalInfo ?? loadPersonalInfo());
+  const [target, setTarget] = useState<CoverLetterTarget>(() => initialDraft?.target
+    ?? defaultCoverLetterTarget(tailoring?.jobTitle || analysis.suggestedRoles[0]?.title || '', tailoring?.company ?? '', tailoring?.jobDescription ?? ''));
+  // Raw model output while streaming; the paragraphs become editable once generation finishes
+  const [streamed, setStreamed] = useState<string | null>(null);
+  const editor = useUndoHistory<string[] | null>(initialDraft?.paragraphs ?? null);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+  const [paragraphError, setParagraphError] = useState<{ message: string; cause: unknown; retry: () => void } | null>(null);
+  const [isPartial, setIsPartial] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCause, setErrorCause] = useState<unknown>(null);
+  const [copySuccess, setCopySuccess] = useState<string>('');
+  const theme = useMemo(loadResumeTheme, []);
+  const lastSavedRef = useRef<string | null>(initialDraft ? JSON.stringify(initialDraft) : null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const paragraphs = editor.value ?? (streamed ? parseCoverLetter(streamed) : null);
+  const letter = paragraphs ? toCoverLetterContent(paragraphs, personalInfo, language) : null;
+
+  const updateTarget = <K extends keyof CoverLetterTarget>(key: K, value: CoverLetterTarget[K]) => {
+    setTarget(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleGenerate = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let latest: string | null = null;
+    setIsLoading(true);
+    setError(null);
+    setErrorCause(null);
+    setStreamed(null);
+    editor.reset(null);
+    setIsEditing(false);
+    setIsPartial(false);
+    try {
+      const result = await createCoverLetter(analysis, personalInfo, target, provider, {
+        signal: controller.signal,
+        github: github ?? undefined,
+        language,
+        onPartial: (partial) => {
+          latest = partial;
+          setStreamed(partial);
+        },
+      });
+      editor.reset(parseCoverLetter(result));
+    } catch (e) {
+      if (controller.signal.aborted) {
+        // The partial letter stays on screen and can still be edited
+        setIsPartial(true);
+        editor.reset(latest ? parseCoverLetter(latest) : null);
+        return;
+      }
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setError(`Failed to generate cover letter. ${errorMessage}`);
+      setErrorCause(e);
+      console.error('Could not generate cover letter:', e);
+    } finally {
+      abortControllerRef.current = null;
+      setStreamed(null);
+      setIsLoading(false);
+    }
+  }, [analysis, personalInfo, target, provider, github, language, editor.reset]);
+
+  useEffect(() => {
+    if (!editor.value || editor.value.length === 0 || isLoading) return;
+    const draft: CoverLetterDraft = { target, paragraphs: editor.value };
+    const serialized = JSON.stringify(draft);
+    if (serialized === lastSavedRef.current) return;
+    const timer = setTimeout(() => {
+      lastSavedRef.current = serialized;
+      onDraftChange?.(draft, personalInfo);
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [editor.value, target, isLoading, personalInfo, onDraftChange]);
+
+  const handleRegenerateParagraph = async (index: number) => {
+    const current = editor.value;
+    if (!current) return;
+    const original = current[index];
+    setRegenerating(index);
+    setParagraphError(null);
+    try {
+      const rewritten = await regenerateCoverLetterParagraph(current, index, analysis, target, provider, { language });
+      // Applied as an ordinary edit so it can be undone; skipped if the paragraph was changed meanwhile
+      editor.set(latest => (latest && latest[index] === original ? latest.map((p, i) => (i === index ? rewritten : p)) : latest));
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setParagraphError({
+        message: `Failed to regenerate the paragraph. ${errorMessage}`,
+        cause: e,
+        retry: () => handleRegenerateParagraph(index),
+      });
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' || key === 'y') {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) editor.redo(); else editor.undo();
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleStartOver = () => {
+    editor.reset(null);
+    setIsEditing(false);
+    setIsPartial(false);
+    setParagraphError(null);
+  };
+
+  const handleCopyToClipboard = () => {
+    if (!paragraphs) return;
+    navigator.clipboard.writeText(serializeCoverLetter(paragraphs)).then(() => {
+        setCopySuccess('Copied!');
+        setTimeout(() => setCopySuccess(''), 2000);
+    }, (err) => {
+        setCopySuccess('Failed to copy');
+        console.error('Could not copy text: ', err);
+    });
+  };
+
+  const handlePrint = () => {
+    if (!letter) return;
+    // Opened here, within the click, so popup blockers allow it; printReport fills it once the letter is rendered
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printReport(printWindow, renderPrintableCoverLetter(letter, theme)).catch((e) => {
+      console.error('Could not print the cover letter:', e);
+      setError('Could not prepare the cover letter for printing. Check your connection and try again.');
+      setErrorCause(null);
+    });
+  };
+
+  const hasLetter = paragraphs !== null && paragraphs.length > 0;
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold text-purple-300">Cover Letter</h2>
+        <button onClick={onBack} className="text-sm text-purple-400 hover:text-purple-300">&larr; Back to Analysis</button>
+      </div>
+
+      {!hasLetter && !isLoading && (
+        <div className="space-y-4">
+          <p className="text-gray-400">Who is the letter for? The job description is optional, but makes the letter much more specific.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <input value={target.role} onChange={(e) => updateTarget('role', e.target.value)} placeholder="Role, e.g. Senior Backend Engineer" className={inputClass} />
+            <input value={target.company} onChange={(e) => updateTarget('company', e.target.value)} placeholder="Company" className={inputClass} />
+            <select value={target.tone} onChange={(e) => updateTarget('tone', e.target.value as CoverLetterTone)} className={inputClass} aria-label="Tone">
+              {Object.entries(COVER_LETTER_TONE_LABELS).map(([value, label]) => <option key={value} value={value}>{label} tone</option>)}
+            </select>
+            <select value={target.length} onChange={(e) => updateTarget('length', e.target.value as CoverLetterLength)} className={inputClass} aria-label="Length">
+              {Object.entries(COVER_LETTER_LENGTH_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <textarea
+            value={target.jobDescription}
+            onChange={(e) => updateTarget('jobDescription', e.target.value)}
+            placeholder="Paste the job description (optional)"
+            className={`${inputClass} min-h-[140px]`}
+          />
+          <p className="text-gray-400">Your details go in the letterhead and the sign-off.</p>
+          <PersonalInfoForm value={personalInfo} onChange={setPersonalInfo} profile={profile} github={github} />
+          <button
+            onClick={handleGenerate}
+            disabled={isLoading || (!target.role.trim() && !target.company.trim()) || Object.keys(validatePersonalInfo(personalInfo)).length > 0}
+            className="w-full flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-all duration-200 transform hover:scale-105 shadow-md"
+          >
+            <SparklesIcon className="h-5 w-5" />
+            <span>Write Cover Letter</span>
+          </button>
+        </div>
+      )}
+
+      {isLoading && !hasLetter && <LoadingSpinner onCancel={handleCancel} />}
+      {error && <ErrorMessage message={error} error={errorCause} onRetry={errorCause ? handleGenerate : undefined} />}
+
+      {hasLetter && letter && (
+        <div className="space-y-4">
+          {isLoading && <StreamingIndicator onCancel={handleCancel} />}
+          {isPartial && (
+            <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-xl text-sm" role="status">
+              Generation was cancelled. This letter is incomplete.
+            </div>
+          )}
+          {!isLoading && (
+            <>
+              <div className="flex flex-wrap items-center gap-4">
+                <button
+                  onClick={() => setIsEditing(prev => !prev)}
+                  className={`flex-1 flex items-center justify-center gap-2 font-semibold px-4 py-2 rounded-lg transition-colors ${isEditing ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-gray-600 hover:bg-gray-700 text-white'}`}
+                >
+                  <span>{isEditing ? 'Preview' : 'Edit'}</span>
+                </button>
+                <button onClick={editor.undo} disabled={!editor.canUndo} title="Undo (Ctrl+Z)" className="bg-gray-600 text-white font-semibold px-3 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
+                  Undo
+                </button>
+                <button onClick={editor.redo} disabled={!editor.canRedo} title="Redo (Ctrl+Shift+Z)" className="bg-gray-600 text-white font-semibold px-3 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
+                  Redo
+                </button>
+                <button onClick={handleCopyToClipboard} className="flex-1 flex items-center justify-center gap-2 bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
+                  <ClipboardIcon className="h-5 w-5" />
+                  <span>{copySuccess || 'Copy Text'}</span>
+                </button>
+                <button onClick={handlePrint} className="flex-1 flex items-center justify-center gap-2 bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
+                  <PrinterIcon className="h-5 w-5" />
+                  <span>Print</span>
+                </button>
+              </div>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <ExportMenu formats={coverLetterExportFormats(letter, target, theme)} />
+                <button onClick={handleStartOver} disabled={regenerating !== null} className="text-sm text-purple-400 hover:text-purple-300 disabled:opacity-50">
+                  Write a new letter
+                </button>
+              </div>
+            </>
+          )}
+          {paragraphError && <ErrorMessage message={paragraphError.message} error={paragraphError.cause} onRetry={paragraphError.retry} />}
+          <div className="border border-gray-700 rounded-lg overflow-hidden" onKeyDown={handleEditorKeyDown}>
+            {isEditing && editor.value && !isLoading ? (
+              <div className="bg-gray-800/90 p-4 sm:p-6 space-y-4">
+                {editor.value.map((paragraph, index) => (
+                  <div key={index} className="space-y-1">
+                    <textarea
+                      value={paragraph}
+                      rows={Math.max(2, Math.ceil(paragraph.length / 90) + paragraph.split('\n').length - 1)}
+                      disabled={regenerating === index}
+                      onChange={(e) => editor.set(current => current && current.map((p, i) => (i === index ? e.target.value : p)), `paragraph-${index}`)}
+                      className={`w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:outline-none ${regenerating === index ? 'animate-pulse' : ''}`}
+                    />
+                    <div className="flex items-center gap-2">
+                      {isBodyParagraph(editor.value, index) && (
+                        <button
+                          type="button"
+                          disabled={regenerating !== null || !paragraph.trim()}
+                          onClick={() => handleRegenerateParagraph(index)}
+                          className="inline-flex items-center gap-1 text-xs text-purple-400 hover:text-purple-200 hover:bg-purple-900/40 px-1.5 py-0.5 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <SparklesIcon className="h-3.5 w-3.5" />
+                          <span>{regenerating === index ? 'Regenerating...' : 'Regenerate paragraph'}</span>
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        disabled={regenerating !== null}
+                        onClick={() => editor.set(current => current && current.filter((_, i) => i !== index))}
+                        className="text-xs text-red-400 hover:bg-red-900/40 px-1.5 py-0.5 rounded disabled:opacity-40"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => editor.set(current => current && [...current.slice(0, -1), '', ...current.slice(-1)])}
+                  className="text-sm text-purple-400 hover:text-purple-300"
+                >
+                  + Add paragraph before the sign-off
+                </button>
+              </div>
+            ) : (
+              <div className="bg-gray-700/60 p-3 sm:p-6 overflow-x-auto">
+                <ResumeTemplateStyles />
+                <div className="mx-auto shadow-2xl" style={{ maxWidth: '8.5in', minWidth: '6in' }}>
+                  <CoverLetterPage letter={letter} theme={theme} />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
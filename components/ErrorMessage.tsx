@@ -1,15 +1,40 @@
-
 import React from 'react';
+import { LLMError, type LLMErrorKind } from '../services/llm/errors';
 
 interface ErrorMessageProps {
   message: string;
+  // The underlying failure, used to pick guidance for typed AI errors
+  error?: unknown;
+  onRetry?: () => void;
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message }) => {
+const GUIDANCE: Record<LLMErrorKind, string> = {
+  'auth': 'Check that GEMINI_API_KEY (or LLM_API_KEY for a local server) is set in .env.local and is still valid, then restart the dev server.',
+  'rate-limited': 'You have hit the rate limit or used up your quota. Wait a minute before retrying, or switch to another model in the settings.',
+  'safety-blocked': "The model's safety filters blocked this content. Remove sensitive or unusual passages from the profile text and try again.",
+  'timeout': 'The model took too long to answer. Retry, shorten the profile text, or raise the timeout in the settings.',
+  'malformed-output': 'The model answered in an unexpected format. Retrying usually fixes this; a more capable model helps if it keeps happening.',
+  'network': 'The AI service could not be reached. Check your internet connection, or that your local model server is running.',
+  'invalid-request': 'The AI service rejected the request. Check the model name and server URL in the settings.',
+};
+
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, error, onRetry }) => {
+  const guidance = error instanceof LLMError ? GUIDANCE[error.kind] : null;
+  const canRetry = onRetry && (!(error instanceof LLMError) || error.kind !== 'auth');
+
   return (
     <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-xl" role="alert">
       <strong className="font-bold">Error: </strong>
       <span className="block sm:inline">{message}</span>
+      {guidance && <p className="mt-2 text-sm text-red-200/80">{guidance}</p>}
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-3 text-sm font-semibold text-red-100 border border-red-600 rounded-lg px-4 py-1.5 hover:bg-red-800/60 transition-colors"
+        >
+          Retry
+        </button>
+      )}
     </div>
   );
 };
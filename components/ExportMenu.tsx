@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { downloadBlob, type ExportFormat } from '../services/download';
+
+interface ExportMenuProps {
+  formats: ExportFormat[];
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ formats }) => {
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format.id);
+    setError(null);
+    try {
+      downloadBlob(await format.build(), format.fileName);
+    } catch (e) {
+      console.error(`Could not export ${format.fileName}:`, e);
+      setError(`Export failed. ${e instanceof Error ? e.message : ''}`.trim());
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-400">Download:</span>
+        {formats.map(format => (
+          <button
+            key={format.id}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            title={format.hint}
+            className="bg-gray-700 text-white text-sm font-semibold px-3 py-1.5 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {exporting === format.id ? 'Preparing...' : format.label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
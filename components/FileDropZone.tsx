@@ -0,0 +1,71 @@
+import React, { useRef, useState } from 'react';
+import type { ProfileDocument } from '../types';
+import { ACCEPTED_PROFILE_FILES, importProfileFile } from '../services/profileImport';
+import { UploadIcon } from './Icons';
+
+interface FileDropZoneProps {
+  onImport: (profile: ProfileDocument) => void;
+  disabled?: boolean;
+}
+
+export const FileDropZone: React.FC<FileDropZoneProps> = ({ onImport, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || disabled) return;
+    setIsReading(true);
+    setError(null);
+    try {
+      onImport(await importProfileFile(file));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The file could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && inputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg px-4 py-6 text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-purple-400 bg-purple-900/20' : 'border-gray-600 hover:border-purple-500'
+        } ${disabled ? 'opacity-50 pointer-events-none' : ''}`}
+      >
+        <UploadIcon className="h-6 w-6 text-purple-400" />
+        <p className="text-gray-300">
+          {isReading ? 'Reading file...' : 'Drop your LinkedIn PDF or data export ZIP here, or click to browse'}
+        </p>
+        <p className="text-xs text-gray-500">
+          PDF: your profile &gt; More &gt; Save to PDF. ZIP: Settings &gt; Data privacy &gt; Get a copy of your data. Files are read in your browser.
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_PROFILE_FILES}
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="mt-2 text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
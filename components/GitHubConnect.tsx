@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import type { GitHubProfile } from '../types';
+import { fetchGitHubProfile } from '../services/githubService';
+
+interface GitHubConnectProps {
+  profile: GitHubProfile | null;
+  onChange: (profile: GitHubProfile | null) => void;
+  disabled?: boolean;
+}
+
+export const GitHubConnect: React.FC<GitHubConnectProps> = ({ profile, onChange, disabled = false }) => {
+  const [username, setUsername] = useState<string>('');
+  const [pinned, setPinned] = useState<string>('');
+  // Kept in memory only, for this page visit
+  const [token, setToken] = useState<string>('');
+  const [isFetching, setIsFetching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFetch = async () => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      const result = await fetchGitHubProfile(username, { pinned: pinned.split(','), token: token.trim() || undefined });
+      onChange(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load GitHub data.');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  if (profile) {
+    return (
+      <div className="bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 flex justify-between items-start gap-4">
+        <div>
+          <p className="text-white font-semibold">
+            GitHub: <a href={profile.profileUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">@{profile.username}</a>
+          </p>
+          <p className="text-sm text-gray-400">
+            {profile.publicRepos} repos &middot; {profile.totalStars} stars &middot; {profile.languages.slice(0, 4).map(lang => lang.name).join(', ') || 'no languages detected'}
+          </p>
+          {profile.featuredRepos.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">Featured: {profile.featuredRepos.map(repo => repo.name).join(', ')}</p>
+          )}
+          {profile.missingPinned && profile.missingPinned.length > 0 && (
+            <p className="text-xs text-yellow-300 mt-1" role="status">
+              Not among @{profile.username}'s repositories, so not featured: {profile.missingPinned.join(', ')}
+            </p>
+          )}
+        </div>
+        <button onClick={() => onChange(null)} disabled={disabled} className="text-sm text-purple-400 hover:text-purple-300">
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="GitHub username (optional)"
+          disabled={disabled || isFetching}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        />
+        <input
+          type="text"
+          value={pinned}
+          onChange={(e) => setPinned(e.target.value)}
+          placeholder="Pinned repos, comma-separated (optional)"
+          disabled={disabled || isFetching}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        />
+        <button
+          onClick={handleFetch}
+          disabled={disabled || isFetching || !username.trim()}
+          className="bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isFetching ? 'Loading...' : 'Add GitHub'}
+        </button>
+      </div>
+      <input
+        type="password"
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        placeholder="GitHub access token for a higher rate limit (optional, not saved)"
+        autoComplete="off"
+        disabled={disabled || isFetching}
+        className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none"
+      />
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { deleteHistoryEntry, duplicateHistoryEntry, exportHistory, importHistory, renameHistoryEntry } from '../services/historyStore';
+import { describeProfileSource } from '../services/profileDocument';
+import { downloadBlob } from '../services/download';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  activeId: string | null;
+  onOpen: (entry: HistoryEntry) => void;
+  onCompare: () => void;
+  // Called after any change to the stored history so the parent can reload it
+  onChanged: () => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const formatTimestamp = (time: number): string =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({ entries, activeId, onOpen, onCompare, onChanged, onClose, disabled = false }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The history could not be updated.');
+    }
+  };
+
+  const startRename = (entry: HistoryEntry) => {
+    setEditingId(entry.id);
+    setDraftTitle(entry.title);
+  };
+
+  const commitRename = (id: string) => {
+    setEditingId(null);
+    run(() => renameHistoryEntry(id, draftTitle));
+  };
+
+  const handleDelete = (entry: HistoryEntry) => {
+    if (window.confirm(`Delete "${entry.title}"? This cannot be undone.`)) {
+      run(() => deleteHistoryEntry(entry.id));
+    }
+  };
+
+  const handleExport = () => run(async () => {
+    downloadBlob(new Blob([await exportHistory()], { type: 'application/json' }), `linkedin-synth-history-${new Date().toISOString().slice(0, 10)}.json`);
+  });
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    run(async () => {
+      const count = await importHistory(await file.text());
+      setNotice(`Imported ${count} ${count === 1 ? 'entry' : 'entries'}.`);
+    });
+  };
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-40 w-full sm:w-80 bg-gray-900 border-r border-gray-700 shadow-2xl flex flex-col animate-fade-in-down">
+      <div className="flex justify-between items-center px-4 py-4 border-b border-gray-700">
+        <h2 className="text-lg font-semibold text-purple-300">History</h2>
+        <button onClick={onClose} className="text-sm text-purple-400 hover:text-purple-300">Close</button>
+      </div>
+
+      <div className="flex gap-2 px-4 py-3 border-b border-gray-700">
+        <button
+          onClick={handleExport}
+          disabled={entries.length === 0}
+          className="flex-1 bg-gray-700 text-white text-sm font-semibold px-3 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="flex-1 bg-gray-700 text-white text-sm font-semibold px-3 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Import JSON
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {entries.length >= 2 && (
+        <div className="px-4 pt-3">
+          <button
+            onClick={onCompare}
+            disabled={disabled}
+            className="w-full bg-purple-600 text-white text-sm font-semibold px-3 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Compare Candidates
+          </button>
+        </div>
+      )}
+
+      {error && <p className="px-4 pt-3 text-sm text-red-300">{error}</p>}
+      {notice && <p className="px-4 pt-3 text-sm text-green-300">{notice}</p>}
+
+      <ul className="flex-1 overflow-y-auto px-2 py-3 space-y-1">
+        {entries.length === 0 && (
+          <li className="px-2 py-8 text-center text-sm text-gray-500">Analyses you run are saved here in this browser.</li>
+        )}
+        {entries.map(entry => (
+          <li
+            key={entry.id}
+            className={`rounded-lg px-3 py-2 ${entry.id === activeId ? 'bg-purple-900/40 border border-purple-700' : 'hover:bg-gray-800 border border-transparent'}`}
+          >
+            {editingId === entry.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={() => commitRename(entry.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename(entry.id);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+              />
+            ) : (
+              <button
+                onClick={() => onOpen(entry)}
+                disabled={disabled}
+                className="w-full text-left disabled:cursor-not-allowed"
+              >
+                <p className="text-sm text-white font-semibold truncate">{entry.title}</p>
+                <p className="text-xs text-gray-400">
+                  {formatTimestamp(entry.updatedAt)} &middot; {describeProfileSource(entry.profile)}{entry.resume && ' · resume'}{entry.tailoring && ' · tailored'}
+                </p>
+              </button>
+            )}
+            <div className="flex gap-3 mt-1 text-xs">
+              <button onClick={() => startRename(entry)} className="text-purple-400 hover:text-purple-300">Rename</button>
+              <button onClick={() => run(() => duplicateHistoryEntry(entry.id))} className="text-purple-400 hover:text-purple-300">Duplicate</button>
+              <button onClick={() => handleDelete(entry)} className="text-red-400 hover:text-red-300">Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
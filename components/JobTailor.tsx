@@ -0,0 +1,142 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import type { EvidenceLevel, JobDescriptionAnalysis, ProfileAnalysis, ResumeTailoring } from '../types';
+import type { LLMProvider } from '../services/llm/llmProvider';
+import { analyzeJobDescription } from '../services/geminiService';
+import { matchJobRequirements } from '../services/jobMatch';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+import { DocumentTextIcon, TargetIcon } from './Icons';
+
+interface JobTailorProps {
+  analysis: ProfileAnalysis;
+  provider: LLMProvider;
+  initialJobDescription?: string;
+  onTailorResume: (tailoring: ResumeTailoring) => void;
+  onBack: () => void;
+}
+
+const LEVEL_STYLES: Record<EvidenceLevel, { label: string; className: string }> = {
+  strong: { label: 'Demonstrated', className: 'bg-green-900/40 border-green-700 text-green-300' },
+  weak: { label: 'Weakly evidenced', className: 'bg-yellow-900/40 border-yellow-700 text-yellow-300' },
+  missing: { label: 'Missing', className: 'bg-red-900/40 border-red-700 text-red-300' },
+};
+
+const scoreColor = (score: number): string =>
+  score >= 75 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+export const JobTailor: React.FC<JobTailorProps> = ({ analysis, provider, initialJobDescription = '', onTailorResume, onBack }) => {
+  const [jobDescription, setJobDescription] = useState<string>(initialJobDescription);
+  const [job, setJob] = useState<JobDescriptionAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCause, setErrorCause] = useState<unknown>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const match = useMemo(() => (job ? matchJobRequirements(analysis, job) : null), [analysis, job]);
+
+  const handleAnalyze = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setErrorCause(null);
+    setJob(null);
+    try {
+      setJob(await analyzeJobDescription(jobDescription, provider, { signal: controller.signal }));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setError(`Failed to analyze the job description. ${errorMessage}`);
+      setErrorCause(e);
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  }, [jobDescription, provider]);
+
+  const handleTailor = () => {
+    if (!job || !match) return;
+    onTailorResume({
+      jobDescription,
+      jobTitle: job.jobTitle,
+      company: job.company,
+      missingRequirements: match.matches.filter(m => m.level === 'missing').map(m => m.requirement.requirement),
+    });
+  };
+
+  const grouped = (level: EvidenceLevel) => match?.matches.filter(m => m.level === level) ?? [];
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold text-purple-300">Tailor to a Job</h2>
+        <button onClick={onBack} className="text-sm text-purple-400 hover:text-purple-300">&larr; Back to Analysis</button>
+      </div>
+
+      <div className="space-y-4">
+        <textarea
+          value={jobDescription}
+          onChange={(e) => setJobDescription(e.target.value)}
+          placeholder="Paste the job description here..."
+          disabled={isLoading}
+          className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none min-h-[160px]"
+        />
+        <button
+          onClick={handleAnalyze}
+          disabled={isLoading || !jobDescription.trim()}
+          className="w-full flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-all duration-200 shadow-md"
+        >
+          <TargetIcon className="h-5 w-5" />
+          <span>{job ? 'Re-check Match' : 'Check Match'}</span>
+        </button>
+      </div>
+
+      {isLoading && <LoadingSpinner onCancel={() => abortControllerRef.current?.abort()} />}
+      {error && <ErrorMessage message={error} error={errorCause} onRetry={errorCause ? handleAnalyze : undefined} />}
+
+      {job && match && (
+        <div className="space-y-6 animate-fade-in-up">
+          <div className="flex items-center gap-6">
+            <div className={`text-5xl font-bold ${scoreColor(match.score)}`}>{match.score}%</div>
+            <div>
+              <p className="text-lg text-gray-200 font-semibold">{job.jobTitle || 'This role'}{job.company && ` at ${job.company}`}</p>
+              <p className="text-sm text-gray-400">
+                {grouped('strong').length} demonstrated, {grouped('weak').length} weakly evidenced, {grouped('missing').length} missing of {match.matches.length} requirements
+              </p>
+            </div>
+          </div>
+
+          {(['missing', 'weak', 'strong'] as EvidenceLevel[]).map(level => grouped(level).length > 0 && (
+            <div key={level}>
+              <h3 className="text-lg font-semibold text-gray-200 mb-2">{LEVEL_STYLES[level].label}</h3>
+              <ul className="space-y-2">
+                {grouped(level).map((m, i) => (
+                  <li key={i} className={`border rounded-lg px-3 py-2 text-sm ${LEVEL_STYLES[level].className}`}>
+                    <div className="flex justify-between gap-4">
+                      <span>{m.requirement.requirement}</span>
+                      <span className="text-xs uppercase tracking-wide opacity-75 flex-shrink-0">{m.requirement.importance}</span>
+                    </div>
+                    {m.evidence.length > 0 && <p className="text-xs text-gray-400 mt-1">{m.evidence.join(' · ')}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          <div className="pt-4 border-t border-gray-700 space-y-2">
+            <button
+              onClick={handleTailor}
+              className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-indigo-700 transition-all duration-200 transform hover:scale-105 shadow-md"
+            >
+              <DocumentTextIcon className="h-5 w-5" />
+              <span>Generate Resume Tailored to this Job</span>
+            </button>
+            <p className="text-xs text-gray-500 text-center">
+              Bullets are reordered and reworded for this posting. Missing requirements are never added.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { rewriteLinkedInSections } from '../services/geminiService';
+import type { LLMProvider } from '../services/llm/llmProvider';
+import { diffWords, LINKEDIN_LIMITS } from '../services/linkedInOptimizer';
+import type { LinkedInRewrite, OutputLanguage, ProfileAnalysis, ProfileDocument } from '../types';
+import { LoadingSpinner, StreamingIndicator } from './LoadingSpinner';
+import { ErrorMessage } from './ErrorMessage';
+import { ClipboardIcon, SparklesIcon } from './Icons';
+
+interface LinkedInOptimizerProps {
+  profile: ProfileDocument;
+  analysis: ProfileAnalysis;
+  provider: LLMProvider;
+  language?: OutputLanguage;
+  initialRewrite?: LinkedInRewrite | null;
+  // Called once a complete rewrite has been generated, so it can be persisted
+  onRewrite?: (rewrite: LinkedInRewrite) => void;
+  onBack: () => void;
+}
+
+const CharCounter: React.FC<{ text: string; limit: number }> = ({ text, limit }) => {
+  const over = text.length > limit;
+  return (
+    <span className={`text-xs tabular-nums ${over ? 'text-red-400 font-semibold' : 'text-gray-500'}`} title={over ? 'LinkedIn will reject or cut off text this long' : undefined}>
+      {text.length.toLocaleString()} / {limit.toLocaleString()}
+    </span>
+  );
+};
+
+const CopyButton: React.FC<{ text: string; label?: string }> = ({ text, label = 'Copy' }) => {
+  const [status, setStatus] = useState<string>('');
+  const handleCopy = () => {
+    navigator.clipboard.writeText(text).then(() => {
+      setStatus('Copied!');
+      setTimeout(() => setStatus(''), 2000);
+    }, (err) => {
+      setStatus('Failed to copy');
+      console.error('Could not copy text: ', err);
+    });
+  };
+  return (
+    <button
+      onClick={handleCopy}
+      disabled={!text}
+      className="inline-flex items-center gap-1 text-xs font-semibold text-gray-200 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-40 transition-colors"
+    >
+      <ClipboardIcon className="h-3.5 w-3.5" />
+      <span>{status || label}</span>
+    </button>
+  );
+};
+
+// Current text with removed words struck through, next to the suggestion with added words highlighted
+const SideBySideDiff: React.FC<{ original: string; rewritten: string }> = ({ original, rewritten }) => {
+  const parts = useMemo(() => diffWords(original, rewritten), [original, rewritten]);
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm leading-relaxed">
+      <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-3">
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">Current</p>
+        {original ? (
+          <p className="whitespace-pre-wrap text-gray-400">
+            {parts.filter(part => part.type !== 'added').map((part, i) => (
+              part.type === 'removed'
+                ? <del key={i} className="bg-red-900/40 text-red-300 decoration-red-400/70">{part.text}</del>
+                : <span key={i}>{part.text}</span>
+            ))}
+          </p>
+        ) : (
+          <p className="text-gray-600 italic">Empty on your profile</p>
+        )}
+      </div>
+      <div className="bg-gray-900/60 border border-purple-800/60 rounded-lg p-3">
+        <p className="text-xs uppercase tracking-wide text-purple-300 mb-2">Suggested</p>
+        <p className="whitespace-pre-wrap text-gray-200">
+          {parts.filter(part => part.type !== 'removed').map((part, i) => (
+            part.type === 'added'
+              ? <ins key={i} className="bg-green-900/40 text-green-200 no-underline">{part.text}</ins>
+              : <span key={i}>{part.text}</span>
+          ))}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+const SectionCard: React.FC<{ title: string; subtitle?: string; actions?: React.ReactNode; children: React.ReactNode }> = ({ title, subtitle, actions, children }) => (
+  <section className="space-y-3">
+    <div className="flex flex-wrap justify-between items-baseline gap-2 border-b border-gray-700 pb-2">
+      <div>
+        <h3 className="text-xl font-semibold text-purple-300">{title}</h3>
+        {subtitle && <p className="text-sm text-gray-500">{subtitle}</p>}
+      </div>
+      {actions && <div className="flex items-center gap-3">{actions}</div>}
+    </div>
+    {children}
+  </section>
+);
+
+export const LinkedInOptimizer: React.FC<LinkedInOptimizerProps> = ({ profile, analysis, provider, language, initialRewrite = null, onRewrite, onBack }) => {
+  const [rewrite, setRewrite] = useState<LinkedInRewrite | null>(initialRewrite);
+  const [isPartial, setIsPartial] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorCause, setErrorCause] = useState<unknown>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleGenerate = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let latest: LinkedInRewrite | null = null;
+    setIsLoading(true);
+    setError(null);
+    setErrorCause(null);
+    setRewrite(null);
+    setIsPartial(false);
+    try {
+      const result = await rewriteLinkedInSections(profile, analysis, provider, {
+        signal: controller.signal,
+        language,
+        onPartial: (partial) => {
+          latest = partial;
+          setRewrite(partial);
+        },
+      });
+      setRewrite(result);
+      onRewrite?.(result);
+    } catch (e) {
+      if (controller.signal.aborted) {
+        if (latest) setIsPartial(true);
+        return;
+      }
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setError(`Failed to rewrite the profile sections. ${errorMessage}`);
+      setErrorCause(e);
+      console.error('Could not rewrite LinkedIn sections:', e);
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  }, [profile, analysis, provider, language, onRewrite]);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold text-purple-300">LinkedIn Section Rewriter</h2>
+        <button onClick={onBack} className="text-sm text-purple-400 hover:text-purple-300">&larr; Back to Analysis</button>
+      </div>
+
+      {!rewrite && !isLoading && (
+        <div className="space-y-4">
+          <p className="text-gray-400">
+            Get replacement text for your headline, About section and each role description, written to fit LinkedIn's limits
+            ({LINKEDIN_LIMITS.headline} characters for the headline, {LINKEDIN_LIMITS.about.toLocaleString()} for About, {LINKEDIN_LIMITS.roleDescription.toLocaleString()} per role).
+          </p>
+          <button
+            onClick={handleGenerate}
+            className="w-full flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 transition-all duration-200 transform hover:scale-105 shadow-md"
+          >
+            <SparklesIcon className="h-5 w-5" />
+            <span>Rewrite My LinkedIn Sections</span>
+          </button>
+        </div>
+      )}
+
+      {isLoading && !rewrite && <LoadingSpinner onCancel={handleCancel} />}
+      {error && <ErrorMessage message={error} error={errorCause} onRetry={errorCause ? handleGenerate : undefined} />}
+
+      {rewrite && (
+        <div className="space-y-8">
+          {isLoading && <StreamingIndicator onCancel={handleCancel} />}
+          {isPartial && (
+            <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-xl text-sm" role="status">
+              Generation was cancelled. Some sections are missing or incomplete.
+            </div>
+          )}
+
+          <SectionCard title="Headline" subtitle={rewrite.headlineOriginal ? `Current: ${rewrite.headlineOriginal}` : 'Your profile has no headline yet'}>
+            <ul className="space-y-2">
+              {rewrite.headlines.map((headline, i) => (
+                <li key={i} className="flex flex-col sm:flex-row sm:items-center gap-2 bg-gray-900/60 border border-gray-700 rounded-lg p-3">
+                  <p className="flex-1 text-gray-200">{headline}</p>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <CharCounter text={headline} limit={LINKEDIN_LIMITS.headline} />
+                    <CopyButton text={headline} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </SectionCard>
+
+          {(rewrite.about || rewrite.aboutOriginal) && (
+            <SectionCard
+              title="About"
+              actions={<><CharCounter text={rewrite.about} limit={LINKEDIN_LIMITS.about} /><CopyButton text={rewrite.about} /></>}
+            >
+              <SideBySideDiff original={rewrite.aboutOriginal} rewritten={rewrite.about} />
+            </SectionCard>
+          )}
+
+          {rewrite.roles.map((role, i) => (
+            <SectionCard
+              key={i}
+              title={role.title || 'Role'}
+              subtitle={role.company}
+              actions={<><CharCounter text={role.description} limit={LINKEDIN_LIMITS.roleDescription} /><CopyButton text={role.description} /></>}
+            >
+              <SideBySideDiff original={role.original} rewritten={role.description} />
+            </SectionCard>
+          ))}
+
+          {!isLoading && (
+            <button onClick={handleGenerate} className="text-sm text-purple-400 hover:text-purple-300">
+              Generate new suggestions
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,19 @@
-
 import React from 'react';
 
-export const LoadingSpinner: React.FC = () => {
+interface LoadingSpinnerProps {
+  onCancel?: () => void;
+}
+
+const CancelButton: React.FC<{ onCancel: () => void }> = ({ onCancel }) => (
+  <button
+    onClick={onCancel}
+    className="text-sm font-semibold text-gray-300 border border-gray-600 rounded-lg px-4 py-1.5 hover:bg-gray-700 hover:text-white transition-colors"
+  >
+    Cancel
+  </button>
+);
+
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ onCancel }) => {
   return (
     <div className="flex flex-col items-center justify-center p-8 text-center text-gray-400">
        <svg className="animate-spin -ml-1 mr-3 h-10 w-10 text-purple-500" xmlns="http://www.w3.org/2000/svg" fill="none"
@@ -12,6 +24,20 @@ export const LoadingSpinner: React.FC = () => {
       </svg>
       <p className="mt-4 text-lg">Synthesizing skills with Gemini...</p>
       <p className="text-sm text-gray-500">This may take a few moments.</p>
+      {onCancel && <div className="mt-4"><CancelButton onCancel={onCancel} /></div>}
+    </div>
+  );
+};
+
+// Compact status bar shown above output that is still streaming in
+export const StreamingIndicator: React.FC<{ onCancel: () => void }> = ({ onCancel }) => {
+  return (
+    <div className="flex items-center justify-between gap-4 mb-4 px-4 py-2 rounded-xl bg-gray-800/70 border border-gray-700 text-gray-400">
+      <div className="flex items-center gap-2">
+        <span className="h-2.5 w-2.5 rounded-full bg-purple-500 animate-pulse" />
+        <span className="text-sm">Generating... sections appear as they arrive.</span>
+      </div>
+      <CancelButton onCancel={onCancel} />
     </div>
   );
 };
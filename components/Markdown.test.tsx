@@ -0,0 +1,40 @@
+import { readFileSync } from 'fs';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { APP_MARKDOWN_CLASSES, Markdown, MarkdownInlineText } from './Markdown';
+
+const fixture = (name: string): string =>
+  readFileSync(new URL(`../services/__fixtures__/markdown/${name}.md`, import.meta.url), 'utf8');
+
+// Pretty enough to review in a diff: one element per line
+const format = (html: string): string => `${html.replace(/></g, '>\n<')}\n`;
+
+describe('Markdown golden output', () => {
+  it('renders an analysis in the app theme', async () => {
+    const html = renderToStaticMarkup(<Markdown text={fixture('analysis')} classNames={APP_MARKDOWN_CLASSES} />);
+    await expect(format(html)).toMatchFileSnapshot('../services/__fixtures__/markdown/analysis.html');
+  });
+
+  it('renders a resume with line breaks as in the resume templates', async () => {
+    const html = renderToStaticMarkup(<Markdown text={fixture('resume')} breaks />);
+    await expect(format(html)).toMatchFileSnapshot('../services/__fixtures__/markdown/resume.html');
+  });
+
+  it('renders unsafe links as plain text', async () => {
+    const html = renderToStaticMarkup(<Markdown text={fixture('unsafe-links')} />);
+    await expect(format(html)).toMatchFileSnapshot('../services/__fixtures__/markdown/unsafe-links.html');
+    expect(html).not.toMatch(/href="\s*(?:javascript|vbscript|data):/i);
+  });
+});
+
+describe('MarkdownInlineText', () => {
+  it('renders a line without a paragraph and opens links in a new tab', () => {
+    expect(renderToStaticMarkup(<MarkdownInlineText text="**Go** and [docs](https://go.dev)" />))
+      .toBe('<strong>Go</strong> and <a href="https://go.dev" target="_blank" rel="noopener noreferrer">docs</a>');
+  });
+
+  it('drops the link but keeps its text for a javascript: URL', () => {
+    expect(renderToStaticMarkup(<MarkdownInlineText text="[click](javascript:alert(1))" />)).toBe('click');
+  });
+});
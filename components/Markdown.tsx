@@ -0,0 +1,164 @@
+import React, { useMemo } from 'react';
+import { parseInline, parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../services/markdown';
+
+// Class names per element; the resume templates style plain elements through their own CSS and pass none
+export interface MarkdownClassNames {
+  heading?: string;
+  paragraph?: string;
+  list?: string;
+  orderedList?: string;
+  listItem?: string;
+  blockquote?: string;
+  codeBlock?: string;
+  code?: string;
+  table?: string;
+  tableHeader?: string;
+  tableCell?: string;
+  link?: string;
+  strong?: string;
+  rule?: string;
+}
+
+// The app's dark theme
+export const APP_MARKDOWN_CLASSES: MarkdownClassNames = {
+  heading: 'font-semibold text-purple-300 mt-4 mb-2',
+  paragraph: 'leading-relaxed',
+  list: 'list-disc list-outside ml-6 space-y-1',
+  orderedList: 'list-decimal list-outside ml-6 space-y-1',
+  blockquote: 'border-l-4 border-gray-600 pl-4 text-gray-400 italic',
+  codeBlock: 'bg-gray-900 border border-gray-700 rounded-lg p-3 overflow-x-auto font-mono text-sm text-gray-300',
+  code: 'bg-gray-700/50 text-purple-300 rounded px-1.5 py-1 font-mono text-sm',
+  table: 'w-full text-sm text-left border-collapse',
+  tableHeader: 'border-b border-gray-600 py-1.5 pr-3 font-semibold text-gray-200',
+  tableCell: 'border-b border-gray-700/60 py-1.5 pr-3',
+  link: 'text-indigo-400 hover:underline',
+  strong: 'font-semibold text-gray-200',
+  rule: 'border-gray-700 my-4',
+};
+
+interface RenderOptions {
+  classNames: MarkdownClassNames;
+  // Single line breaks inside a paragraph become <br>, as in the line-by-line resume sections
+  breaks: boolean;
+  // Wraps the content of each source line, e.g. to flag an unsupported claim on it
+  wrapLine?: (line: number, content: React.ReactNode) => React.ReactNode;
+}
+
+const renderInline = (nodes: MarkdownInline[], options: RenderOptions): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'code':
+        return <code key={i} className={options.classNames.code}>{node.text}</code>;
+      case 'strong':
+        return <strong key={i} className={options.classNames.strong}>{renderInline(node.children, options)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInline(node.children, options)}</em>;
+      case 'strikethrough':
+        return <del key={i}>{renderInline(node.children, options)}</del>;
+      case 'link':
+        return node.href === null
+          ? <React.Fragment key={i}>{renderInline(node.children, options)}</React.Fragment>
+          : <a key={i} href={node.href} title={node.title || undefined} target="_blank" rel="noopener noreferrer" className={options.classNames.link}>{renderInline(node.children, options)}</a>;
+      case 'hardbreak':
+        return <br key={i} />;
+      case 'softbreak':
+        return options.breaks ? <br key={i} /> : <React.Fragment key={i}>{'\n'}</React.Fragment>;
+    }
+  });
+
+const countBreaks = (node: MarkdownInline): number =>
+  node.type === 'softbreak' || node.type === 'hardbreak' ? 1
+    : 'children' in node ? node.children.reduce((sum, child) => sum + countBreaks(child), 0)
+    : 0;
+
+// Inline content of a block starting on the given line, split at its line breaks when each line is wrapped
+const renderLines = (nodes: MarkdownInline[], line: number, options: RenderOptions): React.ReactNode => {
+  const { wrapLine } = options;
+  if (!wrapLine) return renderInline(nodes, options);
+  const segments: { line: number; nodes: MarkdownInline[] }[] = [{ line, nodes: [] }];
+  let current = line;
+  nodes.forEach(node => {
+    if (node.type === 'softbreak' || node.type === 'hardbreak') {
+      current++;
+      segments.push({ line: current, nodes: [] });
+      segments[segments.length - 2].nodes.push(node);
+      return;
+    }
+    segments[segments.length - 1].nodes.push(node);
+    // Breaks inside e.g. a bold run still move on to the next source line
+    current += countBreaks(node);
+  });
+  return segments.map((segment, i) => (
+    <React.Fragment key={i}>{wrapLine(segment.line, renderInline(segment.nodes, options))}</React.Fragment>
+  ));
+};
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+
+const renderBlocks = (blocks: MarkdownBlock[], options: RenderOptions, tight = false): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    const { classNames } = options;
+    switch (block.type) {
+      case 'heading': {
+        const Heading = HEADINGS[block.level - 1];
+        return <Heading key={i} className={classNames.heading}>{renderLines(block.children, block.line, options)}</Heading>;
+      }
+      case 'paragraph':
+        return tight
+          ? <React.Fragment key={i}>{renderLines(block.children, block.line, options)}</React.Fragment>
+          : <p key={i} className={classNames.paragraph}>{renderLines(block.children, block.line, options)}</p>;
+      case 'list': {
+        const items = block.items.map((item, k) => <li key={k} className={classNames.listItem}>{renderBlocks(item.children, options, block.tight)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start !== 1 ? block.start : undefined} className={classNames.orderedList ?? classNames.list}>{items}</ol>
+          : <ul key={i} className={classNames.list}>{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={i} className={classNames.blockquote}>{renderBlocks(block.children, options)}</blockquote>;
+      case 'code':
+        return <pre key={i} className={classNames.codeBlock}><code>{block.text}</code></pre>;
+      case 'table':
+        return (
+          <table key={i} className={classNames.table}>
+            <thead>
+              <tr>{block.header.map((cell, k) => <th key={k} className={classNames.tableHeader} style={{ textAlign: block.align[k] ?? undefined }}>{renderInline(cell, options)}</th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, k) => (
+                    <td key={k} className={classNames.tableCell} style={{ textAlign: block.align[k] ?? undefined }}>
+                      {/* Rows start two lines below the header, after the delimiter row */}
+                      {options.wrapLine ? options.wrapLine(block.line + 2 + r, renderInline(cell, options)) : renderInline(cell, options)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      case 'rule':
+        return <hr key={i} className={classNames.rule} />;
+    }
+  });
+
+interface MarkdownProps {
+  text: string;
+  classNames?: MarkdownClassNames;
+  breaks?: boolean;
+  wrapLine?: (line: number, content: React.ReactNode) => React.ReactNode;
+}
+
+// Block Markdown: headings, nested and ordered lists, quotes, code, tables; shared by the app, the resume preview and print
+export const Markdown: React.FC<MarkdownProps> = ({ text, classNames = {}, breaks = false, wrapLine }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <>{renderBlocks(blocks, { classNames, breaks, wrapLine })}</>;
+};
+
+// A single line of Markdown, such as a bullet or a skill list, without a surrounding paragraph
+export const MarkdownInlineText: React.FC<{ text: string; classNames?: MarkdownClassNames }> = ({ text, classNames = {} }) => {
+  const nodes = useMemo(() => parseInline(text), [text]);
+  return <>{renderInline(nodes, { classNames, breaks: false })}</>;
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import {
+  clearPersonalInfo, EMPTY_PERSONAL_INFO, fillEmptyFields, personalInfoFromProfile, savePersonalInfo, validatePersonalInfo,
+  type PersonalInfoField,
+} from '../services/personalInfo';
+import type { GitHubProfile, PersonalInfo, PersonalLink, ProfileDocument } from '../types';
+
+interface PersonalInfoFormProps {
+  value: PersonalInfo;
+  onChange: (info: PersonalInfo) => void;
+  // Offers to fill the empty fields from the pasted or imported profile
+  profile?: ProfileDocument | null;
+  github?: GitHubProfile | null;
+}
+
+const FIELDS: { field: PersonalInfoField; label: string; placeholder: string; type: string; wide?: boolean }[] = [
+  { field: 'name', label: 'Full name', placeholder: 'Jane Doe', type: 'text' },
+  { field: 'headline', label: 'Headline', placeholder: 'Senior Backend Engineer', type: 'text' },
+  { field: 'email', label: 'Email', placeholder: 'jane@example.com', type: 'email' },
+  { field: 'phone', label: 'Phone', placeholder: '+1 555 123 4567', type: 'tel' },
+  { field: 'location', label: 'Location', placeholder: 'Berlin, Germany', type: 'text' },
+  { field: 'website', label: 'Website / portfolio', placeholder: 'janedoe.dev', type: 'url' },
+  { field: 'linkedin', label: 'LinkedIn', placeholder: 'linkedin.com/in/janedoe', type: 'url' },
+  { field: 'github', label: 'GitHub', placeholder: 'janedoe or github.com/janedoe', type: 'text' },
+];
+
+const inputClass = 'w-full bg-gray-900 border rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none';
+const borderClass = (error?: string) => (error ? 'border-red-500' : 'border-gray-600');
+
+// Contact details for the resume header and the cover letter letterhead; every change is saved in this browser
+export const PersonalInfoForm: React.FC<PersonalInfoFormProps> = ({ value, onChange, profile, github }) => {
+  const [fillNote, setFillNote] = useState<string>('');
+  const errors = validatePersonalInfo(value);
+
+  const update = (next: PersonalInfo) => {
+    onChange(next);
+    savePersonalInfo(next);
+    setFillNote('');
+  };
+
+  const updateLink = (index: number, patch: Partial<PersonalLink>) =>
+    update({ ...value, links: value.links.map((link, i) => (i === index ? { ...link, ...patch } : link)) });
+
+  const handleFill = () => {
+    if (!profile) return;
+    const filled = fillEmptyFields(value, personalInfoFromProfile(profile, github));
+    const added = FIELDS.filter(({ field }) => filled[field] !== value[field]).map(({ label }) => label.toLowerCase());
+    update(filled);
+    setFillNote(added.length > 0 ? `Filled in ${added.join(', ')} from the profile. Check them before generating.` : 'The profile has nothing for the empty fields.');
+  };
+
+  const handleForget = () => {
+    clearPersonalInfo();
+    onChange(EMPTY_PERSONAL_INFO);
+    setFillNote('Saved details removed from this browser.');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {FIELDS.map(({ field, label, placeholder, type }) => (
+          <label key={field} className="flex flex-col gap-1 text-sm text-gray-400">
+            {label}
+            <input
+              type={type}
+              name={field}
+              value={value[field]}
+              placeholder={placeholder}
+              onChange={(e) => update({ ...value, [field]: e.target.value })}
+              aria-invalid={Boolean(errors[field])}
+              className={`${inputClass} ${borderClass(errors[field])}`}
+            />
+            {errors[field] && <span className="text-xs text-red-400">{errors[field]}</span>}
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-400">Other links, e.g. a blog or Stack Overflow</p>
+        {value.links.map((link, i) => (
+          <div key={i} className="space-y-1">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={link.label}
+                placeholder="Label"
+                onChange={(e) => updateLink(i, { label: e.target.value })}
+                className={`${inputClass} ${borderClass()} sm:w-40 flex-shrink-0`}
+                aria-label={`Link ${i + 1} label`}
+              />
+              <input
+                type="url"
+                value={link.url}
+                placeholder="example.com/blog"
+                onChange={(e) => updateLink(i, { url: e.target.value })}
+                aria-invalid={Boolean(errors[`link-${i}`])}
+                className={`${inputClass} ${borderClass(errors[`link-${i}`])}`}
+                aria-label={`Link ${i + 1} URL`}
+              />
+              <button
+                onClick={() => update({ ...value, links: value.links.filter((_, k) => k !== i) })}
+                className="text-sm text-red-400 hover:text-red-300 px-2"
+                aria-label={`Remove link ${i + 1}`}
+              >
+                Remove
+              </button>
+            </div>
+            {errors[`link-${i}`] && <p className="text-xs text-red-400">{errors[`link-${i}`]}</p>}
+          </div>
+        ))}
+        <button onClick={() => update({ ...value, links: [...value.links, { label: '', url: '' }] })} className="text-sm text-purple-400 hover:text-purple-300">
+          + Add link
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        {profile && (
+          <button onClick={handleFill} className="text-purple-400 hover:text-purple-300">Fill in from profile</button>
+        )}
+        <button onClick={handleForget} className="text-gray-400 hover:text-gray-300">Forget saved details</button>
+        {fillNote && <span className="text-gray-400" role="status">{fillNote}</span>}
+      </div>
+      <p className="text-xs text-gray-500">Empty fields are left out. Your details are saved in this browser only, for the next resume or letter.</p>
+    </div>
+  );
+};
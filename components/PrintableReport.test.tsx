@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { printReport, renderPrintableReport } from './PrintableReport';
+
+const fakeWindow = () => ({
+  document: { write: vi.fn(), close: vi.fn() },
+  focus: vi.fn(),
+  print: vi.fn(),
+  close: vi.fn(),
+});
+
+describe('printReport', () => {
+  it('writes the report and prints it', async () => {
+    vi.useFakeTimers();
+    const printWindow = fakeWindow();
+    await printReport(printWindow as unknown as Window, Promise.resolve('<p>Report</p>'));
+    expect(printWindow.document.write).toHaveBeenCalledWith('<p>Report</p>');
+    vi.runAllTimers();
+    expect(printWindow.print).toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+
+  it('closes the blank window and rethrows when the report cannot be rendered', async () => {
+    const printWindow = fakeWindow();
+    const failure = new Error('Failed to fetch dynamically imported module');
+    await expect(printReport(printWindow as unknown as Window, Promise.reject(failure))).rejects.toBe(failure);
+    expect(printWindow.close).toHaveBeenCalled();
+    expect(printWindow.document.write).not.toHaveBeenCalled();
+  });
+});
+
+describe('renderPrintableReport', () => {
+  it('renders a standalone document with the report styles or the ones passed in', async () => {
+    const report = await renderPrintableReport('Skills <& Roles>', <h1>Report</h1>);
+    expect(report).toMatch(/^<!DOCTYPE html>.*<title>Skills  Roles><\/title><style>\s*body \{ font-family: Helvetica.*<body><h1>Report<\/h1><\/body><\/html>$/s);
+
+    const resume = await renderPrintableReport('Resume', <p>Page</p>, '.resume-doc { color: black; }');
+    expect(resume).toContain('<style>.resume-doc { color: black; }</style></head><body><p>Page</p>');
+  });
+});
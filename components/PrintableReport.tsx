@@ -0,0 +1,44 @@
+import React from 'react';
+
+// Light styles for reports opened in the print window, independent of the app's dark theme
+const REPORT_CSS = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #1f2937; font-size: 10pt; margin: 1.5cm; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  h2 { font-size: 13pt; margin: 18pt 0 6pt; border-bottom: 1px solid #d1d5db; padding-bottom: 2pt; }
+  h3 { font-size: 11pt; margin: 8pt 0 2pt; }
+  h4 { font-size: 11pt; margin: 12pt 0 4pt; }
+  .muted { color: #6b7280; font-size: 9pt; margin: 0 0 6pt; }
+  table { border-collapse: collapse; width: 100%; page-break-inside: auto; }
+  th, td { border: 1px solid #e5e7eb; padding: 3pt 6pt; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  tr { page-break-inside: avoid; }
+  ul { margin: 0; padding-left: 14pt; }
+  svg { display: block; width: 100%; height: auto; margin: 4pt 0 8pt; }
+  .keep { page-break-inside: avoid; }
+`;
+
+// Standalone HTML document for the print window; resumes and cover letters bring their template styles instead
+export const renderPrintableReport = async (title: string, report: React.ReactElement, css: string = REPORT_CSS): Promise<string> => {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title.replace(/[<&]/g, '')}</title><style>${css}</style></head><body>${renderToStaticMarkup(report)}</body></html>`;
+};
+
+// Writes the report into a window that was opened synchronously in the click handler, so popup blockers allow it.
+// If the report cannot be rendered, e.g. because the renderer failed to load, the window is closed and the error rethrown.
+export const printReport = async (printWindow: Window, html: Promise<string>): Promise<void> => {
+  let documentHtml: string;
+  try {
+    documentHtml = await html;
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+  printWindow.document.write(documentHtml);
+  printWindow.document.close();
+  printWindow.focus();
+  // Timeout to allow styles to load
+  setTimeout(() => {
+    printWindow.print();
+    printWindow.close();
+  }, 250);
+};
@@ -0,0 +1,287 @@
+import React, { useRef, useState } from 'react';
+import { createResumeFromAnalysis, summarizeLinkedInProfile } from '../services/geminiService';
+import { DEFAULT_MODELS, PROVIDER_LABELS, type LLMSettings, type ProviderId } from '../services/llm/llmProvider';
+import { createProvider } from '../services/llm/createProvider';
+import { withRedaction } from '../services/llm/redactingProvider';
+import type { RedactionSettings } from '../services/piiRedaction';
+import { analysisToMarkdown } from '../services/analysisFormatter';
+import { loadPersonalInfo } from '../services/personalInfo';
+import {
+  findTemplateVersion,
+  PROMPT_TEMPLATE_LABELS,
+  resolvePromptTemplate,
+  templateVersionLabel,
+  templateVersions,
+  type PromptTemplateKind,
+  type PromptTemplateSettings,
+} from '../services/promptTemplates';
+import type { GitHubProfile, OutputLanguage, PersonalInfo, ProfileAnalysis, ProfileDocument } from '../types';
+import { ErrorMessage } from './ErrorMessage';
+import { SparklesIcon } from './Icons';
+
+interface PromptComparisonProps {
+  profile: ProfileDocument;
+  // Needed for the resume prompt, which starts from an analysis
+  analysis: ProfileAnalysis | null;
+  personalInfo: PersonalInfo | null;
+  github?: GitHubProfile | null;
+  language?: OutputLanguage;
+  llmSettings: LLMSettings;
+  redaction: RedactionSettings;
+  templates: PromptTemplateSettings;
+  onUseTemplate: (kind: PromptTemplateKind, id: string | null) => void;
+  onUseModel: (settings: LLMSettings) => void;
+  onBack: () => void;
+}
+
+// One column of the comparison: which prompt version and which model produce it
+interface ComparisonSide {
+  templateId: string | null;
+  settings: LLMSettings;
+}
+
+interface SideResult {
+  output: string;
+  isRunning: boolean;
+  error: string | null;
+  errorCause: unknown;
+  // Time until the last chunk arrived
+  durationMs: number | null;
+}
+
+const EMPTY_RESULT: SideResult = { output: '', isRunning: false, error: null, errorCause: null, durationMs: null };
+
+const SIDE_NAMES = ['A', 'B'] as const;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+const sameModel = (a: LLMSettings, b: LLMSettings): boolean =>
+  a.provider === b.provider && a.model === b.model && (a.provider !== 'openai-compatible' || a.baseUrl === b.baseUrl);
+
+const SideSettings: React.FC<{
+  name: string;
+  kind: PromptTemplateKind;
+  side: ComparisonSide;
+  templates: PromptTemplateSettings;
+  onChange: (side: ComparisonSide) => void;
+  disabled: boolean;
+}> = ({ name, kind, side, templates, onChange, disabled }) => {
+  const fieldClass = 'bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white disabled:text-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none';
+  return (
+    <fieldset className="border border-gray-700 rounded-xl p-4 space-y-3" disabled={disabled}>
+      <legend className="px-2 text-sm font-semibold text-purple-300">{name}</legend>
+      <label className="flex flex-col gap-1 text-sm text-gray-400">
+        Prompt version
+        <select value={side.templateId ?? ''} onChange={(e) => onChange({ ...side, templateId: e.target.value || null })} className={fieldClass}>
+          <option value="">Default</option>
+          {templateVersions(templates, kind).map(version => (
+            <option key={version.id} value={version.id}>{templateVersionLabel(version)}</option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Provider
+          <select
+            value={side.settings.provider}
+            onChange={(e) => {
+              const provider = e.target.value as ProviderId;
+              onChange({ ...side, settings: { ...side.settings, provider, model: DEFAULT_MODELS[provider] } });
+            }}
+            className={fieldClass}
+          >
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Model
+          <input
+            type="text"
+            value={side.settings.model}
+            onChange={(e) => onChange({ ...side, settings: { ...side.settings, model: e.target.value } })}
+            disabled={side.settings.provider === 'mock'}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+    </fieldset>
+  );
+};
+
+export const PromptComparison: React.FC<PromptComparisonProps> = ({
+  profile, analysis, personalInfo, github, language, llmSettings, redaction, templates, onUseTemplate, onUseModel, onBack,
+}) => {
+  const [kind, setKind] = useState<PromptTemplateKind>('analysis');
+  // A starts from what is in use, B from the newest saved version, which is usually the one being evaluated
+  const [sides, setSides] = useState<ComparisonSide[]>(() => {
+    const latest = templateVersions(templates, 'analysis').at(-1);
+    return [
+      { templateId: templates.active.analysis, settings: llmSettings },
+      { templateId: latest?.id ?? templates.active.analysis, settings: llmSettings },
+    ];
+  });
+  const [results, setResults] = useState<SideResult[]>([EMPTY_RESULT, EMPTY_RESULT]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isRunning = results.some(result => result.isRunning);
+
+  const updateResult = (index: number, patch: Partial<SideResult>) => {
+    setResults(prev => prev.map((result, i) => (i === index ? { ...result, ...patch } : result)));
+  };
+
+  const handleKindChange = (next: PromptTemplateKind) => {
+    const latest = templateVersions(templates, next).at(-1);
+    setKind(next);
+    setSides(prev => [
+      { ...prev[0], templateId: templates.active[next] },
+      { ...prev[1], templateId: latest?.id ?? templates.active[next] },
+    ]);
+    setResults([EMPTY_RESULT, EMPTY_RESULT]);
+  };
+
+  const runSide = async (index: number, side: ComparisonSide, signal: AbortSignal) => {
+    const provider = withRedaction(createProvider(side.settings), redaction);
+    const promptTemplate = resolvePromptTemplate(templates, kind, side.templateId);
+    const startedAt = performance.now();
+    const onOutput = (output: string) => updateResult(index, { output, durationMs: performance.now() - startedAt });
+    try {
+      if (kind === 'analysis') {
+        const result = await summarizeLinkedInProfile(profile, provider, {
+          signal,
+          github: github ?? undefined,
+          language,
+          promptTemplate,
+          onPartial: (partial) => onOutput(analysisToMarkdown(partial)),
+        });
+        onOutput(analysisToMarkdown(result));
+      } else if (analysis) {
+        const result = await createResumeFromAnalysis(analysis, personalInfo ?? loadPersonalInfo(), provider, {
+          signal,
+          github: github ?? undefined,
+          language,
+          promptTemplate,
+          onPartial: onOutput,
+        });
+        onOutput(result);
+      }
+    } catch (e) {
+      // A cancelled side keeps what it wrote so far
+      if (signal.aborted) return;
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      updateResult(index, { error: `Side ${SIDE_NAMES[index]} failed. ${errorMessage}`, errorCause: e });
+    } finally {
+      updateResult(index, { isRunning: false });
+    }
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setResults(sides.map(() => ({ ...EMPTY_RESULT, isRunning: true })));
+    // Both sides run at the same time on the same input
+    await Promise.all(sides.map((side, index) => runSide(index, side, controller.signal)));
+    abortControllerRef.current = null;
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-3xl font-bold text-purple-300">Compare Prompts</h2>
+        <button onClick={onBack} disabled={isRunning} className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-600">&larr; Back to templates</button>
+      </div>
+      <p className="text-sm text-gray-400">
+        Runs two prompt versions, or the same version on two models, on the current profile and shows the results side by side.
+      </p>
+
+      <label className="flex items-center gap-3 text-sm text-gray-400">
+        <span>Compare the</span>
+        <select
+          value={kind}
+          onChange={(e) => handleKindChange(e.target.value as PromptTemplateKind)}
+          disabled={isRunning}
+          className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        >
+          {(Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplateKind[]).map(id => (
+            <option key={id} value={id} disabled={id === 'resume' && !analysis}>{PROMPT_TEMPLATE_LABELS[id]}</option>
+          ))}
+        </select>
+        <span>prompt</span>
+      </label>
+      {kind === 'resume' && (
+        <p className="text-xs text-gray-500">Both resumes are written from the current analysis{personalInfo?.name ? ` and ${personalInfo.name}'s contact details` : ''}.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {sides.map((side, index) => (
+          <SideSettings
+            key={SIDE_NAMES[index]}
+            name={SIDE_NAMES[index]}
+            kind={kind}
+            side={side}
+            templates={templates}
+            onChange={(next) => setSides(prev => prev.map((existing, i) => (i === index ? next : existing)))}
+            disabled={isRunning}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-center">
+        {isRunning ? (
+          <button onClick={() => abortControllerRef.current?.abort()} className="bg-gray-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-gray-700 transition-colors">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={kind === 'resume' && !analysis}
+            className="flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-all duration-200 transform hover:scale-105 shadow-md"
+          >
+            <SparklesIcon className="h-5 w-5" />
+            <span>Run Both</span>
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {sides.map((side, index) => {
+          const result = results[index];
+          const version = findTemplateVersion(templates, side.templateId);
+          const hasOutput = result.output.length > 0 || result.isRunning;
+          return (
+            <div key={SIDE_NAMES[index]} className="flex flex-col gap-2 min-w-0">
+              <div className="flex flex-wrap justify-between items-baseline gap-2 text-sm">
+                <span className="font-semibold text-gray-200">{SIDE_NAMES[index]}: {templateVersionLabel(version)} &middot; {side.settings.model}</span>
+                {result.durationMs !== null && (
+                  <span className="text-xs text-gray-500 tabular-nums">{countWords(result.output)} words &middot; {(result.durationMs / 1000).toFixed(1)} s</span>
+                )}
+              </div>
+              {result.error && <ErrorMessage message={result.error} error={result.errorCause} />}
+              {hasOutput && (
+                <pre className={`whitespace-pre-wrap font-sans text-sm text-gray-300 bg-gray-900 border border-gray-700 rounded-lg p-3 max-h-[32rem] overflow-y-auto ${result.isRunning ? 'animate-pulse' : ''}`}>
+                  {result.output || 'Waiting for the model...'}
+                </pre>
+              )}
+              {!result.isRunning && result.output && !result.error && (
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <button
+                    onClick={() => onUseTemplate(kind, side.templateId)}
+                    disabled={templates.active[kind] === side.templateId}
+                    className="text-purple-400 hover:text-purple-300 disabled:text-gray-600"
+                  >
+                    {templates.active[kind] === side.templateId ? 'Prompt in use' : 'Use this prompt'}
+                  </button>
+                  {!sameModel(side.settings, llmSettings) && (
+                    <button onClick={() => onUseModel(side.settings)} className="text-purple-400 hover:text-purple-300">
+                      Use this model
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
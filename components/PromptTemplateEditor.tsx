@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import {
+  addTemplateVersion,
+  checkPromptTemplate,
+  deleteTemplateVersion,
+  findTemplateVersion,
+  PROMPT_TEMPLATE_LABELS,
+  PROMPT_VARIABLES,
+  resolvePromptTemplate,
+  setActiveTemplate,
+  templateVersionLabel,
+  templateVersions,
+  type PromptTemplateKind,
+  type PromptTemplateSettings,
+} from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  settings: PromptTemplateSettings;
+  onChange: (settings: PromptTemplateSettings) => void;
+  // Opens the side-by-side comparison; omitted while there is no profile to run it on
+  onCompare?: () => void;
+  onBack: () => void;
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ settings, onChange, onCompare, onBack }) => {
+  const [kind, setKind] = useState<PromptTemplateKind>('analysis');
+  // The version shown in the editor; null for the built-in default
+  const [selectedId, setSelectedId] = useState<string | null>(settings.active.analysis);
+  const [draft, setDraft] = useState<string>(() => resolvePromptTemplate(settings, 'analysis'));
+  const [name, setName] = useState<string>('');
+
+  const versions = templateVersions(settings, kind);
+  const selected = findTemplateVersion(settings, selectedId);
+  const saved = resolvePromptTemplate(settings, kind, selectedId);
+  const isDirty = draft !== saved;
+  const isActive = settings.active[kind] === (selected?.id ?? null);
+  const check = checkPromptTemplate(kind, draft);
+
+  const select = (nextKind: PromptTemplateKind, id: string | null) => {
+    setKind(nextKind);
+    setSelectedId(id);
+    setDraft(resolvePromptTemplate(settings, nextKind, id));
+    setName('');
+  };
+
+  const handleSave = () => {
+    const result = addTemplateVersion(settings, kind, name, draft);
+    onChange(result.settings);
+    setSelectedId(result.version.id);
+    setName('');
+  };
+
+  const handleReset = () => {
+    onChange(setActiveTemplate(settings, kind, null));
+    select(kind, null);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Delete ${templateVersionLabel(selected)}?`)) return;
+    const next = deleteTemplateVersion(settings, selected.id);
+    onChange(next);
+    setSelectedId(null);
+    setDraft(resolvePromptTemplate(next, kind, null));
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-3xl font-bold text-purple-300">Prompt Templates</h2>
+        <button onClick={onBack} className="text-sm text-purple-400 hover:text-purple-300">&larr; Back</button>
+      </div>
+      <p className="text-sm text-gray-400">
+        Edit the instructions sent for the analysis and the resume. Every save is kept as a numbered version in this browser, so you can switch back or compare two versions on the same profile.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Prompt
+          <select
+            value={kind}
+            onChange={(e) => {
+              const next = e.target.value as PromptTemplateKind;
+              select(next, settings.active[next]);
+            }}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          >
+            {(Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplateKind[]).map(id => (
+              <option key={id} value={id}>{PROMPT_TEMPLATE_LABELS[id]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Version
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => select(kind, e.target.value || null)}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          >
+            <option value="">Default{settings.active[kind] === null ? ' (in use)' : ''}</option>
+            {versions.map(version => (
+              <option key={version.id} value={version.id}>{templateVersionLabel(version)}{settings.active[kind] === version.id ? ' (in use)' : ''}</option>
+            ))}
+          </select>
+        </label>
+        {onCompare && (
+          <button onClick={onCompare} className="ml-auto text-sm text-purple-400 hover:text-purple-300 pb-2">
+            Compare two versions &rarr;
+          </button>
+        )}
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        spellCheck={false}
+        className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-sm font-mono text-gray-200 focus:ring-2 focus:ring-purple-500 focus:outline-none min-h-[360px]"
+      />
+
+      {(check.unknown.length > 0 || check.missing.length > 0 || check.appended.length > 0) && (
+        <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-xl text-sm space-y-1" role="status">
+          {check.missing.length > 0 && <p>The prompt does not use {check.missing.map(variable => `{{${variable}}}`).join(', ')}, so the model will not see that input.</p>}
+          {check.unknown.length > 0 && <p>Not filled in by the app and sent as written: {check.unknown.map(variable => `{{${variable}}}`).join(', ')}.</p>}
+          {check.appended.length > 0 && <p>The prompt does not place {check.appended.map(variable => `{{${variable}}}`).join(', ')}, so the app adds {check.appended.length === 1 ? 'it' : 'them'} at the end. Place {check.appended.length === 1 ? 'it' : 'them'} in the instructions to control where.</p>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Version name, e.g. shorter bullets"
+          className="flex-grow min-w-[12rem] bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="bg-purple-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-colors"
+        >
+          Save as v{Math.max(0, ...versions.map(version => version.version)) + 1}
+        </button>
+        <button
+          onClick={() => onChange(setActiveTemplate(settings, kind, selected?.id ?? null))}
+          disabled={isDirty || isActive}
+          className="bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isActive && !isDirty ? 'In use' : 'Use this version'}
+        </button>
+        {isDirty && (
+          <button onClick={() => setDraft(saved)} className="text-sm text-purple-400 hover:text-purple-300">Discard changes</button>
+        )}
+        {selected && !isDirty && (
+          <button onClick={handleDelete} className="text-sm text-red-400 hover:text-red-300">Delete</button>
+        )}
+        <button
+          onClick={handleReset}
+          disabled={settings.active[kind] === null && selectedId === null && !isDirty}
+          className="ml-auto text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-600"
+        >
+          Reset to default
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">Variables</h3>
+        <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          {PROMPT_VARIABLES[kind].map(variable => (
+            <React.Fragment key={variable.name}>
+              <dt className="font-mono text-purple-300">{`{{${variable.name}}}`}</dt>
+              <dd className="text-gray-400">{variable.description}{variable.required && <span className="text-gray-500"> (required)</span>}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { detectPii, PII_KIND_LABELS, PLACEHOLDER_PATTERN, redactPrompt, type PiiItem, type RedactionSettings } from '../services/piiRedaction';
+
+interface RedactionPreviewProps {
+  // The prompt as it would be sent without redaction
+  prompt: string;
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  disabled?: boolean;
+}
+
+const PLACEHOLDER_SPLIT = new RegExp(`(${PLACEHOLDER_PATTERN.source})`);
+
+// The outgoing text with its placeholders highlighted
+const RedactedText: React.FC<{ text: string }> = ({ text }) => (
+  <pre className="mt-2 whitespace-pre-wrap font-sans text-xs text-gray-300 max-h-80 overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg p-3">
+    {text.split(PLACEHOLDER_SPLIT).map((part, i) =>
+      i % 2 === 1 ? <mark key={i} className="bg-green-500/20 text-green-300 rounded-sm">{part}</mark> : part
+    )}
+  </pre>
+);
+
+export const RedactionPreview: React.FC<RedactionPreviewProps> = ({ prompt, settings, onChange, disabled = false }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [term, setTerm] = useState<string>('');
+
+  const items = useMemo(() => (settings.enabled ? detectPii(prompt, settings) : []), [prompt, settings]);
+  const outgoing = useMemo(() => redactPrompt(prompt, items), [prompt, items]);
+  const redactedCount = items.filter(item => item.redacted).length;
+
+  const handleToggleItem = (item: PiiItem) => {
+    const key = item.value.toLowerCase();
+    const allowed = item.redacted
+      ? [...settings.allowed, item.value]
+      : settings.allowed.filter(value => value.toLowerCase() !== key);
+    const customTerms = item.kind === 'custom' ? settings.customTerms.filter(value => value.toLowerCase() !== key) : settings.customTerms;
+    onChange({ ...settings, allowed, customTerms });
+  };
+
+  const handleAddTerm = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = term.trim();
+    if (!value) return;
+    onChange({
+      ...settings,
+      customTerms: [...settings.customTerms.filter(existing => existing.toLowerCase() !== value.toLowerCase()), value],
+      allowed: settings.allowed.filter(existing => existing.toLowerCase() !== value.toLowerCase()),
+    });
+    setTerm('');
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-600 rounded-lg px-4 py-3 text-sm text-gray-400 space-y-3">
+      <div className="flex justify-between items-center gap-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            disabled={disabled}
+            className="accent-purple-500"
+          />
+          <span>
+            Redact personal details before sending
+            {settings.enabled && prompt.trim() && (
+              <span className="text-gray-500"> &middot; {redactedCount === 1 ? '1 item' : `${redactedCount} items`} will be replaced</span>
+            )}
+          </span>
+        </label>
+        <button type="button" onClick={() => setExpanded(prev => !prev)} className="text-purple-400 hover:text-purple-300 flex-shrink-0">
+          {expanded ? 'Hide preview' : 'Preview what is sent'}
+        </button>
+      </div>
+
+      {expanded && (
+        <>
+          {settings.enabled && (
+            <>
+              {items.length > 0 ? (
+                <ul className="divide-y divide-gray-700">
+                  {items.map(item => (
+                    <li key={item.value} className="py-1.5 flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={item.redacted}
+                        onChange={() => handleToggleItem(item)}
+                        disabled={disabled}
+                        title={item.redacted ? 'Send this value as it is' : 'Replace this value'}
+                        className="accent-purple-500"
+                      />
+                      <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 w-24 flex-shrink-0">{PII_KIND_LABELS[item.kind]}</span>
+                      <span className={`flex-grow break-all ${item.redacted ? 'text-gray-200' : 'text-gray-500 line-through'}`}>{item.value}</span>
+                      <span className="text-xs text-gray-500 flex-shrink-0">{item.redacted ? item.placeholder : 'sent as is'}{item.occurrences > 1 && ` ×${item.occurrences}`}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p>No personal details were detected.</p>
+              )}
+              <form onSubmit={handleAddTerm} className="flex gap-2">
+                <input
+                  type="text"
+                  value={term}
+                  onChange={(e) => setTerm(e.target.value)}
+                  placeholder="Also redact, e.g. a reference's name"
+                  disabled={disabled}
+                  className="flex-grow bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+                <button type="submit" disabled={disabled || !term.trim()} className="text-purple-400 hover:text-purple-300 disabled:text-gray-600 font-semibold">
+                  Add
+                </button>
+              </form>
+            </>
+          )}
+          <div>
+            <p className="text-xs text-gray-500">
+              Exactly what the analysis request sends to {settings.enabled ? 'the model; placeholders are replaced with the real values when the answer comes back' : 'the model'}:
+            </p>
+            <RedactedText text={outgoing} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
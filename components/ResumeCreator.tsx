@@ -1,201 +1,384 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { createResumeFromAnalysis } from '../services/geminiService';
-import { LoadingSpinner } from './LoadingSpinner';
+import React, { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { createResumeFromAnalysis, rewriteResumeBullet } from '../services/geminiService';
+import type { LLMProvider } from '../services/llm/llmProvider';
+import { parseResumeMarkdown, parseResumeWithDiagnostics, serializeResumeMarkdown, type ResumeParseDiagnostic } from '../services/resumeDocument';
+import type { BulletRewriteStyle, GitHubProfile, OutputLanguage, PersonalInfo, ProfileAnalysis, ProfileDocument, ResumeDocument, ResumeEntryKind, ResumeLengthMode, ResumeLengthTarget, ResumeSectionToggles, ResumeTailoring, ResumeTheme, UnsupportedClaim } from '../types';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import { LoadingSpinner, StreamingIndicator } from './LoadingSpinner';
 import { ErrorMessage } from './ErrorMessage';
+import { ResumeEditor, bulletKey, type ResumeUpdate } from './ResumeEditor';
+import { ExportMenu } from './ExportMenu';
+import { resumeExportFormats } from '../services/resumeExport';
+import { ResumePage, ResumeTemplateStyles, renderPrintableResume } from './ResumeTemplate';
+import { TemplatePicker } from './TemplatePicker';
+import { applySectionOrder, isSectionIncluded, loadResumeSections, loadResumeTheme, RESUME_SECTION_LABELS, saveResumeSections, saveResumeTheme, withIncludedSections } from '../services/resumeTemplates';
+import { removeResumeClaim, verifyResume } from '../services/claimVerification';
+import { ClaimList } from './ClaimReview';
+import { PersonalInfoForm } from './PersonalInfoForm';
+import { loadPersonalInfo, validatePersonalInfo } from '../services/personalInfo';
+import {
+  clampWords, condenseResume, countResumeWords, loadResumeLength, MAX_WORD_BUDGET, MIN_WORD_BUDGET, RESUME_LENGTH_LABELS, saveResumeLength,
+  targetPages, templateWordsPerPage, wordBudget, type ResumeCut,
+} from '../services/resumeLength';
+import { APP_MARKDOWN_CLASSES, Markdown } from './Markdown';
+import { printReport } from './PrintableReport';
 import { SparklesIcon, ClipboardIcon, PrinterIcon } from './Icons';
 
 interface ResumeCreatorProps {
-  analysisText: string;
+  analysis: ProfileAnalysis;
+  // The profile the analysis was made from, to fill in the contact details
+  profile?: ProfileDocument | null;
+  provider: LLMProvider;
+  github?: GitHubProfile | null;
+  tailoring?: ResumeTailoring | null;
+  language?: OutputLanguage;
+  // Replaces the built-in resume prompt, see promptTemplates
+  promptTemplate?: string;
+  // Source profile text to check the resume's facts against, and the claims the user already confirmed
+  claimSource?: string;
+  acceptedClaims?: string[];
+  onAcceptClaim?: (claim: UnsupportedClaim) => void;
+  onClearTailoring?: () => void;
+  // Restores a previously generated resume, e.g. when reopening a history entry
+  initialResume?: string | null;
+  initialPersonalInfo?: PersonalInfo | null;
+  // Called when a resume finishes generating and, debounced, after edits
+  onResumeChange?: (resume: string, personalInfo: PersonalInfo) => void;
   onBack: () => void;
 }
 
-interface PersonalInfo {
-    name: string;
-    email: string;
-    phone: string;
-    website: string;
-}
+// Parts of the model output the layout has no place for, so a formatting slip does not lose content unnoticed
+const ParseDiagnostics: React.FC<{ diagnostics: ResumeParseDiagnostic[] }> = ({ diagnostics }) => (
+  <details className="bg-yellow-900/40 border-b border-yellow-700 text-yellow-200 px-4 py-3 text-sm" role="status">
+    <summary className="cursor-pointer">
+      The generated resume did not match the expected format in {diagnostics.length === 1 ? 'one place' : `${diagnostics.length} places`}; text that could not be placed is not shown. Regenerating usually fixes this.
+    </summary>
+    <ul className="mt-2 space-y-1">
+      {diagnostics.map((diagnostic, i) => (
+        <li key={i}>
+          <span className="text-yellow-400">Line {diagnostic.line}:</span> {diagnostic.message}
+          {diagnostic.text && <span className="font-mono text-yellow-100/80"> &ldquo;{diagnostic.text}&rdquo;</span>}
+        </li>
+      ))}
+    </ul>
+  </details>
+);
 
-// Helper function to parse the resume markdown from Gemini into a structured object
-const parseResumeMarkdown = (text: string) => {
-    if (!text || typeof text !== 'string') return null;
-
-    const lines = text.trim().split('\n').filter(line => line.trim() !== '');
-    if (lines.length < 2) return null;
-
-    const header = {
-        name: lines.shift()?.replace('# ', '').trim() || '',
-        contact: lines.shift()?.trim().split(/\s*\|\s*/) || [],
-    };
-
-    const sections: { title: string; content?: any; jobs?: any[]; skills?: any[] }[] = [];
-    let currentSection: { title: string; content: string[] } | null = null;
-
-    for (const line of lines) {
-        if (line.startsWith('## ')) {
-            currentSection = {
-                title: line.replace('## ', '').trim(),
-                content: [],
-            };
-            sections.push(currentSection);
-        } else if (currentSection) {
-            currentSection.content.push(line);
-        }
-    }
+// Include/exclude switches for the optional sections; the ones the analysis has nothing for are marked
+const SectionToggles: React.FC<{
+  included: ResumeSectionToggles;
+  available: Record<ResumeEntryKind, boolean>;
+  onChange: (included: ResumeSectionToggles) => void;
+}> = ({ included, available, onChange }) => (
+  <fieldset className="flex flex-wrap items-center gap-x-5 gap-y-2 text-sm text-gray-300">
+    <legend className="sr-only">Optional sections</legend>
+    <span className="text-gray-400">Sections:</span>
+    {(Object.keys(RESUME_SECTION_LABELS) as ResumeEntryKind[]).map(kind => (
+      <label key={kind} className="flex items-center gap-2" title={available[kind] ? undefined : 'Nothing in the analysis for this section'}>
+        <input type="checkbox" checked={included[kind]} onChange={(e) => onChange({ ...included, [kind]: e.target.checked })} className="accent-purple-500" />
+        <span className={available[kind] ? undefined : 'text-gray-500'}>{RESUME_SECTION_LABELS[kind]}</span>
+      </label>
+    ))}
+  </fieldset>
+);
 
-    // Post-process sections for specific formatting like Work Experience and Skills
-    const processedSections = sections.map(section => {
-        if (section.title === 'Work Experience') {
-            const jobs: { title: string; company: string; date: string; description: string[] }[] = [];
-            let currentJob: { title: string; company: string; date: string; description: string[] } | null = null;
-            
-            for (const line of section.content) {
-                const titleCompanyMatch = line.match(/^\*\*(.*)\*\* \| (.*)/);
-                const dateMatch = line.match(/^\*(.*)\*/);
-                const bulletMatch = line.match(/^\* (.*)/);
-
-                if (titleCompanyMatch) {
-                    if (currentJob) jobs.push(currentJob);
-                    currentJob = {
-                        title: titleCompanyMatch[1].trim(),
-                        company: titleCompanyMatch[2].trim(),
-                        date: '',
-                        description: [],
-                    };
-                } else if (currentJob && dateMatch) {
-                    currentJob.date = dateMatch[1].trim();
-                } else if (currentJob && bulletMatch) {
-                    currentJob.description.push(bulletMatch[1].trim());
-                }
-            }
-            if (currentJob) jobs.push(currentJob);
-            return { ...section, jobs };
-        }
-        if (section.title === 'Skills') {
-             const skills = section.content.map(line => {
-                const skillMatch = line.match(/^\* \*\*(.*):\*\* (.*)/);
-                if (skillMatch) {
-                    return {
-                        category: skillMatch[1].trim(),
-                        items: skillMatch[2].trim(),
-                    };
-                }
-                return { category: null, items: line.replace(/^\* /, '').trim() };
-            });
-            return { ...section, skills };
-        }
-        return { ...section, content: section.content.join('\n') };
-    });
+// Target length for generating and condensing; the budget field only shows for a word budget
+const LengthControl: React.FC<{
+  length: ResumeLengthTarget;
+  onChange: (length: ResumeLengthTarget) => void;
+}> = ({ length, onChange }) => (
+  <fieldset className="flex flex-wrap items-center gap-x-5 gap-y-2 text-sm text-gray-300">
+    <legend className="sr-only">Target length</legend>
+    <span className="text-gray-400">Length:</span>
+    {(Object.keys(RESUME_LENGTH_LABELS) as ResumeLengthMode[]).map(mode => (
+      <label key={mode} className="flex items-center gap-2">
+        <input type="radio" name="resume-length" checked={length.mode === mode} onChange={() => onChange({ ...length, mode })} className="accent-purple-500" />
+        <span>{RESUME_LENGTH_LABELS[mode]}</span>
+      </label>
+    ))}
+    {length.mode === 'words' && (
+      <label className="flex items-center gap-2">
+        <input
+          type="number"
+          min={MIN_WORD_BUDGET}
+          max={MAX_WORD_BUDGET}
+          step={50}
+          value={length.words}
+          onChange={(e) => {
+            // An emptied or half-typed field keeps the last valid budget
+            if (Number.isFinite(e.target.valueAsNumber)) onChange({ ...length, words: clampWords(e.target.valueAsNumber) });
+          }}
+          className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        />
+        <span>words</span>
+      </label>
+    )}
+  </fieldset>
+);
 
-    return { header, sections: processedSections };
+// What the condensing pass removed, so nothing disappears unnoticed; Undo brings it back
+const CondenseReport: React.FC<{ cuts: ResumeCut[]; fits: boolean; target: string; onDismiss: () => void }> = ({ cuts, fits, target, onDismiss }) => {
+  const dismiss = (
+    <button onClick={(e) => { e.preventDefault(); onDismiss(); }} className="ml-3 text-indigo-300 hover:text-indigo-100">Dismiss</button>
+  );
+  if (cuts.length === 0) {
+    return (
+      <div className="bg-indigo-900/40 border border-indigo-700 text-indigo-200 px-4 py-3 rounded-xl text-sm" role="status">
+        Nothing more can be cut automatically to reach {target}. Shorten the summary or the skills by hand, or pick a denser template.{dismiss}
+      </div>
+    );
+  }
+  const roles = cuts.filter(cut => cut.kind === 'role').length;
+  const bullets = cuts.length - roles;
+  const words = cuts.reduce((sum, cut) => sum + cut.words, 0);
+  const parts = [bullets > 0 && `${bullets} ${bullets === 1 ? 'bullet or detail' : 'bullets and details'}`, roles > 0 && `${roles} older ${roles === 1 ? 'role' : 'roles'}`].filter(Boolean);
+  return (
+    <details className="bg-indigo-900/40 border border-indigo-700 text-indigo-200 px-4 py-3 rounded-xl text-sm" role="status">
+      <summary className="cursor-pointer">
+        Condensed to {target} by cutting {parts.join(' and ')} ({words} words).{!fits && ' It is still over the target; shorten the summary or the skills by hand.'} Undo brings everything back.
+        {dismiss}
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {cuts.map((cut, i) => (
+          <li key={i}>
+            <span className="text-indigo-400">{cut.kind === 'role' ? 'Role' : cut.location}:</span> {cut.text}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
 };
 
+// 11in at 96 CSS pixels per inch
+const PAGE_HEIGHT_PX = 1056;
+
+// Lays the resume out off screen at full page width and reports its height in pages, for the live length estimate
+const PageMeasure: React.FC<{
+  document: ResumeDocument;
+  theme: ResumeTheme;
+  includedSections: ResumeSectionToggles;
+  onMeasure: (pages: number) => void;
+}> = ({ document: doc, theme, includedSections, onMeasure }) => {
+  const pageRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = pageRef.current;
+    if (!element) return;
+    const measure = () => onMeasure(element.getBoundingClientRect().height / PAGE_HEIGHT_PX);
+    measure();
+    // Web fonts that finish loading change the height as well
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [doc, theme, includedSections, onMeasure]);
+
+  return (
+    <div aria-hidden="true" style={{ position: 'absolute', left: '-10000px', top: 0, width: '8.5in', visibility: 'hidden', pointerEvents: 'none' }}>
+      <ResumeTemplateStyles />
+      <div ref={pageRef}>
+        <ResumePage document={doc} theme={theme} includedSections={includedSections} />
+      </div>
+    </div>
+  );
+};
 
-// Refactored Renderer using TailwindCSS
-const ResumeRenderer: React.FC<{ markdownText: string }> = ({ markdownText }) => {
-    const resumeData = useMemo(() => parseResumeMarkdown(markdownText), [markdownText]);
+// Live preview in the selected template; falls back to a placeholder while the first lines stream in,
+// and to the plain Markdown when no sections could be recognised
+const ResumeRenderer: React.FC<{
+  markdownText: string;
+  theme: ResumeTheme;
+  includedSections: ResumeSectionToggles;
+  isStreaming?: boolean;
+  claims?: UnsupportedClaim[];
+}> = ({ markdownText, theme, includedSections, isStreaming = false, claims }) => {
+    const { document: resumeData, diagnostics } = useMemo(() => parseResumeWithDiagnostics(markdownText), [markdownText]);
 
     if (!resumeData) {
-        return <div className="text-center p-8 text-gray-500 bg-gray-800/90 rounded-lg">Could not parse resume data.</div>;
+        if (isStreaming) {
+            return <div className="text-center p-8 text-gray-500 bg-gray-800/90 rounded-lg animate-pulse">Writing your resume...</div>;
+        }
+        return <div className="text-center p-8 text-gray-500 bg-gray-800/90 rounded-lg">The model returned an empty resume.</div>;
+    }
+
+    if (resumeData.sections.length === 0 && !isStreaming) {
+        return (
+          <div className="bg-gray-800/90">
+            <ParseDiagnostics diagnostics={diagnostics} />
+            <div className="p-4 sm:p-6 space-y-3 text-gray-300">
+              <Markdown text={markdownText} classNames={APP_MARKDOWN_CLASSES} />
+            </div>
+          </div>
+        );
     }
-    
-    return (
-      <div className="bg-gray-800/90 p-4 sm:p-6 md:p-8 rounded-lg shadow-2xl font-serif text-gray-300 animate-fade-in transition-all duration-500">
-        <header className="text-center mb-6 sm:mb-8 border-b border-gray-600 pb-4">
-          <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold text-gray-100 tracking-tight">{resumeData.header.name}</h1>
-          {resumeData.header.contact.length > 0 && (
-              <p className="text-gray-400 mt-2 text-xs sm:text-sm flex flex-wrap justify-center items-center gap-x-3 gap-y-1">
-                  {resumeData.header.contact.map((item, index) => (
-                      <React.Fragment key={index}>
-                          <span>{item}</span>
-                          {index < resumeData.header.contact.length - 1 && <span className="hidden sm:inline text-gray-500">&bull;</span>}
-                      </React.Fragment>
-                  ))}
-              </p>
-          )}
-        </header>
-  
-        <main className="space-y-6">
-          {resumeData.sections.map((section, index) => (
-            <section key={index} className="animate-fade-in-up" style={{ animationDelay: `${index * 100}ms` }}>
-              <h2 className="text-xl sm:text-2xl font-bold text-purple-300 border-b-2 border-purple-400/50 pb-2 mb-4 tracking-wide font-sans">
-                {section.title}
-              </h2>
-              
-              {section.title === 'Professional Summary' && (
-                <p className="text-gray-300 leading-relaxed text-base">{section.content as string}</p>
-              )}
-
-              {section.title === 'Skills' && section.skills && (
-                  <div className="space-y-2">
-                      {section.skills.map((skill, skillIndex) => (
-                          <div key={skillIndex} className="flex flex-col sm:flex-row text-base">
-                              {skill.category && <p className="font-semibold text-gray-200 w-full sm:w-1/4 flex-shrink-0">{skill.category}:</p>}
-                              <p className={`text-gray-300 ${skill.category ? 'sm:w-3/4' : 'w-full'}`}>{skill.items}</p>
-                          </div>
-                      ))}
-                  </div>
-              )}
-
-              {section.title === 'Work Experience' && section.jobs && (
-                <div className="space-y-6">
-                  {section.jobs.map((job, jobIndex) => (
-                    <div key={jobIndex}>
-                      <div className="flex flex-col sm:flex-row justify-between sm:items-center mb-1">
-                        <h3 className="text-lg sm:text-xl font-bold text-gray-100">
-                          {job.title} | <span className="font-semibold text-gray-200">{job.company}</span>
-                        </h3>
-                        <p className="text-gray-400 text-sm sm:text-base italic flex-shrink-0 mt-1 sm:mt-0">{job.date}</p>
-                      </div>
-                      <ul className="list-disc list-outside ml-5 mt-2 space-y-2 text-gray-300 leading-relaxed text-base">
-                        {job.description.map((desc, descIndex) => (
-                          <li key={descIndex}>{desc}</li>
-                        ))}
-                      </ul>
-                    </div>
-                  ))}
-                </div>
-              )}
 
-            </section>
-          ))}
-        </main>
+    return (
+      <div className="animate-fade-in">
+        {!isStreaming && diagnostics.length > 0 && <ParseDiagnostics diagnostics={diagnostics} />}
+        <div className="bg-gray-700/60 p-3 sm:p-6 overflow-x-auto">
+          <ResumeTemplateStyles />
+          <div className="mx-auto shadow-2xl" style={{ maxWidth: '8.5in', minWidth: '6in' }}>
+            <ResumePage document={resumeData} theme={theme} claims={claims} includedSections={includedSections} />
+          </div>
+        </div>
       </div>
     );
 };
 
 
-export const ResumeCreator: React.FC<ResumeCreatorProps> = ({ analysisText, onBack }) => {
-  const [personalInfo, setPersonalInfo] = useState<PersonalInfo>({ name: '', email: '', phone: '', website: '' });
-  const [resume, setResume] = useState<string | null>(null);
+export const ResumeCreator: React.FC<ResumeCreatorProps> = ({
+  analysis, profile, provider, github, tailoring, language, promptTemplate, claimSource, acceptedClaims = [], onAcceptClaim, onClearTailoring, initialResume = null, initialPersonalInfo = null, onResumeChange, onBack,
+}) => {
+  const [personalInfo, setPersonalInfo] = useState<PersonalInfo>(() => initialPersonalInfo ?? loadPersonalInfo());
+  const hasInfoErrors = Object.keys(validatePersonalInfo(personalInfo)).length > 0;
+  // Raw model output; becomes the editable document once generation finishes
+  const [resume, setResume] = useState<string | null>(initialResume);
+  const editor = useUndoHistory<ResumeDocument | null>(initialResume ? parseResumeMarkdown(initialResume) : null);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [theme, setTheme] = useState<ResumeTheme>(loadResumeTheme);
+  const [includedSections, setIncludedSections] = useState<ResumeSectionToggles>(loadResumeSections);
+  const [length, setLength] = useState<ResumeLengthTarget>(loadResumeLength);
+  // Height of the rendered resume in printed pages; null until it has been laid out
+  const [measuredPages, setMeasuredPages] = useState<number | null>(null);
+  const [condenseReport, setCondenseReport] = useState<{ cuts: ResumeCut[]; fits: boolean } | null>(null);
+  // Set when a generation finishes, so the result is condensed once it has been measured
+  const condensePendingRef = useRef<boolean>(false);
+  const [showDesign, setShowDesign] = useState<boolean>(false);
+  const [improvingBullet, setImprovingBullet] = useState<string | null>(null);
+  const [rewriteError, setRewriteError] = useState<{ message: string; cause: unknown; retry: () => void } | null>(null);
+  const lastSavedRef = useRef<string | null>(initialResume);
+  const [isPartial, setIsPartial] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorCause, setErrorCause] = useState<unknown>(null);
   const [copySuccess, setCopySuccess] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
   
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setPersonalInfo(prev => ({ ...prev, [name]: value }));
-  };
-
   const handleGenerateResume = useCallback(async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let latest: string | null = null;
     setIsLoading(true);
     setError(null);
+    setErrorCause(null);
     setResume(null);
+    editor.reset(null);
+    setIsEditing(false);
+    setIsPartial(false);
+    setMeasuredPages(null);
+    setCondenseReport(null);
     try {
-      const result = await createResumeFromAnalysis(analysisText, personalInfo);
+      const result = await createResumeFromAnalysis(analysis, personalInfo, provider, {
+        signal: controller.signal,
+        github: github ?? undefined,
+        tailoring: tailoring ?? undefined,
+        language,
+        promptTemplate,
+        includedSections,
+        length,
+        onPartial: (partial) => {
+          latest = partial;
+          setResume(partial);
+        },
+      });
       setResume(result);
+      editor.reset(parseResumeMarkdown(result));
+      condensePendingRef.current = true;
+      lastSavedRef.current = result;
+      onResumeChange?.(result, personalInfo);
     } catch (e) {
+      if (controller.signal.aborted) {
+        // The partial resume stays on screen and can still be edited
+        setIsPartial(true);
+        editor.reset(latest ? parseResumeMarkdown(latest) : null);
+        return;
+      }
       const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
       setError(`Failed to generate resume. ${errorMessage}`);
-      console.error(e);
+      setErrorCause(e);
+      console.error('Could not generate resume:', e);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
-  }, [analysisText, personalInfo]);
+  }, [analysis, personalInfo, provider, github, tailoring, language, promptTemplate, includedSections, length, onResumeChange, editor.reset]);
+
+  // Untouched output is kept verbatim; the serialized document takes over after the first edit
+  const markdown = editor.value && editor.canUndo ? serializeResumeMarkdown(editor.value) : resume;
+
+  useEffect(() => {
+    if (!markdown || isLoading || markdown === lastSavedRef.current) return;
+    const timer = setTimeout(() => {
+      lastSavedRef.current = markdown;
+      onResumeChange?.(markdown, personalInfo);
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [markdown, isLoading, personalInfo, onResumeChange]);
+
+  const handleEdit = useCallback<ResumeUpdate>((update, coalesceKey) => {
+    editor.set(current => (current ? update(current) : current), coalesceKey);
+  }, [editor.set]);
+
+  // Sections that are switched off are not checked, since they are neither shown nor exported
+  const claims = useMemo(() => {
+    const doc = editor.value;
+    if (!claimSource || !doc || isLoading) return [];
+    return verifyResume(doc, claimSource, acceptedClaims)
+      .filter(claim => isSectionIncluded(doc.sections[claim.path[1] as number], includedSections));
+  }, [claimSource, editor.value, isLoading, acceptedClaims, includedSections]);
+
+  // Removal is an ordinary edit, so it can be undone
+  const handleRemoveClaim = (claim: UnsupportedClaim) => {
+    handleEdit(current => removeResumeClaim(current, claim));
+  };
+
+  const handleImproveBullet = async (sectionIndex: number, jobIndex: number, bulletIndex: number, style: BulletRewriteStyle) => {
+    const section = editor.value?.sections[sectionIndex];
+    const job = section?.kind === 'experience' ? section.jobs[jobIndex] : undefined;
+    const original = job?.bullets[bulletIndex];
+    if (!job || !original) return;
+
+    setImprovingBullet(bulletKey(sectionIndex, jobIndex, bulletIndex));
+    setRewriteError(null);
+    try {
+      const rewritten = await rewriteResumeBullet(original, style, { jobTitle: job.title, company: job.company, analysis }, provider, { language });
+      // Applied as an ordinary edit so it can be undone; skipped if the bullet was changed meanwhile
+      handleEdit(current => {
+        const currentSection = current.sections[sectionIndex];
+        if (currentSection?.kind !== 'experience' || currentSection.jobs[jobIndex]?.bullets[bulletIndex] !== original) return current;
+        const jobs = currentSection.jobs.map((j, i) => i === jobIndex
+          ? { ...j, bullets: j.bullets.map((b, k) => (k === bulletIndex ? rewritten : b)) }
+          : j);
+        return { ...current, sections: current.sections.map((s, i) => (i === sectionIndex ? { ...currentSection, jobs } : s)) };
+      });
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setRewriteError({
+        message: `Failed to rewrite the bullet. ${errorMessage}`,
+        cause: e,
+        retry: () => handleImproveBullet(sectionIndex, jobIndex, bulletIndex, style),
+      });
+    } finally {
+      setImprovingBullet(null);
+    }
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' || key === 'y') {
+      // Controlled inputs have no useful native undo, so the shortcut drives the document history instead
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) editor.redo(); else editor.undo();
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
 
   const handleCopyToClipboard = () => {
-    if (!resume) return;
-    navigator.clipboard.writeText(resume).then(() => {
+    if (!markdown) return;
+    navigator.clipboard.writeText(markdown).then(() => {
         setCopySuccess('Copied!');
         setTimeout(() => setCopySuccess(''), 2000);
     }, (err) => {
@@ -204,34 +387,74 @@ export const ResumeCreator: React.FC<ResumeCreatorProps> = ({ analysisText, onBa
     });
   };
 
+  const handleThemeChange = (next: ResumeTheme) => {
+    setTheme(next);
+    saveResumeTheme(next);
+  };
+
+  const handleSectionsChange = (next: ResumeSectionToggles) => {
+    setIncludedSections(next);
+    saveResumeSections(next);
+  };
+
+  // Projects also come from the linked GitHub account
+  const availableSections: Record<ResumeEntryKind, boolean> = {
+    education: analysis.education.length > 0,
+    projects: analysis.projects.length > 0 || Boolean(github),
+    certifications: analysis.certifications.length > 0,
+    publications: analysis.publications.length > 0,
+    languages: analysis.languages.length > 0,
+  };
+  // Switched on after generating, or left out by the model
+  const missingSections = editor.value && !isLoading
+    ? (Object.keys(RESUME_SECTION_LABELS) as ResumeEntryKind[]).filter(kind =>
+        includedSections[kind] && availableSections[kind] && !editor.value?.sections.some(section => section.kind === kind))
+    : [];
+  // What is printed and exported: the theme's order, without the sections that are switched off
+  const visibleDocument = editor.value ? withIncludedSections(applySectionOrder(editor.value, theme.sectionOrder), includedSections) : null;
+
+  const handleLengthChange = (next: ResumeLengthTarget) => {
+    setLength(next);
+    saveResumeLength(next);
+  };
+
+  // The page estimate follows the edited document, or the output so far while it streams
+  const measuredDocument = useMemo(() => editor.value ?? (resume ? parseResumeMarkdown(resume) : null), [editor.value, resume]);
+  const visibleWords = measuredDocument ? countResumeWords(withIncludedSections(measuredDocument, includedSections)) : 0;
+  // Words per printed page in the current template, taken from the measured preview once there is one
+  const wordsPerPage = measuredPages && visibleWords > 0 ? visibleWords / measuredPages : templateWordsPerPage(theme.templateId);
+  const budget = wordBudget(length, wordsPerPage);
+  const pagesTarget = targetPages(length);
+  const targetLabel = pagesTarget === null ? `${budget} words` : pagesTarget === 1 ? 'one page' : 'two pages';
+  // A little slack, so a last line running onto the next page does not count as over
+  const isOverTarget = measuredDocument !== null && (pagesTarget !== null ? measuredPages !== null && measuredPages > pagesTarget + 0.02 : visibleWords > budget);
+
+  // Condensing is an ordinary edit, so Undo restores everything it cut
+  const handleCondense = useCallback(() => {
+    if (!editor.value) return;
+    const result = condenseResume(editor.value, budget, section => isSectionIncluded(section, includedSections));
+    if (result.cuts.length > 0) handleEdit(() => result.document);
+    setCondenseReport({ cuts: result.cuts, fits: result.fits });
+  }, [editor.value, budget, includedSections, handleEdit]);
+
+  // A freshly generated resume over the target is condensed once it has been measured; later edits are left alone
+  useEffect(() => {
+    if (!condensePendingRef.current || isLoading || !editor.value || measuredPages === null) return;
+    condensePendingRef.current = false;
+    if (isOverTarget) handleCondense();
+  }, [measuredPages, isLoading, editor.value, isOverTarget, handleCondense]);
+
   const handlePrint = () => {
+    if (!editor.value) return;
+    // Opened here, within the click, so popup blockers allow it; printReport fills it once the resume is rendered
     const printWindow = window.open('', '_blank');
-    if (printWindow) {
-        printWindow.document.write('<html><head><title>Resume</title>');
-        printWindow.document.write('<style>body { font-family: ui-serif, Georgia, Cambria, "Times New Roman", Times, serif; color: #111827; padding: 2rem; } h1 { font-size: 2.5rem; text-align: center; margin-bottom: 0.5rem; } .contact { text-align: center; margin-bottom: 2rem; } h2 { font-size: 1.5rem; border-bottom: 1px solid #d1d5db; padding-bottom: 0.5rem; margin-top: 1.5rem; } ul { padding-left: 20px; } li { margin-bottom: 0.5rem; } .job-header{ display: flex; justify-content: space-between; align-items: center; } .job-header h3 { margin: 0; font-size: 1.2rem;} .job-header em { font-size: 1rem; color: #4b5563; } .skills-grid { display: grid; grid-template-columns: 1fr 3fr; gap: 0.5rem; } </style>');
-        printWindow.document.write('</head><body>');
-        
-        // Basic markdown to HTML for printing, mirrors new structure
-        const htmlResume = resume
-            ?.replace(/^# (.*$)/m, '<h1>$1</h1>')
-            .replace(/^(.* \| .*)$/m, '<div class="contact">$1</div>')
-            .replace(/^## (.*$)/m, '<h2>$1</h2>')
-            .replace(/^\*\*(.*)\*\* \| (.*$)\n^\*(.*)\*/gm, '<div class="job-header"><h3><strong>$1</strong> | $2</h3><em>$3</em></div><ul>')
-            .replace(/^\* \*\*(.*):\*\* (.*$)/gm, '<div class="skills-grid"><strong>$1:</strong><span>$2</span></div>')
-            .replace(/^\* (.*$)/gm, '<li>$1</li>')
-            .replace(/<\/ul>\s*<div class="job-header"/g, '</ul><div class="job-header"'); // Fix spacing
-            
-        printWindow.document.write(htmlResume || '');
-        printWindow.document.write('</body></html>');
-        printWindow.document.close();
-        printWindow.focus();
-        // Timeout to allow styles to load
-        setTimeout(() => {
-            printWindow.print();
-            printWindow.close();
-        }, 250);
-    }
-  }
+    if (!printWindow) return;
+    printReport(printWindow, renderPrintableResume(withIncludedSections(editor.value, includedSections), theme)).catch((e) => {
+      console.error('Could not print the resume:', e);
+      setError('Could not prepare the resume for printing. Check your connection and try again.');
+      setErrorCause(null);
+    });
+  };
 
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
@@ -240,19 +463,28 @@ export const ResumeCreator: React.FC<ResumeCreatorProps> = ({ analysisText, onBa
         <button onClick={onBack} className="text-sm text-purple-400 hover:text-purple-300">&larr; Back to Analysis</button>
       </div>
 
+      {tailoring && (
+        <div className="bg-indigo-900/40 border border-indigo-700 text-indigo-200 px-4 py-3 rounded-xl text-sm flex justify-between items-center gap-4" role="status">
+          <span>
+            Tailored for {tailoring.jobTitle || 'the pasted job'}{tailoring.company && ` at ${tailoring.company}`}.
+            {tailoring.missingRequirements.length > 0 && ` ${tailoring.missingRequirements.length} unmet requirements will not be claimed.`}
+          </span>
+          {onClearTailoring && !isLoading && (
+            <button onClick={onClearTailoring} className="text-indigo-300 hover:text-indigo-100 flex-shrink-0">Clear</button>
+          )}
+        </div>
+      )}
+
       {!resume && !isLoading && (
          <div className="space-y-4">
             <p className="text-gray-400">First, add your personal details. They will be placed at the top of your resume.</p>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <input type="text" name="name" placeholder="Full Name" value={personalInfo.name} onChange={handleInputChange} className="input-field" />
-                <input type="email" name="email" placeholder="Email Address" value={personalInfo.email} onChange={handleInputChange} className="input-field" />
-                <input type="tel" name="phone" placeholder="Phone Number" value={personalInfo.phone} onChange={handleInputChange} className="input-field" />
-                <input type="url" name="website" placeholder="Portfolio/Website URL" value={personalInfo.website} onChange={handleInputChange} className="input-field" />
-            </div>
+            <PersonalInfoForm value={personalInfo} onChange={setPersonalInfo} profile={profile} github={github} />
+            <SectionToggles included={includedSections} available={availableSections} onChange={handleSectionsChange} />
+            <LengthControl length={length} onChange={handleLengthChange} />
             <button
                 onClick={handleGenerateResume}
-                disabled={isLoading}
-                className="w-full flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 transition-all duration-200 transform hover:scale-105 shadow-md"
+                disabled={isLoading || hasInfoErrors}
+                className="w-full flex items-center justify-center gap-2 bg-purple-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-purple-700 disabled:bg-purple-900 disabled:cursor-not-allowed disabled:text-gray-400 transition-all duration-200 transform hover:scale-105 shadow-md"
             >
                 <SparklesIcon className="h-5 w-5" />
                 <span>Generate Resume</span>
@@ -260,40 +492,105 @@ export const ResumeCreator: React.FC<ResumeCreatorProps> = ({ analysisText, onBa
          </div>
       )}
 
-      {isLoading && <LoadingSpinner />}
-      {error && <ErrorMessage message={error} />}
+      {isLoading && !resume && <LoadingSpinner onCancel={handleCancel} />}
+      {error && <ErrorMessage message={error} error={errorCause} onRetry={errorCause ? handleGenerateResume : undefined} />}
 
       {resume && (
         <div className="space-y-4">
-             <div className="flex items-center gap-4">
-                <button onClick={handleCopyToClipboard} className="flex-1 flex items-center justify-center gap-2 bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
-                    <ClipboardIcon className="h-5 w-5" />
-                    <span>{copySuccess || 'Copy Markdown'}</span>
-                </button>
-                <button onClick={handlePrint} className="flex-1 flex items-center justify-center gap-2 bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
-                    <PrinterIcon className="h-5 w-5" />
-                    <span>Print</span>
-                </button>
-             </div>
-             <div className="border border-gray-700 rounded-lg overflow-hidden">
-                <ResumeRenderer markdownText={resume} />
+             {isLoading && <StreamingIndicator onCancel={handleCancel} />}
+             {isPartial && (
+                <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-xl text-sm" role="status">
+                    Generation was cancelled. This resume is incomplete.
+                </div>
+             )}
+             {!isLoading && (
+               <div className="flex flex-wrap items-center gap-4">
+                  {editor.value && (
+                    <>
+                      <button
+                          onClick={() => setIsEditing(prev => !prev)}
+                          className={`flex-1 flex items-center justify-center gap-2 font-semibold px-4 py-2 rounded-lg transition-colors ${isEditing ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-gray-600 hover:bg-gray-700 text-white'}`}
+                      >
+                          <span>{isEditing ? 'Preview' : 'Edit'}</span>
+                      </button>
+                      <button onClick={editor.undo} disabled={!editor.canUndo} title="Undo (Ctrl+Z)" className="bg-gray-600 text-white font-semibold px-3 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
+                          Undo
+                      </button>
+                      <button onClick={editor.redo} disabled={!editor.canRedo} title="Redo (Ctrl+Shift+Z)" className="bg-gray-600 text-white font-semibold px-3 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
+                          Redo
+                      </button>
+                    </>
+                  )}
+                  <button onClick={handleCopyToClipboard} className="flex-1 flex items-center justify-center gap-2 bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
+                      <ClipboardIcon className="h-5 w-5" />
+                      <span>{copySuccess || 'Copy Markdown'}</span>
+                  </button>
+                  <button onClick={handlePrint} disabled={!editor.value} className="flex-1 flex items-center justify-center gap-2 bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                      <PrinterIcon className="h-5 w-5" />
+                      <span>Print</span>
+                  </button>
+               </div>
+             )}
+             {!isLoading && visibleDocument && (
+               <div className="flex flex-wrap items-start justify-between gap-2">
+                 <ExportMenu formats={resumeExportFormats(visibleDocument, personalInfo, theme)} />
+                 <button onClick={() => setShowDesign(prev => !prev)} className="text-sm text-purple-400 hover:text-purple-300">
+                   {showDesign ? 'Hide design options' : 'Template & design'}
+                 </button>
+               </div>
+             )}
+             {!isLoading && visibleDocument && showDesign && (
+               <TemplatePicker
+                 theme={theme}
+                 sectionTitles={visibleDocument.sections.map(section => section.title)}
+                 onChange={handleThemeChange}
+               />
+             )}
+             {!isLoading && editor.value && (
+               <>
+                 <SectionToggles included={includedSections} available={availableSections} onChange={handleSectionsChange} />
+                 <LengthControl length={length} onChange={handleLengthChange} />
+               </>
+             )}
+             {measuredDocument && (
+               <PageMeasure document={measuredDocument} theme={theme} includedSections={includedSections} onMeasure={setMeasuredPages} />
+             )}
+             {measuredDocument && measuredPages !== null && (
+               <p className={`text-sm ${isOverTarget ? 'text-yellow-300' : 'text-gray-400'}`} role="status">
+                 About {measuredPages.toFixed(1)} printed {measuredPages > 1.05 ? 'pages' : 'page'} &middot; {visibleWords} words &middot; target: {targetLabel}
+                 {isOverTarget && !isLoading && editor.value && (
+                   <button onClick={handleCondense} className="ml-3 text-purple-400 hover:text-purple-300">Condense to fit</button>
+                 )}
+               </p>
+             )}
+             {condenseReport && !isLoading && (
+               <CondenseReport cuts={condenseReport.cuts} fits={condenseReport.fits} target={targetLabel} onDismiss={() => setCondenseReport(null)} />
+             )}
+             {missingSections.length > 0 && (
+               <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-xl text-sm flex justify-between items-center gap-4" role="status">
+                 <span>This resume has no {missingSections.map(kind => RESUME_SECTION_LABELS[kind]).join(', ')} section yet. Regenerate it to add {missingSections.length === 1 ? 'it' : 'them'}.</span>
+                 <button onClick={handleGenerateResume} className="text-yellow-300 hover:text-yellow-100 flex-shrink-0">Regenerate</button>
+               </div>
+             )}
+             {claimSource && onAcceptClaim && !isLoading && (
+               <ClaimList claims={claims} documentName="resume" source={claimSource} onAccept={onAcceptClaim} onRemove={handleRemoveClaim} />
+             )}
+             {rewriteError && <ErrorMessage message={rewriteError.message} error={rewriteError.cause} onRetry={rewriteError.retry} />}
+             <div className="border border-gray-700 rounded-lg overflow-hidden" onKeyDown={handleEditorKeyDown}>
+                {isEditing && editor.value && !isLoading ? (
+                  <ResumeEditor
+                    document={editor.value}
+                    onChange={handleEdit}
+                    onImproveBullet={handleImproveBullet}
+                    improvingBullet={improvingBullet}
+                  />
+                ) : (
+                  <ResumeRenderer markdownText={markdown ?? ''} theme={theme} includedSections={includedSections} isStreaming={isLoading} claims={claims} />
+                )}
              </div>
         </div>
       )}
       <style>{`
-        .input-field {
-            background-color: #1f2937;
-            border: 1px solid #4b5563;
-            border-radius: 0.5rem;
-            padding: 0.75rem 1rem;
-            color: white;
-            width: 100%;
-        }
-        .input-field:focus {
-            outline: none;
-            border-color: #8b5cf6;
-            box-shadow: 0 0 0 2px rgba(139, 92, 246, 0.5);
-        }
         @keyframes fadeIn {
           from { opacity: 0; }
           to { opacity: 1; }
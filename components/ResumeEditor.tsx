@@ -0,0 +1,326 @@
+import React from 'react';
+import type { BulletRewriteStyle, ResumeDocument, ResumeEntry, ResumeEntryKind, ResumeJob, ResumeSection } from '../types';
+import { SparklesIcon } from './Icons';
+
+export type ResumeUpdate = (update: (doc: ResumeDocument) => ResumeDocument, coalesceKey?: string) => void;
+
+interface ResumeEditorProps {
+  document: ResumeDocument;
+  onChange: ResumeUpdate;
+  onImproveBullet: (sectionIndex: number, jobIndex: number, bulletIndex: number, style: BulletRewriteStyle) => void;
+  // "section-job-bullet" of the bullet currently being rewritten
+  improvingBullet: string | null;
+}
+
+const REWRITE_STYLES: { style: BulletRewriteStyle; label: string }[] = [
+  { style: 'quantified', label: 'Quantified' },
+  { style: 'concise', label: 'Concise' },
+  { style: 'star', label: 'STAR' },
+];
+
+export const bulletKey = (sectionIndex: number, jobIndex: number, bulletIndex: number): string =>
+  `${sectionIndex}-${jobIndex}-${bulletIndex}`;
+
+// Placeholders for the entry fields in each kind of section; languages have neither dates nor details
+const ENTRY_FIELDS: Record<ResumeEntryKind, { title: string; subtitle: string; item: string; singleLine?: boolean }> = {
+  education: { title: 'Degree', subtitle: 'School', item: 'education' },
+  projects: { title: 'Project', subtitle: 'Description', item: 'project' },
+  certifications: { title: 'Certificate', subtitle: 'Issuer', item: 'certificate' },
+  publications: { title: 'Title', subtitle: 'Journal, conference or publisher', item: 'publication' },
+  languages: { title: 'Language', subtitle: 'Proficiency', item: 'language', singleLine: true },
+};
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const replaceAt = <T,>(items: T[], index: number, item: T): T[] =>
+  items.map((existing, i) => (i === index ? item : existing));
+
+const removeAt = <T,>(items: T[], index: number): T[] => items.filter((_, i) => i !== index);
+
+const rowsFor = (text: string, charsPerRow = 90): number => Math.max(1, Math.ceil(text.length / charsPerRow));
+
+const IconButton: React.FC<{ label: string; onClick: () => void; disabled?: boolean; children: React.ReactNode; danger?: boolean }> = ({ label, onClick, disabled, children, danger }) => (
+  <button
+    type="button"
+    title={label}
+    aria-label={label}
+    onClick={onClick}
+    disabled={disabled}
+    className={`px-1.5 py-0.5 rounded text-xs disabled:opacity-30 disabled:cursor-not-allowed ${danger ? 'text-red-400 hover:bg-red-900/40' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-200'}`}
+  >
+    {children}
+  </button>
+);
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:outline-none';
+
+export const ResumeEditor: React.FC<ResumeEditorProps> = ({ document: doc, onChange, onImproveBullet, improvingBullet }) => {
+  const updateSection = (sectionIndex: number, update: (section: ResumeSection) => ResumeSection, key?: string) =>
+    onChange(current => ({ ...current, sections: replaceAt(current.sections, sectionIndex, update(current.sections[sectionIndex])) }), key);
+
+  const updateJobs = (sectionIndex: number, update: (jobs: ResumeJob[]) => ResumeJob[], key?: string) =>
+    updateSection(sectionIndex, section => (section.kind === 'experience' ? { ...section, jobs: update(section.jobs) } : section), key);
+
+  const updateJob = (sectionIndex: number, jobIndex: number, update: (job: ResumeJob) => ResumeJob, key?: string) =>
+    updateJobs(sectionIndex, jobs => replaceAt(jobs, jobIndex, update(jobs[jobIndex])), key);
+
+  const updateEntries = (sectionIndex: number, update: (entries: ResumeEntry[]) => ResumeEntry[], key?: string) =>
+    updateSection(sectionIndex, section => ('entries' in section ? { ...section, entries: update(section.entries) } : section), key);
+
+  const updateEntry = (sectionIndex: number, entryIndex: number, update: (entry: ResumeEntry) => ResumeEntry, key?: string) =>
+    updateEntries(sectionIndex, entries => replaceAt(entries, entryIndex, update(entries[entryIndex])), key);
+
+  const renderSectionBody = (section: ResumeSection, sectionIndex: number) => {
+    switch (section.kind) {
+      case 'summary':
+        return (
+          <textarea
+            value={section.text}
+            rows={rowsFor(section.text)}
+            onChange={(e) => updateSection(sectionIndex, s => ({ ...s, text: e.target.value }), `summary-${sectionIndex}`)}
+            className={inputClass}
+          />
+        );
+      case 'text':
+        return (
+          <textarea
+            value={section.content}
+            rows={section.content.split('\n').length + 1}
+            onChange={(e) => updateSection(sectionIndex, s => ({ ...s, content: e.target.value }), `text-${sectionIndex}`)}
+            className={`${inputClass} font-mono text-sm`}
+          />
+        );
+      case 'skills':
+        return (
+          <div className="space-y-2">
+            {section.skills.map((skill, skillIndex) => (
+              <div key={skillIndex} className="flex gap-2 items-start">
+                <input
+                  value={skill.category}
+                  placeholder="Category"
+                  onChange={(e) => updateSection(sectionIndex, s => s.kind === 'skills'
+                    ? { ...s, skills: replaceAt(s.skills, skillIndex, { ...s.skills[skillIndex], category: e.target.value }) }
+                    : s, `skill-category-${sectionIndex}-${skillIndex}`)}
+                  className={`${inputClass} sm:w-1/4 font-semibold`}
+                />
+                <input
+                  value={skill.items}
+                  placeholder="Comma-separated skills"
+                  onChange={(e) => updateSection(sectionIndex, s => s.kind === 'skills'
+                    ? { ...s, skills: replaceAt(s.skills, skillIndex, { ...s.skills[skillIndex], items: e.target.value }) }
+                    : s, `skill-items-${sectionIndex}-${skillIndex}`)}
+                  className={inputClass}
+                />
+                <IconButton label="Remove category" danger onClick={() => updateSection(sectionIndex, s => s.kind === 'skills' ? { ...s, skills: removeAt(s.skills, skillIndex) } : s)}>
+                  &times;
+                </IconButton>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateSection(sectionIndex, s => s.kind === 'skills' ? { ...s, skills: [...s.skills, { category: '', items: '' }] } : s)}
+              className="text-sm text-purple-400 hover:text-purple-300"
+            >
+              + Add skill category
+            </button>
+          </div>
+        );
+      case 'experience':
+        return (
+          <div className="space-y-6">
+            {section.jobs.map((job, jobIndex) => (
+              <div key={jobIndex} className="border border-gray-700 rounded-lg p-3 space-y-2">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    value={job.title}
+                    placeholder="Job title"
+                    onChange={(e) => updateJob(sectionIndex, jobIndex, j => ({ ...j, title: e.target.value }), `job-title-${sectionIndex}-${jobIndex}`)}
+                    className={`${inputClass} font-bold`}
+                  />
+                  <input
+                    value={job.company}
+                    placeholder="Company"
+                    onChange={(e) => updateJob(sectionIndex, jobIndex, j => ({ ...j, company: e.target.value }), `job-company-${sectionIndex}-${jobIndex}`)}
+                    className={inputClass}
+                  />
+                  <input
+                    value={job.date}
+                    placeholder="Dates"
+                    onChange={(e) => updateJob(sectionIndex, jobIndex, j => ({ ...j, date: e.target.value }), `job-date-${sectionIndex}-${jobIndex}`)}
+                    className={`${inputClass} sm:w-48 italic`}
+                  />
+                  <div className="flex items-center flex-shrink-0">
+                    <IconButton label="Move job up" disabled={jobIndex === 0} onClick={() => updateJobs(sectionIndex, jobs => move(jobs, jobIndex, jobIndex - 1))}>&uarr;</IconButton>
+                    <IconButton label="Move job down" disabled={jobIndex === section.jobs.length - 1} onClick={() => updateJobs(sectionIndex, jobs => move(jobs, jobIndex, jobIndex + 1))}>&darr;</IconButton>
+                    <IconButton label="Remove job" danger onClick={() => updateJobs(sectionIndex, jobs => removeAt(jobs, jobIndex))}>&times;</IconButton>
+                  </div>
+                </div>
+
+                <ul className="space-y-2">
+                  {job.bullets.map((bullet, bulletIndex) => {
+                    const isImproving = improvingBullet === bulletKey(sectionIndex, jobIndex, bulletIndex);
+                    return (
+                      <li key={bulletIndex} className="flex gap-2 items-start">
+                        <span className="text-gray-500 pt-1">&bull;</span>
+                        <div className="flex-1 space-y-1">
+                          <textarea
+                            value={bullet}
+                            rows={rowsFor(bullet)}
+                            disabled={isImproving}
+                            onChange={(e) => updateJob(sectionIndex, jobIndex, j => ({ ...j, bullets: replaceAt(j.bullets, bulletIndex, e.target.value) }), `bullet-${sectionIndex}-${jobIndex}-${bulletIndex}`)}
+                            className={`${inputClass} ${isImproving ? 'animate-pulse' : ''}`}
+                          />
+                          <div className="flex flex-wrap items-center gap-1">
+                            <SparklesIcon className="h-3.5 w-3.5 text-purple-400" />
+                            {REWRITE_STYLES.map(({ style, label }) => (
+                              <button
+                                key={style}
+                                type="button"
+                                disabled={improvingBullet !== null || !bullet.trim()}
+                                onClick={() => onImproveBullet(sectionIndex, jobIndex, bulletIndex, style)}
+                                className="text-xs text-purple-400 hover:text-purple-200 hover:bg-purple-900/40 px-1.5 py-0.5 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+                              >
+                                {label}
+                              </button>
+                            ))}
+                            {isImproving && <span className="text-xs text-gray-500">Rewriting...</span>}
+                          </div>
+                        </div>
+                        <div className="flex flex-col flex-shrink-0">
+                          <IconButton label="Move bullet up" disabled={bulletIndex === 0} onClick={() => updateJob(sectionIndex, jobIndex, j => ({ ...j, bullets: move(j.bullets, bulletIndex, bulletIndex - 1) }))}>&uarr;</IconButton>
+                          <IconButton label="Move bullet down" disabled={bulletIndex === job.bullets.length - 1} onClick={() => updateJob(sectionIndex, jobIndex, j => ({ ...j, bullets: move(j.bullets, bulletIndex, bulletIndex + 1) }))}>&darr;</IconButton>
+                          <IconButton label="Remove bullet" danger onClick={() => updateJob(sectionIndex, jobIndex, j => ({ ...j, bullets: removeAt(j.bullets, bulletIndex) }))}>&times;</IconButton>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <button
+                  type="button"
+                  onClick={() => updateJob(sectionIndex, jobIndex, j => ({ ...j, bullets: [...j.bullets, ''] }))}
+                  className="text-sm text-purple-400 hover:text-purple-300"
+                >
+                  + Add bullet
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateJobs(sectionIndex, jobs => [...jobs, { title: '', company: '', date: '', bullets: [''] }])}
+              className="text-sm text-purple-400 hover:text-purple-300"
+            >
+              + Add job
+            </button>
+          </div>
+        );
+      case 'education':
+      case 'projects':
+      case 'certifications':
+      case 'publications':
+      case 'languages': {
+        const fields = ENTRY_FIELDS[section.kind];
+        return (
+          <div className="space-y-4">
+            {section.entries.map((entry, entryIndex) => (
+              <div key={entryIndex} className="border border-gray-700 rounded-lg p-3 space-y-2">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    value={entry.title}
+                    placeholder={fields.title}
+                    onChange={(e) => updateEntry(sectionIndex, entryIndex, item => ({ ...item, title: e.target.value }), `entry-title-${sectionIndex}-${entryIndex}`)}
+                    className={`${inputClass} font-bold`}
+                  />
+                  <input
+                    value={entry.subtitle}
+                    placeholder={fields.subtitle}
+                    onChange={(e) => updateEntry(sectionIndex, entryIndex, item => ({ ...item, subtitle: e.target.value }), `entry-subtitle-${sectionIndex}-${entryIndex}`)}
+                    className={inputClass}
+                  />
+                  {!fields.singleLine && (
+                    <input
+                      value={entry.date}
+                      placeholder="Dates"
+                      onChange={(e) => updateEntry(sectionIndex, entryIndex, item => ({ ...item, date: e.target.value }), `entry-date-${sectionIndex}-${entryIndex}`)}
+                      className={`${inputClass} sm:w-40 italic`}
+                    />
+                  )}
+                  <div className="flex items-center flex-shrink-0">
+                    <IconButton label={`Move ${fields.item} up`} disabled={entryIndex === 0} onClick={() => updateEntries(sectionIndex, entries => move(entries, entryIndex, entryIndex - 1))}>&uarr;</IconButton>
+                    <IconButton label={`Move ${fields.item} down`} disabled={entryIndex === section.entries.length - 1} onClick={() => updateEntries(sectionIndex, entries => move(entries, entryIndex, entryIndex + 1))}>&darr;</IconButton>
+                    <IconButton label={`Remove ${fields.item}`} danger onClick={() => updateEntries(sectionIndex, entries => removeAt(entries, entryIndex))}>&times;</IconButton>
+                  </div>
+                </div>
+                {entry.details.map((detail, detailIndex) => (
+                  <div key={detailIndex} className="flex gap-2 items-start">
+                    <span className="text-gray-500 pt-1">&bull;</span>
+                    <textarea
+                      value={detail}
+                      rows={rowsFor(detail)}
+                      onChange={(e) => updateEntry(sectionIndex, entryIndex, item => ({ ...item, details: replaceAt(item.details, detailIndex, e.target.value) }), `entry-detail-${sectionIndex}-${entryIndex}-${detailIndex}`)}
+                      className={inputClass}
+                    />
+                    <IconButton label="Remove detail" danger onClick={() => updateEntry(sectionIndex, entryIndex, item => ({ ...item, details: removeAt(item.details, detailIndex) }))}>&times;</IconButton>
+                  </div>
+                ))}
+                {!fields.singleLine && (
+                  <button
+                    type="button"
+                    onClick={() => updateEntry(sectionIndex, entryIndex, item => ({ ...item, details: [...item.details, ''] }))}
+                    className="text-sm text-purple-400 hover:text-purple-300"
+                  >
+                    + Add detail
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateEntries(sectionIndex, entries => [...entries, { title: '', subtitle: '', date: '', details: [] }])}
+              className="text-sm text-purple-400 hover:text-purple-300"
+            >
+              + Add {fields.item}
+            </button>
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/90 p-4 sm:p-6 rounded-lg space-y-6 text-gray-300">
+      <header className="space-y-2 border-b border-gray-600 pb-4">
+        <input
+          value={doc.name}
+          placeholder="Your name"
+          onChange={(e) => onChange(current => ({ ...current, name: e.target.value }), 'name')}
+          className={`${inputClass} text-2xl font-bold text-center`}
+        />
+        <input
+          value={doc.headline}
+          placeholder="Headline, e.g. Senior Backend Engineer"
+          onChange={(e) => onChange(current => ({ ...current, headline: e.target.value }), 'headline')}
+          className={`${inputClass} italic text-center`}
+        />
+        <input
+          value={doc.contact.join(' | ')}
+          placeholder="Email | Phone | Location | LinkedIn | Website"
+          onChange={(e) => onChange(current => ({ ...current, contact: e.target.value.split(/\s*\|\s*/) }), 'contact')}
+          className={`${inputClass} text-sm text-center`}
+        />
+      </header>
+
+      {doc.sections.map((section, sectionIndex) => (
+        <section key={sectionIndex} className="space-y-3">
+          <h2 className="text-xl font-bold text-purple-300 border-b-2 border-purple-400/50 pb-2 font-sans">{section.title}</h2>
+          {renderSectionBody(section, sectionIndex)}
+        </section>
+      ))}
+    </div>
+  );
+};
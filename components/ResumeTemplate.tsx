@@ -0,0 +1,188 @@
+import React from 'react';
+import type { ResumeDocument, ResumeSection, ResumeSectionToggles, ResumeTheme, UnsupportedClaim } from '../types';
+import { applySectionOrder, hexToRgb, isSidebarSection, RESUME_FONTS, RESUME_TEMPLATE_CSS, RESUME_TEMPLATES, withIncludedSections } from '../services/resumeTemplates';
+import type { CoverLetterContent } from '../services/coverLetter';
+import { claimsAt } from '../services/claimVerification';
+import { Markdown, MarkdownInlineText as InlineText } from './Markdown';
+import { renderPrintableReport } from './PrintableReport';
+
+// Unsupported claims are only ever passed in for the on-screen preview, never for print
+const Flag: React.FC<{ claims: UnsupportedClaim[]; children: React.ReactNode }> = ({ claims, children }) =>
+  claims.length > 0 ? <mark className="rd-flag" title={claims.map(claim => claim.reason).join('\n')}>{children}</mark> : <>{children}</>;
+
+// Claims on free-form sections are addressed by line, which the renderer maps back from its blocks
+const TextSection: React.FC<{ content: string; claims: UnsupportedClaim[] }> = ({ content, claims }) => (
+  <Markdown text={content} breaks wrapLine={(line, text) => <Flag claims={claimsAt(claims, 'content', line)}>{text}</Flag>} />
+);
+
+// Claims passed in here have paths relative to the section, e.g. ['jobs', 0, 'bullets', 2]
+const SectionBody: React.FC<{ section: ResumeSection; claims: UnsupportedClaim[] }> = ({ section, claims }) => {
+  switch (section.kind) {
+    case 'summary': {
+      const lines = section.text.split('\n');
+      return <Markdown text={section.text} breaks wrapLine={(line, text) => <Flag claims={claims.filter(claim => lines[line]?.includes(claim.text))}>{text}</Flag>} />;
+    }
+    case 'skills':
+      return (
+        <>
+          {section.skills.map((skill, i) => (
+            <div key={i} className="rd-skill">
+              {skill.category && <span className="rd-skill-category">{skill.category}</span>}
+              <span><Flag claims={claimsAt(claims, 'skills', i)}><InlineText text={skill.items} /></Flag></span>
+            </div>
+          ))}
+        </>
+      );
+    case 'experience':
+      return (
+        <>
+          {section.jobs.map((job, i) => (
+            <div key={i} className="rd-job">
+              <div className="rd-job-header">
+                <span className="rd-job-title">
+                  {job.title}{job.company && <span className="rd-company"> | <Flag claims={claimsAt(claims, 'jobs', i, 'company')}>{job.company}</Flag></span>}
+                </span>
+                {job.date && <span className="rd-date"><Flag claims={claimsAt(claims, 'jobs', i, 'date')}>{job.date}</Flag></span>}
+              </div>
+              {job.bullets.length > 0 && (
+                <ul>{job.bullets.map((bullet, k) => <li key={k}><Flag claims={claimsAt(claims, 'jobs', i, 'bullets', k)}><InlineText text={bullet} /></Flag></li>)}</ul>
+              )}
+            </div>
+          ))}
+        </>
+      );
+    case 'education':
+    case 'projects':
+    case 'certifications':
+      return (
+        <>
+          {section.entries.map((entry, i) => (
+            <div key={i} className="rd-job rd-entry">
+              <div className="rd-job-header">
+                <span className="rd-job-title">
+                  <Flag claims={claimsAt(claims, 'entries', i, 'title')}><InlineText text={entry.title} /></Flag>
+                  {entry.subtitle && <span className="rd-company"> | <Flag claims={claimsAt(claims, 'entries', i, 'subtitle')}><InlineText text={entry.subtitle} /></Flag></span>}
+                </span>
+                {entry.date && <span className="rd-date"><Flag claims={claimsAt(claims, 'entries', i, 'date')}>{entry.date}</Flag></span>}
+              </div>
+              {entry.details.length > 0 && (
+                <ul>{entry.details.map((detail, k) => <li key={k}><Flag claims={claimsAt(claims, 'entries', i, 'details', k)}><InlineText text={detail} /></Flag></li>)}</ul>
+              )}
+            </div>
+          ))}
+        </>
+      );
+    case 'publications':
+      // A citation list: the title, then the venue in italics and the date
+      return (
+        <ol className="rd-publications">
+          {section.entries.map((entry, i) => (
+            <li key={i}>
+              <Flag claims={claimsAt(claims, 'entries', i, 'title')}><InlineText text={entry.title} /></Flag>
+              {entry.subtitle && <>. <span className="rd-publication-venue"><InlineText text={entry.subtitle} /></span></>}
+              {entry.date && <>, <Flag claims={claimsAt(claims, 'entries', i, 'date')}>{entry.date}</Flag></>}
+              {entry.details.length > 0 && (
+                <ul>{entry.details.map((detail, k) => <li key={k}><Flag claims={claimsAt(claims, 'entries', i, 'details', k)}><InlineText text={detail} /></Flag></li>)}</ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      );
+    case 'languages':
+      // Laid out like skill lines: the language, then the proficiency
+      return (
+        <>
+          {section.entries.map((entry, i) => (
+            <div key={i} className="rd-skill">
+              <span className="rd-skill-category"><Flag claims={claimsAt(claims, 'entries', i, 'title')}><InlineText text={entry.title} /></Flag></span>
+              <span><InlineText text={entry.subtitle} /></span>
+            </div>
+          ))}
+        </>
+      );
+    default:
+      return <TextSection content={section.content} claims={claims} />;
+  }
+};
+
+// Claims address sections by their index in the unordered document, so they are looked up by section rather than position
+const Sections: React.FC<{ sections: ResumeSection[]; claimsFor: (section: ResumeSection) => UnsupportedClaim[] }> = ({ sections, claimsFor }) => (
+  <>
+    {sections.map((section, i) => (
+      <section key={i} className="rd-section">
+        <h2>{section.title}</h2>
+        <SectionBody section={section} claims={claimsFor(section)} />
+      </section>
+    ))}
+  </>
+);
+
+const themeStyle = (theme: ResumeTheme): React.CSSProperties => {
+  const [r, g, b] = hexToRgb(theme.accentColor);
+  return {
+    '--accent': theme.accentColor,
+    '--accent-tint': `rgba(${r}, ${g}, ${b}, 0.08)`,
+    fontFamily: RESUME_FONTS[theme.fontId].css,
+    fontSize: `${RESUME_TEMPLATES[theme.templateId].fontSizePt}pt`,
+  } as React.CSSProperties;
+};
+
+const Header: React.FC<{ name: string; headline?: string; contact: string[] }> = ({ name, headline, contact }) => (
+  <header className="rd-header">
+    <div className="rd-title">
+      <h1>{name}</h1>
+      {headline?.trim() && <p className="rd-headline"><InlineText text={headline} /></p>}
+    </div>
+    {contact.some(Boolean) && (
+      <p className="rd-contact">{contact.filter(Boolean).map((item, i) => <span key={i}><InlineText text={item} /></span>)}</p>
+    )}
+  </header>
+);
+
+interface ResumePageProps {
+  document: ResumeDocument;
+  theme: ResumeTheme;
+  claims?: UnsupportedClaim[];
+  // Sections switched off are left out here rather than removed, so claim paths keep matching the document
+  includedSections?: ResumeSectionToggles;
+}
+
+// One resume page in the chosen template; the same markup is used for the preview and for printing
+export const ResumePage: React.FC<ResumePageProps> = ({ document: source, theme, claims = [], includedSections }) => {
+  const ordered = applySectionOrder(source, theme.sectionOrder);
+  const doc = includedSections ? withIncludedSections(ordered, includedSections) : ordered;
+  const claimsFor = (section: ResumeSection) =>
+    claimsAt(claims, 'sections', source.sections.indexOf(section)).map(claim => ({ ...claim, path: claim.path.slice(2) }));
+  return (
+    <div className={`resume-doc resume-doc--${theme.templateId}`} style={themeStyle(theme)}>
+      <Header name={doc.name} headline={doc.headline} contact={doc.contact} />
+      {RESUME_TEMPLATES[theme.templateId].layout === 'two-column' ? (
+        <div className="rd-body">
+          <aside className="rd-sidebar"><Sections sections={doc.sections.filter(isSidebarSection)} claimsFor={claimsFor} /></aside>
+          <main className="rd-main"><Sections sections={doc.sections.filter(section => !isSidebarSection(section))} claimsFor={claimsFor} /></main>
+        </div>
+      ) : (
+        <Sections sections={doc.sections} claimsFor={claimsFor} />
+      )}
+    </div>
+  );
+};
+
+// A cover letter with the same letterhead, font and accent as the resume
+export const CoverLetterPage: React.FC<{ letter: CoverLetterContent; theme: ResumeTheme }> = ({ letter, theme }) => (
+  <div className={`resume-doc resume-doc--${theme.templateId} resume-doc--letter`} style={{ ...themeStyle(theme), fontSize: '11pt' }}>
+    <Header name={letter.name} contact={letter.contact} />
+    <div className="rd-letter">
+      <p className="rd-letter-date">{letter.date}</p>
+      {letter.paragraphs.map((paragraph, i) => <p key={i}>{paragraph}</p>)}
+    </div>
+  </div>
+);
+
+export const ResumeTemplateStyles: React.FC = () => <style>{RESUME_TEMPLATE_CSS}</style>;
+
+export const renderPrintableResume = (doc: ResumeDocument, theme: ResumeTheme): Promise<string> =>
+  renderPrintableReport(doc.name ? `${doc.name} - Resume` : 'Resume', <ResumePage document={doc} theme={theme} />, RESUME_TEMPLATE_CSS);
+
+export const renderPrintableCoverLetter = (letter: CoverLetterContent, theme: ResumeTheme): Promise<string> =>
+  renderPrintableReport(letter.name ? `${letter.name} - Cover Letter` : 'Cover Letter', <CoverLetterPage letter={letter} theme={theme} />, RESUME_TEMPLATE_CSS);
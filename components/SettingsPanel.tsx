@@ -0,0 +1,95 @@
+import React from 'react';
+import { DEFAULT_MODELS, PROVIDER_LABELS, type LLMSettings, type ProviderId } from '../services/llm/llmProvider';
+
+interface SettingsPanelProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const provider = e.target.value as ProviderId;
+    onChange({ ...settings, provider, model: DEFAULT_MODELS[provider] });
+  };
+
+  const handleFieldChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onChange({ ...settings, [name]: value });
+  };
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, valueAsNumber } = e.target;
+    if (Number.isNaN(valueAsNumber) || valueAsNumber < 0) return;
+    onChange({ ...settings, [name]: name === 'timeoutMs' ? Math.round(valueAsNumber * 1000) : Math.floor(valueAsNumber) });
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-gray-700 space-y-4 animate-fade-in-down">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-purple-300">Model Settings</h2>
+        <button onClick={onClose} className="text-sm text-purple-400 hover:text-purple-300">Close</button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Provider
+          <select value={settings.provider} onChange={handleProviderChange} className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none">
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Model
+          <input
+            type="text"
+            name="model"
+            value={settings.model}
+            onChange={handleFieldChange}
+            disabled={settings.provider === 'mock'}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white disabled:text-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          />
+        </label>
+        {settings.provider === 'openai-compatible' && (
+          <label className="flex flex-col gap-1 text-sm text-gray-400 sm:col-span-2">
+            Server URL
+            <input
+              type="url"
+              name="baseUrl"
+              value={settings.baseUrl}
+              onChange={handleFieldChange}
+              placeholder="http://localhost:11434/v1"
+              className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Timeout (seconds, 0 = none)
+          <input
+            type="number"
+            name="timeoutMs"
+            min={0}
+            value={settings.timeoutMs / 1000}
+            onChange={handleNumberChange}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Retries on transient errors
+          <input
+            type="number"
+            name="maxRetries"
+            min={0}
+            max={10}
+            value={settings.maxRetries}
+            onChange={handleNumberChange}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        API keys are read from the environment (<code>GEMINI_API_KEY</code>, <code>LLM_API_KEY</code>) and are never stored in the browser.
+      </p>
+    </div>
+  );
+};
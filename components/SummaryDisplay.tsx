@@ -1,108 +1,273 @@
 import React from 'react';
-import { DocumentTextIcon } from './Icons';
+import type { ProfileAnalysis, UnsupportedClaim } from '../types';
+import { formatDateRange } from '../services/analysisFormatter';
+import { claimsAt } from '../services/claimVerification';
+import { ClaimList, FlaggedText, type ClaimActions } from './ClaimReview';
+import { CareerInsightsPanel } from './CareerCharts';
+import { APP_MARKDOWN_CLASSES, MarkdownInlineText } from './Markdown';
+import { DocumentTextIcon, LinkedInIcon, MailIcon, TargetIcon } from './Icons';
 
 interface SummaryDisplayProps {
-  summary: string;
+  analysis: ProfileAnalysis;
+  isStreaming?: boolean;
+  isPartial?: boolean;
   onCraftResume: () => void;
+  onTailor?: () => void;
+  onCoverLetter?: () => void;
+  onRewriteLinkedIn?: () => void;
+  // Generated facts not found in the source profile, flagged in place
+  claims?: UnsupportedClaim[];
+  claimActions?: ClaimActions;
 }
 
-// A more robust parser for markdown-like text from Gemini
-const SummaryRenderer: React.FC<{ text: string }> = ({ text }) => {
-  const parseLine = (line: string, key: string | number): React.ReactNode => {
-    // Regex to capture **bold**, `code`, and [links](url)
-    const regex = /(\*\*(?:[^*]+?|\*[^*])*?\*\*|`(?:[^`]+?)`|\[(?:[^\]]+?)\]\((?:[^)]+?)\))/g;
-    const parts = line.split(regex);
-
-    return (
-      <>
-        {parts.map((part, i) => {
-          if (!part) return null;
-
-          if (part.startsWith('**') && part.endsWith('**')) {
-            return <strong key={`${key}-${i}`} className="font-semibold text-gray-200">{part.slice(2, -2)}</strong>;
-          }
-          if (part.startsWith('`') && part.endsWith('`')) {
-            return <code key={`${key}-${i}`} className="bg-gray-700/50 text-purple-300 rounded px-1.5 py-1 font-mono text-sm">{part.slice(1, -1)}</code>;
-          }
-          if (part.startsWith('[') && part.endsWith(')')) {
-            const linkMatch = part.match(/\[(.*?)\]\((.*?)\)/);
-            if (linkMatch) {
-              const linkText = linkMatch[1];
-              const url = linkMatch[2];
-              return (
-                <a key={`${key}-${i}`} href={url} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">
-                  {linkText}
-                </a>
-              );
-            }
-          }
-          return <span key={`${key}-${i}`}>{part}</span>;
-        })}
-      </>
-    );
-  };
+// Model-written text may contain inline Markdown: emphasis, code and links, whose URLs are checked before rendering
+const InlineText: React.FC<{ text: string }> = ({ text }) => <MarkdownInlineText text={text} classNames={APP_MARKDOWN_CLASSES} />;
+
+const SectionHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-2xl font-semibold text-purple-300 mt-6 mb-3">{children}</h3>
+);
 
-  const lines = text.split('\n');
-  const elements: React.ReactNode[] = [];
-  let listItems: React.ReactNode[] = [];
-
-  const flushList = () => {
-    if (listItems.length > 0) {
-      elements.push(
-        <ul key={`ul-${elements.length}`} className="list-disc list-inside space-y-2 pl-4">
-          {listItems.map((item, index) => (
-            <li key={`li-${index}`}>{item}</li>
-          ))}
-        </ul>
-      );
-      listItems = [];
-    }
+const BulletList: React.FC<{ items: React.ReactNode[] }> = ({ items }) => (
+  <ul className="list-disc list-inside space-y-2 pl-4">
+    {items.map((item, index) => (
+      <li key={index}>{item}</li>
+    ))}
+  </ul>
+);
+
+// Renders the structured analysis directly, so no Markdown has to be parsed back out of the model response
+const AnalysisRenderer: React.FC<{ analysis: ProfileAnalysis; claims: UnsupportedClaim[]; claimActions?: ClaimActions }> = ({ analysis, claims, claimActions }) => {
+  const flagged = (children: React.ReactNode, ...path: (string | number)[]) => {
+    const matching = claimActions ? claimsAt(claims, ...path) : [];
+    return claimActions && matching.length > 0 ? <FlaggedText claims={matching} {...claimActions}>{children}</FlaggedText> : children;
   };
 
-  lines.forEach((line, index) => {
-    const trimmedLine = line.trim();
-
-    if (trimmedLine.startsWith('### ')) {
-      flushList();
-      elements.push(
-        <h3 key={index} className="text-2xl font-semibold text-purple-300 mt-6 mb-3">
-          {parseLine(trimmedLine.replace('### ', ''), index)}
-        </h3>
-      );
-    } else if (trimmedLine.startsWith('* ')) {
-      const content = trimmedLine.substring(2); // remove '* '
-      listItems.push(parseLine(content, index));
-    } else if (trimmedLine) {
-      flushList();
-      elements.push(
-        <p key={index} className="text-gray-300 leading-relaxed">
-          {parseLine(trimmedLine, index)}
-        </p>
-      );
-    } else {
-        // Empty line signifies a break, so flush any list.
-        flushList();
-    }
-  });
-
-  flushList(); // Add any remaining list items
-
-  return <div className="space-y-4">{elements}</div>;
+  return (
+    <div className="space-y-4 text-gray-300">
+      {analysis.summary && (
+        <>
+          <SectionHeading>Professional Summary</SectionHeading>
+          <div className="leading-relaxed">{flagged(<InlineText text={analysis.summary} />, 'summary')}</div>
+        </>
+      )}
+
+      {analysis.technicalSkills.length > 0 && (
+        <>
+          <SectionHeading>Key Technical Skills</SectionHeading>
+          <BulletList
+            items={analysis.technicalSkills.map((group, g) => (
+              <>
+                <strong className="font-semibold text-gray-200">{group.category}:</strong>{' '}
+                {group.skills.map((skill, i) => (
+                  <React.Fragment key={i}>{i > 0 && ', '}{flagged(skill, 'technicalSkills', g, 'skills', i)}</React.Fragment>
+                ))}
+              </>
+            ))}
+          />
+        </>
+      )}
+
+      {analysis.softSkills.length > 0 && (
+        <>
+          <SectionHeading>Core Competencies (Soft Skills)</SectionHeading>
+          <BulletList items={analysis.softSkills.map(skill => <InlineText text={skill} />)} />
+        </>
+      )}
+
+      {analysis.experience.length > 0 && (
+        <>
+          <SectionHeading>Experience Highlights</SectionHeading>
+          <div className="space-y-5">
+            {analysis.experience.map((entry, index) => (
+              <div key={index}>
+                <div className="font-semibold text-gray-200">
+                  {entry.title} at {flagged(entry.company, 'experience', index, 'company')}
+                  {formatDateRange(entry) && (
+                    <span className="font-normal text-gray-400">
+                      {' ('}{flagged(entry.startDate, 'experience', index, 'startDate')}{entry.startDate && entry.endDate && ' - '}{flagged(entry.endDate, 'experience', index, 'endDate')})
+                    </span>
+                  )}
+                </div>
+                <ul className="list-disc list-outside ml-6 mt-2 space-y-1 leading-relaxed">
+                  {entry.bullets.map((bullet, bulletIndex) => (
+                    <li key={bulletIndex}>{flagged(<InlineText text={bullet} />, 'experience', index, 'bullets', bulletIndex)}</li>
+                  ))}
+                </ul>
+                {entry.technologies.length > 0 && (
+                  <div className="mt-2 ml-6 text-sm text-gray-400">
+                    <span className="font-semibold">Technologies used:</span>{' '}
+                    {entry.technologies.map((technology, i) => (
+                      <React.Fragment key={i}>{i > 0 && ', '}{flagged(technology, 'experience', index, 'technologies', i)}</React.Fragment>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {analysis.education.length > 0 && (
+        <>
+          <SectionHeading>Education</SectionHeading>
+          <BulletList
+            items={analysis.education.map((entry, index) => (
+              <>
+                <strong className="font-semibold text-gray-200">{entry.degree}</strong>
+                {entry.school && <>, {flagged(entry.school, 'education', index, 'school')}</>}
+                {formatDateRange(entry) && (
+                  <span className="text-gray-400">
+                    {' ('}{flagged(entry.startDate, 'education', index, 'startDate')}{entry.startDate && entry.endDate && ' - '}{flagged(entry.endDate, 'education', index, 'endDate')})
+                  </span>
+                )}
+              </>
+            ))}
+          />
+        </>
+      )}
+
+      {analysis.certifications.length > 0 && (
+        <>
+          <SectionHeading>Certifications</SectionHeading>
+          <BulletList
+            items={analysis.certifications.map((entry, index) => (
+              <>
+                <strong className="font-semibold text-gray-200">{flagged(entry.name, 'certifications', index, 'name')}</strong>
+                {entry.issuer && <>, {entry.issuer}</>}
+                {entry.date && <span className="text-gray-400"> ({flagged(entry.date, 'certifications', index, 'date')})</span>}
+              </>
+            ))}
+          />
+        </>
+      )}
+
+      {analysis.publications.length > 0 && (
+        <>
+          <SectionHeading>Publications</SectionHeading>
+          <BulletList
+            items={analysis.publications.map((entry, index) => (
+              <>
+                {flagged(<InlineText text={entry.title} />, 'publications', index, 'title')}
+                {entry.publisher && <>, <em>{entry.publisher}</em></>}
+                {entry.date && <span className="text-gray-400"> ({flagged(entry.date, 'publications', index, 'date')})</span>}
+              </>
+            ))}
+          />
+        </>
+      )}
+
+      {analysis.projects.length > 0 && (
+        <>
+          <SectionHeading>Projects</SectionHeading>
+          <div className="space-y-3">
+            {analysis.projects.map((project, index) => (
+              <div key={index}>
+                <div className="font-semibold text-gray-200">{project.name}</div>
+                <div className="leading-relaxed">{flagged(<InlineText text={project.description} />, 'projects', index, 'description')}</div>
+                {project.technologies.length > 0 && (
+                  <div className="mt-1 text-sm text-gray-400">
+                    <span className="font-semibold">Technologies used:</span>{' '}
+                    {project.technologies.map((technology, i) => (
+                      <React.Fragment key={i}>{i > 0 && ', '}{flagged(technology, 'projects', index, 'technologies', i)}</React.Fragment>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {analysis.languages.length > 0 && (
+        <>
+          <SectionHeading>Languages</SectionHeading>
+          <BulletList
+            items={analysis.languages.map((entry, index) => (
+              <>
+                <strong className="font-semibold text-gray-200">{flagged(entry.language, 'languages', index, 'language')}</strong>
+                {entry.proficiency && <>: {entry.proficiency}</>}
+              </>
+            ))}
+          />
+        </>
+      )}
+
+      {analysis.suggestedRoles.length > 0 && (
+        <>
+          <SectionHeading>Potential Job Roles</SectionHeading>
+          <BulletList
+            items={analysis.suggestedRoles.map(role => (
+              <>
+                <strong className="font-semibold text-gray-200">{role.title}:</strong> <InlineText text={role.justification} />
+              </>
+            ))}
+          />
+        </>
+      )}
+
+      {analysis.optimizationTips.length > 0 && (
+        <>
+          <SectionHeading>Profile Optimization Suggestions</SectionHeading>
+          <BulletList items={analysis.optimizationTips.map(tip => <InlineText text={tip} />)} />
+        </>
+      )}
+    </div>
+  );
 };
 
 
-export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ summary, onCraftResume }) => {
+export const SummaryDisplay: React.FC<SummaryDisplayProps> = ({
+  analysis, isStreaming = false, isPartial = false, onCraftResume, onTailor, onCoverLetter, onRewriteLinkedIn, claims = [], claimActions,
+}) => {
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm p-6 sm:p-8 rounded-2xl shadow-lg border border-gray-700 space-y-6">
-      <SummaryRenderer text={summary} />
-       <div className="pt-4 border-t border-gray-700">
+      {isPartial && (
+        <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-xl text-sm" role="status">
+          Generation was cancelled. This analysis is incomplete.
+        </div>
+      )}
+      {claimActions && !isStreaming && <ClaimList claims={claims} documentName="analysis" {...claimActions} />}
+      <AnalysisRenderer analysis={analysis} claims={isStreaming ? [] : claims} claimActions={claimActions} />
+      {!isStreaming && analysis.experience.length > 0 && <CareerInsightsPanel analysis={analysis} />}
+       <div className="pt-4 border-t border-gray-700 grid grid-cols-1 sm:grid-cols-2 gap-3">
           <button
               onClick={onCraftResume}
+              disabled={isStreaming}
               className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-900 transition-all duration-200 transform hover:scale-105 shadow-md"
             >
               <DocumentTextIcon className="h-5 w-5" />
               <span>Craft Resume from this Analysis</span>
           </button>
+          {onTailor && (
+            <button
+                onClick={onTailor}
+                disabled={isStreaming}
+                className="w-full flex items-center justify-center gap-2 bg-gray-700 text-white font-semibold px-6 py-3 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-all duration-200 transform hover:scale-105 shadow-md"
+              >
+                <TargetIcon className="h-5 w-5" />
+                <span>Tailor to a Job Description</span>
+            </button>
+          )}
+          {onCoverLetter && (
+            <button
+                onClick={onCoverLetter}
+                disabled={isStreaming}
+                className="w-full flex items-center justify-center gap-2 bg-gray-700 text-white font-semibold px-6 py-3 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-all duration-200 transform hover:scale-105 shadow-md"
+              >
+                <MailIcon className="h-5 w-5" />
+                <span>Write a Cover Letter</span>
+            </button>
+          )}
+          {onRewriteLinkedIn && (
+            <button
+                onClick={onRewriteLinkedIn}
+                disabled={isStreaming}
+                className="w-full flex items-center justify-center gap-2 bg-gray-700 text-white font-semibold px-6 py-3 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-all duration-200 transform hover:scale-105 shadow-md"
+              >
+                <LinkedInIcon className="h-5 w-5" />
+                <span>Rewrite LinkedIn Sections</span>
+            </button>
+          )}
       </div>
     </div>
   );
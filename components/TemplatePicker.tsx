@@ -0,0 +1,103 @@
+import React from 'react';
+import type { ResumeFontId, ResumeTemplateId, ResumeTheme } from '../types';
+import { ACCENT_PRESETS, RESUME_FONTS, RESUME_TEMPLATES } from '../services/resumeTemplates';
+
+interface TemplatePickerProps {
+  theme: ResumeTheme;
+  // Section titles of the current resume, in the order they are rendered
+  sectionTitles: string[];
+  onChange: (theme: ResumeTheme) => void;
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ theme, sectionTitles, onChange }) => {
+  const selectTemplate = (templateId: ResumeTemplateId) =>
+    onChange({ ...theme, templateId, fontId: RESUME_TEMPLATES[templateId].defaultFont });
+
+  const moveSection = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sectionTitles.length) return;
+    const order = [...sectionTitles];
+    [order[index], order[target]] = [order[target], order[index]];
+    // Titles from other resumes stay in the saved order so switching back keeps their position
+    onChange({ ...theme, sectionOrder: [...order, ...theme.sectionOrder.filter(title => !order.includes(title))] });
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-lg p-4 space-y-4 text-sm">
+      <div>
+        <p className="text-gray-400 mb-2">Template</p>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {(Object.keys(RESUME_TEMPLATES) as ResumeTemplateId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => selectTemplate(id)}
+              className={`text-left rounded-lg border px-3 py-2 transition-colors ${theme.templateId === id ? 'border-purple-500 bg-purple-900/30' : 'border-gray-700 hover:border-gray-500'}`}
+            >
+              <span className="block text-white font-semibold">{RESUME_TEMPLATES[id].label}</span>
+              <span className="block text-xs text-gray-400">{RESUME_TEMPLATES[id].description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-gray-400">Font</span>
+          <select
+            value={theme.fontId}
+            onChange={(e) => onChange({ ...theme, fontId: e.target.value as ResumeFontId })}
+            className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          >
+            {(Object.keys(RESUME_FONTS) as ResumeFontId[]).map(id => (
+              <option key={id} value={id}>{RESUME_FONTS[id].label}</option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <span className="text-gray-400">Accent color</span>
+          <div className="mt-1 flex items-center gap-2">
+            {ACCENT_PRESETS.map(color => (
+              <button
+                key={color}
+                title={color}
+                aria-label={`Accent ${color}`}
+                onClick={() => onChange({ ...theme, accentColor: color })}
+                className={`h-7 w-7 rounded-full border-2 ${theme.accentColor.toLowerCase() === color ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: color }}
+              />
+            ))}
+            <input
+              type="color"
+              value={theme.accentColor}
+              onChange={(e) => onChange({ ...theme, accentColor: e.target.value })}
+              className="h-7 w-9 bg-transparent cursor-pointer"
+              aria-label="Custom accent color"
+            />
+          </div>
+        </div>
+      </div>
+
+      {sectionTitles.length > 1 && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-gray-400">Section order</p>
+            {theme.sectionOrder.length > 0 && (
+              <button onClick={() => onChange({ ...theme, sectionOrder: [] })} className="text-xs text-purple-400 hover:text-purple-300">Reset</button>
+            )}
+          </div>
+          <ol className="space-y-1">
+            {sectionTitles.map((title, index) => (
+              <li key={title} className="flex items-center justify-between bg-gray-800 rounded px-3 py-1.5">
+                <span className="text-gray-200">{title}</span>
+                <span className="flex gap-1">
+                  <button onClick={() => moveSection(index, -1)} disabled={index === 0} aria-label={`Move ${title} up`} className="px-1.5 text-gray-400 hover:text-white disabled:opacity-30">&uarr;</button>
+                  <button onClick={() => moveSection(index, 1)} disabled={index === sectionTitles.length - 1} aria-label={`Move ${title} down`} className="px-1.5 text-gray-400 hover:text-white disabled:opacity-30">&darr;</button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
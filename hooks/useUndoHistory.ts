@@ -0,0 +1,83 @@
+import { useCallback, useReducer } from 'react';
+
+// Consecutive changes with the same key inside this window become a single undo step, so typing is undone word-run by word-run rather than per keystroke
+const COALESCE_WINDOW_MS = 1000;
+const MAX_STEPS = 200;
+
+interface UndoState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastTime: number;
+}
+
+type UndoAction<T> =
+  | { type: 'set'; update: (current: T) => T; key: string | null; time: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; value: T };
+
+const reducer = <T,>(state: UndoState<T>, action: UndoAction<T>): UndoState<T> => {
+  switch (action.type) {
+    case 'set': {
+      const next = action.update(state.present);
+      if (Object.is(next, state.present)) return state;
+      const coalesce = action.key !== null && action.key === state.lastKey && action.time - state.lastTime < COALESCE_WINDOW_MS;
+      return {
+        past: coalesce ? state.past : [...state.past, state.present].slice(-MAX_STEPS),
+        present: next,
+        future: [],
+        lastKey: action.key,
+        lastTime: action.time,
+      };
+    }
+    case 'undo':
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastKey: null,
+        lastTime: 0,
+      };
+    case 'redo':
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastKey: null,
+        lastTime: 0,
+      };
+    case 'reset':
+      return { past: [], present: action.value, future: [], lastKey: null, lastTime: 0 };
+  }
+};
+
+// Value with linear undo/redo. Pass a coalesce key (e.g. the edited field) to merge rapid edits into one step; omit it for discrete actions.
+export const useUndoHistory = <T,>(initial: T) => {
+  const [state, dispatch] = useReducer(
+    reducer as (state: UndoState<T>, action: UndoAction<T>) => UndoState<T>,
+    { past: [], present: initial, future: [], lastKey: null, lastTime: 0 },
+  );
+
+  const set = useCallback((update: T | ((current: T) => T), key: string | null = null) => {
+    dispatch({
+      type: 'set',
+      update: typeof update === 'function' ? update as (current: T) => T : () => update,
+      key,
+      time: Date.now(),
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    undo: useCallback(() => dispatch({ type: 'undo' }), []),
+    redo: useCallback(() => dispatch({ type: 'redo' }), []),
+    reset: useCallback((value: T) => dispatch({ type: 'reset', value }), []),
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
@@ -0,0 +1,82 @@
+import type { ExperienceEntry, ProfileAnalysis } from "../types";
+
+export const formatDateRange = (entry: Pick<ExperienceEntry, 'startDate' | 'endDate'>): string =>
+    [entry.startDate, entry.endDate].filter(Boolean).join(' - ');
+
+// Renders a structured analysis as Markdown, used for the resume prompt and for copying
+export const analysisToMarkdown = (analysis: ProfileAnalysis): string => {
+    const lines: string[] = [];
+
+    lines.push('### Professional Summary', analysis.summary, '');
+
+    lines.push('### Key Technical Skills');
+    analysis.technicalSkills.forEach(group => {
+        lines.push(`* **${group.category}:** ${group.skills.join(', ')}`);
+    });
+    lines.push('');
+
+    lines.push('### Core Competencies (Soft Skills)');
+    analysis.softSkills.forEach(skill => lines.push(`* ${skill}`));
+    lines.push('');
+
+    lines.push('### Experience Highlights');
+    analysis.experience.forEach(entry => {
+        const dates = formatDateRange(entry);
+        lines.push(`* **${entry.title} at ${entry.company}${dates ? ` (${dates})` : ''}**:`);
+        entry.bullets.forEach(bullet => lines.push(`    - ${bullet}`));
+        if (entry.technologies.length > 0) {
+            lines.push(`    - Technologies used: ${entry.technologies.join(', ')}.`);
+        }
+    });
+    lines.push('');
+
+    // Optional sections are left out when empty, so the resume prompt does not invent content for them
+    if (analysis.education.length > 0) {
+        lines.push('### Education');
+        analysis.education.forEach(entry => {
+            const dates = formatDateRange(entry);
+            lines.push(`* **${entry.degree}**${entry.school ? `, ${entry.school}` : ''}${dates ? ` (${dates})` : ''}`);
+        });
+        lines.push('');
+    }
+
+    if (analysis.certifications.length > 0) {
+        lines.push('### Certifications');
+        analysis.certifications.forEach(entry => {
+            lines.push(`* **${entry.name}**${[entry.issuer, entry.date].filter(Boolean).map(part => `, ${part}`).join('')}`);
+        });
+        lines.push('');
+    }
+
+    if (analysis.publications.length > 0) {
+        lines.push('### Publications');
+        analysis.publications.forEach(entry => {
+            lines.push(`* **${entry.title}**${[entry.publisher, entry.date].filter(Boolean).map(part => `, ${part}`).join('')}`);
+        });
+        lines.push('');
+    }
+
+    if (analysis.projects.length > 0) {
+        lines.push('### Projects');
+        analysis.projects.forEach(project => {
+            const technologies = project.technologies.length > 0 ? ` (${project.technologies.join(', ')})` : '';
+            lines.push(`* **${project.name}:** ${project.description}${technologies}`);
+        });
+        lines.push('');
+    }
+
+    if (analysis.languages.length > 0) {
+        lines.push('### Languages');
+        analysis.languages.forEach(entry => lines.push(`* ${entry.language}${entry.proficiency ? `: ${entry.proficiency}` : ''}`));
+        lines.push('');
+    }
+
+    lines.push('### Potential Job Roles');
+    analysis.suggestedRoles.forEach(role => lines.push(`* **${role.title}:** ${role.justification}`));
+    lines.push('');
+
+    lines.push('### Profile Optimization Suggestions');
+    analysis.optimizationTips.forEach(tip => lines.push(`* ${tip}`));
+
+    return lines.join('\n');
+};
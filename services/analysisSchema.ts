@@ -0,0 +1,280 @@
+import { Type, type Schema } from "@google/genai";
+import type { ProfileAnalysis } from "../types";
+import {
+    expectObjectArray,
+    expectString,
+    expectStringArray,
+    isRecord,
+    parseJsonText,
+    records,
+    ResponseValidationError,
+    stringOrEmpty,
+    strings,
+} from "./validation";
+
+// Response schema handed to the model so it returns ProfileAnalysis-shaped JSON
+export const profileAnalysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: {
+            type: Type.STRING,
+            description: "One-paragraph professional summary suitable for a resume or LinkedIn About section.",
+        },
+        technicalSkills: {
+            type: Type.ARRAY,
+            description: "Technical skills grouped into logical categories.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    category: { type: Type.STRING },
+                    skills: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ["category", "skills"],
+            },
+        },
+        softSkills: {
+            type: Type.ARRAY,
+            description: "Soft skills and core competencies demonstrated in the profile.",
+            items: { type: Type.STRING },
+        },
+        experience: {
+            type: Type.ARRAY,
+            description: "The most significant job roles, most recent first.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    company: { type: Type.STRING },
+                    startDate: { type: Type.STRING, description: "In the format the prompt asks for, e.g. 'Jan 2020'" },
+                    endDate: { type: Type.STRING, description: "In the format the prompt asks for, e.g. 'Mar 2023' or 'Present'" },
+                    bullets: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    technologies: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ["title", "company", "startDate", "endDate", "bullets", "technologies"],
+                propertyOrdering: ["title", "company", "startDate", "endDate", "bullets", "technologies"],
+            },
+        },
+        education: {
+            type: Type.ARRAY,
+            description: "Degrees and other formal education, most recent first; empty if the profile lists none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    degree: { type: Type.STRING, description: "Degree and field of study, e.g. 'BSc Computer Science'" },
+                    school: { type: Type.STRING },
+                    startDate: { type: Type.STRING },
+                    endDate: { type: Type.STRING },
+                },
+                required: ["degree", "school", "startDate", "endDate"],
+                propertyOrdering: ["degree", "school", "startDate", "endDate"],
+            },
+        },
+        certifications: {
+            type: Type.ARRAY,
+            description: "Certifications and licenses; empty if the profile lists none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    issuer: { type: Type.STRING },
+                    date: { type: Type.STRING },
+                },
+                required: ["name", "issuer", "date"],
+            },
+        },
+        publications: {
+            type: Type.ARRAY,
+            description: "Papers, articles and books; empty if the profile lists none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    publisher: { type: Type.STRING, description: "Journal, conference, publisher or website" },
+                    date: { type: Type.STRING },
+                },
+                required: ["title", "publisher", "date"],
+            },
+        },
+        projects: {
+            type: Type.ARRAY,
+            description: "Notable projects described in the profile, outside of the job roles; empty if there are none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    description: { type: Type.STRING },
+                    technologies: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ["name", "description", "technologies"],
+            },
+        },
+        languages: {
+            type: Type.ARRAY,
+            description: "Spoken languages; empty if the profile lists none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    language: { type: Type.STRING },
+                    proficiency: { type: Type.STRING },
+                },
+                required: ["language", "proficiency"],
+            },
+        },
+        suggestedRoles: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    justification: { type: Type.STRING },
+                },
+                required: ["title", "justification"],
+            },
+        },
+        optimizationTips: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+        },
+    },
+    required: ["summary", "technicalSkills", "softSkills", "experience", "education", "certifications", "publications", "projects", "languages", "suggestedRoles", "optimizationTips"],
+    propertyOrdering: ["summary", "technicalSkills", "softSkills", "experience", "education", "certifications", "publications", "projects", "languages", "suggestedRoles", "optimizationTips"],
+};
+
+export class AnalysisValidationError extends ResponseValidationError {
+    readonly name: string = 'AnalysisValidationError';
+
+    constructor(issues: string[]) {
+        super('an analysis', issues);
+    }
+}
+
+// The sections added after the first release are missing from older saved analyses, and read as empty
+const optionalObjectArray = <T>(
+    value: unknown,
+    path: string,
+    issues: string[],
+    mapItem: (item: Record<string, unknown>, itemPath: string) => T
+): T[] => (value === undefined ? [] : expectObjectArray(value, path, issues, mapItem));
+
+// Checks untrusted model output against the ProfileAnalysis shape and returns a normalized copy
+export const validateProfileAnalysis = (data: unknown): ProfileAnalysis => {
+    const issues: string[] = [];
+    if (!isRecord(data)) {
+        throw new AnalysisValidationError(['response is not a JSON object']);
+    }
+
+    const analysis: ProfileAnalysis = {
+        summary: expectString(data.summary, 'summary', issues),
+        technicalSkills: expectObjectArray(data.technicalSkills, 'technicalSkills', issues, (item, path) => ({
+            category: expectString(item.category, `${path}.category`, issues),
+            skills: expectStringArray(item.skills, `${path}.skills`, issues),
+        })),
+        softSkills: expectStringArray(data.softSkills, 'softSkills', issues),
+        experience: expectObjectArray(data.experience, 'experience', issues, (item, path) => ({
+            title: expectString(item.title, `${path}.title`, issues),
+            company: expectString(item.company, `${path}.company`, issues),
+            startDate: expectString(item.startDate, `${path}.startDate`, issues),
+            endDate: expectString(item.endDate, `${path}.endDate`, issues),
+            bullets: expectStringArray(item.bullets, `${path}.bullets`, issues),
+            technologies: expectStringArray(item.technologies, `${path}.technologies`, issues),
+        })),
+        education: optionalObjectArray(data.education, 'education', issues, (item, path) => ({
+            degree: expectString(item.degree, `${path}.degree`, issues),
+            school: expectString(item.school, `${path}.school`, issues),
+            startDate: expectString(item.startDate, `${path}.startDate`, issues),
+            endDate: expectString(item.endDate, `${path}.endDate`, issues),
+        })),
+        certifications: optionalObjectArray(data.certifications, 'certifications', issues, (item, path) => ({
+            name: expectString(item.name, `${path}.name`, issues),
+            issuer: expectString(item.issuer, `${path}.issuer`, issues),
+            date: expectString(item.date, `${path}.date`, issues),
+        })),
+        publications: optionalObjectArray(data.publications, 'publications', issues, (item, path) => ({
+            title: expectString(item.title, `${path}.title`, issues),
+            publisher: expectString(item.publisher, `${path}.publisher`, issues),
+            date: expectString(item.date, `${path}.date`, issues),
+        })),
+        projects: optionalObjectArray(data.projects, 'projects', issues, (item, path) => ({
+            name: expectString(item.name, `${path}.name`, issues),
+            description: expectString(item.description, `${path}.description`, issues),
+            technologies: expectStringArray(item.technologies, `${path}.technologies`, issues),
+        })),
+        languages: optionalObjectArray(data.languages, 'languages', issues, (item, path) => ({
+            language: expectString(item.language, `${path}.language`, issues),
+            proficiency: expectString(item.proficiency, `${path}.proficiency`, issues),
+        })),
+        suggestedRoles: expectObjectArray(data.suggestedRoles, 'suggestedRoles', issues, (item, path) => ({
+            title: expectString(item.title, `${path}.title`, issues),
+            justification: expectString(item.justification, `${path}.justification`, issues),
+        })),
+        optimizationTips: expectStringArray(data.optimizationTips, 'optimizationTips', issues),
+    };
+
+    if (!analysis.summary && !issues.some(issue => issue.startsWith('summary'))) {
+        issues.push('summary is empty');
+    }
+
+    if (issues.length > 0) {
+        throw new AnalysisValidationError(issues);
+    }
+    return analysis;
+};
+
+export const parseProfileAnalysis = (text: string): ProfileAnalysis => {
+    const data = parseJsonText(text);
+    if (data === undefined) {
+        throw new AnalysisValidationError(['response is not valid JSON']);
+    }
+    return validateProfileAnalysis(data);
+};
+
+// Lenient counterpart of validateProfileAnalysis for incomplete (streamed or cancelled) output: anything missing is left empty
+export const toPartialProfileAnalysis = (data: unknown): ProfileAnalysis => {
+    const source = isRecord(data) ? data : {};
+    return {
+        summary: stringOrEmpty(source.summary),
+        technicalSkills: records(source.technicalSkills).map(item => ({
+            category: stringOrEmpty(item.category),
+            skills: strings(item.skills),
+        })),
+        softSkills: strings(source.softSkills),
+        experience: records(source.experience).map(item => ({
+            title: stringOrEmpty(item.title),
+            company: stringOrEmpty(item.company),
+            startDate: stringOrEmpty(item.startDate),
+            endDate: stringOrEmpty(item.endDate),
+            bullets: strings(item.bullets),
+            technologies: strings(item.technologies),
+        })),
+        education: records(source.education).map(item => ({
+            degree: stringOrEmpty(item.degree),
+            school: stringOrEmpty(item.school),
+            startDate: stringOrEmpty(item.startDate),
+            endDate: stringOrEmpty(item.endDate),
+        })),
+        certifications: records(source.certifications).map(item => ({
+            name: stringOrEmpty(item.name),
+            issuer: stringOrEmpty(item.issuer),
+            date: stringOrEmpty(item.date),
+        })),
+        publications: records(source.publications).map(item => ({
+            title: stringOrEmpty(item.title),
+            publisher: stringOrEmpty(item.publisher),
+            date: stringOrEmpty(item.date),
+        })),
+        projects: records(source.projects).map(item => ({
+            name: stringOrEmpty(item.name),
+            description: stringOrEmpty(item.description),
+            technologies: strings(item.technologies),
+        })),
+        languages: records(source.languages).map(item => ({
+            language: stringOrEmpty(item.language),
+            proficiency: stringOrEmpty(item.proficiency),
+        })),
+        suggestedRoles: records(source.suggestedRoles).map(item => ({
+            title: stringOrEmpty(item.title),
+            justification: stringOrEmpty(item.justification),
+        })),
+        optimizationTips: strings(source.optimizationTips),
+    };
+};
@@ -0,0 +1,94 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import type { PersonalInfo, ProfileAnalysis, ProfileDocument } from "../types";
+import { analysisToMarkdown } from "./analysisFormatter";
+import { createPastedProfile } from "./profileDocument";
+import { yearsOfExperience } from "./careerTimeline";
+import { profileOwnerName } from "./piiRedaction";
+import { personalInfoFromProfile } from "./personalInfo";
+import { safeFileName, toCsv } from "./download";
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One profile in a batch and what has been generated for it so far
+export interface BatchItem {
+    id: string;
+    // File name, or "Pasted profile 2"
+    label: string;
+    profile: ProfileDocument;
+    status: BatchStatus;
+    analysis: ProfileAnalysis | null;
+    resume: string | null;
+    error: string | null;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+export const createBatchItem = (profile: ProfileDocument, label: string): BatchItem => ({
+    id: crypto.randomUUID(),
+    label,
+    profile,
+    status: 'queued',
+    analysis: null,
+    resume: null,
+    error: null,
+});
+
+// Several pasted profiles are separated by a line of dashes or equals signs
+export const splitPastedProfiles = (text: string): ProfileDocument[] =>
+    text.split(/^[ \t]*(?:-{3,}|={3,})[ \t]*$/m)
+        .map(part => part.trim())
+        .filter(Boolean)
+        .map(createPastedProfile);
+
+// Runs the worker over the items with at most `limit` in flight; no new item starts once the signal aborts.
+// The worker handles its own errors, so one failed profile does not stop the rest.
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> => {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length && !signal?.aborted) {
+            await worker(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+};
+
+export const candidateName = (item: BatchItem): string => profileOwnerName(item.profile) || item.label;
+
+// Contact details found in the profile itself, for the resume header
+export const candidateContact = (profile: ProfileDocument): PersonalInfo => personalInfoFromProfile(profile);
+
+export const topSkills = (analysis: ProfileAnalysis, count = 5): string[] =>
+    [...new Set(analysis.technicalSkills.flatMap(group => group.skills))].slice(0, count);
+
+export const toBatchCsv = (items: BatchItem[]): string => {
+    const rows = [['Name', 'Source', 'Top skills', 'Suggested roles', 'Years of experience']];
+    items.forEach(item => {
+        if (!item.analysis) return;
+        const years = yearsOfExperience(item.analysis);
+        rows.push([
+            candidateName(item),
+            item.label,
+            topSkills(item.analysis).join('; '),
+            item.analysis.suggestedRoles.map(role => role.title).join('; '),
+            years === null ? '' : String(years),
+        ]);
+    });
+    return toCsv(rows);
+};
+
+// One folder per candidate with the analysis as Markdown and JSON and the resume if one was generated, plus the CSV summary
+export const toBatchZip = (items: BatchItem[]): Blob => {
+    const files: Zippable = { 'summary.csv': strToU8(toBatchCsv(items)) };
+    const done = items.filter(item => item.analysis);
+    const width = String(done.length).length;
+    done.forEach((item, i) => {
+        const folder = `${String(i + 1).padStart(width, '0')} ${safeFileName(candidateName(item)) || 'Profile'}`;
+        files[folder] = {
+            'analysis.md': strToU8(analysisToMarkdown(item.analysis!)),
+            'analysis.json': strToU8(JSON.stringify(item.analysis, null, 2)),
+            ...(item.resume ? { 'resume.md': strToU8(item.resume) } : {}),
+        };
+    });
+    return new Blob([zipSync(files)], { type: 'application/zip' });
+};
@@ -0,0 +1,152 @@
+import type { HistoryEntry, JobDescriptionAnalysis, JobMatchResult, ProfileAnalysis } from "../types";
+import { careerSpans, formatMonthIndex, yearsOfExperience, type CareerSpan } from "./careerTimeline";
+import { matchJobRequirements } from "./jobMatch";
+import { profileOwnerName } from "./piiRedaction";
+import { toCsv } from "./download";
+
+// An analyzed profile that can be compared, from the history or a batch run
+export interface ComparisonCandidate {
+    id: string;
+    name: string;
+    analysis: ProfileAnalysis;
+}
+
+export type SeniorityLevel = 'junior' | 'mid' | 'senior' | 'lead';
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+    junior: 'Junior',
+    mid: 'Mid-level',
+    senior: 'Senior',
+    lead: 'Lead / Principal',
+};
+
+// demonstrated: used in a role; listed: only named as a skill
+export type SkillEvidence = 'demonstrated' | 'listed';
+
+export interface SkillMatrixRow {
+    skill: string;
+    kind: 'technical' | 'competency';
+    // One cell per candidate, in candidate order; null when the candidate does not have the skill
+    cells: (SkillEvidence | null)[];
+}
+
+export interface CandidateProfile {
+    candidate: ComparisonCandidate;
+    spans: CareerSpan[];
+    years: number | null;
+    seniority: SeniorityLevel;
+    // Why the seniority was chosen, e.g. "7.5 years; latest title: Senior Engineer"
+    seniorityBasis: string;
+    match: JobMatchResult | null;
+}
+
+export interface CandidateComparison {
+    // Ranked by match score when a job is given, otherwise by years of experience
+    candidates: CandidateProfile[];
+    skills: SkillMatrixRow[];
+    job: JobDescriptionAnalysis | null;
+}
+
+export const fromHistoryEntry = (entry: HistoryEntry): ComparisonCandidate => ({
+    id: entry.id,
+    name: profileOwnerName(entry.profile) || entry.title,
+    analysis: entry.analysis,
+});
+
+const titlePattern = (terms: string): RegExp => new RegExp(`(?<![\\p{L}])(?:${terms})(?![\\p{L}])`, 'iu');
+
+const LEAD_TITLE = titlePattern('lead|principal|staff|head|director|vp|vice president|chief|cto|architect|leiter|leitung|responsable|diretor|gerente');
+const SENIOR_TITLE = titlePattern('senior|sr\\.?|s\\u00EAnior|confirm\\u00E9');
+const JUNIOR_TITLE = titlePattern('junior|jr\\.?|j\\u00FAnior|intern|trainee|praktikant|werkstudent|stagiaire|est\\u00E1gio|estagi\\u00E1rio|apprentice');
+
+const LEVEL_ORDER: SeniorityLevel[] = ['junior', 'mid', 'senior', 'lead'];
+
+const levelFromYears = (years: number): SeniorityLevel =>
+    years < 2 ? 'junior' : years < 5 ? 'mid' : years < 10 ? 'senior' : 'lead';
+
+// A rough estimate from the years of experience, adjusted by the most recent job title
+export const estimateSeniority = (analysis: ProfileAnalysis, years: number | null): { level: SeniorityLevel; basis: string } => {
+    const latestTitle = analysis.experience[0]?.title ?? '';
+    const fromTitle: SeniorityLevel | null = LEAD_TITLE.test(latestTitle) ? 'lead'
+        : SENIOR_TITLE.test(latestTitle) ? 'senior'
+        : JUNIOR_TITLE.test(latestTitle) ? 'junior'
+        : null;
+    const fromYears = years === null ? null : levelFromYears(years);
+    const basis = [years === null ? 'dates unknown' : `${years} years`, latestTitle && `latest title: ${latestTitle}`].filter(Boolean).join('; ');
+    if (!fromTitle) return { level: fromYears ?? 'mid', basis };
+    if (!fromYears) return { level: fromTitle, basis };
+    // A title outranks the years by at most one level, so "Senior" after one year reads as mid-level
+    const titleIndex = LEVEL_ORDER.indexOf(fromTitle);
+    const yearsIndex = LEVEL_ORDER.indexOf(fromYears);
+    const level = LEVEL_ORDER[titleIndex > yearsIndex ? Math.min(titleIndex, yearsIndex + 1) : Math.max(titleIndex, yearsIndex - 1)];
+    return { level, basis };
+};
+
+const normalizeSkill = (skill: string): string => skill.trim().toLowerCase();
+
+const buildSkillMatrix = (candidates: ComparisonCandidate[]): SkillMatrixRow[] => {
+    const rows = new Map<string, SkillMatrixRow>();
+    const mark = (skill: string, kind: SkillMatrixRow['kind'], index: number, evidence: SkillEvidence) => {
+        if (!skill.trim()) return;
+        const key = `${kind}:${normalizeSkill(skill)}`;
+        const row = rows.get(key) ?? { skill: skill.trim(), kind, cells: candidates.map(() => null) };
+        if (row.cells[index] !== 'demonstrated') row.cells[index] = evidence;
+        rows.set(key, row);
+    };
+    candidates.forEach(({ analysis }, index) => {
+        analysis.technicalSkills.forEach(group => group.skills.forEach(skill => mark(skill, 'technical', index, 'listed')));
+        analysis.experience.forEach(entry => entry.technologies.forEach(skill => mark(skill, 'technical', index, 'demonstrated')));
+        analysis.softSkills.forEach(skill => mark(skill, 'competency', index, 'listed'));
+    });
+    const count = (row: SkillMatrixRow) => row.cells.filter(Boolean).length;
+    // Technical skills first, then the skills most candidates share
+    return [...rows.values()].sort((a, b) =>
+        (a.kind === b.kind ? 0 : a.kind === 'technical' ? -1 : 1) || count(b) - count(a) || a.skill.localeCompare(b.skill));
+};
+
+export const compareCandidates = (candidates: ComparisonCandidate[], job: JobDescriptionAnalysis | null = null, now: Date = new Date()): CandidateComparison => {
+    const profiles = candidates.map((candidate): CandidateProfile => {
+        const years = yearsOfExperience(candidate.analysis, now);
+        const { level, basis } = estimateSeniority(candidate.analysis, years);
+        return {
+            candidate,
+            spans: careerSpans(candidate.analysis, now),
+            years,
+            seniority: level,
+            seniorityBasis: basis,
+            match: job ? matchJobRequirements(candidate.analysis, job) : null,
+        };
+    });
+    profiles.sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0) || (b.years ?? 0) - (a.years ?? 0));
+    const ranked = profiles.map(profile => profile.candidate);
+    return { candidates: profiles, skills: buildSkillMatrix(ranked), job };
+};
+
+const EVIDENCE_TEXT: Record<SkillEvidence, string> = { demonstrated: 'used in a role', listed: 'listed' };
+
+// Candidates, then the skill matrix and, with a job, the requirement matrix, as sections of one sheet
+export const comparisonToCsv = ({ candidates, skills, job }: CandidateComparison): string => {
+    const names = candidates.map(profile => profile.candidate.name);
+    const rows: string[][] = [
+        ['Rank', 'Name', ...(job ? ['Match score'] : []), 'Years of experience', 'Seniority estimate', 'Roles', 'Career'],
+        ...candidates.map((profile, i) => [
+            String(i + 1),
+            profile.candidate.name,
+            ...(job ? [String(profile.match?.score ?? '')] : []),
+            profile.years === null ? '' : String(profile.years),
+            SENIORITY_LABELS[profile.seniority],
+            String(profile.candidate.analysis.experience.length),
+            profile.spans.map(span => `${span.title} at ${span.company} (${formatMonthIndex(span.start, 'en-US')} - ${span.ongoing ? 'Present' : formatMonthIndex(span.end - 1, 'en-US')})`).join('; '),
+        ]),
+        [],
+        ['Skill', 'Type', ...names],
+        ...skills.map(row => [row.skill, row.kind === 'technical' ? 'Technical' : 'Competency', ...row.cells.map(cell => (cell ? EVIDENCE_TEXT[cell] : ''))]),
+    ];
+    if (job) {
+        rows.push([], ['Requirement', 'Importance', ...names]);
+        job.requirements.forEach((requirement, i) => {
+            rows.push([requirement.requirement, requirement.importance, ...candidates.map(profile => profile.match?.matches[i]?.level ?? '')]);
+        });
+    }
+    return toCsv(rows);
+};
@@ -0,0 +1,136 @@
+import type { ExperienceEntry, ProfileAnalysis } from "../types";
+import { formatDateRange } from "./analysisFormatter";
+import { parseDateRange } from "./resumeExport";
+
+// One role on a timeline; months are counted from year 0 so ranges can be compared and subtracted
+export interface CareerSpan {
+    title: string;
+    company: string;
+    start: number;
+    // Exclusive
+    end: number;
+    ongoing: boolean;
+}
+
+const monthIndex = (isoDate: string): number => {
+    const [year, month = '1'] = isoDate.split('-');
+    return Number(year) * 12 + Number(month) - 1;
+};
+
+export const toMonthIndex = (date: Date): number => date.getFullYear() * 12 + date.getMonth();
+
+export const formatMonthIndex = (index: number, locale?: string): string =>
+    new Date(Math.floor(index / 12), index % 12, 1).toLocaleDateString(locale, { year: 'numeric', month: 'short' });
+
+// A role's place on the timeline; null when its start date cannot be read
+export const entrySpan = (entry: ExperienceEntry, now: Date = new Date()): CareerSpan | null => {
+    const { startDate, endDate } = parseDateRange(formatDateRange(entry));
+    if (!startDate) return null;
+    const start = monthIndex(startDate);
+    // A missing or unreadable end date ("Present", "heute") means the role is ongoing
+    const end = endDate ? monthIndex(endDate) + 1 : toMonthIndex(now) + 1;
+    return { title: entry.title, company: entry.company, start, end: Math.max(start + 1, end), ongoing: !endDate };
+};
+
+// The roles of an analysis with readable dates, oldest first
+export const careerSpans = (analysis: ProfileAnalysis, now: Date = new Date()): CareerSpan[] =>
+    analysis.experience
+        .map(entry => entrySpan(entry, now))
+        .filter((span): span is CareerSpan => span !== null)
+        .sort((a, b) => a.start - b.start);
+
+export interface MonthRange {
+    start: number;
+    // Exclusive
+    end: number;
+}
+
+// Merges ranges into the months they cover together
+const coverage = (ranges: MonthRange[]): MonthRange[] => {
+    const merged: MonthRange[] = [];
+    [...ranges].sort((a, b) => a.start - b.start).forEach(range => {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    });
+    return merged;
+};
+
+const monthsIn = (ranges: MonthRange[]): number => coverage(ranges).reduce((sum, range) => sum + range.end - range.start, 0);
+
+const toYears = (months: number): number => Math.round(months / 12 * 10) / 10;
+
+// Gaps shorter than this are usually notice periods or rounding in the dates
+export const MIN_GAP_MONTHS = 3;
+
+// Periods between roles with no role at all
+export const careerGaps = (spans: CareerSpan[]): MonthRange[] => {
+    const covered = coverage(spans);
+    return covered.slice(1)
+        .map((range, i) => ({ start: covered[i].end, end: range.start }))
+        .filter(gap => gap.end - gap.start >= MIN_GAP_MONTHS);
+};
+
+// Periods with two or more roles at once
+export const careerOverlaps = (spans: CareerSpan[]): MonthRange[] =>
+    coverage(spans.flatMap((a, i) => spans.slice(i + 1).flatMap(b => {
+        const start = Math.max(a.start, b.start);
+        const end = Math.min(a.end, b.end);
+        return end > start ? [{ start, end }] : [];
+    })));
+
+// Total time covered by the roles, counting overlapping roles once; null when no dates could be read
+export const yearsOfExperience = (analysis: ProfileAnalysis, now: Date = new Date()): number | null => {
+    const spans = careerSpans(analysis, now);
+    return spans.length > 0 ? toYears(monthsIn(spans)) : null;
+};
+
+// How one technical skill was used across the roles
+export interface SkillUsage {
+    skill: string;
+    category: string;
+    // Roles that list it among their technologies
+    roles: number;
+    // Time covered by those roles, overlaps counted once; null when none of them has readable dates
+    years: number | null;
+    // End of the latest dated role using it (exclusive month index)
+    lastUsed: number | null;
+    current: boolean;
+}
+
+const OTHER_CATEGORY = 'Other';
+
+// Every technical skill of the analysis with the roles that used it, by category and then by how often it was used
+export const skillUsage = (analysis: ProfileAnalysis, now: Date = new Date()): SkillUsage[] => {
+    const categories = new Map<string, { skill: string; category: string }>();
+    analysis.technicalSkills.forEach(group => group.skills.forEach(skill => {
+        if (!categories.has(skill.toLowerCase())) categories.set(skill.toLowerCase(), { skill, category: group.category || OTHER_CATEGORY });
+    }));
+    const usedIn = new Map<string, ExperienceEntry[]>();
+    analysis.experience.forEach(entry => entry.technologies.forEach(technology => {
+        const key = technology.toLowerCase();
+        if (!categories.has(key)) categories.set(key, { skill: technology, category: OTHER_CATEGORY });
+        const entries = usedIn.get(key) ?? [];
+        if (!entries.includes(entry)) entries.push(entry);
+        usedIn.set(key, entries);
+    }));
+
+    const order = [...new Set([...categories.values()].map(item => item.category))];
+    return [...categories.entries()]
+        .map(([key, { skill, category }]): SkillUsage => {
+            const entries = usedIn.get(key) ?? [];
+            const spans = entries.map(entry => entrySpan(entry, now)).filter((span): span is CareerSpan => span !== null);
+            return {
+                skill,
+                category,
+                roles: entries.length,
+                years: spans.length > 0 ? toYears(monthsIn(spans)) : null,
+                lastUsed: spans.length > 0 ? Math.max(...spans.map(span => span.end)) : null,
+                current: spans.some(span => span.ongoing),
+            };
+        })
+        .sort((a, b) => order.indexOf(a.category) - order.indexOf(b.category) || b.roles - a.roles || (b.years ?? 0) - (a.years ?? 0));
+};
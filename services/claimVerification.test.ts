@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import type { ExperienceEntry, GitHubProfile, ProfileAnalysis, ProfileDocument, ResumeDocument } from '../types';
+import { buildClaimSource, claimKey, claimsAt, removeAnalysisClaim, removeResumeClaim, verifyAnalysis, verifyResume } from './claimVerification';
+
+const PROFILE: ProfileDocument = {
+    source: 'paste',
+    name: 'Alex Example',
+    headline: 'Backend Engineer',
+    location: 'Berlin, Germany',
+    summary: 'Backend engineer building payment systems.',
+    positions: [
+        {
+            title: 'Staff Engineer',
+            company: 'Acme',
+            location: 'Berlin',
+            startDate: '2019',
+            endDate: 'Present',
+            description: 'Led the migration of the payment platform to Kubernetes, reducing deploy time by 40%. Mentored 5 engineers.',
+        },
+        { title: 'Engineer', company: 'Beta', location: 'Hamburg', startDate: '2015', endDate: '2019', description: 'Built billing services in Go and PostgreSQL.' },
+    ],
+    education: [{ school: 'TU Berlin', degree: 'BSc Computer Science', startDate: '2011', endDate: '2015', notes: '' }],
+    skills: ['Go', 'Kubernetes', 'PostgreSQL', 'Node.js'],
+    otherSections: [],
+};
+
+const GITHUB: GitHubProfile = {
+    username: 'alex',
+    name: 'Alex Example',
+    bio: '',
+    profileUrl: 'https://github.com/alex',
+    followers: 10,
+    publicRepos: 4,
+    totalStars: 120,
+    languages: [{ name: 'TypeScript', repoCount: 3 }],
+    featuredRepos: [],
+    contributions: { periodDays: 0, commits: 0, pullRequests: 0, issues: 0, reviews: 0, reposContributedTo: [] },
+};
+
+const SOURCE = buildClaimSource(PROFILE, GITHUB);
+
+const SUPPORTED_ROLE: ExperienceEntry = {
+    title: 'Staff Engineer',
+    company: 'Acme GmbH',
+    startDate: '2019',
+    endDate: 'Present',
+    bullets: ['Led the migration of the payment platform to Kubernetes, cutting deploy time by 40%'],
+    technologies: ['Kubernetes', 'NodeJS', 'TypeScript'],
+};
+
+const analysis = (changes: Partial<ProfileAnalysis> = {}): ProfileAnalysis => ({
+    summary: 'Backend engineer with 8 years of experience. Builds payment systems.',
+    technicalSkills: [{ category: 'Languages', skills: ['Go', 'PostgreSQL'] }],
+    softSkills: ['Mentoring'],
+    experience: [SUPPORTED_ROLE],
+    education: [{ degree: 'BSc Computer Science', school: 'TU Berlin', startDate: '2011', endDate: '2015' }],
+    certifications: [],
+    publications: [],
+    projects: [],
+    languages: [],
+    suggestedRoles: [{ title: 'Principal Engineer', justification: 'Leads large migrations' }],
+    optimizationTips: ['Add 3 more metrics'],
+    ...changes,
+});
+
+const bullet = (text: string): ProfileAnalysis =>
+    analysis({ experience: [{ ...SUPPORTED_ROLE, bullets: [...SUPPORTED_ROLE.bullets, text] }] });
+
+describe('verifyAnalysis', () => {
+    it('passes claims that trace back to the profile or the GitHub data', () => {
+        expect(verifyAnalysis(analysis(), SOURCE)).toEqual([]);
+    });
+
+    it('flags made-up numbers, employers and skills', () => {
+        const claims = verifyAnalysis(analysis({
+            technicalSkills: [{ category: 'Languages', skills: ['Go', 'Rust'] }],
+            experience: [SUPPORTED_ROLE, { ...SUPPORTED_ROLE, company: 'Globex Corp', bullets: ['Led the migration of the payment platform, cutting deploy time by 65%'] }],
+        }), SOURCE);
+
+        expect(claims.map(({ kind, text, path }) => ({ kind, text, path }))).toEqual([
+            { kind: 'skill', text: 'Rust', path: ['technicalSkills', 0, 'skills', 1] },
+            { kind: 'employer', text: 'Globex Corp', path: ['experience', 1, 'company'] },
+            { kind: 'metric', text: '65%', path: ['experience', 1, 'bullets', 0] },
+        ]);
+        expect(claims[0].span).toBeNull();
+        expect(claims[2].reason).toBe('"65%" does not appear in your profile.');
+    });
+
+    it('matches numbers written with a different unit or separator', () => {
+        const source = buildClaimSource({ ...PROFILE, summary: 'Processed $1,200,000 in payments for 2.5k merchants.' }, GITHUB);
+        expect(verifyAnalysis(analysis({ summary: 'Processed $1.2M for 2,500 merchants.' }), source)).toEqual([]);
+    });
+
+    it('flags years missing from the profile and more years of experience than its dates cover', () => {
+        const claims = verifyAnalysis(analysis({
+            summary: 'Backend engineer with 30 years of experience.',
+            experience: [{ ...SUPPORTED_ROLE, startDate: '2017' }],
+        }), SOURCE);
+
+        expect(claims.map(({ kind, text, reason }) => ({ kind, text, reason }))).toEqual([
+            { kind: 'metric', text: '30 years', reason: 'The dates in your profile do not add up to 30 years.' },
+            { kind: 'date', text: '2017', reason: 'The year 2017 does not appear in your profile.' },
+        ]);
+    });
+
+    it('flags a bullet once fewer than 34% of its words appear in the profile', () => {
+        // One of three words ("Mentored") is in the profile
+        expect(verifyAnalysis(bullet('Mentored interns weekly'), SOURCE)).toMatchObject([
+            { kind: 'statement', text: 'Mentored interns weekly', path: ['experience', 0, 'bullets', 1], reason: 'Nothing in your profile says this.' },
+        ]);
+        // Two of five ("Mentored", "engineers") are enough
+        expect(verifyAnalysis(bullet('Mentored engineers, wrote onboarding guides'), SOURCE)).toEqual([]);
+    });
+
+    it('points a flagged bullet at the closest line of the profile', () => {
+        const [claim] = verifyAnalysis(bullet('Mentored interns weekly'), SOURCE);
+        expect(SOURCE.slice(claim.span.start, claim.span.end)).toContain('Mentored 5 engineers.');
+    });
+
+    it('skips the word overlap check for output in another language than the profile', () => {
+        const german = analysis({ experience: [{ ...SUPPORTED_ROLE, bullets: ['Leitete die Umstellung der Zahlungsplattform'] }] });
+        expect(verifyAnalysis(german, SOURCE)).toEqual([]);
+    });
+
+    it('leaves out claims the user accepted', () => {
+        const [claim] = verifyAnalysis(bullet('Mentored interns weekly'), SOURCE);
+        expect(verifyAnalysis(bullet('Mentored interns weekly'), SOURCE, [claimKey(claim)])).toEqual([]);
+        expect(claimKey({ kind: 'metric', text: ' 30% ' })).toBe('metric:30%');
+    });
+});
+
+const RESUME: ResumeDocument = {
+    name: 'Alex Example',
+    headline: 'Backend Engineer',
+    contact: ['alex@example.com'],
+    sections: [
+        { kind: 'summary', title: 'Summary', text: 'Backend engineer. Grew revenue by 300%.' },
+        { kind: 'skills', title: 'Skills', skills: [{ category: 'Languages', items: 'Go, **Rust**, TypeScript' }] },
+        {
+            kind: 'experience',
+            title: 'Experience',
+            jobs: [
+                { title: 'Staff Engineer', company: 'Acme', date: '2019 – Present', bullets: ['Led the migration of the payment platform to Kubernetes'] },
+                { title: 'Engineer', company: 'Initech', date: '2012 – 2015', bullets: ['Built billing services in Go'] },
+            ],
+        },
+        { kind: 'certifications', title: 'Certifications', entries: [{ title: 'Certified Kubernetes Administrator', subtitle: 'CNCF', date: '', details: [] }] },
+    ],
+};
+
+describe('verifyResume', () => {
+    it('checks the sections of a generated resume', () => {
+        const claims = verifyResume(RESUME, SOURCE);
+
+        expect(claims.map(({ kind, text, path }) => ({ kind, text, path }))).toEqual([
+            { kind: 'metric', text: '300%', path: ['sections', 0, 'text'] },
+            { kind: 'skill', text: 'Rust', path: ['sections', 1, 'skills', 0] },
+            { kind: 'employer', text: 'Initech', path: ['sections', 2, 'jobs', 1, 'company'] },
+            { kind: 'date', text: '2012 – 2015', path: ['sections', 2, 'jobs', 1, 'date'] },
+            { kind: 'statement', text: 'Certified Kubernetes Administrator', path: ['sections', 3, 'entries', 0, 'title'] },
+            { kind: 'employer', text: 'CNCF', path: ['sections', 3, 'entries', 0, 'subtitle'] },
+        ]);
+    });
+});
+
+describe('removing claims', () => {
+    const claimFor = (claims: ReturnType<typeof verifyResume>, ...path: (string | number)[]) => claimsAt(claims, ...path)[0];
+
+    it('finds the claims raised for one item', () => {
+        const claims = verifyResume(RESUME, SOURCE);
+        expect(claimsAt(claims, 'sections', 2, 'jobs', 1).map(claim => claim.kind)).toEqual(['employer', 'date']);
+        expect(claimsAt(claims, 'sections', 2, 'jobs', 0)).toEqual([]);
+    });
+
+    it('removes the sentence, skill, role or date a resume claim was generated in', () => {
+        const claims = verifyResume(RESUME, SOURCE);
+        let doc = RESUME;
+        doc = removeResumeClaim(doc, claimFor(claims, 'sections', 0));
+        doc = removeResumeClaim(doc, claimFor(claims, 'sections', 1));
+        doc = removeResumeClaim(doc, claimFor(claims, 'sections', 2, 'jobs', 1, 'date'));
+
+        expect(doc.sections[0]).toMatchObject({ text: 'Backend engineer.' });
+        expect(doc.sections[1]).toMatchObject({ skills: [{ category: 'Languages', items: 'Go, TypeScript' }] });
+        expect(doc.sections[2]).toMatchObject({ jobs: [{ company: 'Acme' }, { company: 'Initech', date: '' }] });
+
+        doc = removeResumeClaim(doc, claimFor(claims, 'sections', 2, 'jobs', 1, 'company'));
+        doc = removeResumeClaim(doc, claimFor(claims, 'sections', 3, 'entries', 0, 'title'));
+        expect(doc.sections[2]).toMatchObject({ jobs: [{ company: 'Acme' }] });
+        expect(doc.sections[3]).toMatchObject({ entries: [] });
+        expect(RESUME.sections[2]).toMatchObject({ jobs: [{ company: 'Acme' }, { company: 'Initech' }] });
+    });
+
+    it('removes the bullet, skill or role an analysis claim was generated in', () => {
+        const source = analysis({
+            summary: 'Backend engineer. Grew revenue by 300%.',
+            technicalSkills: [{ category: 'Languages', skills: ['Go'] }, { category: 'Systems', skills: ['Rust'] }],
+            experience: [{ ...SUPPORTED_ROLE, bullets: [...SUPPORTED_ROLE.bullets, 'Mentored interns weekly'] }, { ...SUPPORTED_ROLE, company: 'Globex' }],
+        });
+        const claims = verifyAnalysis(source, SOURCE);
+        const result = claims.reduce(removeAnalysisClaim, source);
+
+        expect(claims.map(claim => claim.kind)).toEqual(['metric', 'skill', 'statement', 'employer']);
+        expect(result.summary).toBe('Backend engineer.');
+        expect(result.technicalSkills).toEqual([{ category: 'Languages', skills: ['Go'] }]);
+        expect(result.experience).toEqual([SUPPORTED_ROLE]);
+        expect(verifyAnalysis(result, SOURCE)).toEqual([]);
+    });
+});
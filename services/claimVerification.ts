@@ -0,0 +1,359 @@
+import type { ClaimKind, GitHubProfile, ProfileAnalysis, ProfileDocument, ResumeDocument, ResumeEntryKind, SourceSpan, UnsupportedClaim } from "../types";
+import { formatProfileDocument } from "./profileDocument";
+import { formatGitHubSection } from "./githubService";
+
+// The text every generated claim has to trace back to: the profile as the prompts saw it, plus the GitHub data
+export const buildClaimSource = (profile: ProfileDocument, github?: GitHubProfile | null): string =>
+    [formatProfileDocument(profile), github ? formatGitHubSection(github) : ''].filter(Boolean).join('\n\n').normalize('NFC');
+
+// Identifies a claim across the analysis and the resume, so accepting "30%" once covers both
+export const claimKey = (claim: Pick<UnsupportedClaim, 'kind' | 'text'>): string =>
+    `${claim.kind}:${claim.text.trim().toLowerCase()}`;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (parts: string[], separator: string): RegExp =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${parts.map(escapeRegExp).join(separator)}(?![\\p{L}\\p{N}+#])`, 'iu');
+
+// Whole-term, case-insensitive search that tolerates punctuation and spacing differences ("CI/CD" / "CI CD", "NodeJS" / "Node.js")
+const findTerm = (source: string, term: string): SourceSpan | null => {
+    const tokens = term.normalize('NFC').match(/[\p{L}\p{N}+#]+/gu);
+    if (!tokens) return null;
+    const match = termPattern(tokens, '[^\\p{L}\\p{N}]{0,3}').exec(source)
+        ?? termPattern([...tokens.join('')], '[.\\-\\s]?').exec(source);
+    return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+// ---------- Numbers ----------
+
+interface NumberMention {
+    text: string;
+    value: number;
+    // The value with its unit applied, so "$1.2M" and "1,200,000" match
+    scaled: number;
+    start: number;
+    end: number;
+}
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, bn: 1e9, billion: 1e9 };
+
+const NUMBER_PATTERN = /(?<![\p{L}\p{N}.,])[$\u20AC\u00A3]?(\d+(?:[.,]\d+)*)(?:\s?(%|percent|thousand|million|billion|bn|mm|k|m|x))?(?![\p{L}\p{N}])/giu;
+
+// "1,200" and "1.200" are thousands separators; "1.5" and "1,5" are decimals
+const parseNumber = (digits: string): number =>
+    Number(/^\d{1,3}(?:[.,]\d{3})+$/.test(digits) ? digits.replace(/[.,]/g, '') : digits.replace(',', '.'));
+
+const findNumbers = (text: string): NumberMention[] =>
+    [...text.matchAll(NUMBER_PATTERN)]
+        .map(match => {
+            const value = parseNumber(match[1]);
+            return {
+                text: match[0],
+                value,
+                scaled: value * (MULTIPLIERS[(match[2] ?? '').toLowerCase()] ?? 1),
+                start: match.index ?? 0,
+                end: (match.index ?? 0) + match[0].length,
+            };
+        })
+        .filter(mention => Number.isFinite(mention.value));
+
+const isYear = (mention: NumberMention): boolean =>
+    /^\d{4}$/.test(mention.text) && mention.value >= 1950 && mention.value <= 2099;
+
+// "10+ years", "8 Jahre", "5 ans", "12 anos"
+const YEARS_OF_EXPERIENCE = /^\+?\s*(?:years?|yrs|jahren?|ans|anos)(?![\p{L}])/iu;
+
+// ---------- Statements ----------
+
+const STOPWORDS = new Set([
+    'with', 'that', 'this', 'from', 'into', 'using', 'used', 'their', 'which', 'across', 'over', 'more', 'than', 'while',
+    'within', 'through', 'also', 'have', 'were', 'been', 'including', 'based', 'such', 'other', 'various', 'multiple',
+    'several', 'both', 'each', 'they', 'them', 'when', 'where', 'work', 'worked', 'working',
+]);
+
+// Words of four or more letters, cut to five characters so "optimized" and "optimizing" count as the same word
+const contentStems = (text: string): string[] =>
+    (text.toLowerCase().match(/\p{L}{4,}/gu) ?? []).filter(word => !STOPWORDS.has(word)).map(word => word.slice(0, 5));
+
+interface Passage extends SourceSpan {
+    stems: Set<string>;
+}
+
+const toPassages = (source: string): Passage[] => {
+    const passages: Passage[] = [];
+    let offset = 0;
+    source.split('\n').forEach(line => {
+        if (line.trim()) {
+            passages.push({ start: offset, end: offset + line.length, stems: new Set(contentStems(line)) });
+        }
+        offset += line.length + 1;
+    });
+    return passages;
+};
+
+// A bullet counts as supported when at least this share of its words appear in the source
+const STATEMENT_THRESHOLD = 0.34;
+// Below this overall share the output is most likely in another language than the profile, and word overlap says nothing
+const SAME_LANGUAGE_THRESHOLD = 0.2;
+
+// ---------- Checking ----------
+
+type CheckKind = 'numbers' | 'statement' | 'skill' | 'employer' | 'date';
+
+interface ClaimItem {
+    path: (string | number)[];
+    text: string;
+    checks: CheckKind[];
+}
+
+const checkItems = (items: ClaimItem[], source: string, accepted: string[]): UnsupportedClaim[] => {
+    const passages = toPassages(source);
+    const sourceStems = new Set(passages.flatMap(passage => [...passage.stems]));
+    const sourceNumbers = findNumbers(source);
+    const sourceYears = sourceNumbers.filter(isYear).map(mention => mention.value);
+    const earliestYear = sourceYears.length > 0 ? Math.min(...sourceYears) : undefined;
+
+    const statementStems = items.filter(item => item.checks.includes('statement')).flatMap(item => contentStems(item.text));
+    const sameLanguage = statementStems.length === 0
+        || statementStems.filter(stem => sourceStems.has(stem)).length / statementStems.length >= SAME_LANGUAGE_THRESHOLD;
+
+    // The source line sharing the most words with the generated text
+    const closestPassage = (text: string): SourceSpan | null => {
+        const stems = [...new Set(contentStems(text))];
+        let best: { passage: Passage; score: number } | null = null;
+        for (const passage of passages) {
+            const score = stems.filter(stem => passage.stems.has(stem)).length;
+            if (score > (best?.score ?? 0)) best = { passage, score };
+        }
+        return best ? { start: best.passage.start, end: best.passage.end } : null;
+    };
+
+    const claims: UnsupportedClaim[] = [];
+    const flag = (item: ClaimItem, kind: ClaimKind, text: string, reason: string, span?: SourceSpan | null) => {
+        const claim: UnsupportedClaim = { kind, text, path: item.path, reason, span: span === undefined ? closestPassage(item.text) : span };
+        if (!accepted.includes(claimKey(claim))) claims.push(claim);
+    };
+
+    items.forEach(item => {
+        const text = item.text.normalize('NFC').replace(/\*\*|`/g, '').trim();
+        if (!text) return;
+        item.checks.forEach(check => {
+            switch (check) {
+                case 'numbers':
+                    findNumbers(text).forEach(mention => {
+                        if (isYear(mention)) {
+                            if (!sourceYears.includes(mention.value)) flag(item, 'date', mention.text, `The year ${mention.text} does not appear in your profile.`);
+                            return;
+                        }
+                        const years = text.slice(mention.end).match(YEARS_OF_EXPERIENCE);
+                        if (years) {
+                            if (earliestYear === undefined || mention.value > new Date().getFullYear() - earliestYear + 1) {
+                                flag(item, 'metric', mention.text + years[0], `The dates in your profile do not add up to ${mention.value} years.`);
+                            }
+                        } else if (!sourceNumbers.some(source => source.value === mention.value || source.scaled === mention.scaled)) {
+                            flag(item, 'metric', mention.text, `"${mention.text}" does not appear in your profile.`);
+                        }
+                    });
+                    break;
+                case 'date':
+                    findNumbers(text).filter(isYear).forEach(mention => {
+                        if (!sourceYears.includes(mention.value)) flag(item, 'date', text, `The year ${mention.text} does not appear in your profile.`);
+                    });
+                    break;
+                case 'employer': {
+                    // Legal suffixes are often added or dropped
+                    const name = text.replace(/,?\s+(?:inc|llc|ltd|gmbh|ag|corp|corporation|co|s\.?a|plc)\.?$/i, '');
+                    if (!findTerm(source, name)) flag(item, 'employer', text, `"${text}" does not appear in your profile.`);
+                    break;
+                }
+                case 'skill': {
+                    const name = text.replace(/\s*\([^)]*\)/g, '').trim();
+                    if (name && !findTerm(source, name)) flag(item, 'skill', text, `"${name}" does not appear in your profile.`, null);
+                    break;
+                }
+                case 'statement': {
+                    if (!sameLanguage) break;
+                    const stems = contentStems(text);
+                    const found = stems.filter(stem => sourceStems.has(stem)).length;
+                    if (stems.length > 0 && found / stems.length < STATEMENT_THRESHOLD) {
+                        flag(item, 'statement', text, 'Nothing in your profile says this.');
+                    }
+                    break;
+                }
+            }
+        });
+    });
+    return claims;
+};
+
+// Checks the employers, dates, bullets, metrics and technical skills of an analysis against the source, and the names
+// in its education, certifications, publications, projects and languages. Soft skills, suggested roles and tips are
+// the model's own judgement and are not checked.
+export const verifyAnalysis = (analysis: ProfileAnalysis, source: string, accepted: string[] = []): UnsupportedClaim[] =>
+    checkItems([
+        { path: ['summary'], text: analysis.summary, checks: ['numbers'] },
+        ...analysis.technicalSkills.flatMap((group, g) =>
+            group.skills.map((skill, i): ClaimItem => ({ path: ['technicalSkills', g, 'skills', i], text: skill, checks: ['skill'] }))),
+        ...analysis.experience.flatMap((entry, e): ClaimItem[] => [
+            { path: ['experience', e, 'company'], text: entry.company, checks: ['employer'] },
+            { path: ['experience', e, 'startDate'], text: entry.startDate, checks: ['date'] },
+            { path: ['experience', e, 'endDate'], text: entry.endDate, checks: ['date'] },
+            ...entry.bullets.map((bullet, b): ClaimItem => ({ path: ['experience', e, 'bullets', b], text: bullet, checks: ['numbers', 'statement'] })),
+            ...entry.technologies.map((technology, t): ClaimItem => ({ path: ['experience', e, 'technologies', t], text: technology, checks: ['skill'] })),
+        ]),
+        ...analysis.education.flatMap((entry, e): ClaimItem[] => [
+            { path: ['education', e, 'school'], text: entry.school, checks: ['employer'] },
+            { path: ['education', e, 'startDate'], text: entry.startDate, checks: ['date'] },
+            { path: ['education', e, 'endDate'], text: entry.endDate, checks: ['date'] },
+        ]),
+        ...analysis.certifications.flatMap((entry, c): ClaimItem[] => [
+            { path: ['certifications', c, 'name'], text: entry.name, checks: ['statement'] },
+            { path: ['certifications', c, 'date'], text: entry.date, checks: ['date'] },
+        ]),
+        ...analysis.publications.flatMap((entry, p): ClaimItem[] => [
+            { path: ['publications', p, 'title'], text: entry.title, checks: ['statement'] },
+            { path: ['publications', p, 'date'], text: entry.date, checks: ['date'] },
+        ]),
+        ...analysis.projects.flatMap((project, p): ClaimItem[] => [
+            { path: ['projects', p, 'description'], text: project.description, checks: ['numbers', 'statement'] },
+            ...project.technologies.map((technology, t): ClaimItem => ({ path: ['projects', p, 'technologies', t], text: technology, checks: ['skill'] })),
+        ]),
+        ...analysis.languages.map((entry, l): ClaimItem => ({ path: ['languages', l, 'language'], text: entry.language, checks: ['skill'] })),
+    ], source, accepted);
+
+// What the title and subtitle of a resume entry are checked as: schools and issuers are names like employers,
+// certificate and publication titles are statements, and a project's subtitle is its description
+const ENTRY_CHECKS: Record<ResumeEntryKind, { title: CheckKind[]; subtitle: CheckKind[] }> = {
+    education: { title: [], subtitle: ['employer'] },
+    projects: { title: [], subtitle: ['numbers'] },
+    certifications: { title: ['statement'], subtitle: ['employer'] },
+    publications: { title: ['statement'], subtitle: [] },
+    languages: { title: ['skill'], subtitle: [] },
+};
+
+const splitSkillItems = (items: string): string[] =>
+    items.split(/[,;\u2022]/).map(item => item.replace(/\*\*|`/g, '').trim()).filter(Boolean);
+
+// The same checks for a generated resume; the header comes from the user's own details and is skipped
+export const verifyResume = (doc: ResumeDocument, source: string, accepted: string[] = []): UnsupportedClaim[] =>
+    checkItems(doc.sections.flatMap((section, s): ClaimItem[] => {
+        switch (section.kind) {
+            case 'summary':
+                return [{ path: ['sections', s, 'text'], text: section.text, checks: ['numbers'] }];
+            case 'skills':
+                return section.skills.flatMap((line, k) =>
+                    splitSkillItems(line.items).map((skill): ClaimItem => ({ path: ['sections', s, 'skills', k], text: skill, checks: ['skill'] })));
+            case 'experience':
+                return section.jobs.flatMap((job, j): ClaimItem[] => [
+                    { path: ['sections', s, 'jobs', j, 'company'], text: job.company, checks: ['employer'] },
+                    { path: ['sections', s, 'jobs', j, 'date'], text: job.date, checks: ['date'] },
+                    ...job.bullets.map((bullet, b): ClaimItem => ({ path: ['sections', s, 'jobs', j, 'bullets', b], text: bullet, checks: ['numbers', 'statement'] })),
+                ]);
+            case 'education':
+            case 'projects':
+            case 'certifications':
+            case 'publications':
+            case 'languages':
+                return section.entries.flatMap((entry, e): ClaimItem[] => [
+                    { path: ['sections', s, 'entries', e, 'title'], text: entry.title, checks: ENTRY_CHECKS[section.kind].title },
+                    { path: ['sections', s, 'entries', e, 'subtitle'], text: entry.subtitle, checks: ENTRY_CHECKS[section.kind].subtitle },
+                    { path: ['sections', s, 'entries', e, 'date'], text: entry.date, checks: ['date'] },
+                    ...entry.details.map((detail, d): ClaimItem => ({ path: ['sections', s, 'entries', e, 'details', d], text: detail, checks: ['numbers'] })),
+                ]);
+            default:
+                return section.content.split('\n').map((line, l): ClaimItem => ({ path: ['sections', s, 'content', l], text: line, checks: ['numbers'] }));
+        }
+    }), source, accepted);
+
+// ---------- Removal ----------
+
+const without = <T>(items: T[], index: number): T[] => items.filter((_, i) => i !== index);
+
+// Drops the sentences that contain the claim, keeping the rest of the paragraph
+const removeSentences = (text: string, claim: string): string =>
+    text.split(/(?<=[.!?])\s+/).filter(sentence => !sentence.includes(claim)).join(' ');
+
+// Removes what the claim was generated in: the bullet, skill or sentence, a whole role for an unknown employer, or the date
+export const removeAnalysisClaim = (analysis: ProfileAnalysis, claim: UnsupportedClaim): ProfileAnalysis => {
+    const [field, first, key, index] = claim.path;
+    if (field === 'summary') {
+        return { ...analysis, summary: removeSentences(analysis.summary, claim.text) };
+    }
+    if (field === 'technicalSkills' && typeof first === 'number' && typeof index === 'number') {
+        const technicalSkills = analysis.technicalSkills
+            .map((group, g) => (g === first ? { ...group, skills: without(group.skills, index) } : group))
+            .filter(group => group.skills.length > 0);
+        return { ...analysis, technicalSkills };
+    }
+    if (field === 'experience' && typeof first === 'number') {
+        if (key === 'company') {
+            return { ...analysis, experience: without(analysis.experience, first) };
+        }
+        const experience = analysis.experience.map((entry, e) => {
+            if (e !== first) return entry;
+            if (key === 'startDate' || key === 'endDate') return { ...entry, [key]: '' };
+            if (key === 'bullets' && typeof index === 'number') return { ...entry, bullets: without(entry.bullets, index) };
+            if (key === 'technologies' && typeof index === 'number') return { ...entry, technologies: without(entry.technologies, index) };
+            return entry;
+        });
+        return { ...analysis, experience };
+    }
+    // An unsupported name or description drops the whole entry; dates are cleared and technologies removed one by one
+    if ((field === 'education' || field === 'certifications' || field === 'publications' || field === 'projects' || field === 'languages') && typeof first === 'number') {
+        if (key === 'startDate' || key === 'endDate' || key === 'date') {
+            return { ...analysis, [field]: (analysis[field] as object[]).map((entry, e) => (e === first ? { ...entry, [key]: '' } : entry)) };
+        }
+        if (field === 'projects' && key === 'technologies' && typeof index === 'number') {
+            return { ...analysis, projects: analysis.projects.map((project, p) => (p === first ? { ...project, technologies: without(project.technologies, index) } : project)) };
+        }
+        return { ...analysis, [field]: without(analysis[field] as object[], first) };
+    }
+    return analysis;
+};
+
+export const removeResumeClaim = (doc: ResumeDocument, claim: UnsupportedClaim): ResumeDocument => {
+    const [, s, field, index, key, bullet] = claim.path;
+    const sections = doc.sections.map((section, i) => {
+        if (i !== s) return section;
+        if (section.kind === 'summary' && field === 'text') {
+            return { ...section, text: removeSentences(section.text, claim.text) };
+        }
+        if (typeof index !== 'number') return section;
+        if (section.kind === 'skills' && field === 'skills') {
+            const skills = section.skills
+                .map((line, k) => (k === index ? { ...line, items: splitSkillItems(line.items).filter(item => item !== claim.text).join(', ') } : line))
+                .filter(line => line.items.trim());
+            return { ...section, skills };
+        }
+        if (section.kind === 'experience' && field === 'jobs') {
+            if (key === 'company') return { ...section, jobs: without(section.jobs, index) };
+            const jobs = section.jobs.map((job, j) => {
+                if (j !== index) return job;
+                if (key === 'date') return { ...job, date: '' };
+                if (key === 'bullets' && typeof bullet === 'number') return { ...job, bullets: without(job.bullets, bullet) };
+                return job;
+            });
+            return { ...section, jobs };
+        }
+        if ('entries' in section && field === 'entries') {
+            if (key === 'title' || (key === 'subtitle' && section.kind !== 'projects')) return { ...section, entries: without(section.entries, index) };
+            const entries = section.entries.map((entry, e) => {
+                if (e !== index) return entry;
+                if (key === 'subtitle') return { ...entry, subtitle: removeSentences(entry.subtitle, claim.text) };
+                if (key === 'date') return { ...entry, date: '' };
+                if (key === 'details' && typeof bullet === 'number') return { ...entry, details: without(entry.details, bullet) };
+                return entry;
+            });
+            return { ...section, entries };
+        }
+        if (section.kind === 'text' && field === 'content') {
+            return { ...section, content: without(section.content.split('\n'), index).join('\n') };
+        }
+        return section;
+    });
+    return { ...doc, sections };
+};
+
+// Claims that belong to the item at this path, e.g. all flags raised for one bullet
+export const claimsAt = (claims: UnsupportedClaim[], ...path: (string | number)[]): UnsupportedClaim[] =>
+    claims.filter(claim => path.every((part, i) => claim.path[i] === part));
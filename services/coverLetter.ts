@@ -0,0 +1,172 @@
+import type { CoverLetterLength, CoverLetterTarget, CoverLetterTone, OutputLanguage, PersonalInfo, ResumeTheme } from "../types";
+import { DEFAULT_RESUME_THEME, hexToRgb, RESUME_FONTS } from "./resumeTemplates";
+import { toPlainCharacters } from "./resumeExport";
+import { safeFileName, type ExportFormat } from "./download";
+import { DEFAULT_OUTPUT_LANGUAGE, formatLongDate } from "./outputLanguage";
+import { contactItems } from "./personalInfo";
+
+// Everything needed to lay out the letter; the letterhead comes from the personal info
+export interface CoverLetterContent {
+    name: string;
+    contact: string[];
+    date: string;
+    paragraphs: string[];
+}
+
+export const COVER_LETTER_TONE_LABELS: Record<CoverLetterTone, string> = {
+    professional: 'Professional',
+    enthusiastic: 'Enthusiastic',
+    confident: 'Confident',
+    conversational: 'Conversational',
+};
+
+export const COVER_LETTER_LENGTH_LABELS: Record<CoverLetterLength, string> = {
+    short: 'Short (~175 words)',
+    medium: 'Medium (~275 words)',
+    long: 'Long (~400 words)',
+};
+
+export const isCoverLetterTone = (value: unknown): value is CoverLetterTone =>
+    typeof value === 'string' && value in COVER_LETTER_TONE_LABELS;
+
+export const isCoverLetterLength = (value: unknown): value is CoverLetterLength =>
+    typeof value === 'string' && value in COVER_LETTER_LENGTH_LABELS;
+
+// Openings and closings in each output language (English, German, French, Portuguese)
+const GREETING_PATTERN = /^(?:dear|hello|hi|greetings|to whom|sehr geehrte[rn]?|liebe[rs]?|hallo|guten tag|madame|monsieur|bonjour|prezad\w*|car[oa]|ol\u00E1)(?![a-z])/i;
+const SIGN_OFF_PATTERN = /^(?:sincerely|best|kind|warm|regards|respectfully|yours|thank you|many thanks|with gratitude|mit freundlichen|freundliche|beste|viele|cordialement|bien \u00E0 vous|je vous prie|atenciosamente|cordialmente|abra\u00E7os|obrigad[oa])(?![a-z])/i;
+
+// Paragraphs are separated by blank lines; single line breaks (e.g. "Sincerely,\nName") stay inside their paragraph
+export const parseCoverLetter = (text: string): string[] =>
+    text
+        .replace(/\r\n?/g, '\n')
+        .replace(/^```\w*\n?|\n?```$/g, '')
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.split('\n').map(line => line.trim()).join('\n').trim())
+        .filter(Boolean);
+
+export const serializeCoverLetter = (paragraphs: string[]): string =>
+    paragraphs.map(paragraph => paragraph.trim()).filter(Boolean).join('\n\n');
+
+// The greeting and the sign-off are kept as written; only body paragraphs can be regenerated
+export const isBodyParagraph = (paragraphs: string[], index: number): boolean => {
+    const paragraph = paragraphs[index] ?? '';
+    if (index === 0 && GREETING_PATTERN.test(paragraph)) return false;
+    if (index === paragraphs.length - 1 && SIGN_OFF_PATTERN.test(paragraph)) return false;
+    return true;
+};
+
+export const defaultCoverLetterTarget = (role = '', company = '', jobDescription = ''): CoverLetterTarget => ({
+    company,
+    role,
+    jobDescription,
+    tone: 'professional',
+    length: 'medium',
+});
+
+export const toCoverLetterContent = (
+    paragraphs: string[],
+    personalInfo: PersonalInfo,
+    language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    date: Date = new Date()
+): CoverLetterContent => ({
+    name: personalInfo.name.trim(),
+    contact: contactItems(personalInfo),
+    date: formatLongDate(date, language),
+    paragraphs,
+});
+
+const coverLetterFileName = (letter: CoverLetterContent, target: CoverLetterTarget, extension: string): string =>
+    safeFileName(`${letter.name} Cover Letter${target.company.trim() ? ` - ${target.company.trim()}` : ''}.${extension}`);
+
+export const coverLetterToText = (letter: CoverLetterContent): string =>
+    toPlainCharacters([
+        ...(letter.name ? [letter.name] : []),
+        ...(letter.contact.length > 0 ? [letter.contact.join(' | ')] : []),
+        '',
+        letter.date,
+        '',
+        serializeCoverLetter(letter.paragraphs),
+    ].join('\n').trim()) + '\n';
+
+// Single-column US Letter PDF; the font and accent follow the resume theme so both documents match
+export const coverLetterToPdf = async (letter: CoverLetterContent, theme: ResumeTheme = DEFAULT_RESUME_THEME): Promise<Blob> => {
+    const { jsPDF } = await import('jspdf');
+    const font = RESUME_FONTS[theme.fontId].pdf;
+    const accent = hexToRgb(theme.accentColor);
+    const size = 11;
+    const margin = 72;
+
+    const pdf = new jsPDF({ unit: 'pt', format: 'letter' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const width = pageWidth - margin * 2;
+    let y = margin;
+
+    const write = (text: string, { fontSize = size, style = 'normal', color = [31, 41, 55] as [number, number, number] } = {}) => {
+        pdf.setFont(font, style);
+        pdf.setFontSize(fontSize);
+        const lineHeight = fontSize * 1.35;
+        text.split('\n').forEach(part => {
+            (pdf.splitTextToSize(toPlainCharacters(part), width) as string[]).forEach(line => {
+                if (y + lineHeight > pageHeight - margin) {
+                    pdf.addPage();
+                    y = margin;
+                }
+                pdf.setTextColor(...color);
+                pdf.text(line, margin, y + fontSize);
+                y += lineHeight;
+            });
+        });
+    };
+
+    if (letter.name) write(letter.name, { fontSize: 20, style: 'bold', color: accent });
+    if (letter.contact.length > 0) write(letter.contact.join('  |  '), { fontSize: 9.5, color: [75, 85, 99] });
+    pdf.setDrawColor(...accent);
+    pdf.setLineWidth(1);
+    pdf.line(margin, y + 6, pageWidth - margin, y + 6);
+    y += 28;
+    write(letter.date);
+    y += size;
+    letter.paragraphs.forEach(paragraph => {
+        write(paragraph);
+        y += size * 0.9;
+    });
+    return pdf.output('blob');
+};
+
+export const coverLetterToDocx = async (letter: CoverLetterContent, theme: ResumeTheme = DEFAULT_RESUME_THEME): Promise<Blob> => {
+    const { BorderStyle, Document, Packer, Paragraph, TextRun } = await import('docx');
+    const accent = theme.accentColor.replace('#', '');
+    const lines = (text: string) => text.split('\n').map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined }));
+
+    const document = new Document({
+        creator: letter.name || 'Cover letter',
+        title: `${letter.name} Cover Letter`.trim(),
+        styles: { default: { document: { run: { font: RESUME_FONTS[theme.fontId].docx, size: 22 } } } },
+        sections: [{
+            properties: { page: { margin: { top: 1440, bottom: 1440, left: 1440, right: 1440 } } },
+            children: [
+                ...(letter.name ? [new Paragraph({ children: [new TextRun({ text: letter.name, bold: true, size: 40, color: accent })] })] : []),
+                new Paragraph({
+                    children: [new TextRun({ text: letter.contact.join('  |  '), size: 19, color: '4B5563' })],
+                    border: { bottom: { style: BorderStyle.SINGLE, size: 8, color: accent, space: 4 } },
+                    spacing: { after: 360 },
+                }),
+                new Paragraph({ children: [new TextRun({ text: letter.date })], spacing: { after: 240 } }),
+                ...letter.paragraphs.map(paragraph => new Paragraph({ children: lines(paragraph), spacing: { after: 200 } })),
+            ],
+        }],
+    });
+    return Packer.toBlob(document);
+};
+
+// The download options offered in the cover letter view
+export const coverLetterExportFormats = (letter: CoverLetterContent, target: CoverLetterTarget, theme: ResumeTheme): ExportFormat[] => [
+    { id: 'pdf', label: 'PDF', hint: 'Matches your resume font and accent', fileName: coverLetterFileName(letter, target, 'pdf'), build: () => coverLetterToPdf(letter, theme) },
+    { id: 'docx', label: 'Word', hint: 'Editable .docx', fileName: coverLetterFileName(letter, target, 'docx'), build: () => coverLetterToDocx(letter, theme) },
+    {
+        id: 'txt', label: 'Text', hint: 'Plain text for application forms', fileName: coverLetterFileName(letter, target, 'txt'),
+        build: () => new Blob([coverLetterToText(letter)], { type: 'text/plain;charset=utf-8' }),
+    },
+];
@@ -0,0 +1,32 @@
+// A downloadable rendition of a document, built on demand
+export interface ExportFormat {
+    id: string;
+    label: string;
+    hint: string;
+    fileName: string;
+    build: () => Blob | Promise<Blob>;
+}
+
+// Removes characters that are not allowed in file names on common platforms
+export const safeFileName = (name: string): string => name.replace(/[\\/:*?"<>|]+/g, '').trim();
+
+// Quotes fields that need it; a leading =, +, - or @ is escaped so spreadsheets do not run it as a formula
+const csvField = (value: string): string => {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// Excel only detects UTF-8 with a byte order mark
+export const toCsv = (rows: string[][]): string =>
+    '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+// Saves a generated file through a temporary object URL; everything stays in the browser
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
@@ -1,102 +1,443 @@
-import { GoogleGenAI } from "@google/genai";
+import type { BulletRewriteStyle, CoverLetterLength, CoverLetterTarget, CoverLetterTone, GitHubProfile, JobDescriptionAnalysis, LinkedInRewrite, OutputLanguage, PersonalInfo, ProfileAnalysis, ProfileDocument, ResumeEntryKind, ResumeLengthTarget, ResumeSectionToggles, ResumeTailoring } from "../types";
+import type { LLMProvider } from "./llm/llmProvider";
+import { MalformedOutputError } from "./llm/errors";
+import { createProvider } from "./llm/createProvider";
+import { parseProfileAnalysis, profileAnalysisSchema, toPartialProfileAnalysis } from "./analysisSchema";
+import { parsePartialJson } from "./partialJson";
+import { analysisToMarkdown } from "./analysisFormatter";
+import { formatProfileDocument } from "./profileDocument";
+import { formatGitHubSection } from "./githubService";
+import { jobDescriptionSchema, parseJobDescriptionAnalysis } from "./jobMatch";
+import { parseCoverLetter } from "./coverLetter";
+import { LINKEDIN_LIMITS, linkedInRewriteSchema, parseLinkedInRewrite, toPartialLinkedInRewrite, withProfileOriginals } from "./linkedInOptimizer";
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGES, type ResumeHeadings } from "./outputLanguage";
+import { DEFAULT_PROMPT_TEMPLATES, renderPromptTemplate, withAppendedVariables } from "./promptTemplates";
+import { RESUME_SECTION_LABELS } from "./resumeTemplates";
+import { displayUrl, personalInfoLines } from "./personalInfo";
+import { targetPages, wordBudget } from "./resumeLength";
 
-const buildLinkedInPrompt = (profileText: string): string => {
+const buildGitHubBlock = (github: GitHubProfile | undefined, instruction: string): string => {
+  if (!github) return '';
   return `
-    You are an expert career coach and professional branding strategist. Your task is to analyze the provided LinkedIn profile text and generate a compelling, professional summary.
+    ${instruction}
+    ---
+    ${formatGitHubSection(github)}
+    ---
+`;
+};
+
+// Profiles are often written in a different language than the one wanted, which otherwise leads to mixed output
+const buildLanguageInstruction = (language: OutputLanguage, json = false): string => {
+  const { promptName } = OUTPUT_LANGUAGES[language];
+  return `Write all of your output in ${promptName}, even where the source material is in another language, and do not mix languages. Keep the names of people, companies, products and technologies as they are.${json ? ` Only the JSON values are in ${promptName}; the field names stay exactly as specified.` : ''}`;
+};
+
+const buildLinkedInPrompt = (profileText: string, language: OutputLanguage, github?: GitHubProfile, template: string = DEFAULT_PROMPT_TEMPLATES.analysis): string => {
+  const { dateExample, present } = OUTPUT_LANGUAGES[language];
+  return renderPromptTemplate(template, {
+    profile: profileText,
+    github: buildGitHubBlock(github, 'The user has also linked their public GitHub account. Treat this "Projects & Open Source" data as additional evidence: include languages and tools it demonstrates in "technicalSkills", and let notable projects and open-source activity inform the "summary" and "suggestedRoles".'),
+    dateExample,
+    present,
+    languageInstruction: buildLanguageInstruction(language, true),
+  });
+};
 
-    The user has pasted their raw LinkedIn profile text below:
+const buildTailoringBlock = (tailoring: ResumeTailoring | undefined): string => {
+  if (!tailoring) return '';
+  return `
+    This resume is being tailored for the following job posting${tailoring.jobTitle ? ` (${tailoring.jobTitle}${tailoring.company ? ` at ${tailoring.company}` : ''})` : ''}:
     ---
-    ${profileText}
+    ${tailoring.jobDescription}
     ---
 
-    Based on this text, generate a comprehensive analysis. Structure your response with the following sections using Markdown formatting:
+    Tailoring rules:
+    - Within each job, put the bullets most relevant to this posting first, and drop the least relevant ones if a role has more than five.
+    - Reword bullets to use the posting's terminology only where the analysis already supports the claim.
+    - Order the skill categories and the skills within them by relevance to the posting.
+    - Never invent experience, skills, employers, dates or metrics that are not in the analysis.${tailoring.missingRequirements.length > 0 ? `
+    - The candidate shows no evidence of these requirements, so they must NOT appear anywhere in the resume: ${tailoring.missingRequirements.join('; ')}.` : ''}
+`;
+};
 
-    ### Professional Summary
-    A brief, impactful one-paragraph summary. Start with a strong title (e.g., "Seasoned Software Engineer with 10+ years of experience..."). Highlight key achievements, core competencies, and career focus. This should be suitable for the top of a resume or a LinkedIn "About" section.
+const buildProjectsInstruction = (analysis: ProfileAnalysis, headings: ResumeHeadings, github: GitHubProfile | undefined): string => {
+  const source = github && analysis.projects.length > 0
+    ? 'the projects from the "Projects" section of the analysis and the 2-4 most relevant GitHub repositories'
+    : github ? 'the 2-4 most relevant GitHub repositories' : 'the projects from the "Projects" section of the analysis';
+  return `Directly after the ${headings.experience} section, create a section titled \`## ${headings.projects}\`. List ${source} as bullet points (\`* \`) in the form \`**${github ? 'Repository' : 'Project'} Name** - one-line description (main ${github ? 'languages' : 'technologies'})\`${github ? `, mentioning star counts only when they are notable. Use only the ${analysis.projects.length > 0 ? 'analysis and ' : ''}GitHub data provided` : ''}.`;
+};
 
-    ### Key Technical Skills
-    A bulleted list of the most prominent technical skills mentioned. Categorize them logically (e.g., Programming Languages, Frameworks/Libraries, Cloud/DevOps, Databases, Tools).
+// The instruction for each optional section, left out when the analysis has nothing for it
+const buildSectionInstructions = (analysis: ProfileAnalysis, headings: ResumeHeadings, dateExample: string, present: string): Partial<Record<ResumeEntryKind, string>> => ({
+  education: analysis.education.length > 0 ? `Create a section titled \`## ${headings.education}\` from the "Education" section of the analysis. For each entry, write \`**Degree** | School\` on one line and the dates in italics on the next, e.g. *${dateExample} – ${present}*.` : undefined,
+  certifications: analysis.certifications.length > 0 ? `Create a section titled \`## ${headings.certifications}\` listing each certification from the analysis as a bullet point in the form \`**Certification** | Issuer | Date\`.` : undefined,
+  publications: analysis.publications.length > 0 ? `Create a section titled \`## ${headings.publications}\` listing each publication from the analysis as a bullet point in the form \`**Title** | Journal, conference or publisher | Date\`.` : undefined,
+  languages: analysis.languages.length > 0 ? `Create a section titled \`## ${headings.languages}\` listing each spoken language from the analysis as a bullet point in the form \`**Language** | Proficiency\`.` : undefined,
+});
 
-    ### Core Competencies (Soft Skills)
-    A bulleted list of soft skills demonstrated through project descriptions, summaries, or experience. Examples include "Team Leadership", "Agile Methodologies", "Project Management", "Client Communication", etc.
+// An unnumbered paragraph after the section instructions; the condensing pass enforces the target after generation
+const buildLengthInstruction = (length?: ResumeLengthTarget): string => {
+  if (!length) return '';
+  const pages = targetPages(length);
+  const budget = wordBudget(length);
+  const target = pages === null
+    ? `Keep the whole resume under ${budget} words.`
+    : `The resume must fit on ${pages === 1 ? 'one printed page' : 'two printed pages'}, about ${budget} words in total.`;
+  return `
 
-    ### Experience Highlights
-    Provide a detailed, bulleted list for the most significant job roles. For each role, summarize:
-    - The key responsibilities and achievements.
-    - The specific skills and technologies used and demonstrated in that role. Rephrase the user's text into concise, action-oriented bullet points.
-    Example:
-    * **Senior Software Engineer at TechCorp (Jan 2020 - Present)**:
-        - Led the development of a new microservices-based e-commerce platform, resulting in a 30% increase in performance.
-        - Mentored junior developers, fostering a culture of code quality and best practices through regular code reviews and pair programming sessions.
-        - Technologies used: Go, Kubernetes, AWS (S3, Lambda), gRPC.
+**Length:** ${target} Give the most recent and relevant roles the most detail. Shorten older roles to one or two bullets, leave out minor ones, and prefer bullets with measurable results over lists of duties.`;
+};
+
+// Placed after Projects, in this order
+const LATER_SECTIONS: ResumeEntryKind[] = ['education', 'certifications', 'publications', 'languages'];
 
-    ### Potential Job Roles
-    Based on the skills and experience, suggest 3-5 specific job titles this person is well-suited for (e.g., "Senior Backend Engineer (Go)", "Cloud Solutions Architect", "DevOps Lead"). Provide a brief justification for each.
+const buildResumePrompt = (analysis: ProfileAnalysis, personalInfo: PersonalInfo, language: OutputLanguage, github?: GitHubProfile, tailoring?: ResumeTailoring, template: string = DEFAULT_PROMPT_TEMPLATES.resume, included?: ResumeSectionToggles, length?: ResumeLengthTarget): string => {
+  const { headings, dateExample, present } = OUTPUT_LANGUAGES[language];
+  // Every section is included unless the user switched it off
+  const isIncluded = (kind: ResumeEntryKind) => included?.[kind] !== false;
+  const hasProjects = isIncluded('projects') && (Boolean(github) || analysis.projects.length > 0);
+  const sections = buildSectionInstructions(analysis, headings, dateExample, present);
+  const items = LATER_SECTIONS.filter(kind => isIncluded(kind) && sections[kind]).map(kind => [RESUME_SECTION_LABELS[kind], sections[kind]]);
+  const omitted = [...(hasProjects ? [] : ['projects' as const]), ...LATER_SECTIONS.filter(kind => !isIncluded(kind) || !sections[kind])];
+  if (omitted.length > 0) {
+    items.push(['Other sections', `Do not create ${omitted.map(kind => `"${headings[kind]}"`).join(', ')} sections, even if you find material for them.`]);
+  }
+  const firstNumber = hasProjects ? 8 : 7;
+  const contact = personalInfoLines(personalInfo);
+  const sectionsInstruction = items.map(([label, instruction], i) => `
+${firstNumber + i}.  **${label}:** ${instruction}`).join('');
+  return renderPromptTemplate(withAppendedVariables('resume', template), {
+    analysis: analysisToMarkdown(analysis),
+    github: buildGitHubBlock(github, "Here is the user's public GitHub activity:"),
+    tailoring: buildTailoringBlock(tailoring),
+    contact: contact.length > 0 ? contact.join('\n') : '- None given; start with `# Resume` as the main heading and write no contact line.',
+    name: personalInfo.name.trim(),
+    headline: personalInfo.headline.trim(),
+    email: personalInfo.email.trim(),
+    phone: personalInfo.phone.trim(),
+    location: personalInfo.location.trim(),
+    website: displayUrl(personalInfo.website),
+    linkedin: displayUrl(personalInfo.linkedin),
+    githubUrl: personalInfo.github.trim(),
+    links: personalInfo.links.filter(link => link.url.trim()).map(link => `- ${link.label.trim() || 'Link'}: ${displayUrl(link.url)}`).join('\n'),
+    summaryHeading: headings.summary,
+    skillsHeading: headings.skills,
+    experienceHeading: headings.experience,
+    dateExample,
+    present,
+    projectsInstruction: hasProjects ? `
+7.  **Projects:** ${buildProjectsInstruction(analysis, headings, github)}` : '',
+    sectionsInstruction,
+    lengthInstruction: buildLengthInstruction(length),
+    languageInstruction: buildLanguageInstruction(language),
+  });
+};
 
-    ### Profile Optimization Suggestions
-    Provide 2-3 actionable tips for improving their LinkedIn profile based on the provided text. Frame this as constructive advice. For example: "Quantify achievements in your experience section with metrics (e.g., 'increased performance by X%') to better showcase impact." or "Consider adding a 'Projects' section to highlight specific work samples."
+const buildJobDescriptionPrompt = (jobDescription: string): string => {
+  return `
+    You are an experienced technical recruiter. Extract the hiring requirements from the job posting below as a JSON object.
 
-    Be positive, professional, and use strong action verbs. Do not invent information not present in the provided text.
+    ---
+    ${jobDescription}
+    ---
+
+    - "jobTitle" and "company" as stated in the posting (empty string if not stated).
+    - "requirements": every distinct skill, technology, qualification or experience requirement. Mark each as "required" or "preferred" ("nice to have", "bonus", "a plus" mean preferred). Give 1-4 "keywords" per requirement: the short terms and common synonyms a matching resume would contain (e.g. ["Kubernetes", "K8s"]), not whole sentences.
+
+    Ignore benefits, company descriptions and boilerplate.
   `;
 };
 
-const buildResumePrompt = (analysisText: string, personalInfo: { name: string; email: string; phone: string; website: string }): string => {
+const BULLET_STYLE_INSTRUCTIONS: Record<BulletRewriteStyle, string> = {
+  quantified: 'Lead with the measurable result: scale, percentages, money, time saved or people affected. Use only numbers that appear in the source facts below; if there are none, describe the scale or outcome in words.',
+  concise: 'Make it as short as possible (ideally under 20 words) while keeping the action, the technology and the outcome.',
+  star: 'Write it as a compact STAR statement: the Situation or Task in a short clause, the Action taken, and the Result, in a single sentence.',
+};
+
+const buildBulletRewritePrompt = (bullet: string, style: BulletRewriteStyle, jobTitle: string, company: string, sourceFacts: string[], language: OutputLanguage): string => {
   return `
-    You are an expert resume writer and formatter. You will be given a structured career analysis in Markdown format and personal contact details. Your task is to transform this information into a professional, single-column resume, also in Markdown format.
+    You are an expert resume writer. Rewrite this single resume bullet from the "${jobTitle}" role at ${company || 'an unnamed company'}:
+
+    "${bullet}"
 
-    Here is the career analysis:
+    ${BULLET_STYLE_INSTRUCTIONS[style]}
+${sourceFacts.length > 0 ? `
+    Source facts about this role, from the candidate's profile:
+    ${sourceFacts.map(fact => `- ${fact}`).join('\n    ')}
+` : ''}
+    - Start with a strong past-tense action verb (present tense if the role is current).
+    - Never invent employers, technologies, numbers or outcomes that are not in the bullet or the source facts.
+    - Return only the rewritten bullet as plain text on one line, without a leading bullet marker, quotes or commentary.
+    - ${buildLanguageInstruction(language)}
+  `;
+};
+
+const COVER_LETTER_TONE_INSTRUCTIONS: Record<CoverLetterTone, string> = {
+  professional: 'Professional and measured: clear, courteous and businesslike.',
+  enthusiastic: 'Enthusiastic: show genuine interest in the role and the company, without exaggeration or exclamation marks in every sentence.',
+  confident: 'Confident and direct: lead with results and state the fit plainly, without arrogance.',
+  conversational: 'Conversational and warm: plain words and a personal voice, still appropriate for a hiring manager.',
+};
+
+const COVER_LETTER_LENGTHS: Record<CoverLetterLength, { words: string; bodyParagraphs: number }> = {
+  short: { words: '150-200', bodyParagraphs: 2 },
+  medium: { words: '250-300', bodyParagraphs: 3 },
+  long: { words: '370-430', bodyParagraphs: 4 },
+};
+
+const describeCoverLetterTarget = (target: CoverLetterTarget): string =>
+  `${target.role ? `the ${target.role} position` : 'an open position'}${target.company ? ` at ${target.company}` : ''}`;
+
+const buildJobPostingBlock = (jobDescription: string): string => {
+  if (!jobDescription.trim()) return '';
+  return `
+    The job posting:
     ---
-    ${analysisText}
+    ${jobDescription}
     ---
+`;
+};
 
-    Here is the user's personal information:
-    - Name: ${personalInfo.name || 'Your Name'}
-    - Email: ${personalInfo.email || 'your.email@example.com'}
-    - Phone: ${personalInfo.phone || '(555) 123-4567'}
-    - Website/Portfolio: ${personalInfo.website || 'yourportfolio.com'}
+const buildCoverLetterPrompt = (analysis: ProfileAnalysis, personalInfo: PersonalInfo, target: CoverLetterTarget, language: OutputLanguage, github?: GitHubProfile): string => {
+  const { words, bodyParagraphs } = COVER_LETTER_LENGTHS[target.length];
+  const { greeting, signOff } = OUTPUT_LANGUAGES[language];
+  return `
+    You are an expert career coach who writes specific, persuasive cover letters. Write a cover letter for ${describeCoverLetterTarget(target)}, using the candidate's career analysis below.
 
+    ---
+    ${analysisToMarkdown(analysis)}
+    ---
+${buildGitHubBlock(github, "Here is the candidate's public GitHub activity:")}${buildJobPostingBlock(target.jobDescription)}
     Follow these instructions precisely:
-    1.  **Header:** Start with the user's name as a main heading (\`# Name\`). Below it, list the contact details (Phone, Email, Website) on a single line, separated by pipe characters (|).
-    2.  **Summary:** Create a section titled \`## Professional Summary\`. Use the content from the "Professional Summary" section of the analysis.
-    3.  **Skills:** Create a section titled \`## Skills\`. Combine the "Key Technical Skills" and "Core Competencies" from the analysis. Present them as a clean, categorized, bulleted list.
-    4.  **Experience:** Create a section titled \`## Work Experience\`. Use the content from the "Experience Highlights" section. For each job, format it as:
-        - **Job Title** | Company Name
-        - *Month Year – Month Year* (or *Month Year - Present*)
-        - Then, list the achievements as bullet points (\`* \`).
-    5.  **Omissions:** Do NOT include the "Potential Job Roles" or "Profile Optimization Suggestions" sections from the original analysis.
-    6.  **Formatting:** Use clean and standard Markdown. Do not add any extra commentary, introductory text, or placeholder city/state information unless it was present in the original text. The output should be ready to be rendered directly as a resume.
+    1.  **Tone:** ${COVER_LETTER_TONE_INSTRUCTIONS[target.tone]}
+    2.  **Length:** ${words} words in total, with exactly ${bodyParagraphs} body paragraphs.
+    3.  **Greeting:** Start with the greeting as its own paragraph: "${greeting}" unless the posting names the person to address.
+    4.  **Body:** The first body paragraph names the role and says in one or two sentences why the candidate fits. The following paragraphs connect 2-3 concrete achievements from the analysis to what ${target.jobDescription.trim() ? 'the posting asks for' : 'the role typically needs'}. The last body paragraph closes with a short call to action.
+    5.  **Sign-off:** End with "${signOff}"${personalInfo.name ? ` followed by a line break and "${personalInfo.name}"` : ''} as the final paragraph.
+    6.  **Facts:** Never invent employers, skills, metrics or achievements that are not in the analysis${github ? ' or the GitHub data' : ''}. Do not claim requirements from the posting that the analysis does not support. Do not use placeholders in square brackets.
+    7.  **Formatting:** Plain text only, with no Markdown, letterhead, address block, date or subject line. Separate paragraphs with one blank line.
+    8.  **Language:** ${buildLanguageInstruction(language)}
+  `;
+};
+
+const buildCoverLetterParagraphPrompt = (paragraphs: string[], index: number, analysis: ProfileAnalysis, target: CoverLetterTarget, language: OutputLanguage): string => {
+  const wordCount = paragraphs[index].split(/\s+/).filter(Boolean).length;
+  return `
+    You are an expert career coach. Below is a cover letter for ${describeCoverLetterTarget(target)}. Rewrite only the paragraph marked [REWRITE] so that it is stronger and different from the current version, while still fitting between the paragraphs around it.
+
+    ---
+    ${paragraphs.map((paragraph, i) => (i === index ? `[REWRITE] ${paragraph}` : paragraph)).join('\n\n    ')}
+    ---
+
+    The candidate's career analysis, the only source of facts:
+    ---
+    ${analysisToMarkdown(analysis)}
+    ---
+${buildJobPostingBlock(target.jobDescription)}
+    - Tone: ${COVER_LETTER_TONE_INSTRUCTIONS[target.tone]}
+    - Keep roughly the same length (about ${wordCount} words).
+    - Do not repeat achievements the other paragraphs already mention, and never invent employers, skills, metrics or achievements that are not in the analysis.
+    - Return only the new paragraph as plain text, without the marker, quotes or commentary.
+    - ${buildLanguageInstruction(language)}
   `;
+};
+
+const buildLinkedInRewritePrompt = (profileText: string, analysis: ProfileAnalysis, language: OutputLanguage): string => {
+  return `
+    You are an expert LinkedIn profile writer and personal branding strategist. Rewrite the candidate's LinkedIn profile sections so they can be pasted straight back into LinkedIn.
+
+    The current LinkedIn profile:
+    ---
+    ${profileText}
+    ---
+
+    A structured analysis of the same profile:
+    ---
+    ${analysisToMarkdown(analysis)}
+    ---
+
+    Return a JSON object with:
+    - "headlineOriginal": the current headline copied verbatim from the profile, or an empty string if there is none.
+    - "headlines": 3-5 alternative headlines of at most ${LINKEDIN_LIMITS.headline} characters each. Combine the target role, the core specialism and a proof point; vary the style between options (e.g. role-focused, value-focused, keyword-rich).
+    - "aboutOriginal": the current About (Summary) section copied verbatim, or an empty string.
+    - "about": a rewritten About section of at most ${LINKEDIN_LIMITS.about} characters, in the first person, with a strong opening line, 2-3 short paragraphs, and a final line listing core skills. Plain text: no Markdown, use line breaks between paragraphs.
+    - "roles": one entry per position in the profile, most recent first, with "title" and "company" as in the profile, "original" (the current description copied verbatim, or an empty string) and "description": a rewritten description of at most ${LINKEDIN_LIMITS.roleDescription} characters, a one-line scope statement followed by 3-5 achievement lines starting with "• ".
+
+    Keep every fact from the profile: never invent employers, numbers, technologies or achievements. Stay well inside the character limits, since LinkedIn cuts off anything longer.
+
+    ${buildLanguageInstruction(language, true)} The "...Original" and "original" fields are the exception: copy them verbatim in whatever language the profile uses.
+  `;
+};
+
+export interface StreamOptions<T> {
+    signal?: AbortSignal;
+    // Called with the best-effort result so far each time a chunk arrives; enables streaming
+    onPartial?: (partial: T) => void;
+    // Language of the generated text; English when omitted
+    language?: OutputLanguage;
+}
+
+export interface GenerationOptions<T> extends StreamOptions<T> {
+    // Public GitHub data merged into the prompt as a "Projects & Open Source" section
+    github?: GitHubProfile;
+    // Target job posting the resume should be focused on
+    tailoring?: ResumeTailoring;
+    // Template body replacing the built-in prompt, see promptTemplates
+    promptTemplate?: string;
+    // Optional resume sections switched on or off; all are included when omitted
+    includedSections?: ResumeSectionToggles;
+    // Target length in pages or words; no target when omitted
+    length?: ResumeLengthTarget;
 }
 
-const callGemini = async (prompt: string): Promise<string> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable is not set.");
+// The prompt summarizeLinkedInProfile sends, before redaction; the privacy preview shows it
+export const buildAnalysisPrompt = (profile: ProfileDocument, language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE, github?: GitHubProfile, template?: string): string =>
+  buildLinkedInPrompt(formatProfileDocument(profile), language, github, template);
+
+export const summarizeLinkedInProfile = async (
+    profile: ProfileDocument,
+    provider: LLMProvider = createProvider(),
+    { signal, onPartial, github, promptTemplate, language = DEFAULT_OUTPUT_LANGUAGE }: GenerationOptions<ProfileAnalysis> = {}
+): Promise<ProfileAnalysis> => {
+  const prompt = buildAnalysisPrompt(profile, language, github, promptTemplate);
+  const request = { task: 'analysis', prompt, responseSchema: profileAnalysisSchema, signal } as const;
+  if (!onPartial) {
+    return parseProfileAnalysis(await provider.generate(request));
+  }
+
+  let responseText = '';
+  for await (const chunk of provider.stream(request)) {
+    responseText += chunk;
+    const partial = parsePartialJson(responseText);
+    if (partial !== undefined) {
+      onPartial(toPartialProfileAnalysis(partial));
     }
+  }
+  return parseProfileAnalysis(responseText);
+};
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const model = 'gemini-2.5-flash';
-
-    try {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: prompt,
-        });
-        return response.text;
-    } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        throw new Error("Could not get a response from the AI model.");
+// Replacement headline, About and role descriptions within LinkedIn's character limits
+export const rewriteLinkedInSections = async (
+    profile: ProfileDocument,
+    analysis: ProfileAnalysis,
+    provider: LLMProvider = createProvider(),
+    { signal, onPartial, language = DEFAULT_OUTPUT_LANGUAGE }: StreamOptions<LinkedInRewrite> = {}
+): Promise<LinkedInRewrite> => {
+  const prompt = buildLinkedInRewritePrompt(formatProfileDocument(profile), analysis, language);
+  const request = { task: 'linkedin-rewrite', prompt, responseSchema: linkedInRewriteSchema, signal } as const;
+  if (!onPartial) {
+    return withProfileOriginals(parseLinkedInRewrite(await provider.generate(request)), profile);
+  }
+
+  let responseText = '';
+  for await (const chunk of provider.stream(request)) {
+    responseText += chunk;
+    const partial = parsePartialJson(responseText);
+    if (partial !== undefined) {
+      onPartial(withProfileOriginals(toPartialLinkedInRewrite(partial), profile));
     }
+  }
+  return withProfileOriginals(parseLinkedInRewrite(responseText), profile);
+};
+
+export const createResumeFromAnalysis = async (
+    analysis: ProfileAnalysis,
+    personalInfo: PersonalInfo,
+    provider: LLMProvider = createProvider(),
+    { signal, onPartial, github, tailoring, promptTemplate, includedSections, length, language = DEFAULT_OUTPUT_LANGUAGE }: GenerationOptions<string> = {}
+): Promise<string> => {
+    const prompt = buildResumePrompt(analysis, personalInfo, language, github, tailoring, promptTemplate, includedSections, length);
+    const request = { task: 'resume', prompt, signal } as const;
+    if (!onPartial) {
+        return provider.generate(request);
+    }
+
+    let resume = '';
+    for await (const chunk of provider.stream(request)) {
+        resume += chunk;
+        onPartial(resume);
+    }
+    return resume;
 }
 
-export const summarizeLinkedInProfile = async (profileText: string): Promise<string> => {
-  const prompt = buildLinkedInPrompt(profileText);
-  return callGemini(prompt);
+export const analyzeJobDescription = async (
+    jobDescription: string,
+    provider: LLMProvider = createProvider(),
+    { signal }: StreamOptions<JobDescriptionAnalysis> = {}
+): Promise<JobDescriptionAnalysis> => {
+    const prompt = buildJobDescriptionPrompt(jobDescription);
+    const responseText = await provider.generate({ task: 'job-requirements', prompt, responseSchema: jobDescriptionSchema, signal });
+    return parseJobDescriptionAnalysis(responseText);
+}
+
+const cleanRewrittenBullet = (text: string): string => {
+    const line = text.split('\n').map(part => part.trim()).find(Boolean) ?? '';
+    return line.replace(/^(?:[*\-\u2022]|\d+\.)\s+/, '').replace(/^["\u201C](.*)["\u201D]$/, '$1').trim();
 };
 
-export const createResumeFromAnalysis = async (
-    analysisText: string,
-    personalInfo: { name: string; email: string; phone: string; website: string }
+// Rewrites one resume bullet; the matching role from the analysis is passed along so rewrites stay grounded in it
+export const rewriteResumeBullet = async (
+    bullet: string,
+    style: BulletRewriteStyle,
+    role: { jobTitle: string; company: string; analysis?: ProfileAnalysis },
+    provider: LLMProvider = createProvider(),
+    { signal, language = DEFAULT_OUTPUT_LANGUAGE }: StreamOptions<string> = {}
+): Promise<string> => {
+    const company = role.company.toLowerCase();
+    const source = role.analysis?.experience.find(entry =>
+        entry.company.toLowerCase() === company && entry.title.toLowerCase() === role.jobTitle.toLowerCase()
+    ) ?? role.analysis?.experience.find(entry => company && entry.company.toLowerCase() === company);
+    const sourceFacts = source
+        ? [...source.bullets, ...(source.technologies.length > 0 ? [`Technologies: ${source.technologies.join(', ')}`] : [])]
+        : [];
+
+    const prompt = buildBulletRewritePrompt(bullet, style, role.jobTitle, role.company, sourceFacts, language);
+    const rewritten = cleanRewrittenBullet(await provider.generate({ task: 'bullet-rewrite', prompt, signal }));
+    if (!rewritten) {
+        throw new MalformedOutputError('The model returned an empty rewrite.');
+    }
+    return rewritten;
+}
+
+export const createCoverLetter = async (
+    analysis: ProfileAnalysis,
+    personalInfo: PersonalInfo,
+    target: CoverLetterTarget,
+    provider: LLMProvider = createProvider(),
+    { signal, onPartial, github, language = DEFAULT_OUTPUT_LANGUAGE }: GenerationOptions<string> = {}
 ): Promise<string> => {
-    const prompt = buildResumePrompt(analysisText, personalInfo);
-    return callGemini(prompt);
-}
\ No newline at end of file
+    const prompt = buildCoverLetterPrompt(analysis, personalInfo, target, language, github);
+    const request = { task: 'cover-letter', prompt, signal } as const;
+    if (!onPartial) {
+        return provider.generate(request);
+    }
+
+    let letter = '';
+    for await (const chunk of provider.stream(request)) {
+        letter += chunk;
+        onPartial(letter);
+    }
+    return letter;
+}
+
+// Rewrites one body paragraph with the rest of the letter as context, so it still flows with its neighbours
+export const regenerateCoverLetterParagraph = async (
+    paragraphs: string[],
+    index: number,
+    analysis: ProfileAnalysis,
+    target: CoverLetterTarget,
+    provider: LLMProvider = createProvider(),
+    { signal, language = DEFAULT_OUTPUT_LANGUAGE }: StreamOptions<string> = {}
+): Promise<string> => {
+    const prompt = buildCoverLetterParagraphPrompt(paragraphs, index, analysis, target, language);
+    const response = await provider.generate({ task: 'cover-letter-paragraph', prompt, signal });
+    // Several paragraphs back are merged into one rather than silently dropping text
+    const paragraph = parseCoverLetter(response.replace(/\[REWRITE\]\s*/g, ''))
+        .map(part => part.replace(/^["\u201C](.*)["\u201D]$/s, '$1').replace(/\s*\n\s*/g, ' '))
+        .join(' ')
+        .trim();
+    if (!paragraph) {
+        throw new MalformedOutputError('The model returned an empty paragraph.');
+    }
+    return paragraph;
+}
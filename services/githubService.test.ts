@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fetchGitHubProfile, GitHubError } from './githubService';
+
+const repo = (name: string, stars: number, extra: Record<string, unknown> = {}) => ({
+    name,
+    description: `${name} description`,
+    html_url: `https://github.com/octo/${name}`,
+    stargazers_count: stars,
+    forks_count: 0,
+    language: 'Go',
+    topics: [],
+    pushed_at: '2025-01-01T00:00:00Z',
+    fork: false,
+    archived: false,
+    ...extra,
+});
+
+const USER = { login: 'octo', name: 'Octo Cat', bio: null, html_url: 'https://github.com/octo', followers: 3, public_repos: 3 };
+const REPOS = [repo('small', 1), repo('popular', 40), repo('forked', 99, { fork: true }), repo('old', 10, { archived: true })];
+
+const json = (body: unknown, init: ResponseInit = {}) => new Response(JSON.stringify(body), { status: 200, ...init });
+
+// A stand-in for api.github.com that answers by path; unknown paths are 404s like on GitHub
+const stubGitHub = (routes: Record<string, () => Response>) =>
+    vi.fn(async (url: string) => {
+        const path = url.replace('https://api.github.com', '').replace(/\?.*$/, '');
+        return routes[path]?.() ?? json({ message: 'Not Found' }, { status: 404 });
+    }) as unknown as typeof fetch;
+
+const HAPPY_ROUTES = {
+    '/users/octo': () => json(USER),
+    '/users/octo/repos': () => json(REPOS),
+    '/users/octo/events/public': () => json([]),
+    '/repos/octo/popular/languages': () => json({ Go: 900, Shell: 100 }),
+    '/search/issues': () => json({ total_count: 7 }),
+};
+
+describe('fetchGitHubProfile', () => {
+    it('features the most starred own repositories', async () => {
+        const profile = await fetchGitHubProfile('https://github.com/octo', { fetch: stubGitHub(HAPPY_ROUTES) });
+
+        expect(profile).toMatchObject({ username: 'octo', name: 'Octo Cat', bio: '', totalStars: 51, missingPinned: [] });
+        expect(profile.featuredRepos.map(featured => featured.name)).toEqual(['popular', 'small']);
+        expect(profile.featuredRepos[0].languages).toEqual({ Go: 900, Shell: 100 });
+        expect(profile.contributions.mergedPullRequests).toBe(7);
+    });
+
+    it('reports pinned repositories it cannot find instead of dropping them silently', async () => {
+        const profile = await fetchGitHubProfile('octo', { fetch: stubGitHub(HAPPY_ROUTES), pinned: ['Small', ' popluar ', ''] });
+
+        expect(profile.featuredRepos.map(featured => featured.name)).toEqual(['small']);
+        expect(profile.missingPinned).toEqual(['popluar']);
+    });
+
+    it('tells a missing user apart from other failures', async () => {
+        const fetchStub = stubGitHub({ ...HAPPY_ROUTES, '/users/octo': () => json({ message: 'Not Found' }, { status: 404 }) });
+        const result = fetchGitHubProfile('octo', { fetch: fetchStub });
+
+        await expect(result).rejects.toBeInstanceOf(GitHubError);
+        await expect(result).rejects.toMatchObject({ status: 404, message: 'GitHub user or repository not found.' });
+    });
+
+    it('reports an exhausted rate limit', async () => {
+        const limited = () => json({ message: 'API rate limit exceeded' }, { status: 403, headers: { 'x-ratelimit-remaining': '0' } });
+        const result = fetchGitHubProfile('octo', { fetch: stubGitHub({ ...HAPPY_ROUTES, '/users/octo/repos': limited }) });
+
+        await expect(result).rejects.toMatchObject({ status: 403, message: expect.stringContaining('rate limit') });
+    });
+
+    it('keeps the profile when only the optional endpoints fail', async () => {
+        const fetchStub = stubGitHub({ '/users/octo': HAPPY_ROUTES['/users/octo'], '/users/octo/repos': HAPPY_ROUTES['/users/octo/repos'] });
+        const profile = await fetchGitHubProfile('octo', { fetch: fetchStub });
+
+        expect(profile.contributions).toMatchObject({ periodDays: 0, commits: 0 });
+        expect(profile.contributions.mergedPullRequests).toBeUndefined();
+        expect(profile.featuredRepos[0].languages).toEqual({});
+    });
+
+    it('sends the token only when one is given', async () => {
+        const fetchStub = stubGitHub(HAPPY_ROUTES);
+        await fetchGitHubProfile('octo', { fetch: fetchStub, token: 'github_pat_test' });
+        const [, init] = vi.mocked(fetchStub).mock.calls[0];
+
+        expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer github_pat_test');
+    });
+
+    it('rejects an invalid username before calling the API', async () => {
+        const fetchStub = stubGitHub(HAPPY_ROUTES);
+        await expect(fetchGitHubProfile('not a user!', { fetch: fetchStub })).rejects.toThrow('is not a valid GitHub username');
+        expect(fetchStub).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,213 @@
+import type { GitHubContributionStats, GitHubProfile, GitHubRepoSummary } from "../types";
+
+export interface GitHubClientOptions {
+    // Injectable so tests can answer with a stub instead of the GitHub API
+    fetch?: typeof fetch;
+    baseUrl?: string;
+    // Entered by the user for a higher rate limit; never part of the build, where anyone could read it
+    token?: string;
+    // Repository names to feature; the REST API does not expose pinned repositories, so the top-starred ones are used otherwise
+    pinned?: string[];
+    maxFeaturedRepos?: number;
+    signal?: AbortSignal;
+}
+
+export class GitHubError extends Error {
+    readonly name: string = 'GitHubError';
+
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+    }
+}
+
+interface RepoResponse {
+    name: string;
+    description: string | null;
+    html_url: string;
+    stargazers_count: number;
+    forks_count: number;
+    language: string | null;
+    topics?: string[];
+    pushed_at: string;
+    fork: boolean;
+    archived: boolean;
+}
+
+interface UserResponse {
+    login: string;
+    name: string | null;
+    bio: string | null;
+    html_url: string;
+    followers: number;
+    public_repos: number;
+}
+
+interface EventResponse {
+    type: string;
+    created_at: string;
+    repo: { name: string };
+    payload: { action?: string; size?: number; distinct_size?: number };
+}
+
+const DEFAULT_BASE_URL = 'https://api.github.com';
+
+const createRequester = ({ fetch: fetchImpl = globalThis.fetch.bind(globalThis), baseUrl = DEFAULT_BASE_URL, token, signal }: GitHubClientOptions) =>
+    async <T>(path: string): Promise<T> => {
+        const headers: Record<string, string> = {
+            Accept: 'application/vnd.github+json',
+            'X-GitHub-Api-Version': '2022-11-28',
+        };
+        if (token) {
+            headers.Authorization = `Bearer ${token}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}${path}`, { headers, signal });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            throw new GitHubError('Could not reach the GitHub API. Check your internet connection.');
+        }
+
+        if (response.status === 404) {
+            throw new GitHubError('GitHub user or repository not found.', 404);
+        }
+        if ((response.status === 403 || response.status === 429) && response.headers.get('x-ratelimit-remaining') === '0') {
+            throw new GitHubError('GitHub API rate limit reached. Try again later or add an access token.', response.status);
+        }
+        if (!response.ok) {
+            throw new GitHubError(`GitHub API request failed (HTTP ${response.status}).`, response.status);
+        }
+        return response.json() as Promise<T>;
+    };
+
+const summarizeContributions = (events: EventResponse[]): GitHubContributionStats => {
+    const repos = new Set<string>();
+    const stats: GitHubContributionStats = { periodDays: 0, commits: 0, pullRequests: 0, issues: 0, reviews: 0, reposContributedTo: [] };
+
+    events.forEach(event => {
+        switch (event.type) {
+            case 'PushEvent':
+                stats.commits += event.payload.distinct_size ?? event.payload.size ?? 1;
+                break;
+            case 'PullRequestEvent':
+                if (event.payload.action === 'opened') stats.pullRequests++;
+                break;
+            case 'IssuesEvent':
+                if (event.payload.action === 'opened') stats.issues++;
+                break;
+            case 'PullRequestReviewEvent':
+                stats.reviews++;
+                break;
+            default:
+                return;
+        }
+        repos.add(event.repo.name);
+    });
+
+    if (events.length > 0) {
+        const oldest = Math.min(...events.map(event => Date.parse(event.created_at)));
+        stats.periodDays = Math.max(1, Math.round((Date.now() - oldest) / 86_400_000));
+    }
+    stats.reposContributedTo = [...repos];
+    return stats;
+};
+
+export const fetchGitHubProfile = async (username: string, options: GitHubClientOptions = {}): Promise<GitHubProfile> => {
+    const login = username.trim().replace(/^@/, '').replace(/^https?:\/\/github\.com\//i, '').replace(/\/.*$/, '');
+    if (!/^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i.test(login)) {
+        throw new GitHubError(`"${username}" is not a valid GitHub username.`);
+    }
+    const request = createRequester(options);
+    const user = encodeURIComponent(login);
+
+    const [profile, repos, events] = await Promise.all([
+        request<UserResponse>(`/users/${user}`),
+        request<RepoResponse[]>(`/users/${user}/repos?type=owner&sort=pushed&per_page=100`),
+        request<EventResponse[]>(`/users/${user}/events/public?per_page=100`).catch(() => [] as EventResponse[]),
+    ]);
+
+    const ownRepos = repos.filter(repo => !repo.fork);
+    const languageCounts = new Map<string, number>();
+    ownRepos.forEach(repo => {
+        if (repo.language) languageCounts.set(repo.language, (languageCounts.get(repo.language) ?? 0) + 1);
+    });
+
+    const pinned = (options.pinned ?? []).map(name => name.trim()).filter(Boolean);
+    const findRepo = (name: string) => repos.find(repo => repo.name.toLowerCase() === name.toLowerCase());
+    const featured = pinned.length > 0
+        ? pinned.flatMap(name => findRepo(name) ?? [])
+        : [...ownRepos]
+            .filter(repo => !repo.archived)
+            .sort((a, b) => b.stargazers_count - a.stargazers_count || Date.parse(b.pushed_at) - Date.parse(a.pushed_at))
+            .slice(0, options.maxFeaturedRepos ?? 6);
+
+    const featuredRepos: GitHubRepoSummary[] = await Promise.all(featured.map(async repo => ({
+        name: repo.name,
+        description: repo.description ?? '',
+        url: repo.html_url,
+        stars: repo.stargazers_count,
+        forks: repo.forks_count,
+        primaryLanguage: repo.language ?? '',
+        languages: await request<Record<string, number>>(`/repos/${user}/${encodeURIComponent(repo.name)}/languages`).catch(() => ({})),
+        topics: repo.topics ?? [],
+        pushedAt: repo.pushed_at,
+    })));
+
+    const contributions = summarizeContributions(events);
+    // The search API has a much lower rate limit, so a failure here only drops this one number
+    contributions.mergedPullRequests = await request<{ total_count: number }>(`/search/issues?q=${encodeURIComponent(`author:${login} type:pr is:merged`)}&per_page=1`)
+        .then(result => result.total_count)
+        .catch(() => undefined);
+
+    return {
+        username: profile.login,
+        name: profile.name ?? '',
+        bio: profile.bio ?? '',
+        profileUrl: profile.html_url,
+        followers: profile.followers,
+        publicRepos: profile.public_repos,
+        totalStars: ownRepos.reduce((sum, repo) => sum + repo.stargazers_count, 0),
+        languages: [...languageCounts.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .map(([name, repoCount]) => ({ name, repoCount })),
+        featuredRepos,
+        contributions,
+        missingPinned: pinned.filter(name => !findRepo(name)),
+    };
+};
+
+const topLanguages = (languages: Record<string, number>, limit = 3): string[] =>
+    Object.entries(languages).sort((a, b) => b[1] - a[1]).slice(0, limit).map(([name]) => name);
+
+// Plain-text "Projects & Open Source" block merged into the analysis and resume prompts
+export const formatGitHubSection = (github: GitHubProfile): string => {
+    const lines: string[] = ['Projects & Open Source', `GitHub: ${github.profileUrl}`];
+    if (github.bio) lines.push(`Bio: ${github.bio}`);
+    lines.push(`${github.publicRepos} public repositories, ${github.totalStars} stars in total, ${github.followers} followers.`);
+    if (github.languages.length > 0) {
+        lines.push(`Languages across own repositories: ${github.languages.slice(0, 8).map(lang => `${lang.name} (${lang.repoCount})`).join(', ')}.`);
+    }
+
+    const { contributions } = github;
+    if (contributions.periodDays > 0) {
+        lines.push(`Public activity in the last ${contributions.periodDays} days: ${contributions.commits} commits, ${contributions.pullRequests} pull requests opened, ${contributions.reviews} reviews, ${contributions.issues} issues, across ${contributions.reposContributedTo.length} repositories.`);
+    }
+    if (contributions.mergedPullRequests !== undefined) {
+        lines.push(`Merged pull requests (all time): ${contributions.mergedPullRequests}.`);
+    }
+
+    if (github.featuredRepos.length > 0) {
+        lines.push('Featured repositories:');
+        github.featuredRepos.forEach(repo => {
+            const languages = topLanguages(repo.languages);
+            const details = [
+                languages.length > 0 ? languages.join(', ') : repo.primaryLanguage,
+                `${repo.stars} stars`,
+                repo.topics.length > 0 ? `topics: ${repo.topics.join(', ')}` : '',
+            ].filter(Boolean).join('; ');
+            lines.push(`- ${repo.name} (${repo.url}): ${repo.description || 'No description.'} [${details}]`);
+        });
+    }
+    return lines.join('\n');
+};
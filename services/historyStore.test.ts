@@ -0,0 +1,78 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import type { HistoryEntry } from '../types';
+import { analysisToMarkdown } from './analysisFormatter';
+import { buildClaimSource, verifyAnalysis } from './claimVerification';
+import { createHistoryEntry, getHistoryEntry, HistoryError, importHistory, listHistory } from './historyStore';
+import { personalInfoLines, validatePersonalInfo } from './personalInfo';
+
+// An entry as saved before education, certifications, publications, projects and languages were extracted
+const legacyEntry = {
+    title: 'Alex Example',
+    profile: { source: 'paste', name: 'Alex Example', headline: '', location: '', summary: '', positions: [], education: [], skills: [], otherSections: [], rawText: 'Alex Example, engineer at Acme since 2020. Go, PostgreSQL.' },
+    github: null,
+    analysis: {
+        summary: 'Backend engineer.',
+        technicalSkills: [{ category: 'Languages', skills: ['Go'] }],
+        softSkills: ['Mentoring'],
+        experience: [{ title: 'Engineer', company: 'Acme', startDate: '2020', endDate: 'Present', bullets: ['Built the billing service'], technologies: ['Go'] }],
+        suggestedRoles: [{ title: 'Senior Engineer', justification: 'Ownership of billing.' }],
+        optimizationTips: ['Add numbers.'],
+    },
+    resume: null,
+    // Only the fields the first version of the form had
+    personalInfo: { name: 'Alex Example', email: 'alex@example.com', phone: '', website: 'alex.dev' },
+    tailoring: null,
+    acceptedClaims: [],
+} as unknown as Omit<HistoryEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+describe('reading history saved by an earlier version', () => {
+    it('opens an entry without the later analysis sections', async () => {
+        const { id } = await createHistoryEntry(legacyEntry);
+        const entry = await getHistoryEntry(id);
+        const [listed] = await listHistory();
+
+        for (const { analysis } of [entry!, listed]) {
+            expect(analysis).toMatchObject({ education: [], certifications: [], publications: [], projects: [], languages: [] });
+            expect(() => verifyAnalysis(analysis, buildClaimSource(entry!.profile))).not.toThrow();
+            expect(analysisToMarkdown(analysis)).toContain('Built the billing service');
+        }
+    });
+
+    it('opens personal details saved before headline, location and links were added', async () => {
+        const { id } = await createHistoryEntry(legacyEntry);
+        const { personalInfo } = (await getHistoryEntry(id))!;
+
+        expect(personalInfo).toEqual({ name: 'Alex Example', headline: '', email: 'alex@example.com', phone: '', location: '', website: 'alex.dev', linkedin: '', github: '', links: [] });
+        expect(validatePersonalInfo(personalInfo!)).toEqual({});
+        expect(personalInfoLines(personalInfo!)).toEqual(['- Name: Alex Example', '- Email: alex@example.com', '- Website/Portfolio: alex.dev']);
+    });
+});
+
+const backup = (...entries: Record<string, unknown>[]) =>
+    JSON.stringify({ format: 'linkedin-synth-history', version: 1, entries });
+
+describe('importing a backup', () => {
+    it('fills in what a hand-edited profile and GitHub section lack', async () => {
+        const profile = { source: 'linkedin-pdf', name: 'Alex Example', positions: 'none', education: [{ school: 'TU Berlin' }] };
+        const github = { username: 'alex-example', featuredRepos: [{ name: 'billing', stars: '12' }] };
+        await importHistory(backup({ ...legacyEntry, id: 'edited', profile, github }));
+        const entry = (await getHistoryEntry('edited'))!;
+
+        expect(entry.profile).toMatchObject({ source: 'linkedin-pdf', name: 'Alex Example', headline: '', positions: [], skills: [], otherSections: [] });
+        expect(entry.profile.education).toEqual([{ school: 'TU Berlin', degree: '', startDate: '', endDate: '', notes: '' }]);
+        expect(entry.github?.featuredRepos[0]).toMatchObject({ name: 'billing', stars: 0, languages: {}, topics: [] });
+        expect(entry.github?.contributions.reposContributedTo).toEqual([]);
+    });
+
+    it('drops GitHub data without a username', async () => {
+        await importHistory(backup({ ...legacyEntry, id: 'no-github', github: { name: 'Alex' } }));
+        expect((await getHistoryEntry('no-github'))!.github).toBeNull();
+    });
+
+    it('rejects a profile it cannot read', async () => {
+        const imported = importHistory(backup({ ...legacyEntry, id: 'broken', profile: { name: 'Alex' } }));
+        await expect(imported).rejects.toThrow(HistoryError);
+        await expect(imported).rejects.toThrow('Entry 1 in the backup has a profile this app cannot read.');
+    });
+});
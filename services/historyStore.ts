@@ -0,0 +1,302 @@
+import type { CoverLetterDraft, GitHubProfile, GitHubRepoSummary, HistoryEntry, LinkedInRewrite, PersonalInfo, ProfileAnalysis, ProfileDocument, ProfileSource, ResumeTailoring } from "../types";
+import { validateProfileAnalysis } from "./analysisSchema";
+import { isRecord, records, stringOrEmpty, strings } from "./validation";
+import { toPersonalInfo } from "./personalInfo";
+import { isCoverLetterLength, isCoverLetterTone } from "./coverLetter";
+import { validateLinkedInRewrite } from "./linkedInOptimizer";
+
+const DB_NAME = 'linkedin-synth';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+const EXPORT_FORMAT = 'linkedin-synth-history';
+const EXPORT_VERSION = 1;
+
+export class HistoryError extends Error {
+    readonly name: string = 'HistoryError';
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (databasePromise) return databasePromise;
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new HistoryError('This browser does not support IndexedDB, so history cannot be saved.'));
+    }
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('updatedAt', 'updatedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new HistoryError(`Could not open the history database: ${request.error?.message ?? 'unknown error'}`));
+        request.onblocked = () => reject(new HistoryError('The history database is open in an older tab. Close other tabs of this app and reload.'));
+    });
+    // Let a later call retry after a failed open
+    databasePromise.catch(() => { databasePromise = null; });
+    return databasePromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = run(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(new HistoryError(`History ${mode === 'readonly' ? 'read' : 'update'} failed: ${transaction.error?.message ?? 'unknown error'}`));
+        transaction.onabort = () => reject(new HistoryError(`History update was aborted: ${transaction.error?.message ?? 'storage may be full'}`));
+    });
+};
+
+const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Analyses were validated when saved, so one that fails now is kept as stored with the later sections left empty
+const toStoredAnalysis = (analysis: ProfileAnalysis): ProfileAnalysis => {
+    try {
+        return validateProfileAnalysis(analysis);
+    } catch {
+        return { ...analysis, education: analysis.education ?? [], certifications: analysis.certifications ?? [], publications: analysis.publications ?? [], projects: analysis.projects ?? [], languages: analysis.languages ?? [] };
+    }
+};
+
+// Entries saved by an earlier version lack the fields added since
+const fromStore = (entry: HistoryEntry): HistoryEntry => ({
+    ...entry,
+    analysis: toStoredAnalysis(entry.analysis),
+    personalInfo: toPersonalInfo(entry.personalInfo),
+});
+
+// Newest first
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+    const entries = await withStore<HistoryEntry[]>('readonly', store => store.getAll());
+    return (entries ?? []).map(fromStore).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getHistoryEntry = async (id: string): Promise<HistoryEntry | undefined> => {
+    const entry = await withStore<HistoryEntry | undefined>('readonly', store => store.get(id) as IDBRequest<HistoryEntry | undefined>);
+    return entry && fromStore(entry);
+};
+
+export const createHistoryEntry = async (fields: Omit<HistoryEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<HistoryEntry> => {
+    const now = Date.now();
+    const entry: HistoryEntry = { ...fields, id: createId(), createdAt: now, updatedAt: now };
+    await withStore('readwrite', store => store.put(entry));
+    return entry;
+};
+
+export const updateHistoryEntry = async (id: string, changes: Partial<Omit<HistoryEntry, 'id' | 'createdAt'>>): Promise<HistoryEntry> => {
+    const existing = await getHistoryEntry(id);
+    if (!existing) {
+        throw new HistoryError('This history entry no longer exists.');
+    }
+    const entry: HistoryEntry = { ...existing, ...changes, id, updatedAt: Date.now() };
+    await withStore('readwrite', store => store.put(entry));
+    return entry;
+};
+
+export const renameHistoryEntry = (id: string, title: string): Promise<HistoryEntry> =>
+    updateHistoryEntry(id, { title: title.trim() || 'Untitled analysis' });
+
+export const duplicateHistoryEntry = async (id: string): Promise<HistoryEntry> => {
+    const existing = await getHistoryEntry(id);
+    if (!existing) {
+        throw new HistoryError('This history entry no longer exists.');
+    }
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = existing;
+    return createHistoryEntry({ ...fields, title: `${existing.title} (copy)` });
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+};
+
+export const defaultHistoryTitle = (entry: Pick<HistoryEntry, 'profile' | 'analysis'>): string =>
+    entry.profile.name
+    || entry.analysis.suggestedRoles[0]?.title
+    || entry.analysis.experience[0]?.title
+    || 'Untitled analysis';
+
+export const exportHistory = async (): Promise<string> =>
+    JSON.stringify({
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        entries: await listHistory(),
+    }, null, 2);
+
+const toTailoring = (value: unknown): ResumeTailoring | null =>
+    isRecord(value) && typeof value.jobDescription === 'string'
+        ? {
+            jobDescription: value.jobDescription,
+            jobTitle: stringOrEmpty(value.jobTitle),
+            company: stringOrEmpty(value.company),
+            missingRequirements: strings(value.missingRequirements),
+        }
+        : null;
+
+const toCoverLetter = (value: unknown): CoverLetterDraft | null => {
+    if (!isRecord(value) || !isRecord(value.target)) return null;
+    const paragraphs = strings(value.paragraphs);
+    if (paragraphs.length === 0) return null;
+    const { target } = value;
+    return {
+        target: {
+            company: stringOrEmpty(target.company),
+            role: stringOrEmpty(target.role),
+            jobDescription: stringOrEmpty(target.jobDescription),
+            tone: isCoverLetterTone(target.tone) ? target.tone : 'professional',
+            length: isCoverLetterLength(target.length) ? target.length : 'medium',
+        },
+        paragraphs,
+    };
+};
+
+// An unreadable rewrite is dropped rather than failing the whole import; it can be generated again
+const toLinkedInRewrite = (value: unknown): LinkedInRewrite | null => {
+    if (!isRecord(value)) return null;
+    try {
+        return validateLinkedInRewrite(value);
+    } catch {
+        return null;
+    }
+};
+
+const PROFILE_SOURCES: ProfileSource[] = ['paste', 'linkedin-pdf', 'linkedin-export'];
+
+const count = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+// Null when the profile cannot be read; missing fields are left empty
+const toProfileDocument = (value: unknown): ProfileDocument | null => {
+    if (!isRecord(value) || !PROFILE_SOURCES.includes(value.source as ProfileSource)) return null;
+    return {
+        source: value.source as ProfileSource,
+        ...(typeof value.fileName === 'string' ? { fileName: value.fileName } : {}),
+        name: stringOrEmpty(value.name),
+        headline: stringOrEmpty(value.headline),
+        location: stringOrEmpty(value.location),
+        summary: stringOrEmpty(value.summary),
+        positions: records(value.positions).map(position => ({
+            title: stringOrEmpty(position.title),
+            company: stringOrEmpty(position.company),
+            location: stringOrEmpty(position.location),
+            startDate: stringOrEmpty(position.startDate),
+            endDate: stringOrEmpty(position.endDate),
+            description: stringOrEmpty(position.description),
+        })),
+        education: records(value.education).map(entry => ({
+            school: stringOrEmpty(entry.school),
+            degree: stringOrEmpty(entry.degree),
+            startDate: stringOrEmpty(entry.startDate),
+            endDate: stringOrEmpty(entry.endDate),
+            notes: stringOrEmpty(entry.notes),
+        })),
+        skills: strings(value.skills),
+        otherSections: records(value.otherSections).map(section => ({ heading: stringOrEmpty(section.heading), text: stringOrEmpty(section.text) })),
+        ...(typeof value.rawText === 'string' ? { rawText: value.rawText } : {}),
+    };
+};
+
+const toRepoSummary = (repo: Record<string, unknown>): GitHubRepoSummary => ({
+    name: stringOrEmpty(repo.name),
+    description: stringOrEmpty(repo.description),
+    url: stringOrEmpty(repo.url),
+    stars: count(repo.stars),
+    forks: count(repo.forks),
+    primaryLanguage: stringOrEmpty(repo.primaryLanguage),
+    languages: isRecord(repo.languages)
+        ? Object.fromEntries(Object.entries(repo.languages).filter((entry): entry is [string, number] => typeof entry[1] === 'number'))
+        : {},
+    topics: strings(repo.topics),
+    pushedAt: stringOrEmpty(repo.pushedAt),
+});
+
+// GitHub data without a username is dropped; it can be fetched again
+const toGitHubProfile = (value: unknown): GitHubProfile | null => {
+    if (!isRecord(value) || typeof value.username !== 'string' || !value.username) return null;
+    const contributions = isRecord(value.contributions) ? value.contributions : {};
+    return {
+        username: value.username,
+        name: stringOrEmpty(value.name),
+        bio: stringOrEmpty(value.bio),
+        profileUrl: stringOrEmpty(value.profileUrl),
+        followers: count(value.followers),
+        publicRepos: count(value.publicRepos),
+        totalStars: count(value.totalStars),
+        languages: records(value.languages).map(language => ({ name: stringOrEmpty(language.name), repoCount: count(language.repoCount) })),
+        featuredRepos: records(value.featuredRepos).map(toRepoSummary),
+        contributions: {
+            periodDays: count(contributions.periodDays),
+            commits: count(contributions.commits),
+            pullRequests: count(contributions.pullRequests),
+            issues: count(contributions.issues),
+            reviews: count(contributions.reviews),
+            reposContributedTo: strings(contributions.reposContributedTo),
+            ...(typeof contributions.mergedPullRequests === 'number' ? { mergedPullRequests: contributions.mergedPullRequests } : {}),
+        },
+    };
+};
+
+const toHistoryEntry = (value: Record<string, unknown>, index: number): HistoryEntry => {
+    if (typeof value.id !== 'string' || !value.id || !isRecord(value.profile)) {
+        throw new HistoryError(`Entry ${index + 1} in the backup is missing its id or profile.`);
+    }
+    const profile = toProfileDocument(value.profile);
+    if (!profile) {
+        throw new HistoryError(`Entry ${index + 1} in the backup has a profile this app cannot read.`);
+    }
+    const now = Date.now();
+    const analysis = validateProfileAnalysis(value.analysis);
+    return {
+        id: value.id,
+        title: stringOrEmpty(value.title) || 'Untitled analysis',
+        createdAt: typeof value.createdAt === 'number' ? value.createdAt : now,
+        updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : now,
+        profile,
+        github: toGitHubProfile(value.github),
+        analysis,
+        resume: typeof value.resume === 'string' ? value.resume : null,
+        personalInfo: toPersonalInfo(value.personalInfo),
+        tailoring: toTailoring(value.tailoring),
+        coverLetter: toCoverLetter(value.coverLetter),
+        linkedInRewrite: toLinkedInRewrite(value.linkedInRewrite),
+        acceptedClaims: strings(value.acceptedClaims),
+    };
+};
+
+// Merges a backup into the local history; entries with the same id are replaced. Returns the number imported.
+export const importHistory = async (json: string): Promise<number> => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new HistoryError('The selected file is not valid JSON.');
+    }
+    if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.entries)) {
+        throw new HistoryError('The selected file is not a history backup from this app.');
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new HistoryError('This backup was made by a newer version of the app.');
+    }
+
+    const entries = records(data.entries).map((entry, index) => {
+        try {
+            return toHistoryEntry(entry, index);
+        } catch (error) {
+            if (error instanceof HistoryError) throw error;
+            throw new HistoryError(`Entry ${index + 1} in the backup has an invalid analysis.`);
+        }
+    });
+    await withStore('readwrite', store => {
+        entries.forEach(entry => store.put(entry));
+    });
+    return entries.length;
+};
@@ -0,0 +1,102 @@
+import { Type, type Schema } from "@google/genai";
+import type {
+    EvidenceLevel,
+    JobDescriptionAnalysis,
+    JobMatchResult,
+    JobRequirement,
+    ProfileAnalysis,
+    RequirementMatch,
+} from "../types";
+import { expectObjectArray, expectString, expectStringArray, isRecord, parseJsonText, ResponseValidationError } from "./validation";
+
+export const jobDescriptionSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        jobTitle: { type: Type.STRING },
+        company: { type: Type.STRING, description: "Empty string if the posting does not name the company." },
+        requirements: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    requirement: { type: Type.STRING, description: "Short description, e.g. '5+ years of backend development in Go'." },
+                    keywords: {
+                        type: Type.ARRAY,
+                        description: "1-4 short terms or synonyms that would appear on a resume of someone meeting it.",
+                        items: { type: Type.STRING },
+                    },
+                    importance: { type: Type.STRING, enum: ["required", "preferred"] },
+                },
+                required: ["requirement", "keywords", "importance"],
+            },
+        },
+    },
+    required: ["jobTitle", "company", "requirements"],
+    propertyOrdering: ["jobTitle", "company", "requirements"],
+};
+
+export const parseJobDescriptionAnalysis = (text: string): JobDescriptionAnalysis => {
+    const data = parseJsonText(text);
+    if (!isRecord(data)) {
+        throw new ResponseValidationError('the job requirements', ['response is not a JSON object']);
+    }
+    const issues: string[] = [];
+    const result: JobDescriptionAnalysis = {
+        jobTitle: expectString(data.jobTitle, 'jobTitle', issues),
+        company: expectString(data.company, 'company', issues),
+        requirements: expectObjectArray(data.requirements, 'requirements', issues, (item, path) => ({
+            requirement: expectString(item.requirement, `${path}.requirement`, issues),
+            keywords: expectStringArray(item.keywords, `${path}.keywords`, issues),
+            importance: item.importance === 'preferred' ? 'preferred' : 'required',
+        })),
+    };
+    if (issues.length > 0) {
+        throw new ResponseValidationError('the job requirements', issues);
+    }
+    return result;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-term match that still works for terms such as "C++", ".NET" or "Node.js"
+const containsTerm = (text: string, term: string): boolean =>
+    new RegExp(`(^|[^a-z0-9+#.])${escapeRegExp(term.toLowerCase())}($|[^a-z0-9+#])`).test(text.toLowerCase());
+
+const findEvidence = (analysis: ProfileAnalysis, keywords: string[]): { level: EvidenceLevel; evidence: string[] } => {
+    const hits = (text: string) => keywords.some(keyword => keyword.trim() && containsTerm(text, keyword.trim()));
+
+    const roleEvidence = analysis.experience
+        .filter(entry => hits([...entry.technologies, ...entry.bullets, entry.title].join('\n')))
+        .map(entry => `${entry.title} at ${entry.company}`);
+    if (roleEvidence.length > 0) {
+        return { level: 'strong', evidence: roleEvidence };
+    }
+
+    const listedEvidence = [
+        ...analysis.technicalSkills.filter(group => hits(group.skills.join('\n'))).map(group => `Listed under ${group.category}`),
+        ...(hits(analysis.softSkills.join('\n')) ? ['Listed as a core competency'] : []),
+        ...(hits(analysis.summary) ? ['Mentioned in the summary'] : []),
+    ];
+    return listedEvidence.length > 0
+        ? { level: 'weak', evidence: listedEvidence }
+        : { level: 'missing', evidence: [] };
+};
+
+const WEIGHTS: Record<JobRequirement['importance'], number> = { required: 2, preferred: 1 };
+const CREDIT: Record<EvidenceLevel, number> = { strong: 1, weak: 0.5, missing: 0 };
+
+// Scores the analysis against the extracted requirements locally, so the score is reproducible for the same inputs
+export const matchJobRequirements = (analysis: ProfileAnalysis, job: JobDescriptionAnalysis): JobMatchResult => {
+    const matches: RequirementMatch[] = job.requirements.map(requirement => ({
+        requirement,
+        ...findEvidence(analysis, requirement.keywords.length > 0 ? requirement.keywords : [requirement.requirement]),
+    }));
+
+    const totalWeight = matches.reduce((sum, match) => sum + WEIGHTS[match.requirement.importance], 0);
+    const earned = matches.reduce((sum, match) => sum + WEIGHTS[match.requirement.importance] * CREDIT[match.level], 0);
+
+    return {
+        score: totalWeight > 0 ? Math.round((earned / totalWeight) * 100) : 0,
+        matches,
+    };
+};
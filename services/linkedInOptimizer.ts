@@ -0,0 +1,165 @@
+import { Type, type Schema } from "@google/genai";
+import type { LinkedInRewrite, ProfileDocument } from "../types";
+import {
+    expectObjectArray,
+    expectString,
+    expectStringArray,
+    isRecord,
+    parseJsonText,
+    records,
+    ResponseValidationError,
+    stringOrEmpty,
+    strings,
+} from "./validation";
+
+// Character limits LinkedIn enforces on these fields
+export const LINKEDIN_LIMITS = {
+    headline: 220,
+    about: 2600,
+    roleDescription: 2000,
+};
+
+export const linkedInRewriteSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        headlineOriginal: { type: Type.STRING, description: "The current headline copied verbatim from the profile, or an empty string." },
+        headlines: {
+            type: Type.ARRAY,
+            description: `3-5 alternative headlines, each at most ${LINKEDIN_LIMITS.headline} characters.`,
+            items: { type: Type.STRING },
+        },
+        aboutOriginal: { type: Type.STRING, description: "The current About/Summary section copied verbatim, or an empty string." },
+        about: { type: Type.STRING, description: `Rewritten About section, at most ${LINKEDIN_LIMITS.about} characters.` },
+        roles: {
+            type: Type.ARRAY,
+            description: "One entry per position in the profile, most recent first.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    company: { type: Type.STRING },
+                    original: { type: Type.STRING, description: "The current description copied verbatim, or an empty string." },
+                    description: { type: Type.STRING, description: `Rewritten description, at most ${LINKEDIN_LIMITS.roleDescription} characters.` },
+                },
+                required: ["title", "company", "original", "description"],
+                propertyOrdering: ["title", "company", "original", "description"],
+            },
+        },
+    },
+    required: ["headlineOriginal", "headlines", "aboutOriginal", "about", "roles"],
+    propertyOrdering: ["headlineOriginal", "headlines", "aboutOriginal", "about", "roles"],
+};
+
+export const validateLinkedInRewrite = (data: unknown): LinkedInRewrite => {
+    if (!isRecord(data)) {
+        throw new ResponseValidationError('the LinkedIn rewrite', ['response is not a JSON object']);
+    }
+    const issues: string[] = [];
+    const result: LinkedInRewrite = {
+        headlineOriginal: expectString(data.headlineOriginal, 'headlineOriginal', issues),
+        headlines: expectStringArray(data.headlines, 'headlines', issues),
+        aboutOriginal: expectString(data.aboutOriginal, 'aboutOriginal', issues),
+        about: expectString(data.about, 'about', issues),
+        roles: expectObjectArray(data.roles, 'roles', issues, (item, path) => ({
+            title: expectString(item.title, `${path}.title`, issues),
+            company: expectString(item.company, `${path}.company`, issues),
+            original: expectString(item.original, `${path}.original`, issues),
+            description: expectString(item.description, `${path}.description`, issues),
+        })),
+    };
+    if (result.headlines.length === 0 && !issues.some(issue => issue.startsWith('headlines'))) {
+        issues.push('headlines is empty');
+    }
+    if (issues.length > 0) {
+        throw new ResponseValidationError('the LinkedIn rewrite', issues);
+    }
+    return result;
+};
+
+export const parseLinkedInRewrite = (text: string): LinkedInRewrite => {
+    const data = parseJsonText(text);
+    if (data === undefined) {
+        throw new ResponseValidationError('the LinkedIn rewrite', ['response is not valid JSON']);
+    }
+    return validateLinkedInRewrite(data);
+};
+
+// Lenient counterpart of validateLinkedInRewrite for streamed or cancelled output
+export const toPartialLinkedInRewrite = (data: unknown): LinkedInRewrite => {
+    const source = isRecord(data) ? data : {};
+    return {
+        headlineOriginal: stringOrEmpty(source.headlineOriginal),
+        headlines: strings(source.headlines),
+        aboutOriginal: stringOrEmpty(source.aboutOriginal),
+        about: stringOrEmpty(source.about),
+        roles: records(source.roles).map(item => ({
+            title: stringOrEmpty(item.title),
+            company: stringOrEmpty(item.company),
+            original: stringOrEmpty(item.original),
+            description: stringOrEmpty(item.description),
+        })),
+    };
+};
+
+const sameText = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Imported profiles already hold the exact current text, so it replaces the model's copy; pasted profiles rely on the model's extraction
+export const withProfileOriginals = (rewrite: LinkedInRewrite, profile: ProfileDocument): LinkedInRewrite => {
+    if (profile.source === 'paste') return rewrite;
+    return {
+        ...rewrite,
+        headlineOriginal: profile.headline || rewrite.headlineOriginal,
+        aboutOriginal: profile.summary || rewrite.aboutOriginal,
+        roles: rewrite.roles.map(role => {
+            const position = profile.positions.find(p => sameText(p.title, role.title) && sameText(p.company, role.company))
+                ?? profile.positions.find(p => sameText(p.company, role.company));
+            return position ? { ...role, original: position.description || role.original } : role;
+        }),
+    };
+};
+
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Word-level diff (longest common subsequence over words and the whitespace between them)
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+    const columns = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * columns);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i * columns + j] = a[i] === b[j]
+                ? lengths[(i + 1) * columns + j + 1] + 1
+                : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) {
+            last.text += text;
+        } else {
+            parts.push({ type, text });
+        }
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('same', a[i]);
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return parts;
+};
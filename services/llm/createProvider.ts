@@ -0,0 +1,20 @@
+import { getDefaultLLMSettings, type LLMProvider, type LLMSettings } from "./llmProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+import { withResilience } from "./resilientProvider";
+
+const createBaseProvider = (settings: LLMSettings): LLMProvider => {
+    switch (settings.provider) {
+        case 'openai-compatible':
+            return createOpenAICompatibleProvider(settings.model, settings.baseUrl);
+        case 'mock':
+            return createMockProvider(settings.model);
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings.model);
+    }
+};
+
+export const createProvider = (settings: LLMSettings = getDefaultLLMSettings()): LLMProvider =>
+    withResilience(createBaseProvider(settings), { timeoutMs: settings.timeoutMs, maxRetries: settings.maxRetries });
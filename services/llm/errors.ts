@@ -0,0 +1,88 @@
+export type LLMErrorKind = 'auth' | 'rate-limited' | 'safety-blocked' | 'timeout' | 'malformed-output' | 'network' | 'invalid-request';
+
+export abstract class LLMError extends Error {
+    abstract readonly kind: LLMErrorKind;
+    // Whether sending the same request again may succeed
+    abstract readonly retryable: boolean;
+
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+    }
+}
+
+export class AuthError extends LLMError {
+    readonly name: string = 'AuthError';
+    readonly kind = 'auth';
+    readonly retryable = false;
+}
+
+export class RateLimitError extends LLMError {
+    readonly name: string = 'RateLimitError';
+    readonly kind = 'rate-limited';
+    readonly retryable = true;
+
+    constructor(message: string, public readonly retryAfterMs?: number, cause?: unknown) {
+        super(message, cause);
+    }
+}
+
+export class SafetyBlockedError extends LLMError {
+    readonly name: string = 'SafetyBlockedError';
+    readonly kind = 'safety-blocked';
+    readonly retryable = false;
+}
+
+export class TimeoutError extends LLMError {
+    readonly name: string = 'TimeoutError';
+    readonly kind = 'timeout';
+    readonly retryable = true;
+}
+
+// Output that is empty or does not match the expected shape. Parsing and validation happen after the provider's
+// retries, so it is not retried automatically; the user can send the request again from the error message.
+export class MalformedOutputError extends LLMError {
+    readonly name: string = 'MalformedOutputError';
+    readonly kind = 'malformed-output';
+    readonly retryable = false;
+}
+
+export class NetworkError extends LLMError {
+    readonly name: string = 'NetworkError';
+    readonly kind = 'network';
+    readonly retryable = true;
+}
+
+// Any other rejected request (bad parameters, unknown model, ...); sending it again will not help
+export class InvalidRequestError extends LLMError {
+    readonly name: string = 'InvalidRequestError';
+    readonly kind = 'invalid-request';
+    readonly retryable = false;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && error.name === 'AbortError';
+
+const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Maps an HTTP failure from any backend onto the typed hierarchy
+export const errorFromStatus = (status: number, detail: string, retryAfter?: string | null, cause?: unknown): LLMError => {
+    if (status === 401 || status === 403 || /api key/i.test(detail)) {
+        return new AuthError(`The AI service rejected the credentials (HTTP ${status}). ${detail}`.trim(), cause);
+    }
+    if (status === 429) {
+        return new RateLimitError(`The AI service is rate limiting requests or the quota is exhausted. ${detail}`.trim(), parseRetryAfter(retryAfter), cause);
+    }
+    if (status === 408 || status === 504) {
+        return new TimeoutError(`The AI service timed out (HTTP ${status}).`, cause);
+    }
+    if (status >= 500) {
+        return new NetworkError(`The AI service is temporarily unavailable (HTTP ${status}).`, cause);
+    }
+    return new InvalidRequestError(`The AI service rejected the request (HTTP ${status}). ${detail}`.trim(), cause);
+};
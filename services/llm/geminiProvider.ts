@@ -0,0 +1,84 @@
+import { ApiError, GoogleGenAI, type GenerateContentParameters, type GenerateContentResponse } from "@google/genai";
+import type { LLMProvider, LLMRequest } from "./llmProvider";
+import { AuthError, errorFromStatus, isAbortError, LLMError, MalformedOutputError, NetworkError, SafetyBlockedError } from "./errors";
+
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION']);
+
+const buildParams = (model: string, { prompt, responseSchema, signal }: LLMRequest): GenerateContentParameters => ({
+    model,
+    contents: prompt,
+    config: {
+        abortSignal: signal,
+        ...(responseSchema ? { responseMimeType: 'application/json', responseSchema } : {}),
+    },
+});
+
+// Explains an empty response: either the prompt or the answer was blocked, or the model returned nothing
+const emptyResponseError = (response: GenerateContentResponse | undefined): LLMError => {
+    const blockReason = response?.promptFeedback?.blockReason;
+    if (blockReason) {
+        return new SafetyBlockedError(`The request was blocked by Gemini's safety filters (${blockReason}).`);
+    }
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+        return new SafetyBlockedError(`The response was blocked by Gemini's safety filters (${finishReason}).`);
+    }
+    return new MalformedOutputError('The AI model returned an empty response.');
+};
+
+const classify = (error: unknown, signal?: AbortSignal): unknown => {
+    if (isAbortError(error) || signal?.aborted || error instanceof LLMError) {
+        return error;
+    }
+    console.error("Error calling Gemini API:", error);
+    if (error instanceof ApiError) {
+        return errorFromStatus(error.status, error.message, undefined, error);
+    }
+    return new NetworkError("Could not reach the Gemini API. Check your internet connection.", error);
+};
+
+export const createGeminiProvider = (model: string, apiKey = process.env.API_KEY): LLMProvider => {
+    const getClient = () => {
+        if (!apiKey) {
+            throw new AuthError("API_KEY environment variable is not set.");
+        }
+        return new GoogleGenAI({ apiKey });
+    };
+
+    return {
+        id: 'gemini',
+        model,
+        generate: async (request: LLMRequest): Promise<string> => {
+            const ai = getClient();
+            try {
+                const response = await ai.models.generateContent(buildParams(model, request));
+                if (!response.text) {
+                    throw emptyResponseError(response);
+                }
+                return response.text;
+            } catch (error) {
+                throw classify(error, request.signal);
+            }
+        },
+        stream: async function* (request: LLMRequest): AsyncGenerator<string> {
+            const ai = getClient();
+            try {
+                const response = await ai.models.generateContentStream(buildParams(model, request));
+                let lastChunk: GenerateContentResponse | undefined;
+                let received = false;
+                for await (const chunk of response) {
+                    lastChunk = chunk;
+                    if (chunk.text) {
+                        received = true;
+                        yield chunk.text;
+                    }
+                }
+                if (!received) {
+                    throw emptyResponseError(lastChunk);
+                }
+            } catch (error) {
+                throw classify(error, request.signal);
+            }
+        },
+    };
+};
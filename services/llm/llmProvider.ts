@@ -0,0 +1,90 @@
+import type { Schema } from "@google/genai";
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Identifies what a request is for, so fixture-backed providers can answer deterministically
+export type LLMTask = 'analysis' | 'resume' | 'job-requirements' | 'bullet-rewrite' | 'cover-letter' | 'cover-letter-paragraph' | 'linkedin-rewrite';
+
+export interface LLMRequest {
+    task: LLMTask;
+    prompt: string;
+    // When set, the provider must return JSON matching this schema
+    responseSchema?: Schema;
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    readonly id: ProviderId;
+    readonly model: string;
+    generate(request: LLMRequest): Promise<string>;
+    // Yields text chunks as the model produces them
+    stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+export interface LLMSettings {
+    provider: ProviderId;
+    model: string;
+    // Only used by the OpenAI-compatible provider, e.g. http://localhost:8080/v1
+    baseUrl: string;
+    // Per-request timeout in milliseconds (0 disables it) and how often transient failures are retried
+    timeoutMs: number;
+    maxRetries: number;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    'gemini': 'Google Gemini',
+    'openai-compatible': 'OpenAI-compatible (llama.cpp, Ollama, ...)',
+    'mock': 'Offline mock (fixtures)',
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+    'gemini': 'gemini-2.5-flash',
+    'openai-compatible': 'llama3.1',
+    'mock': 'fixture',
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+    typeof value === 'string' && value in PROVIDER_LABELS;
+
+const toNonNegativeInt = (value: unknown, fallback: number): number => {
+    const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : fallback;
+};
+
+// Defaults come from the Vite env (LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL, LLM_TIMEOUT_MS, LLM_MAX_RETRIES), see vite.config.ts
+export const getDefaultLLMSettings = (): LLMSettings => {
+    const provider = isProviderId(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+    return {
+        provider,
+        model: process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+        baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        timeoutMs: toNonNegativeInt(process.env.LLM_TIMEOUT_MS, 60000),
+        maxRetries: toNonNegativeInt(process.env.LLM_MAX_RETRIES, 2),
+    };
+};
+
+const SETTINGS_STORAGE_KEY = 'llm-settings';
+
+// Settings chosen in the UI override the env defaults and survive reloads
+export const loadLLMSettings = (): LLMSettings => {
+    const defaults = getDefaultLLMSettings();
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null');
+        if (stored && isProviderId(stored.provider)) {
+            return {
+                provider: stored.provider,
+                model: typeof stored.model === 'string' && stored.model ? stored.model : DEFAULT_MODELS[stored.provider],
+                baseUrl: typeof stored.baseUrl === 'string' && stored.baseUrl ? stored.baseUrl : defaults.baseUrl,
+                timeoutMs: toNonNegativeInt(stored.timeoutMs, defaults.timeoutMs),
+                maxRetries: toNonNegativeInt(stored.maxRetries, defaults.maxRetries),
+            };
+        }
+    } catch (error) {
+        console.error('Could not read saved model settings:', error);
+    }
+    return defaults;
+};
+
+export const saveLLMSettings = (settings: LLMSettings): void => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
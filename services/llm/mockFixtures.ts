@@ -0,0 +1,158 @@
+import type { JobDescriptionAnalysis, LinkedInRewrite, ProfileAnalysis } from "../../types";
+
+// Canned responses for the offline mock provider. Keep them realistic so the UI can be exercised end to end.
+
+export const MOCK_ANALYSIS: ProfileAnalysis = {
+    summary: "Senior Software Engineer with 8+ years of experience building distributed backend systems in Go and TypeScript. Led the migration of a monolithic checkout service to event-driven microservices on AWS and mentors engineers on testing and code quality.",
+    technicalSkills: [
+        { category: "Programming Languages", skills: ["Go", "TypeScript", "Python", "SQL"] },
+        { category: "Frameworks/Libraries", skills: ["React", "Node.js", "gRPC"] },
+        { category: "Cloud/DevOps", skills: ["AWS", "Kubernetes", "Terraform", "GitHub Actions"] },
+        { category: "Databases", skills: ["PostgreSQL", "Redis", "DynamoDB"] },
+    ],
+    softSkills: ["Technical Leadership", "Mentoring", "Agile Methodologies", "Cross-team Communication"],
+    experience: [
+        {
+            title: "Senior Software Engineer",
+            company: "Northwind Commerce",
+            startDate: "Mar 2020",
+            endDate: "Present",
+            bullets: [
+                "Led the migration of the checkout monolith to event-driven Go microservices on Kubernetes.",
+                "Introduced contract testing between services, cutting integration incidents during releases.",
+                "Mentored four engineers through code reviews and weekly pairing sessions.",
+            ],
+            technologies: ["Go", "Kubernetes", "AWS", "gRPC", "PostgreSQL"],
+        },
+        {
+            title: "Software Engineer",
+            company: "Contoso Analytics",
+            startDate: "Jun 2016",
+            endDate: "Feb 2020",
+            bullets: [
+                "Built TypeScript and React dashboards used by internal analysts.",
+                "Maintained Python ETL jobs loading product events into PostgreSQL.",
+            ],
+            technologies: ["TypeScript", "React", "Node.js", "Python", "PostgreSQL"],
+        },
+    ],
+    education: [
+        { degree: "BSc Computer Science", school: "University of Leeds", startDate: "Sep 2012", endDate: "Jun 2016" },
+    ],
+    certifications: [
+        { name: "AWS Certified Solutions Architect – Associate", issuer: "Amazon Web Services", date: "2021" },
+    ],
+    publications: [],
+    projects: [
+        { name: "pgwatch-lite", description: "Small Go service that exports PostgreSQL health metrics to Prometheus.", technologies: ["Go", "PostgreSQL"] },
+    ],
+    languages: [
+        { language: "English", proficiency: "Native" },
+        { language: "Spanish", proficiency: "Professional working proficiency" },
+    ],
+    suggestedRoles: [
+        { title: "Senior Backend Engineer (Go)", justification: "Several years of production Go and microservice design." },
+        { title: "Platform Engineer", justification: "Hands-on Kubernetes, Terraform and AWS experience." },
+        { title: "Engineering Team Lead", justification: "Track record of leading migrations and mentoring engineers." },
+    ],
+    optimizationTips: [
+        "Add measurable outcomes to the Northwind migration, such as latency or deployment frequency.",
+        "Expand the About section with the kinds of problems you want to work on next.",
+    ],
+};
+
+export const MOCK_RESUME = `# Alex Example
+*Senior Software Engineer*
+alex@example.com | Berlin, Germany | linkedin.com/in/alex-example | example.dev
+
+## Professional Summary
+Senior Software Engineer with 8+ years of experience building distributed backend systems in Go and TypeScript. Led the migration of a monolithic checkout service to event-driven microservices on AWS and mentors engineers on testing and code quality.
+
+## Skills
+* **Programming Languages:** Go, TypeScript, Python, SQL
+* **Cloud/DevOps:** AWS, Kubernetes, Terraform, GitHub Actions
+* **Databases:** PostgreSQL, Redis, DynamoDB
+* **Competencies:** Technical Leadership, Mentoring, Agile Methodologies
+
+## Work Experience
+**Senior Software Engineer** | Northwind Commerce
+*Mar 2020 – Present*
+* Led the migration of the checkout monolith to event-driven Go microservices on Kubernetes.
+* Introduced contract testing between services, cutting integration incidents during releases.
+* Mentored four engineers through code reviews and weekly pairing sessions.
+
+**Software Engineer** | Contoso Analytics
+*Jun 2016 – Feb 2020*
+* Built TypeScript and React dashboards used by internal analysts.
+* Maintained Python ETL jobs loading product events into PostgreSQL.
+
+## Projects & Open Source
+* **pgwatch-lite** - Small Go service that exports PostgreSQL health metrics to Prometheus (Go, PostgreSQL)
+
+## Education
+**BSc Computer Science** | University of Leeds
+*Sep 2012 – Jun 2016*
+
+## Certifications
+* **AWS Certified Solutions Architect – Associate** | Amazon Web Services | 2021
+
+## Languages
+* **English** | Native
+* **Spanish** | Professional working proficiency
+`;
+
+export const MOCK_JOB_REQUIREMENTS: JobDescriptionAnalysis = {
+    jobTitle: "Staff Backend Engineer",
+    company: "Fabrikam Payments",
+    requirements: [
+        { requirement: "Production experience with Go", keywords: ["Go", "Golang"], importance: "required" },
+        { requirement: "Running services on Kubernetes", keywords: ["Kubernetes", "K8s"], importance: "required" },
+        { requirement: "Relational database design", keywords: ["PostgreSQL", "MySQL", "SQL"], importance: "required" },
+        { requirement: "Mentoring other engineers", keywords: ["Mentoring", "Mentored"], importance: "required" },
+        { requirement: "Infrastructure as code", keywords: ["Terraform", "Pulumi"], importance: "preferred" },
+        { requirement: "Payments or fintech domain knowledge", keywords: ["Payments", "PCI", "Fintech"], importance: "preferred" },
+    ],
+};
+
+export const MOCK_BULLET_REWRITE = "Led the migration of the checkout monolith to event-driven Go microservices on Kubernetes, enabling independent deployments per team.";
+
+export const MOCK_COVER_LETTER = `Dear Hiring Manager,
+
+I am applying for the Senior Backend Engineer position. Over eight years of building distributed systems in Go and TypeScript, I have learned to ship reliable services while helping the engineers around me grow, and that combination is what I would bring to your team.
+
+At Northwind Commerce I led the migration of our checkout monolith to event-driven Go microservices on Kubernetes. Introducing contract testing between those services cut integration incidents during releases, and I mentored four engineers through code reviews and weekly pairing along the way.
+
+Before that, at Contoso Analytics, I built TypeScript and React dashboards for internal analysts and maintained the Python ETL jobs that loaded product events into PostgreSQL, which taught me to care about the people who depend on the data as much as the pipelines themselves.
+
+I would welcome the chance to discuss how this experience could help your team. Thank you for your time and consideration.
+
+Sincerely,
+Alex Example
+`;
+
+export const MOCK_COVER_LETTER_PARAGRAPH = "In my current role at Northwind Commerce I moved the checkout monolith to event-driven Go microservices on Kubernetes and introduced contract testing between them, which cut integration incidents during releases. Mentoring four engineers through that migration showed me how much a team gains from clear service boundaries and good tests.";
+
+export const MOCK_LINKEDIN_REWRITE: LinkedInRewrite = {
+    headlineOriginal: "Senior Software Engineer at Northwind Commerce",
+    headlines: [
+        "Senior Backend Engineer | Go, TypeScript & Kubernetes | Led checkout migration to event-driven microservices",
+        "I build reliable distributed systems in Go and mentor the engineers who run them | Senior Software Engineer",
+        "Senior Software Engineer | Distributed Systems | Go | TypeScript | AWS | Kubernetes | Technical Leadership",
+    ],
+    aboutOriginal: "Software engineer with experience in backend systems. I like Go and TypeScript and working with teams.",
+    about: "I build backend systems that stay reliable as they grow, and I help the engineers around me do the same.\n\nOver eight years I have worked across Go, TypeScript and Python. At Northwind Commerce I led the migration of our checkout monolith to event-driven Go microservices on Kubernetes and introduced contract testing between services, which cut integration incidents during releases.\n\nI care about clear service boundaries, good tests and code reviews that teach. I mentor engineers through pairing and reviews, and I enjoy turning messy systems into ones teams can change with confidence.\n\nCore skills: Go, TypeScript, Python, AWS, Kubernetes, Terraform, PostgreSQL, Redis, technical leadership, mentoring.",
+    roles: [
+        {
+            title: "Senior Software Engineer",
+            company: "Northwind Commerce",
+            original: "Working on the checkout platform. Moved services to Kubernetes. Mentoring.",
+            description: "Lead engineer on the checkout platform, owning its move from a monolith to event-driven services.\n• Led the migration of the checkout monolith to event-driven Go microservices on Kubernetes.\n• Introduced contract testing between services, cutting integration incidents during releases.\n• Mentored four engineers through code reviews and weekly pairing sessions.",
+        },
+        {
+            title: "Software Engineer",
+            company: "Contoso Analytics",
+            original: "Built dashboards and ETL jobs.",
+            description: "Full-stack engineer on the internal analytics platform.\n• Built TypeScript and React dashboards used by internal analysts.\n• Maintained Python ETL jobs loading product events into PostgreSQL.",
+        },
+    ],
+};
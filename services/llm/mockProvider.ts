@@ -0,0 +1,31 @@
+import type { LLMProvider, LLMRequest, LLMTask } from "./llmProvider";
+import { sleep } from "./retry";
+import { MOCK_ANALYSIS, MOCK_BULLET_REWRITE, MOCK_COVER_LETTER, MOCK_COVER_LETTER_PARAGRAPH, MOCK_JOB_REQUIREMENTS, MOCK_LINKEDIN_REWRITE, MOCK_RESUME } from "./mockFixtures";
+
+const FIXTURES: Record<LLMTask, string> = {
+    analysis: JSON.stringify(MOCK_ANALYSIS),
+    resume: MOCK_RESUME,
+    'job-requirements': JSON.stringify(MOCK_JOB_REQUIREMENTS),
+    'bullet-rewrite': MOCK_BULLET_REWRITE,
+    'cover-letter': MOCK_COVER_LETTER,
+    'cover-letter-paragraph': MOCK_COVER_LETTER_PARAGRAPH,
+    'linkedin-rewrite': JSON.stringify(MOCK_LINKEDIN_REWRITE),
+};
+
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+// Deterministic provider for offline development: returns the fixture for the task, ignoring the prompt
+export const createMockProvider = (model: string): LLMProvider => ({
+    id: 'mock',
+    model,
+    generate: async ({ task }: LLMRequest): Promise<string> => FIXTURES[task],
+    // Replays the fixture in fixed-size chunks so incremental rendering can be exercised offline
+    stream: async function* ({ task, signal }: LLMRequest): AsyncGenerator<string> {
+        const text = FIXTURES[task];
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            await sleep(STREAM_CHUNK_DELAY_MS, signal);
+            yield text.slice(i, i + STREAM_CHUNK_SIZE);
+        }
+    },
+});
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+
+const sse = (...payloads: string[]) => payloads.map(payload => `data: ${payload}\n\n`).join('');
+const delta = (content: string) => JSON.stringify({ choices: [{ delta: { content } }] });
+
+// A server that sends the events and then keeps the connection open
+const mockServer = (events: string) => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+        start: controller => controller.enqueue(new TextEncoder().encode(events)),
+        cancel,
+    });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+    return cancel;
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('OpenAI-compatible stream', () => {
+    it('yields the deltas up to [DONE] and releases the connection', async () => {
+        const cancel = mockServer(sse(delta('Hello'), delta(' world'), '[DONE]'));
+        const provider = createOpenAICompatibleProvider('llama3.1', 'http://localhost:11434/v1', '');
+        const chunks: string[] = [];
+        for await (const chunk of provider.stream({ task: 'resume', prompt: 'Hi' })) {
+            chunks.push(chunk);
+        }
+        expect(chunks).toEqual(['Hello', ' world']);
+        expect(cancel).toHaveBeenCalled();
+    });
+
+    it('cancels the response body when the consumer stops early', async () => {
+        const cancel = mockServer(sse(delta('Hello'), delta(' world')));
+        const provider = createOpenAICompatibleProvider('llama3.1', 'http://localhost:11434/v1', '');
+        for await (const chunk of provider.stream({ task: 'resume', prompt: 'Hi' })) {
+            expect(chunk).toBe('Hello');
+            break;
+        }
+        expect(cancel).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,137 @@
+import type { Schema } from "@google/genai";
+import type { LLMProvider, LLMRequest } from "./llmProvider";
+import { errorFromStatus, isAbortError, LLMError, MalformedOutputError, NetworkError, SafetyBlockedError } from "./errors";
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+// Converts the Gemini-style schema (upper-case types) into plain JSON Schema for response_format
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    if (schema.type) result.type = schema.type.toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+        result.additionalProperties = false;
+    }
+    if (schema.required) result.required = schema.required;
+    return result;
+};
+
+const classify = (error: unknown, signal?: AbortSignal): unknown => {
+    if (isAbortError(error) || signal?.aborted || error instanceof LLMError) {
+        return error;
+    }
+    console.error("Error calling OpenAI-compatible API:", error);
+    if (error instanceof SyntaxError) {
+        return new MalformedOutputError("The model server returned a response that is not valid JSON.", error);
+    }
+    return new NetworkError("Could not reach the model server. Check that it is running and the server URL is correct.", error);
+};
+
+const emptyResponseError = (finishReason: string | null | undefined): LLMError =>
+    finishReason === 'content_filter'
+        ? new SafetyBlockedError("The response was blocked by the model server's content filter.")
+        : new MalformedOutputError('The AI model returned an empty response.');
+
+export const createOpenAICompatibleProvider = (
+    model: string,
+    baseUrl: string,
+    apiKey = process.env.LLM_API_KEY
+): LLMProvider => {
+    const postCompletion = async ({ prompt, responseSchema, signal }: LLMRequest, stream: boolean): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) {
+            headers.Authorization = `Bearer ${apiKey}`;
+        }
+
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+                model,
+                stream,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: responseSchema
+                    ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(responseSchema) } }
+                    : undefined,
+            }),
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw errorFromStatus(response.status, detail.slice(0, 300), response.headers.get('Retry-After'));
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai-compatible',
+        model,
+        generate: async (request: LLMRequest): Promise<string> => {
+            try {
+                const response = await postCompletion(request, false);
+                const data: ChatCompletionResponse = await response.json();
+                const content = data.choices?.[0]?.message?.content;
+                if (!content) {
+                    throw emptyResponseError(data.choices?.[0]?.finish_reason);
+                }
+                return content;
+            } catch (error) {
+                throw classify(error, request.signal);
+            }
+        },
+        // Reads the server-sent events stream ("data: {...}" lines terminated by "data: [DONE]")
+        stream: async function* (request: LLMRequest): AsyncGenerator<string> {
+            try {
+                const response = await postCompletion(request, true);
+                if (!response.body) {
+                    throw new Error('Response has no body to stream.');
+                }
+                const reader = response.body.getReader();
+                const decoder = new TextDecoder();
+                let buffer = '';
+                let received = false;
+                let finishReason: string | null | undefined;
+                try {
+                    readLoop: while (true) {
+                        const { done, value } = await reader.read();
+                        if (done) break;
+                        buffer += decoder.decode(value, { stream: true });
+                        const lines = buffer.split('\n');
+                        buffer = lines.pop() ?? '';
+                        for (const line of lines) {
+                            const payload = line.replace(/^data:\s*/, '').trim();
+                            if (!line.startsWith('data:') || !payload) continue;
+                            if (payload === '[DONE]') break readLoop;
+                            const chunk: ChatCompletionChunk = JSON.parse(payload);
+                            finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+                            const text = chunk.choices?.[0]?.delta?.content;
+                            if (text) {
+                                received = true;
+                                yield text;
+                            }
+                        }
+                    }
+                } finally {
+                    // Releases the connection when the consumer stops early or a chunk fails to parse
+                    reader.cancel().catch(() => undefined);
+                }
+                if (!received) {
+                    throw emptyResponseError(finishReason);
+                }
+            } catch (error) {
+                throw classify(error, request.signal);
+            }
+        },
+    };
+};
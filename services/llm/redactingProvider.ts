@@ -0,0 +1,35 @@
+import type { LLMProvider, LLMRequest } from "./llmProvider";
+import { detectPii, PARTIAL_PLACEHOLDER, redactPrompt, restoreText, type PiiItem, type RedactionSettings } from "../piiRedaction";
+
+const redactRequest = (request: LLMRequest, settings: RedactionSettings): { request: LLMRequest; items: PiiItem[] } => {
+    const items = detectPii(request.prompt, settings);
+    return { request: { ...request, prompt: redactPrompt(request.prompt, items) }, items };
+};
+
+// Wraps any provider so personal details are swapped for placeholders before a prompt leaves the browser,
+// and the real values are put back into the response
+export const withRedaction = (provider: LLMProvider, settings: RedactionSettings): LLMProvider => {
+    if (!settings.enabled) return provider;
+    return {
+        id: provider.id,
+        model: provider.model,
+        generate: async (request: LLMRequest): Promise<string> => {
+            const redacted = redactRequest(request, settings);
+            const text = await provider.generate(redacted.request);
+            return restoreText(text, redacted.items, Boolean(request.responseSchema));
+        },
+        stream: async function* (request: LLMRequest): AsyncGenerator<string> {
+            const redacted = redactRequest(request, settings);
+            const json = Boolean(request.responseSchema);
+            let pending = '';
+            for await (const chunk of provider.stream(redacted.request)) {
+                pending += chunk;
+                const cut = pending.search(PARTIAL_PLACEHOLDER);
+                const ready = cut === -1 ? pending : pending.slice(0, cut);
+                pending = cut === -1 ? '' : pending.slice(cut);
+                if (ready) yield restoreText(ready, redacted.items, json);
+            }
+            if (pending) yield restoreText(pending, redacted.items, json);
+        },
+    };
+};
@@ -0,0 +1,52 @@
+import type { LLMProvider, LLMRequest } from "./llmProvider";
+import { LLMError, RateLimitError } from "./errors";
+import { backoffDelay, createTimeoutSignal, DEFAULT_BASE_DELAY_MS, DEFAULT_MAX_DELAY_MS, sleep, translateTimeout, withRetry } from "./retry";
+
+export interface ResilienceOptions {
+    // Per-attempt timeout; for streams it is the longest allowed gap between chunks. 0 disables it.
+    timeoutMs: number;
+    maxRetries: number;
+}
+
+// Wraps any provider with per-request timeouts and retries of transient failures
+export const withResilience = (provider: LLMProvider, { timeoutMs, maxRetries }: ResilienceOptions): LLMProvider => ({
+    id: provider.id,
+    model: provider.model,
+    generate: (request: LLMRequest): Promise<string> =>
+        withRetry(async () => {
+            const timeout = createTimeoutSignal(timeoutMs, request.signal);
+            try {
+                return await provider.generate({ ...request, signal: timeout.signal });
+            } catch (error) {
+                throw translateTimeout(error, timeout.timedOut(), timeoutMs);
+            } finally {
+                timeout.dispose();
+            }
+        }, { maxRetries, signal: request.signal }),
+    // A stream is only retried if it fails before the first chunk, so callers never see duplicated text
+    stream: async function* (request: LLMRequest): AsyncGenerator<string> {
+        for (let attempt = 0; ; attempt++) {
+            const timeout = createTimeoutSignal(timeoutMs, request.signal);
+            let received = false;
+            try {
+                for await (const chunk of provider.stream({ ...request, signal: timeout.signal })) {
+                    received = true;
+                    timeout.reset();
+                    yield chunk;
+                }
+                return;
+            } catch (caught) {
+                const error = translateTimeout(caught, timeout.timedOut(), timeoutMs);
+                const retryable = error instanceof LLMError && error.retryable;
+                if (received || !retryable || attempt >= maxRetries || request.signal?.aborted) {
+                    throw error;
+                }
+                const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+                console.warn(`Retrying AI request after ${error.name} (attempt ${attempt + 1} of ${maxRetries}).`);
+                await sleep(backoffDelay(attempt, DEFAULT_BASE_DELAY_MS, DEFAULT_MAX_DELAY_MS, retryAfterMs), request.signal);
+            } finally {
+                timeout.dispose();
+            }
+        }
+    },
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MalformedOutputError, NetworkError } from './errors';
+import { withRetry } from './retry';
+import { ResponseValidationError } from '../validation';
+
+describe('withRetry', () => {
+    it('retries transient failures', async () => {
+        const operation = vi.fn()
+            .mockRejectedValueOnce(new NetworkError('offline'))
+            .mockResolvedValueOnce('ok');
+        await expect(withRetry(operation, { maxRetries: 2, baseDelayMs: 0 })).resolves.toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+        new MalformedOutputError('The AI model returned an empty response.'),
+        new ResponseValidationError('an analysis', ['summary should be a string']),
+    ])('does not retry $name', async (error) => {
+        const operation = vi.fn().mockRejectedValue(error);
+        await expect(withRetry(operation, { maxRetries: 2, baseDelayMs: 0 })).rejects.toBe(error);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
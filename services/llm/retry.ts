@@ -0,0 +1,101 @@
+import { isAbortError, LLMError, RateLimitError, TimeoutError } from "./errors";
+
+export interface RetryOptions {
+    maxRetries: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Exponential backoff with full jitter; a server-provided Retry-After wins when it is longer
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, retryAfterMs?: number): number => {
+    const jittered = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.max(jittered, retryAfterMs ?? 0);
+};
+
+export const DEFAULT_BASE_DELAY_MS = 500;
+export const DEFAULT_MAX_DELAY_MS = 8000;
+
+export const withRetry = async <T>(
+    operation: (attempt: number) => Promise<T>,
+    { maxRetries, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS, signal }: RetryOptions
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            const retryable = error instanceof LLMError && error.retryable;
+            if (!retryable || attempt >= maxRetries || signal?.aborted) {
+                throw error;
+            }
+            const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+            console.warn(`Retrying AI request after ${error.name} (attempt ${attempt + 1} of ${maxRetries}).`);
+            await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs, retryAfterMs), signal);
+        }
+    }
+};
+
+/**
+ * Derives a signal that aborts when the caller's signal does or when the timeout elapses.
+ * `timedOut()` tells the two apart; `reset()` restarts the clock (used between stream chunks).
+ */
+export const createTimeoutSignal = (timeoutMs: number, parent?: AbortSignal) => {
+    const controller = new AbortController();
+    let expired = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const start = () => {
+        clearTimeout(timer);
+        if (timeoutMs > 0) {
+            timer = setTimeout(() => {
+                expired = true;
+                controller.abort(new TimeoutError(`The AI model did not respond within ${Math.round(timeoutMs / 1000)} seconds.`));
+            }, timeoutMs);
+        }
+    };
+    const onParentAbort = () => controller.abort(parent?.reason);
+
+    if (parent?.aborted) {
+        controller.abort(parent.reason);
+    } else {
+        parent?.addEventListener('abort', onParentAbort, { once: true });
+        start();
+    }
+
+    return {
+        signal: controller.signal,
+        timedOut: () => expired,
+        reset: start,
+        dispose: () => {
+            clearTimeout(timer);
+            parent?.removeEventListener('abort', onParentAbort);
+        },
+    };
+};
+
+// Turns an abort caused by our own timeout into a TimeoutError; genuine cancellations pass through
+export const translateTimeout = (error: unknown, timedOut: boolean, timeoutMs: number): unknown => {
+    if (timedOut && (isAbortError(error) || !(error instanceof LLMError))) {
+        return new TimeoutError(`The AI model did not respond within ${Math.round(timeoutMs / 1000)} seconds.`, error);
+    }
+    return error;
+};
@@ -0,0 +1,97 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { flattenText, parseInline, parseMarkdown, safeUrl, type MarkdownBlock, type MarkdownInline } from './markdown';
+
+// Model responses as they came back, including the drift the parser has to tolerate
+const FIXTURES = ['analysis', 'resume', 'unsafe-links'];
+
+const fixture = (name: string): string =>
+    readFileSync(new URL(`./__fixtures__/markdown/${name}.md`, import.meta.url), 'utf8');
+
+const inlineLinks = (nodes: MarkdownInline[]): (string | null)[] =>
+    nodes.flatMap(node => [...(node.type === 'link' ? [node.href] : []), ...('children' in node ? inlineLinks(node.children) : [])]);
+
+const blockLinks = (blocks: MarkdownBlock[]): (string | null)[] =>
+    blocks.flatMap(block => {
+        switch (block.type) {
+            case 'heading':
+            case 'paragraph':
+                return inlineLinks(block.children);
+            case 'list':
+                return block.items.flatMap(item => blockLinks(item.children));
+            case 'blockquote':
+                return blockLinks(block.children);
+            case 'table':
+                return [...block.header, ...block.rows.flat()].flatMap(inlineLinks);
+            default:
+                return [];
+        }
+    });
+
+describe('parseMarkdown golden output', () => {
+    it.each(FIXTURES)('%s', async (name) => {
+        await expect(`${JSON.stringify(parseMarkdown(fixture(name)), null, 2)}\n`).toMatchFileSnapshot(`./__fixtures__/markdown/${name}.ast.json`);
+    });
+});
+
+describe('safeUrl', () => {
+    it.each([
+        'https://example.dev',
+        'http://example.dev/path?q=1',
+        'mailto:alex@example.com',
+        'tel:+4930123456',
+        '/profile/alex',
+        '#experience',
+        'example.dev/blog',
+    ])('keeps %s', (url) => {
+        expect(safeUrl(url)).toBe(url);
+    });
+
+    it.each([
+        'javascript:alert(1)',
+        'JaVaScRiPt:alert(1)',
+        ' javascript:alert(1)',
+        'java\tscript:alert(1)',
+        'java\nscript:alert(1)',
+        '\u0001javascript:alert(1)',
+        'javascript\u0000:alert(1)',
+        'vbscript:msgbox(1)',
+        'data:text/html;base64,PHNjcmlwdD4=',
+        'file:///etc/passwd',
+    ])('rejects %j', (url) => {
+        expect(safeUrl(url)).toBeNull();
+    });
+
+    it('rejects entity-encoded schemes once the link is parsed', () => {
+        const links = inlineLinks(parseInline('[a](&#106;avascript:alert(1)) [b](&#x6A;avascript&#x3A;alert(1)) [c](<javascript:alert(1)>)'));
+        expect(links).toEqual([null, null, null]);
+    });
+
+    it('leaves no unsafe link in the unsafe fixture', () => {
+        const links = blockLinks(parseMarkdown(fixture('unsafe-links')));
+        expect(links.filter((href): href is string => href !== null)).toEqual([
+            'https://example.dev',
+            'mailto:alex@example.com',
+            'tel:+4930123456',
+            '/profile/alex',
+            'https://github.com/alex-example',
+        ]);
+    });
+});
+
+describe('parseMarkdown structure', () => {
+    it('nests sub-bullets under their item', () => {
+        const [list] = parseMarkdown('* Parent\n    * Child\n* Sibling');
+        expect(list.type === 'list' && list.items.map(item => item.children.map(child => child.type))).toEqual([['paragraph', 'list'], ['paragraph']]);
+    });
+
+    it('keeps the start number of an ordered list', () => {
+        const [list] = parseMarkdown('3. Third\n4. Fourth');
+        expect(list.type === 'list' && [list.ordered, list.start]).toEqual([true, 3]);
+    });
+
+    it('reads emphasis inside table cells', () => {
+        const [table] = parseMarkdown('| Skill | Level |\n|---|---|\n| *Go* | **Expert** |');
+        expect(table.type === 'table' && table.rows[0].map(flattenText)).toEqual(['Go', 'Expert']);
+    });
+});
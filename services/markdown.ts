@@ -0,0 +1,586 @@
+// A CommonMark parser for model-written text, plus the GitHub tables and ~~strikethrough~~ models like to use.
+// Raw HTML is kept as text, images are reduced to their alt text and reference-style links are not resolved,
+// so nothing a model writes can load remote content or run script.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'emphasis' | 'strong' | 'strikethrough'; children: MarkdownInline[] }
+    // href is null when the URL was rejected as unsafe; the link text is still shown
+    | { type: 'link'; href: string | null; title: string; children: MarkdownInline[] }
+    | { type: 'softbreak' }
+    | { type: 'hardbreak' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+    children: MarkdownBlock[];
+    line: number;
+}
+
+// line is the zero-based index of the block's first source line, so callers can map blocks back to the text
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[]; line: number }
+    | { type: 'paragraph'; children: MarkdownInline[]; line: number }
+    // Tight lists render their paragraphs without <p>
+    | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: MarkdownListItem[]; line: number }
+    | { type: 'blockquote'; children: MarkdownBlock[]; line: number }
+    | { type: 'code'; language: string; text: string; line: number }
+    | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][]; line: number }
+    | { type: 'rule'; line: number };
+
+// ---------- URLs ----------
+
+const SAFE_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+// Only web, mail and phone links and relative URLs; javascript:, data: and the like are rejected, however they are obfuscated
+export const safeUrl = (url: string): string | null => {
+    const trimmed = url.trim();
+    // Browsers ignore control characters and whitespace inside a scheme, e.g. "java\tscript:"
+    const scheme = trimmed.replace(/[\u0000- \u007F]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+    return scheme && !SAFE_SCHEMES.has(scheme[1].toLowerCase()) ? null : trimmed;
+};
+
+// ---------- Inline ----------
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…', copy: '©', reg: '®', trade: '™' };
+
+const decodeEntities = (text: string): string =>
+    text.replace(/&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([a-zA-Z]+));/g, (match, decimal?: string, hex?: string, name?: string) => {
+        if (name) return NAMED_ENTITIES[name] ?? match;
+        const code = decimal ? Number.parseInt(decimal, 10) : Number.parseInt(hex ?? '', 16);
+        return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : '�';
+    });
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+const unescape = (text: string): string => decodeEntities(text.replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1'));
+
+const isWhitespace = (char: string): boolean => !char || /\s/u.test(char);
+const isPunctuation = (char: string): boolean => /[\p{P}\p{S}]/u.test(char);
+
+interface Delimiter {
+    type: 'delimiter';
+    char: '*' | '_' | '~';
+    count: number;
+    // Length of the run before any of it was used, for the "multiple of 3" rule
+    length: number;
+    canOpen: boolean;
+    canClose: boolean;
+}
+
+type InlineToken = MarkdownInline | Delimiter;
+
+const isDelimiter = (token: InlineToken): token is Delimiter => token.type === 'delimiter';
+
+// Reads a link destination and optional title after "](", returning where the closing parenthesis ends
+const parseLinkTail = (text: string, start: number): { href: string; title: string; end: number } | null => {
+    let i = start;
+    const skipSpace = () => {
+        while (i < text.length && /[ \t\n]/.test(text[i])) i++;
+    };
+    skipSpace();
+    let href = '';
+    if (text[i] === '<') {
+        const close = text.indexOf('>', i);
+        if (close < 0 || /[\n<]/.test(text.slice(i + 1, close))) return null;
+        href = text.slice(i + 1, close);
+        i = close + 1;
+    } else {
+        let depth = 0;
+        const from = i;
+        while (i < text.length && !/[\s\u0000-\u001F]/.test(text[i])) {
+            if (text[i] === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+                i += 2;
+                continue;
+            }
+            if (text[i] === '(') depth++;
+            if (text[i] === ')') {
+                if (depth === 0) break;
+                depth--;
+            }
+            i++;
+        }
+        if (depth !== 0) return null;
+        href = text.slice(from, i);
+    }
+    const beforeTitle = i;
+    skipSpace();
+    let title = '';
+    const quote = text[i];
+    if (i > beforeTitle && (quote === '"' || quote === "'" || quote === '(')) {
+        const closing = quote === '(' ? ')' : quote;
+        let j = i + 1;
+        while (j < text.length && text[j] !== closing) j += text[j] === '\\' ? 2 : 1;
+        if (j >= text.length) return null;
+        title = text.slice(i + 1, j);
+        i = j + 1;
+        skipSpace();
+    }
+    if (text[i] !== ')') return null;
+    return { href: unescape(href), title: unescape(title), end: i + 1 };
+};
+
+// Index of the "]" closing the bracket at start, skipping code spans and escaped brackets
+const findClosingBracket = (text: string, start: number): number => {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '`') {
+            const run = text.slice(i).match(/^`+/)![0];
+            const close = text.indexOf(run, i + run.length);
+            if (close >= 0) i = close + run.length - 1;
+        } else if (char === '[') {
+            depth++;
+        } else if (char === ']') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+};
+
+const pushText = (tokens: InlineToken[], text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'text') {
+        last.text += text;
+    } else if (text) {
+        tokens.push({ type: 'text', text });
+    }
+};
+
+const AUTOLINK = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\u0000- ]*)>/;
+const EMAIL_AUTOLINK = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+
+const tokenizeInline = (text: string, allowLinks: boolean): InlineToken[] => {
+    const tokens: InlineToken[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\\') {
+            const next = text[i + 1];
+            if (next === '\n') {
+                tokens.push({ type: 'hardbreak' });
+                i += 2;
+                while (text[i] === ' ') i++;
+            } else if (next && ESCAPABLE.test(next)) {
+                pushText(tokens, next);
+                i += 2;
+            } else {
+                pushText(tokens, char);
+                i++;
+            }
+        } else if (char === '`') {
+            const run = text.slice(i).match(/^`+/)![0];
+            let close = text.indexOf(run, i + run.length);
+            // The closing run must be exactly as long as the opening one
+            while (close >= 0 && text[close + run.length] === '`') {
+                const longer = text.slice(close).match(/^`+/)![0];
+                close = text.indexOf(run, close + longer.length);
+            }
+            if (close < 0) {
+                pushText(tokens, run);
+                i += run.length;
+            } else {
+                let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+                if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+                tokens.push({ type: 'code', text: code });
+                i = close + run.length;
+            }
+        } else if (char === '<') {
+            const autolink = text.slice(i).match(AUTOLINK);
+            const email = autolink ? null : text.slice(i).match(EMAIL_AUTOLINK);
+            if (allowLinks && (autolink || email)) {
+                const target = (autolink ?? email)![1];
+                tokens.push({ type: 'link', href: safeUrl(autolink ? target : `mailto:${target}`), title: '', children: [{ type: 'text', text: target }] });
+                i += (autolink ?? email)![0].length;
+            } else {
+                pushText(tokens, char);
+                i++;
+            }
+        } else if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+            const isImage = char === '!';
+            const open = isImage ? i + 1 : i;
+            const close = findClosingBracket(text, open);
+            const tail = close >= 0 && text[close + 1] === '(' ? parseLinkTail(text, close + 2) : null;
+            if (tail && (allowLinks || isImage)) {
+                const label = text.slice(open + 1, close);
+                if (isImage) {
+                    // Images are never loaded; the alt text stands in for them
+                    pushText(tokens, flattenText(parseInline(label)));
+                } else {
+                    tokens.push({ type: 'link', href: safeUrl(tail.href), title: tail.title, children: parseInlineTokens(label, false) });
+                }
+                i = tail.end;
+            } else {
+                pushText(tokens, isImage ? '![' : '[');
+                i = open + 1;
+            }
+        } else if (char === '*' || char === '_' || char === '~') {
+            const run = text.slice(i).match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/)![0];
+            const before = text[i - 1] ?? '';
+            const after = text[i + run.length] ?? '';
+            const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+            const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+            if (char === '~' && run.length > 2) {
+                pushText(tokens, run);
+            } else {
+                tokens.push({
+                    type: 'delimiter',
+                    char,
+                    count: run.length,
+                    length: run.length,
+                    // Intraword underscores, as in snake_case, never start or end emphasis
+                    canOpen: char === '_' ? leftFlanking && (!rightFlanking || isPunctuation(before)) : leftFlanking,
+                    canClose: char === '_' ? rightFlanking && (!leftFlanking || isPunctuation(after)) : rightFlanking,
+                });
+            }
+            i += run.length;
+        } else if (char === '\n') {
+            const last = tokens[tokens.length - 1];
+            let hard = false;
+            if (last?.type === 'text') {
+                hard = / {2,}$/.test(last.text);
+                last.text = last.text.replace(/ +$/, '');
+            }
+            tokens.push({ type: hard ? 'hardbreak' : 'softbreak' });
+            i++;
+            while (text[i] === ' ' || text[i] === '\t') i++;
+        } else {
+            const next = text.slice(i).search(/[\\`<[!*_~\n]/);
+            const end = next <= 0 ? (next === 0 ? i + 1 : text.length) : i + next;
+            pushText(tokens, decodeEntities(text.slice(i, end)));
+            i = end;
+        }
+    }
+    return tokens;
+};
+
+// A run can only close an opener of the same character; * and _ also follow CommonMark's "multiple of 3" rule
+const canMatch = (opener: Delimiter, closer: Delimiter): boolean => {
+    if (opener.char !== closer.char || !opener.canOpen) return false;
+    if (opener.char === '~') return opener.count === closer.count;
+    return !((opener.canClose || closer.canOpen) && (opener.length + closer.length) % 3 === 0 && (opener.length % 3 !== 0 || closer.length % 3 !== 0));
+};
+
+const toNodes = (tokens: InlineToken[]): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    tokens.forEach(token => {
+        if (isDelimiter(token)) {
+            pushText(nodes, token.char.repeat(token.count));
+        } else if (token.type === 'text') {
+            pushText(nodes, token.text);
+        } else {
+            nodes.push(token);
+        }
+    });
+    return nodes;
+};
+
+// Pairs up the delimiter runs from the innermost closer outwards, as in the CommonMark reference algorithm
+const resolveEmphasis = (tokens: InlineToken[]): MarkdownInline[] => {
+    let c = 0;
+    while (c < tokens.length) {
+        const closer = tokens[c];
+        if (!isDelimiter(closer) || !closer.canClose) {
+            c++;
+            continue;
+        }
+        let o = c - 1;
+        while (o >= 0 && !(isDelimiter(tokens[o]) && canMatch(tokens[o] as Delimiter, closer))) o--;
+        if (o < 0) {
+            c++;
+            continue;
+        }
+        const opener = tokens[o] as Delimiter;
+        const used = closer.char === '~' ? closer.count : opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+        const node: MarkdownInline = {
+            type: closer.char === '~' ? 'strikethrough' : used === 2 ? 'strong' : 'emphasis',
+            children: toNodes(tokens.slice(o + 1, c)),
+        };
+        opener.count -= used;
+        closer.count -= used;
+        const replacement: InlineToken[] = [...(opener.count > 0 ? [opener] : []), node, ...(closer.count > 0 ? [closer] : [])];
+        tokens.splice(o, c - o + 1, ...replacement);
+        // A closer with delimiters left over is tried again against the next opener
+        c = o + replacement.length - (closer.count > 0 ? 1 : 0);
+    }
+    return toNodes(tokens);
+};
+
+const parseInlineTokens = (text: string, allowLinks: boolean): MarkdownInline[] =>
+    resolveEmphasis(tokenizeInline(text, allowLinks));
+
+export const parseInline = (text: string): MarkdownInline[] => parseInlineTokens(text.trim(), true);
+
+// The visible text, e.g. for exports that cannot show formatting
+export const flattenText = (nodes: MarkdownInline[]): string =>
+    nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+            case 'code':
+                return node.text;
+            case 'softbreak':
+            case 'hardbreak':
+                return '\n';
+            default:
+                return flattenText(node.children);
+        }
+    }).join('');
+
+// ---------- Blocks ----------
+
+interface SourceLine {
+    text: string;
+    line: number;
+}
+
+const indentOf = (text: string): number => text.match(/^ */)![0].length;
+const isBlank = (text: string): boolean => !text.trim();
+const dedent = (text: string, columns: number): string => text.slice(Math.min(columns, indentOf(text)));
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+|$)(.*)$/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const FENCE = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const splitTableRow = (text: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    const row = text.trim().replace(/^\|/, '');
+    for (let i = 0; i < row.length; i++) {
+        if (row[i] === '\\' && row[i + 1] === '|') {
+            cell += '|';
+            i++;
+        } else if (row[i] === '|') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += row[i];
+        }
+    }
+    if (cell.trim() || !row.endsWith('|')) cells.push(cell.trim());
+    return cells;
+};
+
+const tableAlign = (cell: string): TableAlign => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (text: string): boolean => {
+    if (ATX_HEADING.test(text) || THEMATIC_BREAK.test(text) || FENCE.test(text) || BLOCKQUOTE.test(text)) return true;
+    const item = text.match(LIST_ITEM);
+    // An empty item, or an ordered one not starting at 1, would turn ordinary prose into a list
+    return !!item && !isBlank(text.slice(item[0].length)) && (/^[-+*]$/.test(item[2]) || /^1[.)]$/.test(item[2]));
+};
+
+const listMarkerKind = (marker: string): string => (/^\d/.test(marker) ? `ordered${marker.slice(-1)}` : marker);
+
+interface ParsedBlock {
+    block: MarkdownBlock;
+    // Last source line that belongs to the block
+    end: number;
+}
+
+const parseListItem = (lines: SourceLine[], start: number): { item: MarkdownListItem; end: number; next: number } => {
+    const first = lines[start];
+    const match = first.text.match(LIST_ITEM)!;
+    const rest = first.text.slice(match[0].length);
+    const spacing = match[3].length;
+    // Content after five or more spaces is indented code, which starts one space after the marker
+    const offset = match[1].length + match[2].length + (isBlank(rest) || spacing > 4 ? 1 : spacing);
+    const content: SourceLine[] = [{ text: isBlank(rest) ? '' : first.text.slice(offset), line: first.line }];
+    let i = start + 1;
+    let lazyAllowed = !isBlank(rest);
+    while (i < lines.length) {
+        const { text, line } = lines[i];
+        if (isBlank(text)) {
+            // An item that starts with a blank line may only continue with indented content
+            if (content.length === 1 && isBlank(content[0].text)) break;
+            content.push({ text: '', line });
+            lazyAllowed = false;
+        } else if (indentOf(text) >= offset) {
+            content.push({ text: text.slice(offset), line });
+            lazyAllowed = true;
+        } else if (lazyAllowed && !interruptsParagraph(text) && !LIST_ITEM.test(text)) {
+            // Lazy continuation of the item's paragraph
+            content.push({ text: text.trimStart(), line });
+        } else {
+            break;
+        }
+        i++;
+    }
+    while (content.length > 1 && isBlank(content[content.length - 1].text)) content.pop();
+    const parsed = parseBlockList(content);
+    return {
+        item: { children: parsed.map(entry => entry.block), line: first.line },
+        end: content[content.length - 1].line,
+        next: i,
+    };
+};
+
+const parseList = (lines: SourceLine[], start: number): { parsed: ParsedBlock; next: number } => {
+    const firstMarker = lines[start].text.match(LIST_ITEM)![2];
+    const kind = listMarkerKind(firstMarker);
+    const items: MarkdownListItem[] = [];
+    let tight = true;
+    let i = start;
+    let end = lines[start].line;
+    while (i < lines.length) {
+        const match = lines[i].text.match(LIST_ITEM);
+        if (!match || listMarkerKind(match[2]) !== kind || THEMATIC_BREAK.test(lines[i].text)) break;
+        if (items.length > 0 && lines[i].line > end + 1) tight = false;
+        const { item, end: itemEnd, next } = parseListItem(lines, i);
+        items.push(item);
+        end = itemEnd;
+        i = next;
+    }
+    // Blank lines between the blocks of one item also make the list loose
+    if (tight) tight = items.every(isTightItem);
+    return {
+        parsed: {
+            block: { type: 'list', ordered: kind.startsWith('ordered'), start: Number.parseInt(firstMarker, 10) || 1, tight, items, line: lines[start].line },
+            end,
+        },
+        next: i,
+    };
+};
+
+const blockEnds = new WeakMap<MarkdownBlock, number>();
+
+// Loose when two blocks directly inside the item are separated by a blank line
+const isTightItem = (item: MarkdownListItem): boolean =>
+    item.children.every((block, i) => i === 0 || block.line <= (blockEnds.get(item.children[i - 1]) ?? block.line) + 1);
+
+const parseBlockList = (lines: SourceLine[]): ParsedBlock[] => {
+    const blocks: ParsedBlock[] = [];
+    const add = (block: MarkdownBlock, end: number) => {
+        blockEnds.set(block, end);
+        blocks.push({ block, end });
+    };
+    let i = 0;
+    while (i < lines.length) {
+        const { text, line } = lines[i];
+        if (isBlank(text)) {
+            i++;
+            continue;
+        }
+
+        if (indentOf(text) >= 4) {
+            const code: SourceLine[] = [];
+            while (i < lines.length && (isBlank(lines[i].text) || indentOf(lines[i].text) >= 4)) code.push(lines[i++]);
+            while (code.length > 0 && isBlank(code[code.length - 1].text)) code.pop();
+            add({ type: 'code', language: '', text: code.map(entry => dedent(entry.text, 4)).join('\n'), line }, code[code.length - 1].line);
+            i = lines.indexOf(code[code.length - 1]) + 1;
+            continue;
+        }
+
+        const fence = text.match(FENCE);
+        if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+            const [, indent, marker, info] = fence;
+            const code: string[] = [];
+            let j = i + 1;
+            let closed = false;
+            while (j < lines.length) {
+                const closing = lines[j].text.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+                if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+                    closed = true;
+                    break;
+                }
+                code.push(dedent(lines[j].text, indent.length));
+                j++;
+            }
+            add({ type: 'code', language: unescape(info.trim().split(/\s+/)[0] ?? ''), text: code.join('\n'), line }, lines[Math.min(j, lines.length - 1)].line);
+            i = closed ? j + 1 : j;
+            continue;
+        }
+
+        const heading = text.match(ATX_HEADING);
+        if (heading) {
+            const content = heading[2].replace(/(?:^|[ \t]+)#+[ \t]*$/, '').trim();
+            add({ type: 'heading', level: heading[1].length, children: parseInline(content), line }, line);
+            i++;
+            continue;
+        }
+
+        if (THEMATIC_BREAK.test(text)) {
+            add({ type: 'rule', line }, line);
+            i++;
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(text)) {
+            const quoted: SourceLine[] = [];
+            while (i < lines.length && !isBlank(lines[i].text)) {
+                const current = lines[i].text;
+                if (BLOCKQUOTE.test(current)) {
+                    quoted.push({ text: current.replace(BLOCKQUOTE, ''), line: lines[i].line });
+                } else if (!interruptsParagraph(current)) {
+                    // Lazy continuation of a quoted paragraph
+                    quoted.push(lines[i]);
+                } else {
+                    break;
+                }
+                i++;
+            }
+            add({ type: 'blockquote', children: parseBlockList(quoted).map(entry => entry.block), line }, quoted[quoted.length - 1].line);
+            continue;
+        }
+
+        if (LIST_ITEM.test(text)) {
+            const { parsed, next } = parseList(lines, i);
+            add(parsed.block, parsed.end);
+            i = next;
+            continue;
+        }
+
+        // GitHub tables: a header row, a delimiter row with the same number of cells, then rows until a blank line
+        if (text.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1].text)) {
+            const header = splitTableRow(text);
+            const delimiters = splitTableRow(lines[i + 1].text);
+            if (header.length === delimiters.length) {
+                const rows: MarkdownInline[][][] = [];
+                let j = i + 2;
+                while (j < lines.length && !isBlank(lines[j].text) && !interruptsParagraph(lines[j].text)) {
+                    const cells = splitTableRow(lines[j].text);
+                    rows.push(header.map((_, k) => parseInline(cells[k] ?? '')));
+                    j++;
+                }
+                add({ type: 'table', align: delimiters.map(tableAlign), header: header.map(parseInline), rows, line }, lines[j - 1].line);
+                i = j;
+                continue;
+            }
+        }
+
+        const paragraph: SourceLine[] = [lines[i++]];
+        let level = 0;
+        while (i < lines.length && !isBlank(lines[i].text)) {
+            const underline = lines[i].text.match(SETEXT_UNDERLINE);
+            if (underline) {
+                level = underline[1][0] === '=' ? 1 : 2;
+                i++;
+                break;
+            }
+            if (interruptsParagraph(lines[i].text)) break;
+            paragraph.push(lines[i++]);
+        }
+        const content = paragraph.map(entry => entry.text.trimStart()).join('\n');
+        add(
+            level > 0 ? { type: 'heading', level, children: parseInline(content), line } : { type: 'paragraph', children: parseInline(content), line },
+            lines[i - 1].line,
+        );
+    }
+    return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] =>
+    parseBlockList(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n').map((line, index) => ({ text: line, line: index })))
+        .map(entry => entry.block);
@@ -0,0 +1,127 @@
+import type { OutputLanguage } from "../types";
+
+// Headings of the resume sections that get structured handling
+export interface ResumeHeadings {
+    summary: string;
+    skills: string;
+    experience: string;
+    projects: string;
+    education: string;
+    certifications: string;
+    publications: string;
+    languages: string;
+}
+
+export interface OutputLanguageConfig {
+    // Shown in the language picker, in the language itself
+    label: string;
+    // English name used in the prompts
+    promptName: string;
+    // Locale for dates formatted in the app, e.g. the cover letter date
+    locale: string;
+    headings: ResumeHeadings;
+    // How a resume writes a start date and an ongoing role's end
+    dateExample: string;
+    present: string;
+    // Conventional cover letter opening and closing
+    greeting: string;
+    signOff: string;
+}
+
+export const OUTPUT_LANGUAGES: Record<OutputLanguage, OutputLanguageConfig> = {
+    en: {
+        label: 'English',
+        promptName: 'English',
+        locale: 'en-US',
+        headings: { summary: 'Professional Summary', skills: 'Skills', experience: 'Work Experience', projects: 'Projects & Open Source', education: 'Education', certifications: 'Certifications', publications: 'Publications', languages: 'Languages' },
+        dateExample: 'Jan 2020',
+        present: 'Present',
+        greeting: 'Dear Hiring Manager,',
+        signOff: 'Sincerely,',
+    },
+    de: {
+        label: 'Deutsch',
+        promptName: 'German',
+        locale: 'de-DE',
+        headings: { summary: 'Profil', skills: 'Kenntnisse', experience: 'Berufserfahrung', projects: 'Projekte & Open Source', education: 'Ausbildung', certifications: 'Zertifikate', publications: 'Publikationen', languages: 'Sprachen' },
+        dateExample: '01/2020',
+        present: 'heute',
+        greeting: 'Sehr geehrte Damen und Herren,',
+        signOff: 'Mit freundlichen Grüßen',
+    },
+    fr: {
+        label: 'Français',
+        promptName: 'French',
+        locale: 'fr-FR',
+        headings: { summary: 'Profil professionnel', skills: 'Compétences', experience: 'Expérience professionnelle', projects: 'Projets & Open Source', education: 'Formation', certifications: 'Certifications', publications: 'Publications', languages: 'Langues' },
+        dateExample: '01/2020',
+        present: "aujourd'hui",
+        greeting: 'Madame, Monsieur,',
+        signOff: 'Cordialement,',
+    },
+    'pt-BR': {
+        label: 'Português (Brasil)',
+        promptName: 'Brazilian Portuguese',
+        locale: 'pt-BR',
+        headings: { summary: 'Resumo Profissional', skills: 'Competências', experience: 'Experiência Profissional', projects: 'Projetos & Open Source', education: 'Formação Acadêmica', certifications: 'Certificações', publications: 'Publicações', languages: 'Idiomas' },
+        dateExample: '01/2020',
+        present: 'atual',
+        greeting: 'Prezados(as),',
+        signOff: 'Atenciosamente,',
+    },
+};
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'en';
+
+export const isOutputLanguage = (value: unknown): value is OutputLanguage =>
+    typeof value === 'string' && value in OUTPUT_LANGUAGES;
+
+const normalizeHeading = (title: string): string => title.normalize('NFC').trim().replace(/:$/, '').toLowerCase();
+
+// Every language's headings, so a resume keeps parsing after the setting changes
+const HEADING_KINDS = new Map<string, keyof ResumeHeadings>(
+    Object.values(OUTPUT_LANGUAGES).flatMap(({ headings }) =>
+        (Object.keys(headings) as (keyof ResumeHeadings)[]).map(kind => [normalizeHeading(headings[kind]), kind] as const)
+    )
+);
+
+// Headings models write instead of the requested ones, e.g. "Technical Skills" or "Employment History"; checked in order
+const HEADING_VARIANTS: [RegExp, keyof ResumeHeadings][] = [
+    // Anchored, since "Programming Languages" is a skill category
+    [/^(?:spoken |foreign )?languages?(?: skills)?$|^sprachen$|sprachkenntnisse|^langues$|^idiomas$|^l\u00EDnguas$/, 'languages'],
+    [/summary|profile|about me|objective|zusammenfassung|profil|r\u00E9sum\u00E9|resumo|perfil|sobre/, 'summary'],
+    [/skill|competenc|expertise|kenntnisse|f\u00E4higkeiten|comp\u00E9tences|compet\u00EAncias|habilidades/, 'skills'],
+    [/certif|licen[cs]e|zertifi/, 'certifications'],
+    [/publica|publikation|ver\u00F6ffentlichung|papers|articles|talks/, 'publications'],
+    [/education|academic|studies|ausbildung|studium|bildung|formation|\u00E9tudes|forma\u00E7\u00E3o|educa\u00E7\u00E3o/, 'education'],
+    [/proje[ck]?t|open source|portfolio/, 'projects'],
+    [/experience|employment|work history|career|berufserfahrung|berufliche|exp\u00E9rience|experi\u00EAncia/, 'experience'],
+];
+
+// The exact heading of any language first, then the common variants
+export const resumeHeadingKind = (title: string): keyof ResumeHeadings | undefined => {
+    const heading = normalizeHeading(title);
+    return HEADING_KINDS.get(heading) ?? HEADING_VARIANTS.find(([pattern]) => pattern.test(heading))?.[1];
+};
+
+// Only the exact headings, for lines that may or may not be headings, such as a bold line on its own
+export const isExactResumeHeading = (title: string): boolean => HEADING_KINDS.has(normalizeHeading(title));
+
+export const formatLongDate = (date: Date, language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): string =>
+    date.toLocaleDateString(OUTPUT_LANGUAGES[language].locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const LANGUAGE_STORAGE_KEY = 'output-language';
+
+export const loadOutputLanguage = (): OutputLanguage => {
+    try {
+        const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+        if (isOutputLanguage(stored)) return stored;
+    } catch (error) {
+        console.error('Could not read saved output language:', error);
+    }
+    return DEFAULT_OUTPUT_LANGUAGE;
+};
+
+export const saveOutputLanguage = (language: OutputLanguage): void => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+};
@@ -0,0 +1,72 @@
+interface ScanState {
+    closers: string[];
+    inString: boolean;
+    pendingEscape: boolean;
+}
+
+const scan = (text: string): ScanState => {
+    const closers: string[] = [];
+    let inString = false;
+    let pendingEscape = false;
+    for (const char of text) {
+        if (inString) {
+            if (pendingEscape) {
+                pendingEscape = false;
+            } else if (char === '\\') {
+                pendingEscape = true;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            closers.push('}');
+        } else if (char === '[') {
+            closers.push(']');
+        } else if (char === '}' || char === ']') {
+            closers.pop();
+        }
+    }
+    return { closers, inString, pendingEscape };
+};
+
+const tryParse = (text: string): { ok: true; value: unknown } | { ok: false } => {
+    try {
+        return { ok: true, value: JSON.parse(text) };
+    } catch {
+        return { ok: false };
+    }
+};
+
+// Trailing fragments that cannot be closed into valid JSON: separators, dangling keys and half-written literals
+const TRAILING_JUNK = [
+    /[,:\s]+$/,
+    /[{,]\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/,
+    /(?:-?[\d.eE+-]+|t(?:r(?:ue?)?)?|f(?:a(?:l(?:se?)?)?)?|n(?:u(?:ll?)?)?)$/,
+];
+
+/**
+ * Parses the prefix of a JSON document that is still being streamed by closing any open
+ * strings, arrays and objects. Returns undefined when nothing usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+    let candidate = text.trim().replace(/^```(?:json)?\s*/i, '');
+    if (!candidate) return undefined;
+
+    const { inString, pendingEscape } = scan(candidate);
+    if (inString) {
+        candidate = (pendingEscape ? candidate.slice(0, -1) : candidate).replace(/\\u[0-9a-fA-F]{0,3}$/, '') + '"';
+    }
+
+    while (candidate) {
+        const { closers } = scan(candidate);
+        const result = tryParse(candidate + closers.reverse().join(''));
+        if (result.ok) return result.value;
+
+        const junk = TRAILING_JUNK.find(pattern => pattern.test(candidate));
+        candidate = junk
+            ? candidate.replace(junk, match => (match.startsWith('{') ? '{' : ''))
+            : candidate.slice(0, -1);
+    }
+    return undefined;
+};
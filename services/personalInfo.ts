@@ -0,0 +1,167 @@
+import type { GitHubProfile, PersonalInfo, PersonalLink, ProfileDocument } from "../types";
+import { DEFAULT_REDACTION_SETTINGS, detectPii, profileOwnerName } from "./piiRedaction";
+import { formatProfileDocument } from "./profileDocument";
+import { isRecord, records, stringOrEmpty } from "./validation";
+
+export const EMPTY_PERSONAL_INFO: PersonalInfo = {
+    name: '',
+    headline: '',
+    email: '',
+    phone: '',
+    location: '',
+    website: '',
+    linkedin: '',
+    github: '',
+    links: [],
+};
+
+// Saved details and history entries from before the extra fields read with those fields empty
+export const toPersonalInfo = (value: unknown): PersonalInfo | null =>
+    isRecord(value)
+        ? {
+            name: stringOrEmpty(value.name),
+            headline: stringOrEmpty(value.headline),
+            email: stringOrEmpty(value.email),
+            phone: stringOrEmpty(value.phone),
+            location: stringOrEmpty(value.location),
+            website: stringOrEmpty(value.website),
+            linkedin: stringOrEmpty(value.linkedin),
+            github: stringOrEmpty(value.github),
+            links: records(value.links).map((link): PersonalLink => ({ label: stringOrEmpty(link.label), url: stringOrEmpty(link.url) })),
+        }
+        : null;
+
+// ---------- Validation ----------
+
+export type PersonalInfoField = Exclude<keyof PersonalInfo, 'links'>;
+
+// Messages by field; a link's URL is keyed by its position, e.g. "link-0"
+export type PersonalInfoErrors = Partial<Record<PersonalInfoField | `link-${number}`, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+// Digits with the usual separators and an optional extension: "+49 30 1234567", "(555) 123-4567 ext. 12"
+const PHONE_PATTERN = /^\+?[\d\s().\/-]+(?:\s*(?:ext\.?|x)\s*\d{1,5})?$/i;
+const URL_PATTERN = /^(?:https?:\/\/)?(?:[\w-]+\.)+[a-z]{2,}(?::\d+)?(?:[/?#]\S*)?$/i;
+const LINKEDIN_PATTERN = /^(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/(?:in|pub)\/[^\s/?#]+\/?(?:[?#]\S*)?$/i;
+// A GitHub username, or a link to the profile
+const GITHUB_PATTERN = /^(?:(?:https?:\/\/)?(?:www\.)?github\.com\/)?@?[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}\/?$/i;
+
+const digitCount = (text: string): number => text.replace(/\D/g, '').length;
+
+// Empty fields are valid; only what was filled in has to look right
+export const validatePersonalInfo = (info: PersonalInfo): PersonalInfoErrors => {
+    const errors: PersonalInfoErrors = {};
+    const email = info.email.trim();
+    const phone = info.phone.trim();
+    if (email && !EMAIL_PATTERN.test(email)) errors.email = 'Enter an email address like name@example.com.';
+    const phoneDigits = digitCount(phone.replace(/(?:ext\.?|x)\s*\d+$/i, ''));
+    if (phone && (!PHONE_PATTERN.test(phone) || phoneDigits < 7 || phoneDigits > 15)) {
+        errors.phone = 'Enter a phone number with 7 to 15 digits, e.g. +1 555 123 4567.';
+    }
+    if (info.website.trim() && !URL_PATTERN.test(info.website.trim())) errors.website = 'Enter a web address like example.com.';
+    if (info.linkedin.trim() && !LINKEDIN_PATTERN.test(info.linkedin.trim())) errors.linkedin = 'Enter your profile link, e.g. linkedin.com/in/your-name.';
+    if (info.github.trim() && !GITHUB_PATTERN.test(info.github.trim())) errors.github = 'Enter a GitHub username or github.com/username.';
+    if (info.headline.length > 120) errors.headline = 'Keep the headline to one line of at most 120 characters.';
+    info.links.forEach((link, i) => {
+        if (link.url.trim() && !URL_PATTERN.test(link.url.trim())) errors[`link-${i}`] = 'Enter a web address like example.com/blog.';
+    });
+    return errors;
+};
+
+// ---------- Formatting ----------
+
+// How links appear in the header: without the protocol, "www." and a trailing slash
+export const displayUrl = (url: string): string =>
+    url.trim().replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/$/, '');
+
+const githubUrl = (github: string): string => {
+    const value = github.trim().replace(/^@/, '');
+    return !value || /github\.com/i.test(value) ? displayUrl(value) : `github.com/${value.replace(/\/$/, '')}`;
+};
+
+// The contact line under the name, in the order resumes usually list it
+export const contactItems = (info: PersonalInfo): string[] =>
+    [
+        info.email,
+        info.phone,
+        info.location,
+        displayUrl(info.linkedin),
+        githubUrl(info.github),
+        displayUrl(info.website),
+        ...info.links.map(link => displayUrl(link.url)),
+    ].map(item => item.trim()).filter(Boolean);
+
+// "- Label: value" lines for the details that were filled in, for the resume prompt
+export const personalInfoLines = (info: PersonalInfo): string[] =>
+    [
+        ['Name', info.name],
+        ['Headline', info.headline],
+        ['Email', info.email],
+        ['Phone', info.phone],
+        ['Location', info.location],
+        ['LinkedIn', displayUrl(info.linkedin)],
+        ['GitHub', githubUrl(info.github)],
+        ['Website/Portfolio', displayUrl(info.website)],
+        ...info.links.map(link => [link.label.trim() || 'Link', displayUrl(link.url)]),
+    ]
+        .filter(([, value]) => value.trim())
+        .map(([label, value]) => `- ${label}: ${value.trim()}`);
+
+// ---------- Auto-fill ----------
+
+const WEB_URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()]+[^\s<>().,;:]/gi;
+const GITHUB_URL_PATTERN = /\b(?:https?:\/\/)?(?:www\.)?github\.com\/[a-z\d-]+\/?/i;
+
+// Contact details found in the profile and the linked GitHub account
+export const personalInfoFromProfile = (profile: ProfileDocument, github?: GitHubProfile | null): PersonalInfo => {
+    const text = formatProfileDocument(profile);
+    const found = detectPii(text, DEFAULT_REDACTION_SETTINGS);
+    const first = (kind: 'email' | 'phone' | 'url') => found.find(item => item.kind === kind)?.value ?? '';
+    const website = (text.match(WEB_URL_PATTERN) ?? []).find(url => !/linkedin\.com|github\.com|xing\.com/i.test(url)) ?? '';
+    return {
+        ...EMPTY_PERSONAL_INFO,
+        name: profileOwnerName(profile),
+        headline: profile.headline.trim(),
+        email: first('email'),
+        phone: first('phone'),
+        location: profile.location.trim(),
+        website,
+        // The profile URL detector also finds XING profiles
+        linkedin: /linkedin\.com/i.test(first('url')) ? first('url') : '',
+        github: github?.profileUrl ?? text.match(GITHUB_URL_PATTERN)?.[0] ?? '',
+    };
+};
+
+// Fills the empty fields only, so nothing the user typed is overwritten
+export const fillEmptyFields = (info: PersonalInfo, found: PersonalInfo): PersonalInfo => {
+    const filled = { ...info };
+    (Object.keys(EMPTY_PERSONAL_INFO) as (keyof PersonalInfo)[]).forEach(field => {
+        if (field === 'links') {
+            if (info.links.length === 0) filled.links = found.links;
+        } else if (!info[field].trim()) {
+            filled[field] = found[field];
+        }
+    });
+    return filled;
+};
+
+// ---------- Storage ----------
+
+const PERSONAL_INFO_STORAGE_KEY = 'personal-info';
+
+export const loadPersonalInfo = (): PersonalInfo => {
+    try {
+        return toPersonalInfo(JSON.parse(localStorage.getItem(PERSONAL_INFO_STORAGE_KEY) ?? 'null')) ?? EMPTY_PERSONAL_INFO;
+    } catch (error) {
+        console.error('Could not read saved personal details:', error);
+    }
+    return EMPTY_PERSONAL_INFO;
+};
+
+export const savePersonalInfo = (info: PersonalInfo): void => {
+    localStorage.setItem(PERSONAL_INFO_STORAGE_KEY, JSON.stringify(info));
+};
+
+export const clearPersonalInfo = (): void => {
+    localStorage.removeItem(PERSONAL_INFO_STORAGE_KEY);
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REDACTION_SETTINGS, detectPii, redactText } from './piiRedaction';
+
+const names = (text: string) =>
+    detectPii(text, DEFAULT_REDACTION_SETTINGS).filter(item => item.kind === 'name').map(item => item.value);
+
+describe('detectPii', () => {
+    it('ends a labelled name at the line break', () => {
+        const text = 'Name: Ann Lee\nEmail: ann@example.com\n\nAnn Lee has led three platform teams.';
+        const items = detectPii(text, DEFAULT_REDACTION_SETTINGS);
+
+        expect(names(text)).toEqual(['Ann Lee']);
+        expect(redactText(text, items)).toBe('Name: [NAME_1]\nEmail: [EMAIL_1]\n\n[NAME_1] has led three platform teams.');
+    });
+
+    it('reads one reference name per line', () => {
+        expect(names('References:\nJohn Smith\nMaria Garcia (CTO)\n')).toEqual(['John Smith', 'Maria Garcia']);
+    });
+});
+
+describe('redactText', () => {
+    it('redacts a custom term only as a whole word', () => {
+        const text = 'Built the Java services and the JavaScript front end. Java 17.';
+        const items = detectPii(text, { ...DEFAULT_REDACTION_SETTINGS, customTerms: ['Java'] });
+
+        expect(items).toMatchObject([{ kind: 'custom', value: 'Java', occurrences: 2 }]);
+        expect(redactText(text, items)).toBe('Built the [REDACTED_1] services and the JavaScript front end. [REDACTED_1] 17.');
+    });
+
+    it('leaves words that start with a short name intact', () => {
+        const text = 'Ann presented the Annual report to Anna.';
+        const items = detectPii(text, { ...DEFAULT_REDACTION_SETTINGS, knownNames: ['Ann'] });
+
+        expect(items).toMatchObject([{ kind: 'name', value: 'Ann', occurrences: 1 }]);
+        expect(redactText(text, items)).toBe('[NAME_1] presented the Annual report to Anna.');
+    });
+});
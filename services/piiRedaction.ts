@@ -0,0 +1,214 @@
+import type { ProfileDocument } from "../types";
+
+export type PiiKind = 'email' | 'phone' | 'url' | 'address' | 'name' | 'custom';
+
+export interface RedactionSettings {
+    enabled: boolean;
+    // Detected values the user chose to send as they are
+    allowed: string[];
+    // Extra terms to always redact, e.g. a former employer or a reference's name the detectors missed
+    customTerms: string[];
+    // Names known to belong to the user, such as the name of an imported profile
+    knownNames: string[];
+}
+
+// One distinct value found in a prompt and the placeholder that stands in for it
+export interface PiiItem {
+    kind: PiiKind;
+    value: string;
+    placeholder: string;
+    // False when the user chose to send it unredacted
+    redacted: boolean;
+    occurrences: number;
+}
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+    email: 'Email',
+    phone: 'Phone',
+    url: 'Profile URL',
+    address: 'Address',
+    name: 'Name',
+    custom: 'Custom term',
+};
+
+const PLACEHOLDER_PREFIXES: Record<PiiKind, string> = {
+    email: 'EMAIL',
+    phone: 'PHONE',
+    url: 'URL',
+    address: 'ADDRESS',
+    name: 'NAME',
+    custom: 'REDACTED',
+};
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = { enabled: true, allowed: [], customTerms: [], knownNames: [] };
+
+interface PiiMatch {
+    kind: PiiKind;
+    value: string;
+    index: number;
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /(?<![\w+/.])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,5}(?:[\s.-]?\d{2,5}){1,4}(?![\w/])/g;
+const PROFILE_URL_PATTERN = /(?:https?:\/\/)?(?:[\w-]+\.)?(?:linkedin\.com\/in|xing\.com\/profile)\/[\w%-]+\/?/gi;
+// Street addresses in the formats of the output languages: "12 Main Street", "Hauptstraße 5", "12 rue de la Paix", "Rua Augusta, 100"
+const ADDRESS_PATTERNS = [
+    /\b\d{1,5}\s+(?:[A-Z][\w.'-]*\s+){1,4}(?:Street|St\.?|Avenue|Ave\.?|Road|Rd\.?|Boulevard|Blvd\.?|Lane|Ln\.?|Drive|Dr\.?|Court|Ct\.?|Way|Place|Pl\.?)(?![\w])/g,
+    /(?<![\p{L}])\p{Lu}[\p{L}-]*(?:straße|strasse|str\.|weg|platz|allee|gasse)\s+\d{1,4}[a-z]?(?![\p{L}\p{N}])/gu,
+    /\b\d{1,4},?\s+(?:rue|avenue|boulevard|bd|chemin|place|allée)\s+[^\n,]+/giu,
+    /\b(?:Rua|Avenida|Av\.|Travessa|Alameda)\s+[^\n,]+,?\s*\d{1,5}\b/gu,
+];
+// Two to four capitalized words on one line; a line break always ends the name
+const PERSON_NAME = "\\p{Lu}[\\p{L}'-]+(?:[ \\t]+\\p{Lu}[\\p{L}'-]+){1,3}";
+// "Name: Jane Doe", "- Reference: John Smith (CTO)"; also matches the name line of the resume prompt
+const LABELLED_NAME_PATTERN = new RegExp(`^[ \\t]*(?:[-*][ \\t]*)?(?:name|full name|reference|referee|referenz|r\\u00E9f\\u00E9rence|refer\\u00EAncia)[ \\t]*:[ \\t]*(${PERSON_NAME})`, 'gimu');
+const REFERENCES_HEADING = /^[ \t]*(?:references|referenzen|références|referências)[ \t]*:?[ \t]*$/gimu;
+const LEADING_NAME = new RegExp(`^[ \\t]*(?:[-*][ \\t]*)?(${PERSON_NAME})`, 'u');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const digitCount = (text: string): number => text.replace(/\D/g, '').length;
+
+// Phone numbers have 8-15 digits; runs of years such as "2016-2020" are date ranges, not numbers to call
+const isPhoneNumber = (text: string): boolean =>
+    digitCount(text) >= 8 && digitCount(text) <= 15 && !/^(?:(?:19|20)\d{2}[\s.-]*)+$/.test(text);
+
+const matchAll = (text: string, pattern: RegExp, kind: PiiKind, group = 0): PiiMatch[] =>
+    [...text.matchAll(pattern)].map(match => ({
+        kind,
+        value: match[group].trim(),
+        index: (match.index ?? 0) + match[0].indexOf(match[group]),
+    }));
+
+// Names listed under a "References" heading, one per line, up to the next blank line
+const referenceNames = (text: string): PiiMatch[] =>
+    [...text.matchAll(REFERENCES_HEADING)].flatMap(heading => {
+        const start = (heading.index ?? 0) + heading[0].length + 1;
+        const blank = text.slice(start).search(/\n[ \t]*\n/);
+        const block = text.slice(start, blank === -1 ? text.length : start + blank);
+        let offset = start;
+        return block.split('\n').flatMap(line => {
+            const match = line.match(LEADING_NAME);
+            const lineStart = offset;
+            offset += line.length + 1;
+            return match ? [{ kind: 'name' as const, value: match[1], index: lineStart + line.indexOf(match[1]) }] : [];
+        });
+    });
+
+// Matches any of the values as a whole word, so "Java" leaves "JavaScript" alone and "Ann" leaves "Annual"
+const wholeWords = (values: string[]): RegExp =>
+    new RegExp(`(?<![\\p{L}\\p{N}])(?:${values.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+const termMatches = (text: string, terms: string[], kind: PiiKind): PiiMatch[] =>
+    terms.map(term => term.trim()).filter(term => term.length >= 2).flatMap(term => matchAll(text, wholeWords([term]), kind));
+
+// Finds personal details in text and assigns each distinct value a placeholder such as [EMAIL_1], numbered in order of appearance
+export const detectPii = (text: string, settings: RedactionSettings): PiiItem[] => {
+    const matches = [
+        ...termMatches(text, settings.customTerms, 'custom'),
+        ...matchAll(text, EMAIL_PATTERN, 'email'),
+        ...matchAll(text, PROFILE_URL_PATTERN, 'url'),
+        ...matchAll(text, PHONE_PATTERN, 'phone').filter(match => isPhoneNumber(match.value)),
+        ...ADDRESS_PATTERNS.flatMap(pattern => matchAll(text, pattern, 'address')),
+        ...termMatches(text, settings.knownNames, 'name'),
+        ...matchAll(text, LABELLED_NAME_PATTERN, 'name', 1),
+        ...referenceNames(text),
+    ];
+
+    // Earlier detectors win when the same value is found twice, e.g. a custom term that is also an email
+    const items = new Map<string, PiiItem & { firstIndex: number }>();
+    matches.forEach(match => {
+        const key = match.value.toLowerCase();
+        const existing = items.get(key);
+        if (existing) {
+            existing.firstIndex = Math.min(existing.firstIndex, match.index);
+            return;
+        }
+        items.set(key, {
+            kind: match.kind,
+            value: match.value,
+            placeholder: '',
+            redacted: !settings.allowed.some(value => value.toLowerCase() === key),
+            occurrences: 0,
+            firstIndex: match.index,
+        });
+    });
+
+    const counters = new Map<PiiKind, number>();
+    return [...items.values()]
+        .sort((a, b) => a.firstIndex - b.firstIndex)
+        .map(({ firstIndex, ...item }) => {
+            const next = (counters.get(item.kind) ?? 0) + 1;
+            counters.set(item.kind, next);
+            const occurrences = text.match(wholeWords([item.value]))?.length ?? 0;
+            return { ...item, placeholder: `[${PLACEHOLDER_PREFIXES[item.kind]}_${next}]`, occurrences };
+        });
+};
+
+export const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|URL|ADDRESS|NAME|REDACTED)_\d+\]/g;
+
+// Replaces every redacted value with its placeholder; longer values go first so "Jane Doe" wins over "Jane"
+export const redactText = (text: string, items: PiiItem[]): string => {
+    const redacted = items.filter(item => item.redacted).sort((a, b) => b.value.length - a.value.length);
+    if (redacted.length === 0) return text;
+    const byValue = new Map(redacted.map(item => [item.value.toLowerCase(), item.placeholder]));
+    return text.replace(wholeWords(redacted.map(item => item.value)), match => byValue.get(match.toLowerCase()) ?? match);
+};
+
+// Prompts tell the model not to invent bracketed placeholders, so it has to be told these ones are real
+const PLACEHOLDER_NOTE = 'Some personal details in this request were replaced with placeholders in square brackets, such as [NAME_1] or [EMAIL_1]. Where such a detail belongs in your output, copy its placeholder exactly as written.';
+
+// The prompt as it leaves the browser
+export const redactPrompt = (prompt: string, items: PiiItem[]): string => {
+    const redacted = redactText(prompt, items);
+    return redacted === prompt ? prompt : `${redacted}\n\n${PLACEHOLDER_NOTE}`;
+};
+
+// Puts the real values back into model output; inside JSON they are escaped so the response still parses
+export const restoreText = (text: string, items: PiiItem[], json = false): string => {
+    const byPlaceholder = new Map(items.map(item => [item.placeholder, item.value]));
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => {
+        const value = byPlaceholder.get(placeholder);
+        if (value === undefined) return placeholder;
+        return json ? JSON.stringify(value).slice(1, -1) : value;
+    });
+};
+
+const STANDALONE_NAME = new RegExp(`^${PERSON_NAME}$`, 'u');
+
+// Imported profiles carry the name; a pasted profile usually starts with it
+export const profileOwnerName = (profile: ProfileDocument): string => {
+    if (profile.name) return profile.name;
+    const firstLine = profile.rawText?.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+    return STANDALONE_NAME.test(firstLine) ? firstLine : '';
+};
+
+// A placeholder cut off at the end of a streamed chunk; held back until the rest arrives
+export const PARTIAL_PLACEHOLDER = /\[[A-Z_\d]{0,16}$/;
+
+const REDACTION_STORAGE_KEY = 'pii-redaction';
+
+const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Known names are derived from the current profile and are not stored
+export const loadRedactionSettings = (): RedactionSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(REDACTION_STORAGE_KEY) ?? 'null');
+        if (stored && typeof stored === 'object') {
+            return {
+                enabled: stored.enabled !== false,
+                allowed: stringList(stored.allowed),
+                customTerms: stringList(stored.customTerms),
+                knownNames: [],
+            };
+        }
+    } catch (error) {
+        console.error('Could not read saved redaction settings:', error);
+    }
+    return DEFAULT_REDACTION_SETTINGS;
+};
+
+export const saveRedactionSettings = ({ enabled, allowed, customTerms }: RedactionSettings): void => {
+    localStorage.setItem(REDACTION_STORAGE_KEY, JSON.stringify({ enabled, allowed, customTerms }));
+};
@@ -0,0 +1,69 @@
+import type { ProfileDocument } from "../types";
+
+export const createPastedProfile = (text: string): ProfileDocument => ({
+    source: 'paste',
+    name: '',
+    headline: '',
+    location: '',
+    summary: '',
+    positions: [],
+    education: [],
+    skills: [],
+    otherSections: [],
+    rawText: text,
+});
+
+const joinDates = (startDate: string, endDate: string): string =>
+    [startDate, endDate].filter(Boolean).join(' - ');
+
+// Flattens a profile document into the plain-text form the prompts embed
+export const formatProfileDocument = (doc: ProfileDocument): string => {
+    const blocks: string[] = [];
+
+    const header = [doc.name, doc.headline, doc.location].filter(Boolean);
+    if (header.length > 0) {
+        blocks.push(header.join('\n'));
+    }
+    if (doc.summary) {
+        blocks.push(`Summary\n${doc.summary}`);
+    }
+    if (doc.positions.length > 0) {
+        blocks.push('Experience\n' + doc.positions.map(position => {
+            const dates = joinDates(position.startDate, position.endDate);
+            return [
+                `${position.title}${position.company ? ` at ${position.company}` : ''}`,
+                [dates, position.location].filter(Boolean).join(' | '),
+                position.description,
+            ].filter(Boolean).join('\n');
+        }).join('\n\n'));
+    }
+    if (doc.education.length > 0) {
+        blocks.push('Education\n' + doc.education.map(entry => [
+            entry.school,
+            [entry.degree, joinDates(entry.startDate, entry.endDate)].filter(Boolean).join(' | '),
+            entry.notes,
+        ].filter(Boolean).join('\n')).join('\n\n'));
+    }
+    if (doc.skills.length > 0) {
+        blocks.push(`Skills\n${doc.skills.join(', ')}`);
+    }
+    doc.otherSections.forEach(section => {
+        blocks.push(`${section.heading}\n${section.text}`);
+    });
+    if (doc.rawText) {
+        blocks.push(doc.rawText.trim());
+    }
+
+    return blocks.join('\n\n');
+};
+
+export const describeProfileSource = (doc: ProfileDocument): string => {
+    switch (doc.source) {
+        case 'linkedin-pdf':
+            return 'LinkedIn PDF';
+        case 'linkedin-export':
+            return 'LinkedIn data export';
+        default:
+            return 'Pasted text';
+    }
+};
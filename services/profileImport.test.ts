@@ -0,0 +1,137 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it, vi } from 'vitest';
+import { importProfileFile, parseCsv, parseLinkedInExport, parseLinkedInPdf, ProfileImportError } from './profileImport';
+
+// Text items as pdf.js reports them for a LinkedIn "Save to PDF" page: x < 198 is the sidebar of a 600pt wide page
+const item = (str: string, x: number, y: number, height = 10) => ({ str, transform: [1, 0, 0, 1, x, y], height });
+
+const PDF_ITEMS = [
+    item('Contact', 40, 760, 13),
+    item('alex@example.com', 40, 745),
+    item('Top Skills', 40, 720, 13),
+    item('Go', 40, 705),
+    item('Kubernetes', 40, 692),
+    item('Languages', 40, 670, 13),
+    item('German (Native)', 40, 655),
+    item('Alex Example', 220, 760, 26),
+    item('Staff Engineer at Acme |', 220, 735, 12),
+    item('Distributed systems', 380, 735, 12),
+    item('Berlin, Germany', 220, 720),
+    item('Summary', 220, 690, 15),
+    item('I build payment systems that do not lose money.', 220, 670),
+    item('Most of my work is in Go.', 220, 657),
+    item('Experience', 220, 630, 15),
+    item('Acme', 220, 610, 12),
+    item('Staff Engineer', 220, 595, 11),
+    item('March 2021 - Present (3 years)', 220, 580),
+    item('Berlin, Germany', 220, 567),
+    item('Led the payments platform team of eight engineers.', 220, 554),
+    item('Education', 220, 520, 15),
+    item('TU Berlin', 220, 500, 12),
+    item('Bachelor of Science, Computer Science · (2010 - 2014)', 220, 485),
+    item('Page 1 of 1', 220, 40, 9),
+];
+
+vi.mock('pdfjs-dist', () => ({
+    GlobalWorkerOptions: {},
+    getDocument: () => ({
+        promise: Promise.resolve({
+            numPages: 1,
+            getPage: async () => ({ view: [0, 0, 600, 800], getTextContent: async () => ({ items: PDF_ITEMS }) }),
+        }),
+    }),
+}));
+
+const CRLF = (...lines: string[]) => lines.join('\r\n');
+
+const exportZip = (files: Record<string, string>) =>
+    zipSync(Object.fromEntries(Object.entries(files).map(([path, text]) => [path, strToU8(text)])));
+
+const EXPORT_FILES = {
+    'Basic_LinkedInDataExport_01-01-2025/Profile.csv': `﻿${CRLF(
+        'First Name,Last Name,Maiden Name,Address,Birth Date,Headline,Summary,Industry,Zip Code,Geo Location',
+        'Alex,Example,,,,"Staff Engineer, Payments","I build payment systems.\nMostly in Go.",Financial Services,,"Berlin, Germany"',
+    )}`,
+    'Basic_LinkedInDataExport_01-01-2025/Positions.csv': CRLF(
+        'Company Name,Title,Description,Location,Started On,Finished On',
+        'Acme,Staff Engineer,"Led the ""Ledger"" rewrite, end to end.",Berlin,Mar 2021,',
+        'Beta,Engineer,,Hamburg,Jan 2017,Feb 2021',
+    ),
+    'Skills.csv': CRLF('Name', 'Go', 'Kubernetes', ''),
+    'Education.csv': CRLF(
+        'Notes: this file lists your education',
+        '',
+        'School Name,Start Date,End Date,Notes,Degree Name,Activities',
+        'TU Berlin,2010,2014,Thesis on consensus,BSc Computer Science,Chess club',
+    ),
+    'Connections.csv': CRLF('First Name,Last Name', 'Not,Imported'),
+};
+
+describe('parseCsv', () => {
+    it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+        expect(parseCsv('a,"b, c","say ""hi""","two\r\nlines"\r\n\r\nx,,z')).toEqual([
+            ['a', 'b, c', 'say "hi"', 'two\r\nlines'],
+            ['x', '', 'z'],
+        ]);
+    });
+});
+
+describe('parseLinkedInExport', () => {
+    it('builds a profile document from the CSV files of the archive', () => {
+        const doc = parseLinkedInExport(exportZip(EXPORT_FILES), 'export.zip');
+
+        expect(doc).toEqual({
+            source: 'linkedin-export',
+            fileName: 'export.zip',
+            name: 'Alex Example',
+            headline: 'Staff Engineer, Payments',
+            location: 'Berlin, Germany',
+            summary: 'I build payment systems.\nMostly in Go.',
+            positions: [
+                { title: 'Staff Engineer', company: 'Acme', location: 'Berlin', startDate: 'Mar 2021', endDate: 'Present', description: 'Led the "Ledger" rewrite, end to end.' },
+                { title: 'Engineer', company: 'Beta', location: 'Hamburg', startDate: 'Jan 2017', endDate: 'Feb 2021', description: '' },
+            ],
+            education: [{ school: 'TU Berlin', degree: 'BSc Computer Science', startDate: '2010', endDate: '2014', notes: 'Thesis on consensus\nChess club' }],
+            skills: ['Go', 'Kubernetes'],
+            otherSections: [{ heading: 'Industry', text: 'Financial Services' }],
+        });
+    });
+
+    it('works with only some of the files', () => {
+        const doc = parseLinkedInExport(exportZip({ 'Skills.csv': EXPORT_FILES['Skills.csv'] }));
+        expect(doc).toMatchObject({ name: '', positions: [], education: [], skills: ['Go', 'Kubernetes'] });
+    });
+
+    it('rejects archives that are not a LinkedIn export', () => {
+        expect(() => parseLinkedInExport(strToU8('not a zip'))).toThrow(ProfileImportError);
+        expect(() => parseLinkedInExport(exportZip({ 'Connections.csv': 'First Name' }))).toThrow('does not contain Profile.csv');
+    });
+});
+
+describe('parseLinkedInPdf', () => {
+    it('reads the main column and the sidebar of the profile PDF', async () => {
+        const doc = await parseLinkedInPdf(new ArrayBuffer(8), 'Profile.pdf');
+
+        expect(doc).toMatchObject({
+            source: 'linkedin-pdf',
+            name: 'Alex Example',
+            headline: 'Staff Engineer at Acme | Distributed systems',
+            location: 'Berlin, Germany',
+            skills: ['Go', 'Kubernetes'],
+            positions: [{ title: 'Staff Engineer', company: 'Acme', location: 'Berlin, Germany', startDate: 'March 2021', endDate: 'Present', description: 'Led the payments platform team of eight engineers.' }],
+            education: [{ school: 'TU Berlin', degree: 'Bachelor of Science, Computer Science', startDate: '2010', endDate: '2014', notes: '' }],
+            otherSections: [{ heading: 'Contact', text: 'alex@example.com' }, { heading: 'Languages', text: 'German (Native)' }],
+        });
+    });
+
+    it('keeps the line breaks of the summary', async () => {
+        const { summary } = await parseLinkedInPdf(new ArrayBuffer(8));
+        expect(summary).toBe('I build payment systems that do not lose money.\nMost of my work is in Go.');
+    });
+});
+
+describe('importProfileFile', () => {
+    it('rejects files that are neither a PDF nor a ZIP', async () => {
+        await expect(importProfileFile(new File(['Name,Title'], 'profile.csv', { type: 'text/csv' }))).rejects.toThrow('Unsupported file "profile.csv"');
+    });
+});
@@ -0,0 +1,337 @@
+import { unzipSync, strFromU8 } from "fflate";
+import type { ProfileDocument, ProfileEducation, ProfilePosition } from "../types";
+
+export class ProfileImportError extends Error {
+    readonly name: string = 'ProfileImportError';
+}
+
+// ---------------------------------------------------------------------------
+// LinkedIn data export (ZIP of CSV files)
+// ---------------------------------------------------------------------------
+
+// RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Maps CSV rows onto objects keyed by header. Some exports prepend "Notes:" lines, so the header is located by a known column.
+const csvRecords = (text: string, requiredColumn: string): Record<string, string>[] => {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+    const headerIndex = rows.findIndex(r => r.some(cell => cell.trim() === requiredColumn));
+    if (headerIndex === -1) return [];
+    const header = rows[headerIndex].map(cell => cell.trim());
+    return rows.slice(headerIndex + 1).map(r =>
+        Object.fromEntries(header.map((column, i) => [column, (r[i] ?? '').trim()]))
+    );
+};
+
+const EXPORT_FILES = ['profile.csv', 'positions.csv', 'skills.csv', 'education.csv'] as const;
+type ExportFile = typeof EXPORT_FILES[number];
+
+const baseName = (path: string): string => path.split('/').pop()?.toLowerCase() ?? '';
+
+export const parseLinkedInExport = (zipData: Uint8Array, fileName?: string): ProfileDocument => {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(zipData, {
+            filter: file => (EXPORT_FILES as readonly string[]).includes(baseName(file.name)),
+        });
+    } catch {
+        throw new ProfileImportError('The ZIP file could not be read. Is it the archive downloaded from LinkedIn?');
+    }
+
+    const files: Partial<Record<ExportFile, string>> = {};
+    Object.entries(entries).forEach(([path, data]) => {
+        files[baseName(path) as ExportFile] = strFromU8(data);
+    });
+    if (Object.keys(files).length === 0) {
+        throw new ProfileImportError('The ZIP file does not contain Profile.csv, Positions.csv, Skills.csv or Education.csv.');
+    }
+
+    const profile = files['profile.csv'] ? csvRecords(files['profile.csv'], 'First Name')[0] : undefined;
+    const positions: ProfilePosition[] = files['positions.csv']
+        ? csvRecords(files['positions.csv'], 'Company Name').map(record => ({
+            title: record['Title'] ?? '',
+            company: record['Company Name'] ?? '',
+            location: record['Location'] ?? '',
+            startDate: record['Started On'] ?? '',
+            endDate: record['Finished On'] || 'Present',
+            description: record['Description'] ?? '',
+        }))
+        : [];
+    const education: ProfileEducation[] = files['education.csv']
+        ? csvRecords(files['education.csv'], 'School Name').map(record => ({
+            school: record['School Name'] ?? '',
+            degree: record['Degree Name'] ?? '',
+            startDate: record['Start Date'] ?? '',
+            endDate: record['End Date'] ?? '',
+            notes: [record['Notes'], record['Activities']].filter(Boolean).join('\n'),
+        }))
+        : [];
+    const skills = files['skills.csv']
+        ? csvRecords(files['skills.csv'], 'Name').map(record => record['Name']).filter(Boolean)
+        : [];
+
+    return {
+        source: 'linkedin-export',
+        fileName,
+        name: [profile?.['First Name'], profile?.['Last Name']].filter(Boolean).join(' '),
+        headline: profile?.['Headline'] ?? '',
+        location: profile?.['Geo Location'] ?? '',
+        summary: profile?.['Summary'] ?? '',
+        positions,
+        education,
+        skills,
+        otherSections: profile?.['Industry'] ? [{ heading: 'Industry', text: profile['Industry'] }] : [],
+    };
+};
+
+// ---------------------------------------------------------------------------
+// LinkedIn "Save to PDF" profile
+// ---------------------------------------------------------------------------
+
+interface PdfLine {
+    text: string;
+    // Largest font size on the line; LinkedIn sets company names and titles larger than body text
+    size: number;
+}
+
+const SIDEBAR_HEADINGS = ['Contact', 'Top Skills', 'Languages', 'Certifications', 'Honors-Awards', 'Publications', 'Patents'];
+const MAIN_HEADINGS = ['Summary', 'Experience', 'Education'];
+const DATE_RANGE = /^((?:[A-Z][a-z]+ )?\d{4})\s*[-–]\s*((?:[A-Z][a-z]+ )?\d{4}|Present)\b/;
+const DURATION = /^(\d+ years?)?\s*(\d+ months?)?$/;
+const PAGE_FOOTER = /^Page \d+ of \d+$/;
+
+interface PdfTextItem {
+    str: string;
+    transform: number[];
+    height: number;
+}
+
+// Groups positioned text items into lines, split into the narrow left sidebar and the main column
+const extractColumns = async (data: ArrayBuffer): Promise<{ sidebar: PdfLine[]; main: PdfLine[] }> => {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+
+    const pdf = await pdfjs.getDocument({ data }).promise;
+    const sidebar: PdfLine[] = [];
+    const main: PdfLine[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const [, , pageWidth] = page.view;
+        const content = await page.getTextContent();
+        const rows = new Map<string, { x: number; y: number; items: PdfTextItem[] }>();
+
+        content.items.forEach(raw => {
+            if (!('str' in raw) || !raw.str.trim()) return;
+            const item = raw as PdfTextItem;
+            const [, , , , x, y] = item.transform;
+            const column = x < pageWidth * 0.33 ? 'side' : 'main';
+            const key = `${column}:${Math.round(y)}`;
+            const row = rows.get(key) ?? { x, y, items: [] };
+            row.items.push(item);
+            rows.set(key, row);
+        });
+
+        [...rows.entries()]
+            .sort(([, a], [, b]) => b.y - a.y)
+            .forEach(([key, row]) => {
+                const line: PdfLine = {
+                    text: row.items
+                        .sort((a, b) => a.transform[4] - b.transform[4])
+                        .map(item => item.str)
+                        .join(' ')
+                        .replace(/\s+/g, ' ')
+                        .trim(),
+                    size: Math.max(...row.items.map(item => Math.round(item.height * 10) / 10)),
+                };
+                if (!line.text || PAGE_FOOTER.test(line.text)) return;
+                (key.startsWith('side') ? sidebar : main).push(line);
+            });
+    }
+
+    return { sidebar, main };
+};
+
+const splitSections = (lines: PdfLine[], headings: string[]): { preamble: PdfLine[]; sections: Map<string, PdfLine[]> } => {
+    const preamble: PdfLine[] = [];
+    const sections = new Map<string, PdfLine[]>();
+    let current: PdfLine[] = preamble;
+    lines.forEach(line => {
+        if (headings.includes(line.text)) {
+            current = sections.get(line.text) ?? [];
+            sections.set(line.text, current);
+        } else {
+            current.push(line);
+        }
+    });
+    return { preamble, sections };
+};
+
+const mostCommonSize = (lines: PdfLine[]): number => {
+    const counts = new Map<number, number>();
+    lines.forEach(line => counts.set(line.size, (counts.get(line.size) ?? 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+};
+
+const linesToText = (lines: PdfLine[]): string => lines.map(line => line.text).join('\n');
+
+// Company and title lines are set larger than body text; a date-range line closes each position header
+const parsePdfExperience = (lines: PdfLine[]): ProfilePosition[] => {
+    const bodySize = mostCommonSize(lines);
+    const positions: ProfilePosition[] = [];
+    let pendingHeaders: string[] = [];
+    let lastCompany = '';
+    let current: ProfilePosition | null = null;
+    let expectLocation = false;
+
+    lines.forEach(line => {
+        const dateMatch = line.text.match(DATE_RANGE);
+        if (dateMatch && pendingHeaders.length > 0) {
+            const title = pendingHeaders[pendingHeaders.length - 1];
+            const company = pendingHeaders.length > 1 ? pendingHeaders[0] : lastCompany;
+            current = { title, company, location: '', startDate: dateMatch[1], endDate: dateMatch[2], description: '' };
+            positions.push(current);
+            lastCompany = company;
+            pendingHeaders = [];
+            expectLocation = true;
+        } else if (line.size > bodySize) {
+            pendingHeaders.push(line.text);
+            current = null;
+        } else if (DURATION.test(line.text) && pendingHeaders.length > 0) {
+            // Total tenure under a company that lists several roles
+        } else if (current) {
+            if (expectLocation && line.text.length < 60 && !/[.!?]$/.test(line.text)) {
+                current.location = line.text;
+            } else {
+                current.description = current.description ? `${current.description}\n${line.text}` : line.text;
+            }
+            expectLocation = false;
+        }
+    });
+
+    return positions;
+};
+
+const parsePdfEducation = (lines: PdfLine[]): ProfileEducation[] => {
+    const bodySize = mostCommonSize(lines);
+    const entries: ProfileEducation[] = [];
+    lines.forEach(line => {
+        if (line.size > bodySize || entries.length === 0) {
+            entries.push({ school: line.text, degree: '', startDate: '', endDate: '', notes: '' });
+            return;
+        }
+        const entry = entries[entries.length - 1];
+        // e.g. "Bachelor of Science, Computer Science · (2010 - 2014)"
+        const years = line.text.match(/\((\d{4}|[A-Z][a-z]+ \d{4})\s*[-–]\s*(\d{4}|[A-Z][a-z]+ \d{4}|Present)\)/);
+        if (years) {
+            entry.startDate = years[1];
+            entry.endDate = years[2];
+        }
+        const text = line.text.replace(/\s*·?\s*\(.*?\)\s*$/, '').trim();
+        if (text) {
+            entry.degree = entry.degree ? `${entry.degree} ${text}` : text;
+        }
+    });
+    return entries;
+};
+
+export const parseLinkedInPdf = async (data: ArrayBuffer, fileName?: string): Promise<ProfileDocument> => {
+    let columns: { sidebar: PdfLine[]; main: PdfLine[] };
+    try {
+        columns = await extractColumns(data);
+    } catch (error) {
+        console.error('Could not read PDF:', error);
+        throw new ProfileImportError('The PDF could not be read. Use the file from your LinkedIn profile > More > Save to PDF.');
+    }
+    if (columns.main.length === 0) {
+        throw new ProfileImportError('No text was found in the PDF. Scanned or image-only PDFs are not supported.');
+    }
+
+    const side = splitSections(columns.sidebar, SIDEBAR_HEADINGS);
+    const main = splitSections(columns.main, MAIN_HEADINGS);
+
+    // Main column preamble: name, headline (possibly wrapped over several lines), location
+    const [nameLine, ...rest] = main.preamble;
+    const location = rest.length > 1 ? rest[rest.length - 1].text : '';
+    const headline = (rest.length > 1 ? rest.slice(0, -1) : rest).map(line => line.text).join(' ');
+
+    const experienceLines = main.sections.get('Experience') ?? [];
+    const positions = parsePdfExperience(experienceLines);
+
+    const otherSections: { heading: string; text: string }[] = [];
+    side.sections.forEach((lines, heading) => {
+        if (heading !== 'Top Skills' && lines.length > 0) {
+            otherSections.push({ heading, text: linesToText(lines) });
+        }
+    });
+    if (positions.length === 0 && experienceLines.length > 0) {
+        // Layout not recognised: hand the model the raw experience text rather than dropping it
+        otherSections.push({ heading: 'Experience', text: linesToText(experienceLines) });
+    }
+
+    return {
+        source: 'linkedin-pdf',
+        fileName,
+        name: nameLine?.text ?? '',
+        headline,
+        location,
+        // Line breaks are kept: the PDF does not mark paragraphs, and joining the lines would run them together
+        summary: linesToText(main.sections.get('Summary') ?? []),
+        positions,
+        education: parsePdfEducation(main.sections.get('Education') ?? []),
+        skills: (side.sections.get('Top Skills') ?? []).map(line => line.text),
+        otherSections,
+    };
+};
+
+// ---------------------------------------------------------------------------
+
+export const ACCEPTED_PROFILE_FILES = '.pdf,.zip,application/pdf,application/zip';
+
+export const importProfileFile = async (file: File): Promise<ProfileDocument> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.pdf') || file.type === 'application/pdf') {
+        return parseLinkedInPdf(await file.arrayBuffer(), file.name);
+    }
+    if (name.endsWith('.zip') || file.type.includes('zip')) {
+        return parseLinkedInExport(new Uint8Array(await file.arrayBuffer()), file.name);
+    }
+    throw new ProfileImportError(`Unsupported file "${file.name}". Drop the LinkedIn profile PDF or the data export ZIP.`);
+};
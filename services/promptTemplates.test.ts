@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { checkPromptTemplate, DEFAULT_PROMPT_TEMPLATES, renderPromptTemplate, withAppendedVariables } from './promptTemplates';
+
+// A resume prompt saved before the section instructions existed
+const OLD_RESUME_TEMPLATE = 'Write a resume from this analysis:\n{{analysis}}\n{{projectsInstruction}}\n{{languageInstruction}}\n';
+
+describe('checkPromptTemplate', () => {
+    it('accepts the built-in prompts as they are', () => {
+        expect(checkPromptTemplate('analysis', DEFAULT_PROMPT_TEMPLATES.analysis)).toEqual({ unknown: [], missing: [], appended: [] });
+        expect(checkPromptTemplate('resume', DEFAULT_PROMPT_TEMPLATES.resume)).toEqual({ unknown: [], missing: [], appended: [] });
+    });
+
+    it('reports the instructions an older resume prompt does not place', () => {
+        expect(checkPromptTemplate('resume', OLD_RESUME_TEMPLATE).appended).toEqual(['sectionsInstruction', 'lengthInstruction']);
+    });
+});
+
+describe('withAppendedVariables', () => {
+    it('leaves a template that places every instruction unchanged', () => {
+        expect(withAppendedVariables('resume', DEFAULT_PROMPT_TEMPLATES.resume)).toBe(DEFAULT_PROMPT_TEMPLATES.resume);
+    });
+
+    it('adds the missing instructions at the end of an older template', () => {
+        const prompt = renderPromptTemplate(withAppendedVariables('resume', OLD_RESUME_TEMPLATE), {
+            analysis: '## Summary',
+            projectsInstruction: '',
+            sectionsInstruction: '\n7.  **Education:** Create a section.',
+            lengthInstruction: '\n\n**Length:** One page.',
+            languageInstruction: 'Write in English.',
+        });
+        expect(prompt).toContain('Write in English.\n\n7.  **Education:** Create a section.\n\n**Length:** One page.');
+    });
+});
@@ -0,0 +1,232 @@
+// The prompts users can edit; the other tasks keep their built-in prompts
+export type PromptTemplateKind = 'analysis' | 'resume';
+
+export const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateKind, string> = {
+    analysis: 'Profile analysis',
+    resume: 'Resume',
+};
+
+// A saved edit of a prompt; versions are never changed after saving, so an A/B result stays reproducible
+export interface PromptTemplateVersion {
+    id: string;
+    kind: PromptTemplateKind;
+    // Counts up per kind; the built-in default is version 0
+    version: number;
+    name: string;
+    body: string;
+    createdAt: number;
+}
+
+export interface PromptTemplateSettings {
+    versions: PromptTemplateVersion[];
+    // The version each task uses; null for the built-in default
+    active: Record<PromptTemplateKind, string | null>;
+}
+
+export interface PromptVariable {
+    name: string;
+    description: string;
+    // The prompt cannot work without it
+    required?: boolean;
+    // Added at the end of the prompt when the template does not place it, so versions saved before it existed keep working
+    appended?: boolean;
+}
+
+export const PROMPT_VARIABLES: Record<PromptTemplateKind, PromptVariable[]> = {
+    analysis: [
+        { name: 'profile', description: 'The profile text', required: true },
+        { name: 'github', description: 'The GitHub section with its instruction; empty without a linked account' },
+        { name: 'dateExample', description: 'How a start date is written in the output language, e.g. "Jan 2020"' },
+        { name: 'present', description: 'The word for an ongoing role, e.g. "Present"' },
+        { name: 'languageInstruction', description: 'Which language to write in' },
+    ],
+    resume: [
+        { name: 'analysis', description: 'The analysis as Markdown', required: true },
+        { name: 'github', description: 'The GitHub section; empty without a linked account' },
+        { name: 'tailoring', description: 'The job posting and tailoring rules; empty when not tailoring' },
+        { name: 'contact', description: 'The contact details that were filled in, one "- Label: value" line each' },
+        { name: 'name', description: 'Name from the contact details; empty when not given' },
+        { name: 'headline', description: 'Professional headline from the contact details; empty when not given' },
+        { name: 'email', description: 'Email from the contact details; empty when not given' },
+        { name: 'phone', description: 'Phone from the contact details; empty when not given' },
+        { name: 'location', description: 'Location from the contact details; empty when not given' },
+        { name: 'website', description: 'Website from the contact details; empty when not given' },
+        { name: 'linkedin', description: 'LinkedIn profile link; empty when not given' },
+        { name: 'githubUrl', description: 'GitHub username or profile link from the contact details; empty when not given' },
+        { name: 'links', description: 'Additional links, one "- Label: URL" line each; empty when there are none' },
+        { name: 'summaryHeading', description: 'Summary heading in the output language' },
+        { name: 'skillsHeading', description: 'Skills heading in the output language' },
+        { name: 'experienceHeading', description: 'Experience heading in the output language' },
+        { name: 'dateExample', description: 'How a start date is written in the output language, e.g. "Jan 2020"' },
+        { name: 'present', description: 'The word for an ongoing role, e.g. "Present"' },
+        { name: 'projectsInstruction', description: 'The numbered instruction for the projects section; empty when there are no projects or the section is excluded' },
+        { name: 'sectionsInstruction', description: 'The numbered instructions for the education, certifications, publications and languages sections that are included', appended: true },
+        { name: 'lengthInstruction', description: 'The target length in pages or words and what to shorten first; empty when no target is set', appended: true },
+        { name: 'languageInstruction', description: 'Which language to write in' },
+    ],
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKind, string> = {
+    analysis: `You are an expert career coach and professional branding strategist. Your task is to analyze the provided LinkedIn profile text and generate a compelling, professional summary.
+
+The user's LinkedIn profile is below:
+---
+{{profile}}
+---
+{{github}}
+Based on this text, generate a comprehensive analysis as a JSON object with the following fields:
+
+- "summary": A brief, impactful one-paragraph summary. Start with a strong title (e.g., "Seasoned Software Engineer with 10+ years of experience..."). Highlight key achievements, core competencies, and career focus. This should be suitable for the top of a resume or a LinkedIn "About" section.
+- "technicalSkills": The most prominent technical skills mentioned, grouped into logical categories (e.g., Programming Languages, Frameworks/Libraries, Cloud/DevOps, Databases, Tools). Each entry has a "category" and a list of "skills".
+- "softSkills": Soft skills demonstrated through project descriptions, summaries, or experience. Examples include "Team Leadership", "Agile Methodologies", "Project Management", "Client Communication", etc.
+- "experience": The most significant job roles, most recent first. Each entry has "title", "company", "startDate" and "endDate" (e.g. "{{dateExample}}" and "{{present}}"; use an empty string if unknown), "bullets" with the key responsibilities and achievements rephrased into concise, action-oriented statements, and "technologies" listing the specific skills and technologies used in that role.
+- "education": Degrees and formal education, most recent first. Each entry has "degree" (with the field of study), "school", "startDate" and "endDate" in the same date format; use an empty string if unknown.
+- "certifications": Certifications and licenses, each with "name", "issuer" and "date".
+- "publications": Papers, articles and books, each with "title", "publisher" (the journal, conference or site) and "date".
+- "projects": Notable projects described outside of the job roles, each with "name", a one-sentence "description" and the "technologies" used.
+- "languages": Spoken languages, each with "language" and "proficiency" (e.g. "Native", "Fluent", "Professional working proficiency").
+  Use an empty list for any of these five that the profile does not mention.
+- "suggestedRoles": 3-5 specific job titles this person is well-suited for (e.g., "Senior Backend Engineer (Go)", "Cloud Solutions Architect", "DevOps Lead"), each with a brief "justification".
+- "optimizationTips": 2-3 actionable tips for improving their LinkedIn profile based on the provided text, framed as constructive advice. For example: "Quantify achievements in your experience section with metrics to better showcase impact." or "Consider adding a 'Projects' section to highlight specific work samples."
+
+Be positive, professional, and use strong action verbs. Do not invent information not present in the provided text.
+
+{{languageInstruction}}
+`,
+    resume: `You are an expert resume writer and formatter. You will be given a structured career analysis in Markdown format and personal contact details. Your task is to transform this information into a professional, single-column resume, also in Markdown format.
+
+Here is the career analysis:
+---
+{{analysis}}
+---
+{{github}}{{tailoring}}
+Here is the user's personal information:
+{{contact}}
+
+Follow these instructions precisely:
+1.  **Header:** Start with the user's name as a main heading (\`# Name\`). If a headline is given, put it in italics on the next line. Below that, list the contact details given above (email, phone, location and links) on a single line, separated by pipe characters (|). Leave out every detail that was not given; never write placeholders such as "Your Name" or "your.email@example.com".
+2.  **Summary:** Create a section titled \`## {{summaryHeading}}\`. Use the content from the "Professional Summary" section of the analysis.
+3.  **Skills:** Create a section titled \`## {{skillsHeading}}\`. Combine the "Key Technical Skills" and "Core Competencies" from the analysis. Present them as a clean, categorized, bulleted list.
+4.  **Experience:** Create a section titled \`## {{experienceHeading}}\`. Use the content from the "Experience Highlights" section. For each job, format it as:
+    - **Job Title** | Company Name
+    - The dates in italics, e.g. *{{dateExample}} – {{present}}* for a current role; past roles end with a date in the same format
+    - Then, list the achievements as bullet points (\`* \`).
+5.  **Omissions:** Do NOT include the "Potential Job Roles" or "Profile Optimization Suggestions" sections from the original analysis.
+6.  **Formatting:** Use clean and standard Markdown. Do not add any extra commentary, introductory text, or placeholder city/state information unless it was present in the original text. The output should be ready to be rendered directly as a resume.{{projectsInstruction}}{{sectionsInstruction}}{{lengthInstruction}}
+
+Use the section titles exactly as given above. {{languageInstruction}}
+`,
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Fills in {{name}} placeholders; unknown names are left as written so a typo shows up in the prompt
+export const renderPromptTemplate = (body: string, variables: Record<string, string>): string =>
+    body.replace(VARIABLE_PATTERN, (match, name: string) => (name in variables ? variables[name] : match));
+
+export interface TemplateCheck {
+    // Placeholders the app does not fill in
+    unknown: string[];
+    // Required variables the template does not use
+    missing: string[];
+    // Variables the template does not place, which are added at the end of the prompt instead
+    appended: string[];
+}
+
+export const checkPromptTemplate = (kind: PromptTemplateKind, body: string): TemplateCheck => {
+    const used = new Set([...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]));
+    const known = PROMPT_VARIABLES[kind];
+    return {
+        unknown: [...used].filter(name => !known.some(variable => variable.name === name)),
+        missing: known.filter(variable => variable.required && !used.has(variable.name)).map(variable => variable.name),
+        appended: known.filter(variable => variable.appended && !used.has(variable.name)).map(variable => variable.name),
+    };
+};
+
+// The template with a placeholder at the end for each appended variable it does not place, ready for renderPromptTemplate
+export const withAppendedVariables = (kind: PromptTemplateKind, body: string): string => {
+    const { appended } = checkPromptTemplate(kind, body);
+    return appended.length > 0 ? `${body.trimEnd()}\n${appended.map(name => `{{${name}}}`).join('')}\n` : body;
+};
+
+export const DEFAULT_PROMPT_TEMPLATE_SETTINGS: PromptTemplateSettings = {
+    versions: [],
+    active: { analysis: null, resume: null },
+};
+
+export const templateVersions = (settings: PromptTemplateSettings, kind: PromptTemplateKind): PromptTemplateVersion[] =>
+    settings.versions.filter(version => version.kind === kind).sort((a, b) => a.version - b.version);
+
+export const findTemplateVersion = (settings: PromptTemplateSettings, id: string | null): PromptTemplateVersion | null =>
+    (id && settings.versions.find(version => version.id === id)) || null;
+
+export const templateVersionLabel = (version: PromptTemplateVersion | null): string =>
+    version ? `v${version.version}${version.name ? ` · ${version.name}` : ''}` : 'Default';
+
+// The body for a version id, or the built-in default when it is null or was deleted
+export const resolvePromptTemplate = (settings: PromptTemplateSettings, kind: PromptTemplateKind, id: string | null = settings.active[kind]): string =>
+    findTemplateVersion(settings, id)?.body ?? DEFAULT_PROMPT_TEMPLATES[kind];
+
+export const activePromptTemplates = (settings: PromptTemplateSettings): Record<PromptTemplateKind, string> => ({
+    analysis: resolvePromptTemplate(settings, 'analysis'),
+    resume: resolvePromptTemplate(settings, 'resume'),
+});
+
+export const addTemplateVersion = (settings: PromptTemplateSettings, kind: PromptTemplateKind, name: string, body: string): { settings: PromptTemplateSettings; version: PromptTemplateVersion } => {
+    const version: PromptTemplateVersion = {
+        id: crypto.randomUUID(),
+        kind,
+        version: Math.max(0, ...templateVersions(settings, kind).map(existing => existing.version)) + 1,
+        name: name.trim(),
+        body,
+        createdAt: Date.now(),
+    };
+    return { settings: { ...settings, versions: [...settings.versions, version] }, version };
+};
+
+export const setActiveTemplate = (settings: PromptTemplateSettings, kind: PromptTemplateKind, id: string | null): PromptTemplateSettings =>
+    ({ ...settings, active: { ...settings.active, [kind]: id } });
+
+// Deleting the active version falls back to the default
+export const deleteTemplateVersion = (settings: PromptTemplateSettings, id: string): PromptTemplateSettings => ({
+    versions: settings.versions.filter(version => version.id !== id),
+    active: {
+        analysis: settings.active.analysis === id ? null : settings.active.analysis,
+        resume: settings.active.resume === id ? null : settings.active.resume,
+    },
+});
+
+const TEMPLATES_STORAGE_KEY = 'prompt-templates';
+
+const isTemplateKind = (value: unknown): value is PromptTemplateKind =>
+    typeof value === 'string' && value in PROMPT_TEMPLATE_LABELS;
+
+const toTemplateVersion = (value: unknown): PromptTemplateVersion | null => {
+    if (!value || typeof value !== 'object') return null;
+    const { id, kind, version, name, body, createdAt } = value as Record<string, unknown>;
+    if (typeof id !== 'string' || !isTemplateKind(kind) || typeof body !== 'string' || typeof version !== 'number') return null;
+    return { id, kind, version, name: typeof name === 'string' ? name : '', body, createdAt: typeof createdAt === 'number' ? createdAt : 0 };
+};
+
+export const loadPromptTemplates = (): PromptTemplateSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) ?? 'null');
+        if (stored && typeof stored === 'object') {
+            const versions = (Array.isArray(stored.versions) ? stored.versions : [])
+                .map(toTemplateVersion)
+                .filter((version: PromptTemplateVersion | null): version is PromptTemplateVersion => version !== null);
+            const activeId = (kind: PromptTemplateKind): string | null => {
+                const id = stored.active?.[kind];
+                return versions.some((version: PromptTemplateVersion) => version.id === id && version.kind === kind) ? id : null;
+            };
+            return { versions, active: { analysis: activeId('analysis'), resume: activeId('resume') } };
+        }
+    } catch (error) {
+        console.error('Could not read saved prompt templates:', error);
+    }
+    return DEFAULT_PROMPT_TEMPLATE_SETTINGS;
+};
+
+export const savePromptTemplates = (settings: PromptTemplateSettings): void => {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { parseResumeMarkdown, parseResumeWithDiagnostics, serializeResumeMarkdown } from './resumeDocument';
+
+const CANONICAL = `# Alex Example
+
+*Staff Engineer*
+
+alex@example.com | github.com/alex
+
+## Summary
+Builds payment systems.
+
+## Skills
+* **Languages:** Go, TypeScript
+
+## Experience
+**Staff Engineer** | Acme
+*Mar 2021 – Present*
+* Led the ledger rewrite
+* Cut settlement time by 40%
+
+## Education
+**BSc Computer Science** | TU Berlin
+*2010 – 2014*
+`;
+
+describe('parseResumeMarkdown', () => {
+    it('reads the output the prompt asks for', () => {
+        expect(parseResumeMarkdown(CANONICAL)).toEqual({
+            name: 'Alex Example',
+            headline: 'Staff Engineer',
+            contact: ['alex@example.com', 'github.com/alex'],
+            sections: [
+                { kind: 'summary', title: 'Summary', text: 'Builds payment systems.' },
+                { kind: 'skills', title: 'Skills', skills: [{ category: 'Languages', items: 'Go, TypeScript' }] },
+                { kind: 'experience', title: 'Experience', jobs: [{ title: 'Staff Engineer', company: 'Acme', date: 'Mar 2021 – Present', bullets: ['Led the ledger rewrite', 'Cut settlement time by 40%'] }] },
+                { kind: 'education', title: 'Education', entries: [{ title: 'BSc Computer Science', subtitle: 'TU Berlin', date: '2010 – 2014', details: [] }] },
+            ],
+        });
+    });
+
+    it('round-trips through serializeResumeMarkdown', () => {
+        const doc = parseResumeMarkdown(CANONICAL);
+        expect(parseResumeMarkdown(serializeResumeMarkdown(doc))).toEqual(doc);
+    });
+
+    it('returns null for empty output', () => {
+        expect(parseResumeMarkdown('  \n')).toBeNull();
+    });
+});
+
+describe('parseResumeWithDiagnostics on drifted output', () => {
+    it('reads "Title at Company" headers with a date in parentheses and "-" or "+" bullets', () => {
+        const { document } = parseResumeWithDiagnostics([
+            '# Alex Example',
+            '## Experience',
+            'Staff Engineer at Acme (2021 – Present)',
+            '- Led the ledger rewrite',
+            '',
+            'Engineer at Beta (2017 – 2021)',
+            '+ Built the billing API',
+        ].join('\n'));
+
+        expect(document.sections).toEqual([{
+            kind: 'experience',
+            title: 'Experience',
+            jobs: [
+                { title: 'Staff Engineer', company: 'Acme', date: '2021 – Present', bullets: ['Led the ledger rewrite'] },
+                { title: 'Engineer', company: 'Beta', date: '2017 – 2021', bullets: ['Built the billing API'] },
+            ],
+        }]);
+    });
+
+    it('reads bullet-only projects with "*" bullets and nested details', () => {
+        const { document } = parseResumeWithDiagnostics([
+            '# Alex Example',
+            '## Projects',
+            '* **Ledger** - Double-entry bookkeeping library',
+            '  * 2k stars on GitHub',
+            '* **Billing API** - Invoicing service',
+        ].join('\n'));
+
+        expect(document.sections).toEqual([{
+            kind: 'projects',
+            title: 'Projects',
+            entries: [
+                { title: 'Ledger', subtitle: 'Double-entry bookkeeping library', date: '', details: ['2k stars on GitHub'] },
+                { title: 'Billing API', subtitle: 'Invoicing service', date: '', details: [] },
+            ],
+        }]);
+    });
+
+    it('uses "###" headings as sections when the model picked that level', () => {
+        const { document, diagnostics } = parseResumeWithDiagnostics([
+            '# Alex Example',
+            '### Summary',
+            'Builds payment systems.',
+            '### Work Experience',
+            '**Staff Engineer** | Acme | 2021 – Present',
+            '* Led the ledger rewrite',
+        ].join('\n'));
+
+        expect(diagnostics).toEqual([]);
+        expect(document.sections.map(section => [section.kind, section.title])).toEqual([['summary', 'Summary'], ['experience', 'Work Experience']]);
+        expect(document.sections[1]).toMatchObject({ jobs: [{ title: 'Staff Engineer', company: 'Acme', date: '2021 – Present' }] });
+    });
+
+    it('reads bold and all-caps lines that name a section as headings', () => {
+        const { document } = parseResumeWithDiagnostics('# Alex Example\n**Professional Summary**\nBuilds payment systems.\nSKILLS\n* Go, TypeScript');
+        expect(document.sections.map(section => section.kind)).toEqual(['summary', 'skills']);
+    });
+
+    it('reports commentary before the name and keeps the name', () => {
+        const { document, diagnostics } = parseResumeWithDiagnostics([
+            "Here is your tailored resume:",
+            '',
+            '# Alex Example',
+            '## Summary',
+            'Builds payment systems.',
+        ].join('\n'));
+
+        expect(document.name).toBe('Alex Example');
+        expect(diagnostics).toEqual([{ line: 1, text: 'Here is your tailored resume:', message: 'Text before the name' }]);
+    });
+
+    it('reads a resume wrapped in a code fence with the original line numbers', () => {
+        const { document, diagnostics } = parseResumeWithDiagnostics('```markdown\n# Alex Example\nStray note\n## Summary\nBuilds payment systems.\n```');
+        expect(document).toMatchObject({ name: 'Alex Example', headline: 'Stray note', sections: [{ kind: 'summary', text: 'Builds payment systems.' }] });
+        expect(diagnostics).toEqual([]);
+    });
+
+    it('reports what it could not place instead of dropping it silently', () => {
+        const { diagnostics } = parseResumeWithDiagnostics([
+            '# Alex Example',
+            '*Staff Engineer*',
+            'A second line of commentary',
+            '## Experience',
+            '* Bullet with no job',
+        ].join('\n'));
+
+        expect(diagnostics).toEqual([
+            { line: 3, text: 'A second line of commentary', message: 'Text between the header and the first section' },
+            { line: 5, text: '* Bullet with no job', message: 'Bullet before the first entry in "Experience"' },
+        ]);
+    });
+
+    it('reports output without section headings', () => {
+        const { diagnostics } = parseResumeWithDiagnostics('# Alex Example\nJust a paragraph about Alex.');
+        expect(diagnostics[0]).toEqual({ line: 2, text: '', message: 'No section headings were found' });
+    });
+});
@@ -0,0 +1,339 @@
+import type { ResumeDocument, ResumeEntry, ResumeJob, ResumeSection, ResumeSkillLine } from "../types";
+import { isExactResumeHeading, resumeHeadingKind } from "./outputLanguage";
+
+// Something in the Markdown that has no place in the structured document and is therefore not shown
+export interface ResumeParseDiagnostic {
+    // 1-based line in the Markdown
+    line: number;
+    text: string;
+    message: string;
+}
+
+export interface ResumeParseResult {
+    // Null only for empty output
+    document: ResumeDocument | null;
+    diagnostics: ResumeParseDiagnostic[];
+}
+
+interface SourceLine {
+    text: string;
+    line: number;
+}
+
+type Diagnose = (line: SourceLine, message: string) => void;
+
+// ---------- Lines ----------
+
+// "* ", "- ", "+ ", "• " and "1. " list items; the marker needs a following space, so an italic "*Jan 2020*" is not one
+const BULLET_PATTERN = /^(\s*)(?:[*+\-•]|\d{1,2}[.)])\s+(.*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*$/;
+// "Jan 2020", "01/2020", "Since 2019", "Expected May 2025", "mars de 2020"
+const DATE_PART = String.raw`(?:\p{L}{3,10}\.?\s+(?:de\s+)?){0,2}(?:\d{1,2}[/.])?(?:19|20)\d{2}`;
+// A date or range ending in a date or a word like "Present", optionally in parentheses and followed by a location
+const DATE_PATTERN = new RegExp(String.raw`^\(?${DATE_PART}(?:\s*(?:[–—-]|to|bis|au|à|até|a)\s*(?:${DATE_PART}|[\p{L}'’]{3,15}))?\)?(?:\s*[|,·•]\s*.+)?$`, 'iu');
+// Email, phone, URL or profile link: what a contact line is made of
+const CONTACT_PATTERN = /@|https?:\/\/|www\.|\.(?:com|dev|io|me|net|org)\b|\+?\d[\d\s().-]{6,}\d|linkedin|github/i;
+
+// Removes emphasis wrapped around the whole text: "**Title**", "*Jan 2020*", "_Remote_"
+const unwrap = (text: string): string => {
+    const match = text.trim().match(/^(\*\*|__|\*|_)(.+)\1$/);
+    return match ? unwrap(match[2]) : text.trim();
+};
+
+const withoutEmphasis = (text: string): string => text.replace(/[*_]+/g, '').trim();
+
+const isDateText = (text: string): boolean => {
+    const value = withoutEmphasis(text);
+    return value.length <= 60 && DATE_PATTERN.test(value);
+};
+
+const isAllCaps = (text: string): boolean => /\p{Lu}/u.test(text) && text === text.toUpperCase();
+
+// "**Title** | Company", "**Title** at Company" or a line with pipes, as opposed to a bold phrase starting a sentence
+const isEntryHeader = (text: string): boolean =>
+    / \| /.test(text) || /^(\*\*|__)(.+?)\1\s*(?:$|[|,@–—-]|at\s)/.test(text.trim());
+
+const LEADING_SEPARATOR = /^\s*(?:[|,:@·•–—-]|at\s)\s*/i;
+
+// Splits an entry's first line into title, subtitle and a trailing date, in the variants models write:
+// "**Title** | Company | Jan 2020 – Present", "Title at Company (2019 – 2021)", "**Degree**, School, 2014"
+const splitEntryHeader = (text: string): Omit<ResumeEntry, 'details'> => {
+    let rest = text.replace(HEADING_PATTERN, '$2').trim();
+    let date = '';
+
+    const parenthesized = rest.match(/^(.*\S)\s*\(([^()]+)\)$/);
+    if (parenthesized && isDateText(parenthesized[2])) {
+        date = withoutEmphasis(parenthesized[2]);
+        rest = parenthesized[1];
+    }
+    const parts = rest.split(/\s+[|·•]\s+/);
+    if (!date && parts.length > 1 && isDateText(parts[parts.length - 1])) {
+        date = withoutEmphasis(parts.pop() ?? '');
+    }
+    const lastComma = parts[parts.length - 1].match(/^(.*\S),\s*([^,]+)$/);
+    if (!date && lastComma && isDateText(lastComma[2])) {
+        date = withoutEmphasis(lastComma[2]);
+        parts[parts.length - 1] = lastComma[1];
+    }
+
+    const [first, ...others] = parts;
+    const bold = first.match(/^(\*\*|__)(.+?)\1(.*)$/);
+    if (bold) {
+        const subtitle = [bold[3].replace(LEADING_SEPARATOR, ''), ...others].map(unwrap).filter(Boolean).join(' | ');
+        return { title: bold[2].trim().replace(/:$/, ''), subtitle, date };
+    }
+    if (others.length > 0) {
+        return { title: unwrap(first), subtitle: others.map(unwrap).join(' | '), date };
+    }
+    const split = first.match(/^([^:]{1,40}):\s+(.+)$/) ?? first.match(/^(.+?)\s+(?:at|@|–|—|-)\s+(.+)$/i) ?? first.match(/^(.+?),\s+(.+)$/);
+    return split
+        ? { title: unwrap(split[1]), subtitle: unwrap(split[2]), date }
+        : { title: unwrap(first), subtitle: '', date };
+};
+
+// ---------- Sections ----------
+
+// Jobs and the entries of the other structured sections share one layout: a header line, an optional
+// date line, then bullets. In entry sections a bullet-only list ("* **Project** - description") makes one entry
+// per bullet with nested bullets as its details, and every plain line starts an entry of its own.
+const parseEntries = (lines: SourceLine[], sectionTitle: string, diagnose: Diagnose, entrySection: boolean): ResumeEntry[] => {
+    const entries: ResumeEntry[] = [];
+    let current: ResumeEntry | null = null;
+    // Whether the current entry was itself a bullet, so that bullets at the same level are its siblings
+    let currentIsBullet = false;
+    let previous: 'blank' | 'bullet' | 'line' = 'blank';
+
+    const start = (text: string, isBullet: boolean) => {
+        current = { ...splitEntryHeader(text), details: [] };
+        currentIsBullet = isBullet;
+        entries.push(current);
+    };
+
+    for (const source of lines) {
+        if (!source.text.trim()) {
+            previous = 'blank';
+            continue;
+        }
+        const bullet = source.text.match(BULLET_PATTERN);
+        const text = (bullet ? bullet[2] : source.text).trim();
+
+        if (HEADING_PATTERN.test(source.text)) {
+            start(text, false);
+        } else if (bullet) {
+            const nested = bullet[1].length >= 2;
+            if (current && (nested || !currentIsBullet)) {
+                current.details.push(text);
+            } else if (entrySection || isEntryHeader(text)) {
+                start(text, true);
+            } else if (current) {
+                current.details.push(text);
+            } else {
+                diagnose(source, `Bullet before the first entry in "${sectionTitle}"`);
+            }
+        } else if (isDateText(text)) {
+            if (current && !current.date) current.date = withoutEmphasis(text).replace(/^\((.*)\)$/, '$1');
+            else if (current) current.details.push(text);
+            else diagnose(source, `Date before the first entry in "${sectionTitle}"`);
+        } else if (!current || entrySection || isEntryHeader(text) || previous === 'bullet' || (previous === 'blank' && current.details.length > 0)) {
+            // In experience, a plain line after a job's bullets is the next job, e.g. "Engineer at Acme"
+            start(text, false);
+        } else {
+            // A description or location line directly under the header
+            current.details.push(text);
+        }
+        previous = bullet ? 'bullet' : 'line';
+    }
+    return entries;
+};
+
+// "* **Category:** items", "- **Category**: items", "Category: items", or a category on its own with nested items
+const parseSkills = (lines: SourceLine[]): ResumeSkillLine[] => {
+    const skills: ResumeSkillLine[] = [];
+    for (const source of lines) {
+        const bullet = source.text.match(BULLET_PATTERN);
+        const heading = source.text.match(HEADING_PATTERN);
+        const text = (bullet?.[2] ?? heading?.[2] ?? source.text).trim();
+        const last = skills[skills.length - 1];
+        const category = text.match(/^(?:\*\*|__)(.+?)(?::(?:\*\*|__)|(?:\*\*|__):)\s*(.*)$/)
+            ?? text.match(/^([^,:*]{1,40}):\s+(.*)$/)
+            ?? text.match(/^(?:\*\*|__)([^*_]+)(?:\*\*|__)()$/);
+
+        const nested = bullet !== null && bullet[1].length >= 2;
+        if (heading) {
+            skills.push({ category: unwrap(text), items: '' });
+        } else if (last && nested && !last.category && !last.items.includes(',')) {
+            // "* Tools" with nested items: the parent names the category
+            last.category = unwrap(last.items).replace(/:$/, '');
+            last.items = text;
+        } else if (category) {
+            skills.push({ category: category[1].trim(), items: category[2].trim() });
+        } else if (last && (last.items === '' || nested)) {
+            last.items = last.items ? `${last.items}, ${text}` : text;
+        } else {
+            skills.push({ category: '', items: text });
+        }
+    }
+    return skills;
+};
+
+// Spoken languages often come as one line, "English (Native) · German (C1)"; each becomes an entry of its own
+const parseLanguages = (lines: SourceLine[], sectionTitle: string, diagnose: Diagnose): ResumeEntry[] => {
+    const expanded = lines.flatMap((source): SourceLine[] => {
+        const bullet = source.text.match(BULLET_PATTERN);
+        const text = bullet ? bullet[2] : source.text;
+        const parts = text.split(/\s*[;·•]\s*|,\s*(?![^()]*\))/).map(part => part.trim()).filter(Boolean);
+        if (parts.length < 2 || / \| /.test(text) || parts.some(part => part.length > 40)) return [source];
+        return parts.map(part => ({ text: `* ${part}`, line: source.line }));
+    });
+    return parseEntries(expanded, sectionTitle, diagnose, true).map(entry => {
+        const proficiency = entry.subtitle ? null : entry.title.match(/^(.+?)\s*\((.+)\)$/);
+        return proficiency ? { ...entry, title: proficiency[1], subtitle: proficiency[2] } : entry;
+    });
+};
+
+const toSection = (title: string, lines: SourceLine[], diagnose: Diagnose): ResumeSection => {
+    const kind = resumeHeadingKind(title);
+    // Blank lines only matter inside free-form sections, where they separate paragraphs and lists
+    const content = lines.filter(line => line.text.trim() !== '');
+    switch (kind) {
+        case 'summary':
+            return { kind, title, text: content.map(line => line.text.trim()).join('\n') };
+        case 'skills':
+            return { kind, title, skills: parseSkills(content) };
+        case 'experience': {
+            const jobs = parseEntries(lines, title, diagnose, false)
+                .map((entry): ResumeJob => ({ title: entry.title, company: entry.subtitle, date: entry.date, bullets: entry.details }));
+            return { kind, title, jobs };
+        }
+        case 'education':
+        case 'projects':
+        case 'certifications':
+        case 'publications':
+            return { kind, title, entries: parseEntries(lines, title, diagnose, true) };
+        case 'languages':
+            return { kind, title, entries: parseLanguages(lines, title, diagnose) };
+        default:
+            return { kind: 'text', title, content: lines.map(line => line.text).join('\n').replace(/^\s*\n|\n\s*$/g, '') };
+    }
+};
+
+// ---------- Document ----------
+
+// The heading text when the line starts a section: a Markdown heading at the section level, or a bold or
+// capitalised line that names a known section ("**Education**", "WORK EXPERIENCE")
+const sectionTitle = (text: string, sectionLevel: number): string | null => {
+    const heading = text.match(HEADING_PATTERN);
+    if (heading) {
+        const title = unwrap(heading[2]);
+        return heading[1].length === sectionLevel || (heading[1].length < sectionLevel && resumeHeadingKind(title)) ? title : null;
+    }
+    const title = unwrap(text).replace(/:$/, '');
+    if (title.length > 40 || BULLET_PATTERN.test(text)) return null;
+    return isExactResumeHeading(title) || (isAllCaps(title) && resumeHeadingKind(title)) ? title : null;
+};
+
+// Models sometimes wrap the whole resume in a code fence; the fence lines are blanked so line numbers stay the same
+const stripCodeFence = (text: string): string =>
+    /^\s*```[\w-]*\n[\s\S]*\n```\s*$/.test(text) ? text.replace(/^(\s*)```[\w-]*/, '$1').replace(/```\s*$/, '') : text;
+
+// Parses the Markdown produced by the resume prompt into a structured document. Section headings are matched in every
+// output language and in common variants; whatever cannot be placed is reported rather than dropped silently.
+export const parseResumeWithDiagnostics = (text: string): ResumeParseResult => {
+    const diagnostics: ResumeParseDiagnostic[] = [];
+    if (!text || typeof text !== 'string' || !text.trim()) return { document: null, diagnostics };
+    const diagnose: Diagnose = (source, message) => diagnostics.push({ line: source.line, text: source.text.trim(), message });
+
+    const lines = stripCodeFence(text).replace(/\r\n?/g, '\n').split('\n').map((line, i): SourceLine => ({ text: line.replace(/\t/g, '    '), line: i + 1 }));
+    const filled = lines.filter(line => line.text.trim() !== '');
+
+    // The name is the first "# " heading, or the first line when there is none; text before it is commentary
+    const nameIndex = Math.max(0, filled.findIndex(line => /^#\s/.test(line.text)));
+    filled.slice(0, nameIndex).forEach(line => diagnose(line, 'Text before the name'));
+    const nameLine = filled[nameIndex];
+    const headingLevels = filled.slice(nameIndex + 1).map(line => line.text.match(HEADING_PATTERN)?.[1].length).filter((level): level is number => level !== undefined);
+    // Sections are "## " headings, or the top level used below the name when the model picked another one
+    const sectionLevel = headingLevels.includes(2) || headingLevels.length === 0 ? 2 : Math.min(...headingLevels);
+
+    let name = '';
+    let bodyStart = nameIndex;
+    if (nameLine && !sectionTitle(nameLine.text, sectionLevel) && !CONTACT_PATTERN.test(nameLine.text)) {
+        name = unwrap(nameLine.text.replace(HEADING_PATTERN, '$2'));
+        bodyStart = nameIndex + 1;
+    } else if (nameLine) {
+        diagnostics.push({ line: nameLine.line, text: nameLine.text.trim(), message: 'No name at the top of the resume' });
+    }
+
+    let headline = '';
+    const contact: string[] = [];
+    const rawSections: { title: string; lines: SourceLine[] }[] = [];
+    const firstBodyLine = filled[bodyStart];
+    for (const line of firstBodyLine ? lines.slice(lines.indexOf(firstBodyLine)) : []) {
+        const title = line.text.trim() ? sectionTitle(line.text, sectionLevel) : null;
+        if (title !== null) {
+            rawSections.push({ title, lines: [] });
+        } else if (rawSections.length > 0) {
+            rawSections[rawSections.length - 1].lines.push(line);
+        } else if (line.text.trim() && CONTACT_PATTERN.test(line.text)) {
+            contact.push(...line.text.split(/\s+[|·•]\s+|\s*\|\s*/).map(item => item.trim()).filter(Boolean));
+        } else if (line.text.trim() && !headline && contact.length === 0 && name && line.text.trim().length <= 120 && !HEADING_PATTERN.test(line.text)) {
+            // A short line right under the name, usually in italics: "*Senior Backend Engineer*"
+            headline = unwrap(line.text);
+        } else if (line.text.trim()) {
+            diagnose(line, 'Text between the header and the first section');
+        }
+    }
+    const sections = rawSections.map(({ title, lines: sectionLines }) => toSection(title, sectionLines, diagnose));
+    diagnostics.sort((a, b) => a.line - b.line);
+    if (rawSections.length === 0 && firstBodyLine) {
+        diagnostics.unshift({ line: firstBodyLine.line, text: '', message: 'No section headings were found' });
+    }
+    return { document: { name, headline, contact, sections }, diagnostics };
+};
+
+export const parseResumeMarkdown = (text: string): ResumeDocument | null => parseResumeWithDiagnostics(text).document;
+
+const serializeEntry = (title: string, subtitle: string, date: string, details: string[]): string =>
+    [
+        [title.trim() && `**${title.trim()}**`, subtitle.trim()].filter(Boolean).join(' | '),
+        date.trim() ? `*${date.trim()}*` : '',
+        ...details.filter(detail => detail.trim()).map(detail => `* ${detail.trim()}`),
+    ].filter(Boolean).join('\n');
+
+// One bullet per entry, for sections whose entries are usually a single line, such as certifications
+const serializeListEntry = (entry: ResumeEntry): string =>
+    [
+        `* ${[entry.title.trim() && `**${entry.title.trim()}**`, entry.subtitle.trim(), entry.date.trim()].filter(Boolean).join(' | ')}`,
+        ...entry.details.filter(detail => detail.trim()).map(detail => `  * ${detail.trim()}`),
+    ].join('\n');
+
+const serializeSection = (section: ResumeSection): string => {
+    switch (section.kind) {
+        case 'summary':
+            return section.text.trim();
+        case 'skills':
+            return section.skills
+                .filter(skill => skill.items.trim() || skill.category.trim())
+                .map(skill => (skill.category.trim() ? `* **${skill.category.trim()}:** ${skill.items.trim()}` : `* ${skill.items.trim()}`))
+                .join('\n');
+        case 'experience':
+            return section.jobs.map(job => serializeEntry(job.title, job.company, job.date, job.bullets)).join('\n\n');
+        case 'education':
+        case 'projects':
+            return section.entries.map(entry => serializeEntry(entry.title, entry.subtitle, entry.date, entry.details)).join('\n\n');
+        case 'certifications':
+        case 'publications':
+        case 'languages':
+            return section.entries.map(serializeListEntry).join('\n');
+        default:
+            return section.content.trim();
+    }
+};
+
+// Inverse of parseResumeMarkdown, so edits made to the structured document can be copied, printed and saved as Markdown
+export const serializeResumeMarkdown = (doc: ResumeDocument): string =>
+    [
+        `# ${doc.name.trim()}`,
+        doc.headline.trim() ? `*${doc.headline.trim()}*` : '',
+        doc.contact.map(item => item.trim()).filter(Boolean).join(' | '),
+        ...doc.sections.map(section => `## ${section.title.trim()}\n${serializeSection(section)}`),
+    ].filter(Boolean).join('\n\n') + '\n';
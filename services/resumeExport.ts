@@ -0,0 +1,615 @@
+import type { PersonalInfo, ResumeDocument, ResumeEntry, ResumeEntryKind, ResumeJob, ResumeSection, ResumeSkillLine, ResumeTheme } from "../types";
+import { DEFAULT_RESUME_THEME, hexToRgb, isSidebarSection, RESUME_FONTS, RESUME_TEMPLATES } from "./resumeTemplates";
+import { safeFileName, type ExportFormat } from "./download";
+import { parseInline, type MarkdownInline } from "./markdown";
+
+// A run of inline text with the Markdown emphasis resolved
+export interface InlineRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    link?: string;
+}
+
+const toRuns = (nodes: MarkdownInline[], style: Omit<InlineRun, 'text'> = {}): InlineRun[] =>
+    nodes.flatMap((node): InlineRun[] => {
+        switch (node.type) {
+            case 'text':
+            case 'code':
+                return [{ text: node.text, ...style }];
+            case 'softbreak':
+            case 'hardbreak':
+                return [{ text: ' ', ...style }];
+            case 'strong':
+                return toRuns(node.children, { ...style, bold: true });
+            case 'emphasis':
+                return toRuns(node.children, { ...style, italic: true });
+            case 'link':
+                // Unsafe URLs were already dropped by the parser; their text stays
+                return toRuns(node.children, node.href ? { ...style, link: node.href } : style);
+            default:
+                return toRuns(node.children, style);
+        }
+    });
+
+// The same Markdown reading as the on-screen and printed resume, flattened for formats without nesting
+export const parseInlineRuns = (text: string): InlineRun[] => toRuns(parseInline(text));
+
+export const stripInline = (text: string): string =>
+    parseInlineRuns(text).map((run, i, runs) =>
+        // A link split into several runs, e.g. by bold text inside it, gets its URL once at the end
+        run.link && runs[i + 1]?.link !== run.link && run.link !== run.text ? `${run.text} (${run.link})` : run.text
+    ).join('');
+
+// Applicant tracking systems and the standard PDF fonts both choke on typographic characters
+export const toPlainCharacters = (text: string): string =>
+    text
+        .replace(/[\u2013\u2014\u2212]/g, '-')
+        .replace(/[\u2018\u2019\u201B]/g, "'")
+        .replace(/[\u201C\u201D\u201F]/g, '"')
+        .replace(/[\u2022\u25CF\u25AA]/g, '-')
+        .replace(/\u2026/g, '...')
+        .replace(/\u00A0/g, ' ');
+
+// Lines of a free-form section, split into bullets and paragraphs in document order
+const splitTextSection = (content: string): { bullet: boolean; text: string }[] =>
+    content.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+        const bullet = line.match(/^[*-] (.*)/);
+        return bullet ? { bullet: true, text: bullet[1] } : { bullet: false, text: line };
+    });
+
+const jobHeading = (job: ResumeJob): string => [job.title, job.company].filter(Boolean).join(', ');
+
+// Education, project, certificate and publication entries are laid out like jobs in every format
+const entryAsJob = (entry: ResumeEntry): ResumeJob =>
+    ({ title: stripInline(entry.title), company: stripInline(entry.subtitle), date: entry.date, bullets: entry.details });
+
+// Spoken languages are laid out like skill lines: the language, then the proficiency
+const languageAsSkill = (entry: ResumeEntry): ResumeSkillLine =>
+    ({ category: stripInline(entry.title), items: entry.subtitle });
+
+export const exportFileName = (doc: ResumeDocument, extension: string): string =>
+    safeFileName(`${doc.name.trim()} Resume.${extension}`);
+
+// ---------- Plain text (ATS) ----------
+
+const sectionToText = (section: ResumeSection): string[] => {
+    switch (section.kind) {
+        case 'summary':
+            return [stripInline(section.text)];
+        case 'skills':
+        case 'languages':
+            return (section.kind === 'skills' ? section.skills : section.entries.map(languageAsSkill))
+                .map(skill => (skill.category && skill.items ? `${skill.category}: ${stripInline(skill.items)}` : skill.category || stripInline(skill.items)));
+        case 'experience':
+        case 'education':
+        case 'projects':
+        case 'certifications':
+        case 'publications':
+            return (section.kind === 'experience' ? section.jobs : section.entries.map(entryAsJob)).flatMap((job, index) => [
+                ...(index > 0 ? [''] : []),
+                jobHeading(job),
+                ...(job.date ? [job.date] : []),
+                ...job.bullets.map(bullet => `- ${stripInline(bullet)}`),
+            ]);
+        default:
+            return splitTextSection(section.content).map(line => (line.bullet ? `- ${stripInline(line.text)}` : stripInline(line.text)));
+    }
+};
+
+// Single column, no tables or symbols, standard headings in capitals: the layout parsers handle most reliably
+export const toAtsText = (doc: ResumeDocument): string =>
+    toPlainCharacters([
+        doc.name.toUpperCase(),
+        ...(doc.headline.trim() ? [stripInline(doc.headline)] : []),
+        doc.contact.filter(Boolean).join(' | '),
+        ...doc.sections.flatMap(section => ['', section.title.toUpperCase(), ...sectionToText(section)]),
+    ].join('\n')) + '\n';
+
+// ---------- JSON Resume ----------
+
+// Month name prefixes in each output language (English, German, French, Portuguese), January first
+const MONTH_PREFIXES = [
+    ['jan'], ['feb', 'fév', 'fev'], ['mar', 'mär', 'mrz'], ['apr', 'avr', 'abr'], ['may', 'mai'], ['jun', 'juin'],
+    ['jul', 'juil'], ['aug', 'aoû', 'aou', 'ago'], ['sep', 'set'], ['oct', 'okt', 'out'], ['nov'], ['dec', 'dez', 'déc'],
+];
+
+const monthNumber = (name: string): number =>
+    MONTH_PREFIXES.findIndex(prefixes => prefixes.some(prefix => name.startsWith(prefix))) + 1;
+
+// "Mar 2020", "März 2020", "03/2020" or "2020" -> ISO 8601 ("2020-03" / "2020"); undefined for "Present", "heute" and unrecognised text
+const toIsoDate = (text: string): string | undefined => {
+    const value = text.trim().normalize('NFC').toLowerCase();
+    const monthYear = value.match(/^(\p{L}{3,})\.?\s+(?:de\s+)?(\d{4})$/u);
+    if (monthYear && monthNumber(monthYear[1]) > 0) {
+        return `${monthYear[2]}-${String(monthNumber(monthYear[1])).padStart(2, '0')}`;
+    }
+    const numeric = value.match(/^(\d{1,2})[/.](\d{4})$/);
+    if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) {
+        return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+    }
+    return /^\d{4}$/.test(value) ? value : undefined;
+};
+
+export const parseDateRange = (range: string): { startDate?: string; endDate?: string } => {
+    const [start = '', end = ''] = range.split(/\s+[\u2013\u2014-]\s+|\s*[\u2013\u2014]\s*|\s+(?:to|bis|au|\u00E0|at\u00E9|a)\s+/i);
+    return { startDate: toIsoDate(start), endDate: toIsoDate(end) };
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,}$/;
+
+const PROFILE_NETWORKS: [string, RegExp][] = [['LinkedIn', /linkedin\.com/i], ['GitHub', /github\.com/i]];
+
+// Contact details from the form where given, otherwise picked out of the header line
+const classifyContact = (contact: string[], personalInfo?: PersonalInfo | null) => {
+    const items = contact.map(stripInline).map(item => item.trim()).filter(Boolean);
+    const isLink = (item: string) => !EMAIL_PATTERN.test(item) && !PHONE_PATTERN.test(item) && /\.[a-z]{2,}/i.test(item);
+    const network = (item: string) => PROFILE_NETWORKS.find(([, pattern]) => pattern.test(item))?.[0];
+    const github = personalInfo?.github.trim();
+    const profiles = personalInfo
+        ? [
+            ...(personalInfo.linkedin.trim() ? [{ network: 'LinkedIn', url: personalInfo.linkedin.trim() }] : []),
+            ...(github ? [{ network: 'GitHub', url: /github\.com/i.test(github) ? github : `github.com/${github.replace(/^@/, '')}` }] : []),
+            ...personalInfo.links.filter(link => link.url.trim()).map(link => ({ network: link.label.trim() || 'Website', url: link.url.trim() })),
+        ]
+        : items.filter(item => network(item)).map(item => ({ network: network(item) ?? '', url: item }));
+    return {
+        email: personalInfo?.email || items.find(item => EMAIL_PATTERN.test(item)) || undefined,
+        phone: personalInfo?.phone || items.find(item => PHONE_PATTERN.test(item)) || undefined,
+        url: personalInfo?.website || items.find(item => isLink(item) && !network(item)) || undefined,
+        location: personalInfo?.location.trim() || undefined,
+        profiles,
+    };
+};
+
+// "Berlin, Germany" becomes a city and a region; JSON Resume has no free-text location
+const toJsonLocation = (location: string | undefined) => {
+    if (!location) return undefined;
+    const [city, ...rest] = location.split(/\s*,\s*/);
+    return { city, region: rest.join(', ') || undefined };
+};
+
+const withProtocol = (url: string | undefined): string | undefined =>
+    url && !/^https?:\/\//i.test(url) ? `https://${url}` : url;
+
+const entriesOf = (doc: ResumeDocument, kind: ResumeEntryKind): ResumeEntry[] =>
+    doc.sections.flatMap(section => (section.kind === kind ? section.entries : []));
+
+// A single date on an education entry is the graduation date
+const educationDates = (date: string): { startDate?: string; endDate?: string } => {
+    const range = parseDateRange(date);
+    return range.endDate || /[\u2013\u2014-]|\s(?:to|bis|au|\u00E0|at\u00E9|a)\s/i.test(date) ? range : { endDate: range.startDate };
+};
+
+// The link text without the URL that stripInline appends
+const linkText = (text: string): string => parseInlineRuns(text).map(run => run.text).join('').trim();
+
+// The project's link, usually on its name
+const entryUrl = (entry: ResumeEntry): string | undefined =>
+    [...parseInlineRuns(entry.title), ...parseInlineRuns(entry.subtitle)].find(run => run.link)?.link;
+
+// Converts to the jsonresume.org schema (v1.0.0); fields that are not present are omitted rather than left empty
+export const toJsonResume = (doc: ResumeDocument, personalInfo?: PersonalInfo | null): Record<string, unknown> => {
+    const { email, phone, url, location, profiles } = classifyContact(doc.contact, personalInfo);
+    const summary = doc.sections.find(section => section.kind === 'summary');
+    const work = doc.sections.flatMap(section => (section.kind === 'experience' ? section.jobs : []));
+    const skills = doc.sections.flatMap(section => (section.kind === 'skills' ? section.skills : []));
+    const education = entriesOf(doc, 'education').map(entry => ({
+        institution: stripInline(entry.subtitle) || undefined,
+        area: stripInline(entry.title),
+        ...educationDates(entry.date),
+        courses: entry.details.length > 0 ? entry.details.map(stripInline) : undefined,
+    }));
+    const projects = entriesOf(doc, 'projects').map(entry => ({
+        name: linkText(entry.title),
+        description: stripInline(entry.subtitle) || undefined,
+        url: entryUrl(entry),
+        ...parseDateRange(entry.date),
+        highlights: entry.details.length > 0 ? entry.details.map(stripInline) : undefined,
+    }));
+    const certificates = entriesOf(doc, 'certifications').map(entry => ({
+        name: linkText(entry.title),
+        issuer: stripInline(entry.subtitle) || undefined,
+        // A single date is read as the start of a range
+        date: parseDateRange(entry.date).startDate,
+        url: entryUrl(entry),
+    }));
+    const publications = entriesOf(doc, 'publications').map(entry => ({
+        name: linkText(entry.title),
+        publisher: stripInline(entry.subtitle) || undefined,
+        releaseDate: parseDateRange(entry.date).startDate,
+        url: entryUrl(entry),
+        summary: entry.details.length > 0 ? entry.details.map(stripInline).join(' ') : undefined,
+    }));
+    const languages = entriesOf(doc, 'languages').map(entry => ({
+        language: stripInline(entry.title),
+        fluency: stripInline(entry.subtitle) || undefined,
+    }));
+
+    return {
+        $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+        basics: {
+            name: doc.name,
+            label: stripInline(doc.headline) || work[0]?.title || undefined,
+            email,
+            phone,
+            url: withProtocol(url),
+            location: toJsonLocation(location),
+            profiles: profiles.length > 0 ? profiles.map(profile => ({ network: profile.network, url: withProtocol(profile.url) })) : undefined,
+            summary: summary?.kind === 'summary' ? stripInline(summary.text) : undefined,
+        },
+        work: work.map(job => ({
+            name: job.company,
+            position: job.title,
+            ...parseDateRange(job.date),
+            highlights: job.bullets.map(stripInline),
+        })),
+        skills: skills.map(skill => ({
+            name: skill.category || 'Skills',
+            keywords: stripInline(skill.items).split(/\s*[,;]\s*/).filter(Boolean),
+        })),
+        ...(education.length > 0 ? { education } : {}),
+        ...(certificates.length > 0 ? { certificates } : {}),
+        ...(publications.length > 0 ? { publications } : {}),
+        ...(languages.length > 0 ? { languages } : {}),
+        ...(projects.length > 0 ? { projects } : {}),
+        meta: { lastModified: new Date().toISOString() },
+    };
+};
+
+// ---------- PDF ----------
+
+type Rgb = [number, number, number];
+
+// A column of text that continues onto following pages independently of other columns
+interface PdfFlow {
+    x: number;
+    width: number;
+    y: number;
+    page: number;
+}
+
+const TEXT_COLOR: Rgb = [31, 41, 55];
+const MUTED_COLOR: Rgb = [75, 85, 99];
+
+const tint = ([r, g, b]: Rgb, amount: number): Rgb =>
+    [r, g, b].map(channel => Math.round(channel + (255 - channel) * amount)) as Rgb;
+
+// Paginated US Letter PDF with real, selectable text, laid out to match the chosen template
+export const toPdf = async (doc: ResumeDocument, theme: ResumeTheme = DEFAULT_RESUME_THEME): Promise<Blob> => {
+    const { jsPDF } = await import('jspdf');
+    const template = RESUME_TEMPLATES[theme.templateId];
+    const font = RESUME_FONTS[theme.fontId].pdf;
+    const accent = hexToRgb(theme.accentColor);
+    const base = template.fontSizePt;
+    const spacing = template.compact ? 0.55 : 1;
+    const margin = template.compact ? 36 : theme.templateId === 'academic' ? 60 : 50;
+    const twoColumn = template.layout === 'two-column';
+
+    const pdf = new jsPDF({ unit: 'pt', format: 'letter' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - margin * 2;
+    const sidebarWidth = twoColumn ? contentWidth * 0.3 : 0;
+    const gutter = twoColumn ? 20 : 0;
+
+    const paintPage = () => {
+        if (!twoColumn) return;
+        pdf.setFillColor(...tint(accent, 0.92));
+        pdf.rect(0, 0, margin + sidebarWidth + gutter / 2, pageHeight, 'F');
+    };
+
+    const goTo = (flow: PdfFlow) => {
+        while (pdf.getNumberOfPages() < flow.page) {
+            pdf.addPage();
+            paintPage();
+        }
+        pdf.setPage(flow.page);
+    };
+
+    const ensureSpace = (flow: PdfFlow, height: number) => {
+        if (flow.y + height > pageHeight - margin) {
+            flow.page += 1;
+            flow.y = margin;
+        }
+        goTo(flow);
+    };
+
+    const write = (flow: PdfFlow, text: string, {
+        size = base, style = 'normal', color = TEXT_COLOR, indent = 0, width = flow.width - indent, align = 'left' as 'left' | 'center' | 'right', gapAfter = 0,
+    } = {}) => {
+        pdf.setFont(font, style);
+        pdf.setFontSize(size);
+        const lineHeight = size * 1.3;
+        const lines: string[] = pdf.splitTextToSize(toPlainCharacters(text), width);
+        lines.forEach(line => {
+            ensureSpace(flow, lineHeight);
+            pdf.setTextColor(...color);
+            const x = align === 'center' ? flow.x + flow.width / 2 : align === 'right' ? flow.x + flow.width : flow.x + indent;
+            pdf.text(line, x, flow.y + size, { align });
+            flow.y += lineHeight;
+        });
+        flow.y += gapAfter;
+    };
+
+    const rule = (flow: PdfFlow, color: Rgb, lineWidth = 0.75) => {
+        pdf.setDrawColor(...color);
+        pdf.setLineWidth(lineWidth);
+        pdf.line(flow.x, flow.y, flow.x + flow.width, flow.y);
+    };
+
+    const heading = (flow: PdfFlow, title: string) => {
+        // Keep a heading together with at least its first lines
+        ensureSpace(flow, base * 6);
+        flow.y += 10 * spacing;
+        write(flow, theme.templateId === 'academic' ? title : title.toUpperCase(), { size: base * 1.12, style: 'bold', color: accent, gapAfter: 2 });
+        if (theme.templateId === 'classic') rule(flow, [200, 200, 200]);
+        if (theme.templateId === 'academic') rule(flow, accent, 0.5);
+        flow.y += 5 * spacing;
+    };
+
+    const bullet = (flow: PdfFlow, text: string, indent = 0) => {
+        pdf.setFont(font, 'normal');
+        pdf.setFontSize(base);
+        ensureSpace(flow, base * 1.3);
+        pdf.setTextColor(...TEXT_COLOR);
+        pdf.text('-', flow.x + indent + 3, flow.y + base);
+        write(flow, stripInline(text), { indent: indent + 12, gapAfter: 2 * spacing });
+    };
+
+    const job = (flow: PdfFlow, entry: ResumeJob) => {
+        ensureSpace(flow, base * 4.5);
+        const title = [entry.title, entry.company].filter(Boolean).join(' | ');
+        const top = flow.y;
+        if (template.datesPosition === 'left') {
+            const dateWidth = 100;
+            write(flow, entry.date, { size: base * 0.95, color: MUTED_COLOR, width: dateWidth - 8 });
+            const afterDate = flow.y;
+            flow.y = top;
+            write(flow, title, { style: 'bold', indent: dateWidth });
+            entry.bullets.forEach(text => bullet(flow, text, dateWidth));
+            flow.y = Math.max(flow.y, afterDate);
+        } else {
+            pdf.setFont(font, 'italic');
+            pdf.setFontSize(base * 0.95);
+            const dateWidth = entry.date ? pdf.getTextWidth(toPlainCharacters(entry.date)) + 12 : 0;
+            write(flow, title, { style: 'bold', width: flow.width - dateWidth });
+            if (entry.date) {
+                const afterTitle = flow.y;
+                const titlePage = flow.page;
+                flow.y = top;
+                write(flow, entry.date, { size: base * 0.95, style: 'italic', color: MUTED_COLOR, align: 'right' });
+                flow.y = afterTitle;
+                flow.page = titlePage;
+                goTo(flow);
+            }
+            flow.y += 2 * spacing;
+            entry.bullets.forEach(text => bullet(flow, text));
+        }
+        flow.y += 7 * spacing;
+    };
+
+    const skills = (flow: PdfFlow, lines: ResumeSkillLine[], stacked: boolean) => {
+        const labelWidth = stacked ? 0 : flow.width * (template.compact ? 0.2 : 0.26);
+        lines.forEach(skill => {
+            const items = stripInline(skill.items);
+            if (stacked || !skill.category) {
+                if (skill.category) write(flow, skill.category, { style: 'bold' });
+                write(flow, items, { gapAfter: (stacked ? 6 : 2) * spacing });
+                return;
+            }
+            ensureSpace(flow, base * 1.3);
+            const top = flow.y;
+            write(flow, skill.category, { style: 'bold', width: labelWidth - 8 });
+            const afterLabel = flow.y;
+            flow.y = top;
+            write(flow, items, { indent: labelWidth });
+            flow.y = Math.max(flow.y, afterLabel) + 2 * spacing;
+        });
+    };
+
+    const section = (flow: PdfFlow, entry: ResumeSection, inSidebar = false) => {
+        heading(flow, entry.title);
+        switch (entry.kind) {
+            case 'summary':
+                write(flow, stripInline(entry.text), { gapAfter: 2 });
+                break;
+            case 'skills':
+                skills(flow, entry.skills, inSidebar);
+                break;
+            case 'experience':
+                entry.jobs.forEach(item => job(flow, item));
+                break;
+            case 'education':
+            case 'projects':
+            case 'certifications':
+            case 'publications':
+                entry.entries.forEach(item => job(flow, entryAsJob(item)));
+                break;
+            case 'languages':
+                skills(flow, entry.entries.map(languageAsSkill), inSidebar);
+                break;
+            default:
+                splitTextSection(entry.content).forEach(line => (line.bullet ? bullet(flow, line.text) : write(flow, stripInline(line.text), { gapAfter: 2 })));
+        }
+    };
+
+    const contact = doc.contact.map(stripInline).filter(Boolean).join('  |  ');
+    const headline = stripInline(doc.headline);
+    paintPage();
+
+    if (twoColumn) {
+        const bandHeight = margin + base * 2.2 * 1.3 + (headline ? base * 1.15 * 1.3 : 0) + (contact ? base * 1.3 : 0) + 8;
+        pdf.setFillColor(...accent);
+        pdf.rect(0, 0, pageWidth, bandHeight, 'F');
+        const band: PdfFlow = { x: margin, width: contentWidth, y: margin - 10, page: 1 };
+        write(band, doc.name, { size: base * 2.2, style: 'bold', color: [255, 255, 255] });
+        if (headline) write(band, headline, { size: base * 1.15, color: [255, 255, 255] });
+        if (contact) write(band, contact, { size: base * 0.95, color: tint(accent, 0.8) });
+
+        const sidebar: PdfFlow = { x: margin, width: sidebarWidth, y: bandHeight + 8, page: 1 };
+        const main: PdfFlow = { x: margin + sidebarWidth + gutter, width: contentWidth - sidebarWidth - gutter, y: bandHeight + 8, page: 1 };
+        doc.sections.filter(isSidebarSection).forEach(entry => section(sidebar, entry, true));
+        doc.sections.filter(entry => !isSidebarSection(entry)).forEach(entry => section(main, entry));
+    } else {
+        const flow: PdfFlow = { x: margin, width: contentWidth, y: margin, page: 1 };
+        if (template.compact) {
+            pdf.setFont(font, 'normal');
+            pdf.setFontSize(base * 0.95);
+            const contactWidth = contact ? Math.min(pdf.getTextWidth(toPlainCharacters(contact)) + 4, contentWidth * 0.55) : 0;
+            const top = flow.y;
+            write(flow, doc.name, { size: base * 1.8, style: 'bold', width: contentWidth - contactWidth - 12 });
+            if (headline) write(flow, headline, { size: base * 1.1, color: accent, width: contentWidth - contactWidth - 12 });
+            const afterName = flow.y;
+            if (contact) {
+                flow.y = top + base * 0.6;
+                write(flow, contact, { size: base * 0.95, color: MUTED_COLOR, align: 'right', width: contactWidth });
+            }
+            flow.y = Math.max(flow.y, afterName) + 2;
+            rule(flow, accent, 1.5);
+            flow.y += 2;
+        } else {
+            write(flow, doc.name, { size: base * 2.1, style: theme.templateId === 'academic' ? 'normal' : 'bold', align: 'center', gapAfter: 2 });
+            if (headline) write(flow, headline, { size: base * 1.15, color: accent, align: 'center', gapAfter: 2 });
+            if (contact) write(flow, contact, { size: base * 0.95, color: MUTED_COLOR, align: 'center', gapAfter: 6 });
+        }
+        doc.sections.forEach(entry => section(flow, entry));
+    }
+
+    const pageCount = pdf.getNumberOfPages();
+    if (pageCount > 1) {
+        pdf.setFont(font, 'normal');
+        pdf.setFontSize(8);
+        pdf.setTextColor(120, 120, 120);
+        for (let page = 1; page <= pageCount; page++) {
+            pdf.setPage(page);
+            pdf.text(`${toPlainCharacters(doc.name)} - ${page}/${pageCount}`, pageWidth / 2, pageHeight - margin / 2, { align: 'center' });
+        }
+    }
+    return pdf.output('blob');
+};
+
+// ---------- DOCX ----------
+
+// Word export follows the template's font, sizes, accent and date placement; the two-column layout is flattened so the file stays easy to edit
+export const toDocx = async (doc: ResumeDocument, theme: ResumeTheme = DEFAULT_RESUME_THEME): Promise<Blob> => {
+    const {
+        AlignmentType, BorderStyle, Document, ExternalHyperlink, Packer, Paragraph, TabStopPosition, TabStopType, TextRun,
+    } = await import('docx');
+    const template = RESUME_TEMPLATES[theme.templateId];
+    const accent = theme.accentColor.replace('#', '');
+    const size = Math.round(template.fontSizePt * 2);
+    const spacing = template.compact ? 0.5 : 1;
+    const academic = theme.templateId === 'academic';
+    // Twips; dates sit in this left column for the academic template
+    const dateColumn = 1800;
+
+    const runs = (text: string, base: { bold?: boolean; italics?: boolean } = {}) =>
+        parseInlineRuns(text).map(run => {
+            const textRun = new TextRun({ text: run.text, bold: base.bold || run.bold, italics: base.italics || run.italic, style: run.link ? 'Hyperlink' : undefined });
+            return run.link ? new ExternalHyperlink({ link: run.link, children: [textRun] }) : textRun;
+        });
+
+    const heading = (title: string) => new Paragraph({
+        children: [new TextRun({ text: academic ? title : title.toUpperCase(), bold: true, smallCaps: academic, size: Math.round(size * 1.12), color: accent })],
+        spacing: { before: Math.round(240 * spacing), after: Math.round(80 * spacing) },
+        border: theme.templateId === 'classic' || academic
+            ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: academic ? accent : 'C8C8C8', space: 1 } }
+            : undefined,
+        keepNext: true,
+    });
+
+    const bulletIndent = academic ? { left: dateColumn + 360, hanging: 360 } : undefined;
+    const bullet = (text: string) => new Paragraph({ children: runs(text), bullet: { level: 0 }, indent: bulletIndent, spacing: { after: Math.round(40 * spacing) } });
+    const paragraph = (text: string) => new Paragraph({ children: runs(text), spacing: { after: Math.round(80 * spacing) } });
+
+    const jobHeader = (job: ResumeJob) => {
+        const title = [new TextRun({ text: job.title, bold: true }), ...(job.company ? [new TextRun({ text: ` | ${job.company}` })] : [])];
+        return academic
+            ? new Paragraph({
+                children: [new TextRun({ text: job.date }), new TextRun({ text: '\t' }), ...title],
+                tabStops: [{ type: TabStopType.LEFT, position: dateColumn }],
+                indent: { left: dateColumn, hanging: dateColumn },
+                spacing: { before: 120, after: 40 },
+                keepNext: true,
+            })
+            : new Paragraph({
+                children: [...title, ...(job.date ? [new TextRun({ text: `\t${job.date}`, italics: true })] : [])],
+                tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+                spacing: { before: Math.round(120 * spacing), after: Math.round(40 * spacing) },
+                keepNext: true,
+            });
+    };
+
+    const body = doc.sections.flatMap(section => {
+        const children: InstanceType<typeof Paragraph>[] = [heading(section.title)];
+        switch (section.kind) {
+            case 'summary':
+                children.push(paragraph(section.text));
+                break;
+            case 'skills':
+            case 'languages':
+                (section.kind === 'skills' ? section.skills : section.entries.map(languageAsSkill)).forEach(skill => children.push(new Paragraph({
+                    children: [...(skill.category ? [new TextRun({ text: `${skill.category}: `, bold: true })] : []), ...runs(skill.items)],
+                    spacing: { after: Math.round(40 * spacing) },
+                })));
+                break;
+            case 'experience':
+            case 'education':
+            case 'projects':
+            case 'certifications':
+            case 'publications':
+                (section.kind === 'experience' ? section.jobs : section.entries.map(entryAsJob)).forEach(job => {
+                    children.push(jobHeader(job));
+                    job.bullets.forEach(text => children.push(bullet(text)));
+                });
+                break;
+            default:
+                splitTextSection(section.content).forEach(line => children.push(line.bullet ? bullet(line.text) : paragraph(line.text)));
+        }
+        return children;
+    });
+
+    const margin = template.compact ? 720 : 1080;
+    const document = new Document({
+        creator: doc.name || 'Resume',
+        title: `${doc.name} Resume`.trim(),
+        styles: { default: { document: { run: { font: RESUME_FONTS[theme.fontId].docx, size } } } },
+        sections: [{
+            properties: { page: { margin: { top: margin, bottom: margin, left: margin, right: margin } } },
+            children: [
+                new Paragraph({
+                    children: [new TextRun({ text: doc.name, bold: !academic, smallCaps: academic, size: Math.round(size * (template.compact ? 1.8 : 2.1)), color: theme.templateId === 'modern' ? accent : undefined })],
+                    alignment: template.compact || theme.templateId === 'modern' ? AlignmentType.LEFT : AlignmentType.CENTER,
+                }),
+                ...(doc.headline.trim() ? [new Paragraph({
+                    children: [new TextRun({ text: stripInline(doc.headline), italics: true, size: Math.round(size * 1.15), color: accent })],
+                    alignment: template.compact || theme.templateId === 'modern' ? AlignmentType.LEFT : AlignmentType.CENTER,
+                })] : []),
+                new Paragraph({
+                    children: doc.contact.filter(Boolean).flatMap((item, index) => [...(index > 0 ? [new TextRun({ text: '  |  ' })] : []), ...runs(item)]),
+                    alignment: template.compact || theme.templateId === 'modern' ? AlignmentType.LEFT : AlignmentType.CENTER,
+                    spacing: { after: 120 },
+                    border: template.compact ? { bottom: { style: BorderStyle.SINGLE, size: 12, color: accent, space: 2 } } : undefined,
+                }),
+                ...body,
+            ],
+        }],
+    });
+    return Packer.toBlob(document);
+};
+
+// The download options offered in the resume view
+export const resumeExportFormats = (doc: ResumeDocument, personalInfo: PersonalInfo, theme: ResumeTheme): ExportFormat[] => [
+    { id: 'pdf', label: 'PDF', hint: 'Paginated, selectable text in the chosen template', fileName: exportFileName(doc, 'pdf'), build: () => toPdf(doc, theme) },
+    { id: 'docx', label: 'Word', hint: 'Editable .docx', fileName: exportFileName(doc, 'docx'), build: () => toDocx(doc, theme) },
+    {
+        id: 'txt', label: 'ATS Text', hint: 'Plain text for application forms', fileName: exportFileName(doc, 'txt'),
+        build: () => new Blob([toAtsText(doc)], { type: 'text/plain;charset=utf-8' }),
+    },
+    {
+        id: 'json', label: 'JSON Resume', hint: 'jsonresume.org schema', fileName: exportFileName(doc, 'json'),
+        build: () => new Blob([JSON.stringify(toJsonResume(doc, personalInfo), null, 2)], { type: 'application/json' }),
+    },
+];
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { ResumeDocument, ResumeJob, ResumeSection } from '../types';
+import { clampWords, condenseResume, countResumeWords, countWords, DEFAULT_RESUME_LENGTH, MAX_WORD_BUDGET, MIN_WORD_BUDGET, wordBudget } from './resumeLength';
+
+describe('clampWords', () => {
+    it('keeps budgets inside the allowed range', () => {
+        expect(clampWords(40)).toBe(MIN_WORD_BUDGET);
+        expect(clampWords(612.4)).toBe(612);
+        expect(clampWords(25000)).toBe(MAX_WORD_BUDGET);
+    });
+
+    it('falls back to the default for an emptied field', () => {
+        expect(clampWords(Number.NaN)).toBe(DEFAULT_RESUME_LENGTH.words);
+    });
+});
+
+describe('wordBudget', () => {
+    it('converts pages with the template density', () => {
+        expect(wordBudget({ mode: 'one-page', words: 600 }, 700)).toBe(700);
+        expect(wordBudget({ mode: 'two-pages', words: 600 }, 500)).toBe(1000);
+    });
+
+    it('never passes NaN on as a word budget', () => {
+        expect(wordBudget({ mode: 'words', words: Number.NaN })).toBe(DEFAULT_RESUME_LENGTH.words);
+    });
+});
+
+const job = (title: string, company: string, date: string, bullets: string[]): ResumeJob => ({ title, company, date, bullets });
+
+const experience = (...jobs: ResumeJob[]): ResumeSection => ({ kind: 'experience', title: 'Experience', jobs });
+
+const resume = (...sections: ResumeSection[]): ResumeDocument => ({ name: 'Alex Example', headline: '', contact: [], sections });
+
+// Written out of order on purpose: the oldest role sits between the two recent ones
+const DOC = resume(
+    experience(
+        job('Staff Engineer', 'Acme', '2021 – Present', [
+            'Reduced checkout latency by 60% for 2M customers across Europe',
+            'Led the migration of 14 services to Kubernetes without downtime',
+            'Responsible for code reviews',
+        ]),
+        job('Engineer', 'Gamma', '2012 – 2016', [
+            'Helped with testing',
+            'Cut build times from 40 to 12 minutes with a shared cache',
+        ]),
+        job('Senior Engineer', 'Beta', '2017 – 2021', [
+            'Built a billing pipeline that processes $3M in payments each month',
+            'Worked on various internal tools',
+            'Mentored four junior engineers through their first year here',
+        ]),
+    ),
+    { kind: 'projects', title: 'Projects', entries: [
+        { title: 'ledger', subtitle: 'Double-entry bookkeeping library', date: '', details: ['Used by three teams', 'Written in Go'] },
+    ] },
+);
+
+const TOTAL = countResumeWords(DOC);
+const cutTexts = (budget: number) => condenseResume(DOC, budget).cuts.map(cut => cut.text);
+
+describe('condenseResume', () => {
+    it('leaves a resume within budget untouched', () => {
+        const result = condenseResume(DOC, TOTAL);
+        expect(result).toEqual({ document: DOC, cuts: [], words: TOTAL, fits: true });
+    });
+
+    it('cuts weak bullets of older roles first and stops as soon as it fits', () => {
+        const result = condenseResume(DOC, TOTAL - 1);
+
+        expect(result.cuts).toEqual([{ location: 'Engineer, Gamma', kind: 'bullet', text: 'Helped with testing', words: 3 }]);
+        expect(result).toMatchObject({ words: TOTAL - 3, fits: true });
+        expect(countResumeWords(result.document)).toBe(result.words);
+    });
+
+    it('then cuts project details, last first, before touching the recent roles', () => {
+        expect(cutTexts(TOTAL - 4)).toEqual(['Helped with testing', 'Written in Go']);
+        expect(cutTexts(TOTAL - 8)).toEqual(['Helped with testing', 'Written in Go', 'Used by three teams']);
+    });
+
+    it('cuts weak bullets of the recent roles before removing an older role', () => {
+        expect(cutTexts(TOTAL - 11)).toEqual([
+            'Helped with testing', 'Written in Go', 'Used by three teams', 'Responsible for code reviews',
+        ]);
+    });
+
+    it('reports the bullets already cut from a removed role with the role', () => {
+        const { cuts, document } = condenseResume(DOC, TOTAL - 25);
+        const role = cuts.find(cut => cut.kind === 'role');
+
+        expect(role).toEqual({ location: 'Engineer, Gamma', kind: 'role', text: 'Engineer, Gamma · 2012 – 2016', words: 19 });
+        expect(cuts.filter(cut => cut.location === 'Engineer, Gamma')).toEqual([role]);
+        expect(document.sections[0].kind === 'experience' && document.sections[0].jobs.map(kept => kept.company)).toEqual(['Acme', 'Beta']);
+    });
+
+    it('keeps two bullets of each recent role and says when that is still too long', () => {
+        const result = condenseResume(DOC, 10);
+        const [section] = result.document.sections;
+
+        expect(result.fits).toBe(false);
+        expect(result.words).toBe(countResumeWords(result.document));
+        expect(section.kind === 'experience' && section.jobs.map(kept => kept.bullets)).toEqual([
+            ['Reduced checkout latency by 60% for 2M customers across Europe', 'Led the migration of 14 services to Kubernetes without downtime'],
+            ['Built a billing pipeline that processes $3M in payments each month', 'Mentored four junior engineers through their first year here'],
+        ]);
+    });
+
+    it('treats an ongoing role as the newest wherever it is written', () => {
+        const doc = resume(experience(
+            job('Analyst', 'Delta', '2015 – 2018', ['Helped with reports', 'Automated the monthly report with Python, saving 2 days']),
+            job('Engineer', 'Epsilon', '2018 – 2020', ['Shipped the mobile app to 50k users in 6 months']),
+            job('Lead', 'Zeta', '2020 – Present', ['Helped with hiring', 'Grew the team from 3 to 9 engineers in 2 years']),
+        ));
+        const { cuts } = condenseResume(doc, countResumeWords(doc) - 1);
+
+        expect(cuts.map(cut => cut.location)).toEqual(['Analyst, Delta']);
+    });
+
+    it('neither counts nor cuts sections that are switched off', () => {
+        const education: ResumeSection = { kind: 'education', title: 'Education', entries: [
+            { title: 'BSc Computer Science', subtitle: 'TU Berlin', date: '2012', details: ['Thesis on distributed consensus protocols'] },
+        ] };
+        const doc = resume(...DOC.sections, education);
+        const withoutEducation = (section: ResumeSection) => section.kind !== 'education';
+
+        expect(condenseResume(doc, TOTAL, withoutEducation)).toMatchObject({ cuts: [], fits: true });
+        const result = condenseResume(doc, TOTAL - 4, withoutEducation);
+        expect(result.cuts.map(cut => cut.text)).toEqual(['Helped with testing', 'Written in Go']);
+        expect(result.document.sections[2]).toEqual(education);
+        expect(result.words).toBe(TOTAL - 3 - countWords('Written in Go'));
+    });
+});
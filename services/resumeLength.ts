@@ -0,0 +1,240 @@
+import type { ResumeDocument, ResumeJob, ResumeLengthMode, ResumeSection, ResumeLengthTarget, ResumeTemplateId } from "../types";
+
+export const RESUME_LENGTH_LABELS: Record<ResumeLengthMode, string> = {
+    'one-page': 'One page',
+    'two-pages': 'Two pages',
+    words: 'Word budget',
+};
+
+export const DEFAULT_RESUME_LENGTH: ResumeLengthTarget = { mode: 'two-pages', words: 600 };
+
+export const MIN_WORD_BUDGET = 150;
+export const MAX_WORD_BUDGET = 2000;
+
+// Typical words on a printed page of each template, used until the preview has been measured
+const WORDS_PER_PAGE: Record<ResumeTemplateId, number> = {
+    classic: 550,
+    modern: 500,
+    compact: 700,
+    academic: 450,
+};
+
+export const templateWordsPerPage = (templateId: ResumeTemplateId): number => WORDS_PER_PAGE[templateId];
+
+// Rounds a word budget into the allowed range; anything that is not a number falls back to the default
+export const clampWords = (words: number): number =>
+    Number.isFinite(words) ? Math.min(MAX_WORD_BUDGET, Math.max(MIN_WORD_BUDGET, Math.round(words))) : DEFAULT_RESUME_LENGTH.words;
+
+export const targetPages = (target: ResumeLengthTarget): number | null =>
+    target.mode === 'one-page' ? 1 : target.mode === 'two-pages' ? 2 : null;
+
+// The most words the resume may have; pages are converted with the template's density
+export const wordBudget = (target: ResumeLengthTarget, wordsPerPage: number = WORDS_PER_PAGE.classic): number => {
+    const pages = targetPages(target);
+    return pages === null ? clampWords(target.words) : Math.round(pages * wordsPerPage);
+};
+
+const isLengthMode = (value: unknown): value is ResumeLengthMode =>
+    typeof value === 'string' && value in RESUME_LENGTH_LABELS;
+
+const LENGTH_STORAGE_KEY = 'resume-length';
+
+export const loadResumeLength = (): ResumeLengthTarget => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(LENGTH_STORAGE_KEY) ?? 'null');
+        if (stored && isLengthMode(stored.mode)) {
+            return {
+                mode: stored.mode,
+                words: typeof stored.words === 'number' ? clampWords(stored.words) : DEFAULT_RESUME_LENGTH.words,
+            };
+        }
+    } catch (error) {
+        console.error('Could not read saved resume length:', error);
+    }
+    return DEFAULT_RESUME_LENGTH;
+};
+
+export const saveResumeLength = (target: ResumeLengthTarget): void => {
+    localStorage.setItem(LENGTH_STORAGE_KEY, JSON.stringify({ ...target, words: clampWords(target.words) }));
+};
+
+// ---------- Counting ----------
+
+// Words as read on the page: link targets and Markdown markers are not counted
+export const countWords = (text: string): number =>
+    text.replace(/\]\([^)]*\)/g, ' ').replace(/[*_`#>|[\]]/g, ' ').split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+export const countResumeWords = (doc: ResumeDocument): number =>
+    countWords([doc.name, doc.headline, ...doc.contact].join(' ')) + doc.sections.reduce((sum, section) => {
+        switch (section.kind) {
+            case 'summary':
+                return sum + countWords(section.title) + countWords(section.text);
+            case 'skills':
+                return sum + countWords(section.title) + section.skills.reduce((total, skill) => total + countWords(`${skill.category} ${skill.items}`), 0);
+            case 'experience':
+                return sum + countWords(section.title) + section.jobs.reduce((total, job) =>
+                    total + countWords(`${job.title} ${job.company} ${job.date}`) + job.bullets.reduce((words, bullet) => words + countWords(bullet), 0), 0);
+            case 'text':
+                return sum + countWords(section.title) + countWords(section.content);
+            default:
+                return sum + countWords(section.title) + section.entries.reduce((total, entry) =>
+                    total + countWords(`${entry.title} ${entry.subtitle} ${entry.date}`) + entry.details.reduce((words, detail) => words + countWords(detail), 0), 0);
+        }
+    }, 0);
+
+// ---------- Condensing ----------
+
+export interface ResumeCut {
+    // Where the text was: "Software Engineer, Acme" or "Projects"
+    location: string;
+    kind: 'bullet' | 'role' | 'detail';
+    text: string;
+    words: number;
+}
+
+export interface CondenseResult {
+    document: ResumeDocument;
+    cuts: ResumeCut[];
+    words: number;
+    // False when even the deepest cuts left the resume over budget
+    fits: boolean;
+}
+
+// Phrases that describe duties rather than results
+const WEAK_OPENING = /^(?:responsible for|worked on|helped|assisted|participated|involved in|duties included|tasks included|supported|various)\b/i;
+
+// Higher is worth keeping: numbers, concrete outcomes and enough substance to say something
+export const bulletValue = (bullet: string): number => {
+    const text = bullet.replace(/[*_`]/g, '').trim();
+    const words = countWords(text);
+    let value = 0;
+    if (/\d/.test(text)) value += 2;
+    if (/[%$€£]|\b(?:reduced|increased|improved|grew|saved|cut|launched|led|built|shipped)\b/i.test(text)) value += 1;
+    if (words >= 8) value += 1;
+    if (words <= 4) value -= 1;
+    if (WEAK_OPENING.test(text)) value -= 2;
+    return value;
+};
+
+// The last year a role ran until; ongoing roles count as the current year
+const endYear = (date: string): number | null => {
+    const years = date.match(/\b(?:19|20)\d{2}\b/g)?.map(Number) ?? [];
+    if (years.length === 0) return null;
+    // "2020 – Present": a range whose end is not a year
+    const ongoing = /[–—-]|\bto\b/i.test(date) && !/(?:19|20)\d{2}\s*\)?\s*\*?\s*$/.test(date.trim());
+    return ongoing ? Number.MAX_SAFE_INTEGER : Math.max(...years);
+};
+
+interface JobRef {
+    section: number;
+    job: number;
+    label: string;
+    source: ResumeJob;
+}
+
+// How many of the newest roles are kept in full detail for as long as possible
+const RECENT_ROLES = 2;
+
+// Trims the resume until it has at most `budget` words, stopping as soon as it fits. Weak bullets of older roles go
+// first, then the details under projects and other entries, then older roles down to one bullet and whole older roles.
+// The two most recent roles lose only weak bullets before that, and keep at least two bullets each.
+// Sections that `isIncluded` rejects are neither counted nor cut.
+export const condenseResume = (doc: ResumeDocument, budget: number, isIncluded: (section: ResumeSection) => boolean = () => true): CondenseResult => {
+    let words = countResumeWords({ ...doc, sections: doc.sections.filter(isIncluded) });
+    let cuts: ResumeCut[] = [];
+    // Removed bullets and details by "section/item/index", removed roles by "section/item"
+    const removed = new Set<string>();
+
+    const jobs: JobRef[] = doc.sections.flatMap((section, s) => (section.kind === 'experience' && isIncluded(section)
+        ? section.jobs.map((job, j) => ({ section: s, job: j, label: [job.title, job.company].filter(Boolean).join(', ') || section.title, source: job }))
+        : []));
+    // Newest first: by the year each role ended, otherwise in the order written
+    const byAge = jobs
+        .map((job, order) => ({ job, order, year: endYear(job.source.date) }))
+        .sort((a, b) => (a.year !== null && b.year !== null && a.year !== b.year ? b.year - a.year : a.order - b.order))
+        .map(({ job }) => job);
+    const recent = byAge.slice(0, RECENT_ROLES);
+    const older = byAge.slice(RECENT_ROLES).reverse();
+
+    const fits = () => words <= budget;
+    const remaining = (job: JobRef) => job.source.bullets.filter((_, b) => !removed.has(`${job.section}/${job.job}/${b}`)).length;
+
+    const cutBullet = (job: JobRef, b: number) => {
+        const text = job.source.bullets[b];
+        removed.add(`${job.section}/${job.job}/${b}`);
+        const count = countWords(text);
+        words -= count;
+        cuts.push({ location: job.label, kind: 'bullet', text, words: count });
+    };
+
+    // Removes bullets from each role, weakest first, while more than `keep` remain and `eligible` accepts them
+    const trimBullets = (roles: JobRef[], keep: number, eligible: (bullet: string) => boolean) => {
+        for (const job of roles) {
+            const candidates = job.source.bullets
+                .map((bullet, b) => ({ b, value: bulletValue(bullet) }))
+                .filter(({ b }) => !removed.has(`${job.section}/${job.job}/${b}`) && eligible(job.source.bullets[b]))
+                // Among equally weak bullets the last one goes first
+                .sort((x, y) => x.value - y.value || y.b - x.b);
+            for (const { b } of candidates) {
+                if (fits()) return;
+                if (remaining(job) <= keep) break;
+                cutBullet(job, b);
+            }
+        }
+    };
+
+    // 1. Low-value bullets of older roles, oldest role first
+    trimBullets(older, 1, bullet => bulletValue(bullet) <= 0);
+
+    // 2. Details under projects, publications and other entries, last entry first
+    for (let s = doc.sections.length - 1; s >= 0 && !fits(); s--) {
+        const section = doc.sections[s];
+        if (!('entries' in section) || !isIncluded(section)) continue;
+        for (let e = section.entries.length - 1; e >= 0 && !fits(); e--) {
+            const entry = section.entries[e];
+            for (let d = entry.details.length - 1; d >= 0 && !fits(); d--) {
+                removed.add(`${s}/${e}/${d}`);
+                const count = countWords(entry.details[d]);
+                words -= count;
+                cuts.push({ location: [entry.title, section.title].filter(Boolean).join(', '), kind: 'detail', text: entry.details[d], words: count });
+            }
+        }
+    }
+
+    // 3. Older roles down to their strongest bullet
+    trimBullets(older, 1, () => true);
+
+    // 4. Low-value bullets of the recent roles, keeping two each
+    trimBullets(recent, 2, bullet => bulletValue(bullet) <= 0);
+
+    // 5. Whole older roles, oldest first
+    for (const job of older) {
+        if (fits()) break;
+        const { source } = job;
+        removed.add(`${job.section}/${job.job}`);
+        const count = countWords(`${source.title} ${source.company} ${source.date}`)
+            + source.bullets.reduce((sum, bullet, b) => sum + (removed.has(`${job.section}/${job.job}/${b}`) ? 0 : countWords(bullet)), 0);
+        words -= count;
+        // Bullets already cut from this role are reported with it
+        const earlier = cuts.filter(cut => cut.kind === 'bullet' && cut.location === job.label && source.bullets.includes(cut.text));
+        cuts = cuts.filter(cut => !earlier.includes(cut));
+        cuts.push({ location: job.label, kind: 'role', text: [job.label, source.date].filter(Boolean).join(' · '), words: count + earlier.reduce((sum, cut) => sum + cut.words, 0) });
+    }
+
+    // 6. The recent roles down to their two strongest bullets
+    trimBullets(recent, 2, () => true);
+
+    const sections = doc.sections.map((section, s) => {
+        if (section.kind === 'experience') {
+            const kept = section.jobs
+                .map((job, j) => ({ ...job, bullets: job.bullets.filter((_, b) => !removed.has(`${s}/${j}/${b}`)) }))
+                .filter((_, j) => !removed.has(`${s}/${j}`));
+            return { ...section, jobs: kept };
+        }
+        if ('entries' in section) {
+            return { ...section, entries: section.entries.map((entry, e) => ({ ...entry, details: entry.details.filter((_, d) => !removed.has(`${s}/${e}/${d}`)) })) };
+        }
+        return section;
+    });
+    return { document: cuts.length > 0 ? { ...doc, sections } : doc, cuts, words, fits: fits() };
+};
@@ -0,0 +1,276 @@
+import type { ResumeDocument, ResumeEntryKind, ResumeFontId, ResumeSection, ResumeSectionToggles, ResumeTemplateId, ResumeTheme } from "../types";
+
+export interface ResumeTemplate {
+    label: string;
+    description: string;
+    layout: 'single' | 'two-column';
+    defaultFont: ResumeFontId;
+    // Base body size in points; headings scale from it
+    fontSizePt: number;
+    // Where job dates go: right-aligned on the job line, or in a column to the left of it
+    datesPosition: 'right' | 'left';
+    compact: boolean;
+}
+
+export const RESUME_TEMPLATES: Record<ResumeTemplateId, ResumeTemplate> = {
+    classic: {
+        label: 'Classic',
+        description: 'Single column with ruled section headings',
+        layout: 'single',
+        defaultFont: 'georgia',
+        fontSizePt: 10.5,
+        datesPosition: 'right',
+        compact: false,
+    },
+    modern: {
+        label: 'Modern',
+        description: 'Two columns, skills in a tinted sidebar',
+        layout: 'two-column',
+        defaultFont: 'helvetica',
+        fontSizePt: 10,
+        datesPosition: 'right',
+        compact: false,
+    },
+    compact: {
+        label: 'Compact',
+        description: 'Tight spacing to fit one page',
+        layout: 'single',
+        defaultFont: 'calibri',
+        fontSizePt: 9,
+        datesPosition: 'right',
+        compact: true,
+    },
+    academic: {
+        label: 'Academic CV',
+        description: 'Dates in the margin, small-caps headings',
+        layout: 'single',
+        defaultFont: 'garamond',
+        fontSizePt: 11,
+        datesPosition: 'left',
+        compact: false,
+    },
+};
+
+export interface ResumeFont {
+    label: string;
+    css: string;
+    // The closest of the standard PDF fonts, which need no embedding
+    pdf: 'times' | 'helvetica' | 'courier';
+    docx: string;
+}
+
+export const RESUME_FONTS: Record<ResumeFontId, ResumeFont> = {
+    georgia: { label: 'Georgia', css: "Georgia, Cambria, 'Times New Roman', Times, serif", pdf: 'times', docx: 'Georgia' },
+    garamond: { label: 'Garamond', css: "Garamond, 'EB Garamond', 'Palatino Linotype', Palatino, serif", pdf: 'times', docx: 'Garamond' },
+    helvetica: { label: 'Helvetica', css: "'Helvetica Neue', Helvetica, Arial, sans-serif", pdf: 'helvetica', docx: 'Arial' },
+    calibri: { label: 'Calibri', css: "Calibri, Carlito, 'Segoe UI', 'Trebuchet MS', sans-serif", pdf: 'helvetica', docx: 'Calibri' },
+    mono: { label: 'Monospace', css: "'IBM Plex Mono', Menlo, Consolas, monospace", pdf: 'courier', docx: 'Consolas' },
+};
+
+export const ACCENT_PRESETS = ['#5b21b6', '#1d4ed8', '#0f766e', '#b91c1c', '#b45309', '#1f2937'];
+
+export const DEFAULT_RESUME_THEME: ResumeTheme = {
+    templateId: 'classic',
+    fontId: RESUME_TEMPLATES.classic.defaultFont,
+    accentColor: ACCENT_PRESETS[0],
+    sectionOrder: [],
+};
+
+const isTemplateId = (value: unknown): value is ResumeTemplateId =>
+    typeof value === 'string' && value in RESUME_TEMPLATES;
+
+const isFontId = (value: unknown): value is ResumeFontId =>
+    typeof value === 'string' && value in RESUME_FONTS;
+
+const isHexColor = (value: unknown): value is string =>
+    typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const THEME_STORAGE_KEY = 'resume-theme';
+
+export const loadResumeTheme = (): ResumeTheme => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(THEME_STORAGE_KEY) ?? 'null');
+        if (stored && isTemplateId(stored.templateId)) {
+            return {
+                templateId: stored.templateId,
+                fontId: isFontId(stored.fontId) ? stored.fontId : RESUME_TEMPLATES[stored.templateId].defaultFont,
+                accentColor: isHexColor(stored.accentColor) ? stored.accentColor : DEFAULT_RESUME_THEME.accentColor,
+                sectionOrder: Array.isArray(stored.sectionOrder) ? stored.sectionOrder.filter((title: unknown) => typeof title === 'string') : [],
+            };
+        }
+    } catch (error) {
+        console.error('Could not read saved resume theme:', error);
+    }
+    return DEFAULT_RESUME_THEME;
+};
+
+export const saveResumeTheme = (theme: ResumeTheme): void => {
+    localStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(theme));
+};
+
+// Stable sort by the theme's section order; unlisted sections keep their relative order after the listed ones
+export const applySectionOrder = (doc: ResumeDocument, order: string[]): ResumeDocument => {
+    if (order.length === 0) return doc;
+    const rank = (title: string) => {
+        const index = order.indexOf(title);
+        return index === -1 ? order.length : index;
+    };
+    const sections = doc.sections
+        .map((section, index) => ({ section, index }))
+        .sort((a, b) => rank(a.section.title) - rank(b.section.title) || a.index - b.index)
+        .map(({ section }) => section);
+    return { ...doc, sections };
+};
+
+export const RESUME_SECTION_LABELS: Record<ResumeEntryKind, string> = {
+    education: 'Education',
+    projects: 'Projects',
+    certifications: 'Certifications',
+    publications: 'Publications',
+    languages: 'Languages',
+};
+
+export const DEFAULT_RESUME_SECTIONS: ResumeSectionToggles = {
+    education: true,
+    projects: true,
+    certifications: true,
+    publications: true,
+    languages: true,
+};
+
+const SECTIONS_STORAGE_KEY = 'resume-sections';
+
+export const loadResumeSections = (): ResumeSectionToggles => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SECTIONS_STORAGE_KEY) ?? 'null');
+        if (stored && typeof stored === 'object') {
+            return Object.fromEntries(
+                (Object.keys(DEFAULT_RESUME_SECTIONS) as ResumeEntryKind[]).map(kind => [kind, typeof stored[kind] === 'boolean' ? stored[kind] : DEFAULT_RESUME_SECTIONS[kind]])
+            ) as ResumeSectionToggles;
+        }
+    } catch (error) {
+        console.error('Could not read saved resume sections:', error);
+    }
+    return DEFAULT_RESUME_SECTIONS;
+};
+
+export const saveResumeSections = (sections: ResumeSectionToggles): void => {
+    localStorage.setItem(SECTIONS_STORAGE_KEY, JSON.stringify(sections));
+};
+
+// Whether a section is shown; free-form and core sections always are
+export const isSectionIncluded = (section: ResumeSection, included: ResumeSectionToggles): boolean =>
+    !('entries' in section) || included[section.kind];
+
+// Leaves out the sections that are switched off, so they are not printed or exported
+export const withIncludedSections = (doc: ResumeDocument, included: ResumeSectionToggles): ResumeDocument =>
+    ({ ...doc, sections: doc.sections.filter(section => isSectionIncluded(section, included)) });
+
+// Short reference sections in each output language: languages, certificates, education, awards, interests
+const SIDEBAR_TITLE_PATTERN = /language|sprach|langue|idioma|certif|zertifi|education|bildung|\bformation|forma\u00E7\u00E3o|educa\u00E7\u00E3o|award|auszeichnung|pr\u00EAmio|interes|int\u00E9r\u00EAt/i;
+
+// Sections the two-column template puts in its sidebar
+export const isSidebarSection = (section: ResumeSection): boolean =>
+    section.kind === 'skills' || section.kind === 'education' || section.kind === 'certifications' || section.kind === 'languages' || SIDEBAR_TITLE_PATTERN.test(section.title);
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+    const value = Number.parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Shared by the on-screen preview and the print window; theme values arrive as CSS variables on .resume-doc
+export const RESUME_TEMPLATE_CSS = `
+.resume-doc { --accent: #5b21b6; --accent-tint: rgba(91, 33, 182, 0.08); font-size: 10.5pt; color: #1f2937; background: #fff; line-height: 1.4; text-align: left; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.resume-doc *, .resume-doc *::before, .resume-doc *::after { box-sizing: border-box; margin: 0; padding: 0; border: 0 solid; }
+.resume-doc { padding: 0.6in; }
+.resume-doc h1 { font-size: 2.1em; font-weight: 700; line-height: 1.15; color: #111827; }
+.resume-doc .rd-header { text-align: center; margin-bottom: 1em; }
+.resume-doc .rd-headline { margin-top: 0.2em; font-size: 1.1em; color: var(--accent); }
+.resume-doc .rd-contact { margin-top: 0.3em; color: #4b5563; font-size: 0.92em; }
+.resume-doc .rd-contact span + span::before { content: "\\00a0\\00b7\\00a0"; }
+.resume-doc .rd-section { margin-top: 1em; }
+.resume-doc h2 { font-size: 1.1em; font-weight: 700; text-transform: uppercase; letter-spacing: 0.06em; color: var(--accent); border-bottom: 1px solid #d1d5db; padding-bottom: 0.15em; margin-bottom: 0.5em; break-after: avoid; page-break-after: avoid; }
+.resume-doc p + p { margin-top: 0.35em; }
+.resume-doc ul { list-style: disc outside; padding-left: 1.2em; margin-top: 0.25em; }
+.resume-doc li { margin-bottom: 0.2em; }
+.resume-doc a { color: inherit; text-decoration: underline; }
+.resume-doc strong { font-weight: 700; }
+.resume-doc em { font-style: italic; }
+.resume-doc del { text-decoration: line-through; }
+.resume-doc ol { list-style: decimal outside; padding-left: 1.4em; margin-top: 0.25em; }
+.resume-doc li > ul, .resume-doc li > ol { margin-top: 0.15em; }
+.resume-doc ul ul { list-style-type: circle; }
+.resume-doc .rd-section h3, .resume-doc .rd-section h4, .resume-doc .rd-section h5, .resume-doc .rd-section h6 { font-size: 1em; font-weight: 700; color: #111827; margin-top: 0.4em; }
+.resume-doc blockquote { border-left: 2px solid var(--accent); padding-left: 0.75em; color: #4b5563; margin-top: 0.25em; }
+.resume-doc code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.92em; }
+.resume-doc pre { white-space: pre-wrap; margin-top: 0.25em; }
+.resume-doc table { width: 100%; border-collapse: collapse; margin-top: 0.25em; }
+.resume-doc th, .resume-doc td { text-align: left; vertical-align: top; padding: 0.15em 0.75em 0.15em 0; border-bottom: 1px solid #e5e7eb; }
+.resume-doc th { font-weight: 700; }
+.resume-doc hr { border-top: 1px solid #d1d5db; margin: 0.5em 0; }
+.resume-doc .rd-job { margin-bottom: 0.75em; }
+.resume-doc .rd-job-header { display: flex; justify-content: space-between; align-items: baseline; gap: 1em; break-after: avoid; page-break-after: avoid; }
+.resume-doc .rd-job-title { font-weight: 700; color: #111827; }
+.resume-doc .rd-company { font-weight: 400; }
+.resume-doc .rd-date { font-style: italic; color: #4b5563; white-space: nowrap; }
+.resume-doc .rd-flag { background: #fef08a; color: inherit; border-bottom: 1px dashed #ca8a04; }
+.resume-doc .rd-skill { display: grid; grid-template-columns: 26% 1fr; gap: 0.75em; margin-bottom: 0.2em; }
+.resume-doc .rd-skill-category { font-weight: 700; }
+.resume-doc .rd-publications { list-style: none; padding-left: 0; }
+.resume-doc .rd-publications li { margin-bottom: 0.35em; }
+.resume-doc .rd-publication-venue { font-style: italic; }
+.resume-doc .rd-publications ul { margin-top: 0.1em; }
+
+.resume-doc--modern { padding: 0; }
+.resume-doc--modern .rd-header { background: var(--accent); color: #fff; text-align: left; padding: 0.45in 0.5in 0.3in; margin: 0; }
+.resume-doc--modern h1 { color: #fff; }
+.resume-doc--modern .rd-headline { color: #fff; }
+.resume-doc--modern .rd-contact { color: rgba(255, 255, 255, 0.85); }
+.resume-doc--modern .rd-body { display: grid; grid-template-columns: 32% 1fr; }
+.resume-doc--modern .rd-sidebar { background: var(--accent-tint); padding: 0.1in 0.3in 0.4in 0.5in; }
+.resume-doc--modern .rd-main { padding: 0.1in 0.5in 0.4in 0.35in; }
+.resume-doc--modern h2 { border-bottom: 0; letter-spacing: 0.1em; font-size: 1em; }
+.resume-doc--modern .rd-sidebar .rd-skill { display: block; margin-bottom: 0.6em; }
+.resume-doc--modern .rd-sidebar .rd-skill-category { display: block; }
+.resume-doc--modern .rd-sidebar .rd-job-header { display: block; }
+.resume-doc--modern .rd-sidebar .rd-date { display: block; }
+
+.resume-doc--compact { padding: 0.4in 0.5in; line-height: 1.28; }
+.resume-doc--compact .rd-header { display: flex; justify-content: space-between; align-items: baseline; gap: 1em; text-align: left; margin-bottom: 0.4em; border-bottom: 2px solid var(--accent); padding-bottom: 0.3em; }
+.resume-doc--compact h1 { font-size: 1.7em; }
+.resume-doc--compact .rd-contact { text-align: right; }
+.resume-doc--compact .rd-section { margin-top: 0.55em; }
+.resume-doc--compact h2 { border-bottom: 0; margin-bottom: 0.2em; padding-bottom: 0; }
+.resume-doc--compact .rd-job { margin-bottom: 0.4em; }
+.resume-doc--compact ul { margin-top: 0.1em; }
+.resume-doc--compact li { margin-bottom: 0.05em; }
+.resume-doc--compact .rd-skill { display: block; margin-bottom: 0.05em; }
+.resume-doc--compact .rd-skill-category::after { content: ": "; }
+
+.resume-doc--academic { padding: 0.75in; }
+.resume-doc--academic h1 { font-weight: 400; font-variant: small-caps; letter-spacing: 0.04em; font-size: 2em; }
+.resume-doc--academic h2 { text-transform: none; font-variant: small-caps; font-weight: 600; letter-spacing: 0.04em; font-size: 1.2em; border-bottom-width: 0.5px; border-bottom-color: var(--accent); }
+.resume-doc--academic .rd-job { display: grid; grid-template-columns: 1.25in 1fr; column-gap: 0.2in; }
+.resume-doc--academic .rd-job-header { display: contents; }
+.resume-doc--academic .rd-date { grid-column: 1; grid-row: 1 / span 2; font-style: normal; white-space: normal; }
+.resume-doc--academic .rd-job-title { grid-column: 2; grid-row: 1; }
+.resume-doc--academic .rd-job ul { grid-column: 2; }
+
+.resume-doc .rd-letter p { white-space: pre-line; }
+.resume-doc .rd-letter p + p { margin-top: 0.9em; }
+.resume-doc .rd-letter-date { color: #4b5563; margin-bottom: 1.6em; }
+.resume-doc--letter { line-height: 1.5; }
+.resume-doc--letter .rd-header { text-align: left; border-bottom: 1px solid var(--accent); padding-bottom: 0.4em; margin-bottom: 1.4em; }
+.resume-doc--modern.resume-doc--letter .rd-header { border-bottom: 0; padding-bottom: 0.3in; margin-bottom: 0; }
+.resume-doc--modern .rd-letter { padding: 0.4in 0.5in 0.5in; }
+
+@media print {
+  @page { size: letter; margin: 0.5in; }
+  body { margin: 0; }
+  .resume-doc { padding: 0; }
+  .resume-doc--modern .rd-header { padding: 0.25in 0.3in 0.2in; }
+  .resume-doc--modern .rd-sidebar { padding: 0.1in 0.2in 0.2in 0.3in; }
+  .resume-doc--modern .rd-main { padding: 0.1in 0.3in 0.2in 0.25in; }
+  .resume-doc--modern .rd-letter { padding: 0.3in; }
+}
+`;
@@ -0,0 +1,69 @@
+import { MalformedOutputError } from "./llm/errors";
+
+// Shared helpers for checking JSON returned by the model against the shapes in types.ts
+
+export class ResponseValidationError extends MalformedOutputError {
+    readonly name: string = 'ResponseValidationError';
+
+    constructor(subject: string, public readonly issues: string[]) {
+        super(`The AI model returned ${subject} in an unexpected shape: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ''}`);
+    }
+}
+
+// Parses a JSON response, tolerating a ```json fence even though the response MIME type asks for raw JSON
+export const parseJsonText = (text: string): unknown => {
+    try {
+        return JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+    } catch {
+        return undefined;
+    }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const expectString = (value: unknown, path: string, issues: string[]): string => {
+    if (typeof value !== 'string') {
+        issues.push(`${path} should be a string`);
+        return '';
+    }
+    return value.trim();
+};
+
+export const expectStringArray = (value: unknown, path: string, issues: string[]): string[] => {
+    if (!Array.isArray(value)) {
+        issues.push(`${path} should be a list of strings`);
+        return [];
+    }
+    return value
+        .map((item, i) => expectString(item, `${path}[${i}]`, issues))
+        .filter(item => item !== '');
+};
+
+export const expectObjectArray = <T>(
+    value: unknown,
+    path: string,
+    issues: string[],
+    mapItem: (item: Record<string, unknown>, itemPath: string) => T
+): T[] => {
+    if (!Array.isArray(value)) {
+        issues.push(`${path} should be a list`);
+        return [];
+    }
+    return value.flatMap((item, i) => {
+        if (!isRecord(item)) {
+            issues.push(`${path}[${i}] should be an object`);
+            return [];
+        }
+        return [mapItem(item, `${path}[${i}]`)];
+    });
+};
+
+// Lenient readers for partial output: anything missing or of the wrong type is dropped
+export const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+export const records = (value: unknown): Record<string, unknown>[] =>
+    Array.isArray(value) ? value.filter(isRecord) : [];
+
+export const stringOrEmpty = (value: unknown): string => (typeof value === 'string' ? value : '');
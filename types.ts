@@ -0,0 +1,349 @@
+export interface SkillCategory {
+  category: string;
+  skills: string[];
+}
+
+export interface ExperienceEntry {
+  title: string;
+  company: string;
+  startDate: string;
+  endDate: string;
+  bullets: string[];
+  technologies: string[];
+}
+
+export interface EducationEntry {
+  degree: string;
+  school: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface CertificationEntry {
+  name: string;
+  issuer: string;
+  date: string;
+}
+
+export interface PublicationEntry {
+  title: string;
+  // Journal, conference, publisher or website
+  publisher: string;
+  date: string;
+}
+
+export interface ProjectEntry {
+  name: string;
+  description: string;
+  technologies: string[];
+}
+
+export interface SpokenLanguage {
+  language: string;
+  // As stated in the profile, e.g. "Native" or "C1"; empty if not stated
+  proficiency: string;
+}
+
+export interface SuggestedRole {
+  title: string;
+  justification: string;
+}
+
+export interface ProfileAnalysis {
+  summary: string;
+  technicalSkills: SkillCategory[];
+  softSkills: string[];
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  certifications: CertificationEntry[];
+  publications: PublicationEntry[];
+  projects: ProjectEntry[];
+  languages: SpokenLanguage[];
+  suggestedRoles: SuggestedRole[];
+  optimizationTips: string[];
+}
+
+export type ProfileSource = 'paste' | 'linkedin-pdf' | 'linkedin-export';
+
+export interface ProfilePosition {
+  title: string;
+  company: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  description: string;
+}
+
+export interface ProfileEducation {
+  school: string;
+  degree: string;
+  startDate: string;
+  endDate: string;
+  notes: string;
+}
+
+// Normalized profile input, independent of whether it was pasted, read from the LinkedIn PDF or from a data export
+export interface ProfileDocument {
+  source: ProfileSource;
+  fileName?: string;
+  name: string;
+  headline: string;
+  location: string;
+  summary: string;
+  positions: ProfilePosition[];
+  education: ProfileEducation[];
+  skills: string[];
+  // Sections without a structured equivalent, e.g. Certifications or Languages from the PDF sidebar
+  otherSections: { heading: string; text: string }[];
+  // Unstructured text for pasted profiles
+  rawText?: string;
+}
+
+export interface GitHubRepoSummary {
+  name: string;
+  description: string;
+  url: string;
+  stars: number;
+  forks: number;
+  primaryLanguage: string;
+  // Language name -> bytes of code, from the repository languages endpoint
+  languages: Record<string, number>;
+  topics: string[];
+  pushedAt: string;
+}
+
+export interface GitHubContributionStats {
+  // Window covered by the public events feed (GitHub keeps roughly the last 90 days)
+  periodDays: number;
+  commits: number;
+  pullRequests: number;
+  issues: number;
+  reviews: number;
+  reposContributedTo: string[];
+  // All-time merged pull requests, when the search API was reachable
+  mergedPullRequests?: number;
+}
+
+export interface GitHubProfile {
+  username: string;
+  name: string;
+  bio: string;
+  profileUrl: string;
+  followers: number;
+  publicRepos: number;
+  totalStars: number;
+  // Aggregated over the user's own non-fork repositories, most used first
+  languages: { name: string; repoCount: number }[];
+  featuredRepos: GitHubRepoSummary[];
+  contributions: GitHubContributionStats;
+  // Requested pinned repositories the user does not own, usually typos; only set right after fetching
+  missingPinned?: string[];
+}
+
+export type RequirementImportance = 'required' | 'preferred';
+
+export interface JobRequirement {
+  requirement: string;
+  // Terms that show up on a resume when the requirement is met, e.g. ["Kubernetes", "K8s"]
+  keywords: string[];
+  importance: RequirementImportance;
+}
+
+export interface JobDescriptionAnalysis {
+  jobTitle: string;
+  company: string;
+  requirements: JobRequirement[];
+}
+
+// strong: demonstrated in at least one role; weak: only listed as a skill or mentioned in the summary
+export type EvidenceLevel = 'strong' | 'weak' | 'missing';
+
+export interface RequirementMatch {
+  requirement: JobRequirement;
+  level: EvidenceLevel;
+  evidence: string[];
+}
+
+export interface JobMatchResult {
+  // 0-100, required requirements weigh twice as much as preferred ones
+  score: number;
+  matches: RequirementMatch[];
+}
+
+export interface ResumeTailoring {
+  jobDescription: string;
+  jobTitle: string;
+  company: string;
+  // Requirements with no evidence; the prompt forbids adding them
+  missingRequirements: string[];
+}
+
+// A further link in the resume header, e.g. a blog or a Stack Overflow profile
+export interface PersonalLink {
+  label: string;
+  url: string;
+}
+
+// Contact details for the resume header and the cover letter letterhead; empty fields are left out
+export interface PersonalInfo {
+  name: string;
+  // One line under the name, e.g. "Senior Backend Engineer · Distributed Systems"
+  headline: string;
+  email: string;
+  phone: string;
+  // City and country, e.g. "Berlin, Germany"
+  location: string;
+  website: string;
+  linkedin: string;
+  // Profile URL or username
+  github: string;
+  links: PersonalLink[];
+}
+
+// One saved analysis with everything generated from it
+export interface HistoryEntry {
+  id: string;
+  title: string;
+  // Epoch milliseconds
+  createdAt: number;
+  updatedAt: number;
+  profile: ProfileDocument;
+  github: GitHubProfile | null;
+  analysis: ProfileAnalysis;
+  resume: string | null;
+  personalInfo: PersonalInfo | null;
+  tailoring: ResumeTailoring | null;
+  coverLetter: CoverLetterDraft | null;
+  linkedInRewrite: LinkedInRewrite | null;
+  // Keys of flagged claims the user confirmed as true (see claimKey)
+  acceptedClaims: string[];
+}
+
+export interface ResumeSkillLine {
+  // Empty for uncategorized skill lines
+  category: string;
+  items: string;
+}
+
+export interface ResumeJob {
+  title: string;
+  company: string;
+  date: string;
+  bullets: string[];
+}
+
+// Sections made of titled entries, each with its own rendering
+export type ResumeEntryKind = 'education' | 'projects' | 'certifications' | 'publications' | 'languages';
+
+// Which of those sections the resume includes
+export type ResumeSectionToggles = Record<ResumeEntryKind, boolean>;
+
+export interface ResumeEntry {
+  // Degree, project, certificate, publication or language
+  title: string;
+  // School, one-line project description, issuer, publisher or proficiency
+  subtitle: string;
+  date: string;
+  details: string[];
+}
+
+// Structured form of a generated Markdown resume; "text" covers sections without dedicated handling
+export type ResumeSection =
+  | { kind: 'summary'; title: string; text: string }
+  | { kind: 'skills'; title: string; skills: ResumeSkillLine[] }
+  | { kind: 'experience'; title: string; jobs: ResumeJob[] }
+  | { kind: ResumeEntryKind; title: string; entries: ResumeEntry[] }
+  | { kind: 'text'; title: string; content: string };
+
+export interface ResumeDocument {
+  name: string;
+  // Professional headline under the name; empty when there is none
+  headline: string;
+  contact: string[];
+  sections: ResumeSection[];
+}
+
+export type BulletRewriteStyle = 'quantified' | 'concise' | 'star';
+
+export type ResumeTemplateId = 'classic' | 'modern' | 'compact' | 'academic';
+
+export type ResumeFontId = 'georgia' | 'garamond' | 'helvetica' | 'calibri' | 'mono';
+
+// Visual settings applied on top of the structured resume; shared by the preview, print and the PDF/DOCX exports
+export interface ResumeTheme {
+  templateId: ResumeTemplateId;
+  fontId: ResumeFontId;
+  // Hex color, e.g. "#6d28d9"
+  accentColor: string;
+  // Section titles in the preferred order; sections not listed keep their generated order after these
+  sectionOrder: string[];
+}
+
+export type ResumeLengthMode = 'one-page' | 'two-pages' | 'words';
+
+// How long the generated resume may be; the word budget only applies in "words" mode
+export interface ResumeLengthTarget {
+  mode: ResumeLengthMode;
+  words: number;
+}
+
+export type CoverLetterTone = 'professional' | 'enthusiastic' | 'confident' | 'conversational';
+
+export type CoverLetterLength = 'short' | 'medium' | 'long';
+
+// What the cover letter is written for
+export interface CoverLetterTarget {
+  company: string;
+  role: string;
+  // Optional; when present the letter addresses its requirements
+  jobDescription: string;
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+}
+
+export interface CoverLetterDraft {
+  target: CoverLetterTarget;
+  // Greeting, body and sign-off, one entry per paragraph
+  paragraphs: string[];
+}
+
+export interface LinkedInRoleRewrite {
+  title: string;
+  company: string;
+  // The role's current description; empty if the profile has none
+  original: string;
+  description: string;
+}
+
+// Replacement text for the LinkedIn profile, next to what is there now
+export interface LinkedInRewrite {
+  headlineOriginal: string;
+  headlines: string[];
+  aboutOriginal: string;
+  about: string;
+  roles: LinkedInRoleRewrite[];
+}
+
+// Language of the generated analysis, resume and letters; BCP 47 tags
+export type OutputLanguage = 'en' | 'de' | 'fr' | 'pt-BR';
+
+export type ClaimKind = 'statement' | 'metric' | 'date' | 'employer' | 'skill';
+
+// Character offsets into the source text the claims were checked against
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// A generated fact that could not be matched to the source profile
+export interface UnsupportedClaim {
+  kind: ClaimKind;
+  // The unsupported part, e.g. "30%", "Acme Corp" or a whole bullet
+  text: string;
+  // Where it was generated, as a path into the analysis or resume document, e.g. ['experience', 0, 'bullets', 2]
+  path: (string | number)[];
+  // Why it was flagged, in plain words
+  reason: string;
+  // The closest passage in the source, for reference; null when nothing comes close
+  span: SourceSpan | null;
+}